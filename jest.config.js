@@ -0,0 +1,11 @@
+/** @type {import("ts-jest").JestConfigWithTsJest} */
+module.exports = {
+  testEnvironment: "node",
+  roots: ["<rootDir>/src"],
+  testMatch: ["**/*.test.ts"],
+  transform: {
+    // Tests are type-checked by `tsc --noEmit` along with the sources; ts-jest only
+    // transpiles them, as its CommonJS type-check cannot resolve package subpath exports
+    "^.+\\.ts$": ["ts-jest", { tsconfig: { isolatedModules: true } }],
+  },
+};
@@ -0,0 +1,167 @@
+import { describe, expect, it } from "@jest/globals";
+import {
+  Command,
+  defineCommand,
+  findCommand,
+  formatCommandHelp,
+  parseOptions,
+  UsageError,
+} from "./args";
+import { testAddress } from "../testing/rpc";
+
+const MINT = testAddress(1);
+
+const options = {
+  mint: { type: "address", description: "Mint", required: true },
+  amount: { type: "bigint", description: "Raw amount" },
+  decimals: { type: "integer", description: "Decimals", default: "6" },
+  rate: { type: "number", description: "Rate" },
+  format: {
+    type: "string",
+    description: "Output format",
+    choices: ["text", "json"],
+    default: "text",
+  },
+  dryRun: { type: "boolean", description: "Only print" },
+} as const;
+
+// Parses the flags with a valid --mint in front
+const parse = (...argv: string[]) =>
+  parseOptions(options, ["--mint", MINT, ...argv]);
+
+// A command that is never run
+const command = (name: string): Command =>
+  defineCommand({
+    name,
+    description: `The ${name} command`,
+    options,
+    run: async () => {},
+  });
+
+describe("parseOptions", () => {
+  it("converts each flag to its declared type and applies defaults", () => {
+    expect(
+      parse("--amount", "18446744073709551616", "--rate", "0.5", "--dry-run"),
+    ).toEqual({
+      mint: MINT,
+      amount: 18446744073709551616n,
+      decimals: 6,
+      rate: 0.5,
+      format: "text",
+      dryRun: true,
+    });
+  });
+
+  it("leaves optional flags that are not given undefined", () => {
+    expect(parse()).toEqual({
+      mint: MINT,
+      amount: undefined,
+      decimals: 6,
+      rate: undefined,
+      format: "text",
+      dryRun: false,
+    });
+  });
+
+  it("rejects a missing required flag", () => {
+    expect(() => parseOptions(options, [])).toThrow(
+      new UsageError("Missing required flag --mint"),
+    );
+  });
+
+  it("rejects an invalid address", () => {
+    expect(() => parseOptions(options, ["--mint", "not-an-address"])).toThrow(
+      new UsageError('--mint must be a base58 address, got "not-an-address"'),
+    );
+  });
+
+  it.each(["-1", "1.5", "1e3", ""])("rejects %p as a bigint", (raw) => {
+    expect(() => parse(`--amount=${raw}`)).toThrow(
+      new UsageError("--amount must be a non-negative integer"),
+    );
+  });
+
+  it("accepts negative integers and rejects fractions", () => {
+    expect(parse("--decimals=-2").decimals).toBe(-2);
+    expect(() => parse("--decimals", "2.5")).toThrow(
+      new UsageError("--decimals must be an integer"),
+    );
+  });
+
+  it("rejects a number that is not finite", () => {
+    expect(() => parse("--rate", "Infinity")).toThrow(
+      new UsageError("--rate must be a number"),
+    );
+  });
+
+  it("accepts only the listed choices", () => {
+    expect(parse("--format", "json").format).toBe("json");
+    expect(() => parse("--format", "csv")).toThrow(
+      new UsageError('--format must be one of text, json, got "csv"'),
+    );
+  });
+
+  it("rejects unknown flags and positional arguments", () => {
+    expect(() => parse("--unknown", "1")).toThrow(UsageError);
+    expect(() => parse("--unknown", "1")).toThrow("Unknown option '--unknown'");
+    expect(() => parse("extra")).toThrow(UsageError);
+  });
+});
+
+describe("findCommand", () => {
+  const commands = [
+    command("create"),
+    command("scaled-ui set-multiplier"),
+    command("scaled-ui"),
+  ];
+
+  it("prefers the two-word command name", () => {
+    const match = findCommand(commands, [
+      "scaled-ui",
+      "set-multiplier",
+      "--mint",
+      MINT,
+    ]);
+
+    expect(match?.command.name).toBe("scaled-ui set-multiplier");
+    expect(match?.rest).toEqual(["--mint", MINT]);
+    expect(match?.help).toBe(false);
+  });
+
+  it("falls back to the one-word command name", () => {
+    const match = findCommand(commands, ["create", "--mint", MINT]);
+
+    expect(match?.command.name).toBe("create");
+    expect(match?.rest).toEqual(["--mint", MINT]);
+  });
+
+  it("notices --help and -h after the command name", () => {
+    expect(findCommand(commands, ["create", "--help"])?.help).toBe(true);
+    expect(
+      findCommand(commands, ["scaled-ui", "set-multiplier", "-h"])?.help,
+    ).toBe(true);
+  });
+
+  it("returns undefined for an unknown command", () => {
+    expect(findCommand(commands, ["destroy", "everything"])).toBeUndefined();
+  });
+});
+
+describe("formatCommandHelp", () => {
+  it("lists each flag with its placeholder, notes and --help", () => {
+    expect(formatCommandHelp(command("create")).split("\n")).toEqual([
+      "Usage: tem create [flags]",
+      "",
+      "The create command",
+      "",
+      "Flags:",
+      `  ${"--mint <address>".padEnd(32)} Mint (required)`,
+      `  ${"--amount <bigint>".padEnd(32)} Raw amount`,
+      `  ${"--decimals <integer>".padEnd(32)} Decimals (default: 6)`,
+      `  ${"--rate <number>".padEnd(32)} Rate`,
+      `  ${"--format <text|json>".padEnd(32)} Output format (default: text)`,
+      `  ${"--dry-run".padEnd(32)} Only print`,
+      `  ${"--help".padEnd(32)} Show this help`,
+    ]);
+  });
+});
@@ -0,0 +1,273 @@
+/**
+ * This module provides typed command-line flag parsing for the `tem` CLI.
+ * Flags are declared once per command and parsed into validated values.
+ */
+
+import { parseArgs } from "node:util";
+import { Address, isAddress, TransactionSigner } from "@solana/kit";
+import { NetworkProfile } from "../network/profile";
+import { SignerRole } from "../signer/registry";
+
+/**
+ * Error raised when the command line cannot be parsed or validated
+ */
+export class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UsageError";
+  }
+}
+
+export type OptionType =
+  | "address"
+  | "signer"
+  | "network"
+  | "string"
+  | "bigint"
+  | "integer"
+  | "number"
+  | "boolean";
+
+export interface OptionSpec {
+  type: OptionType;
+  description: string;
+  required?: boolean;
+  default?: string;
+  /** Accepted values for a string option */
+  choices?: readonly string[];
+  /** Role a signer option fills, checked against the signer profile (default "authority") */
+  role?: SignerRole;
+  /** Whether the command signs locally, so the signer option must hold a key */
+  signing?: boolean;
+}
+
+export type OptionSpecs = Record<string, OptionSpec>;
+
+type OptionValue<T extends OptionType> = T extends "address"
+  ? Address
+  : T extends "signer"
+    ? TransactionSigner<string>
+    : T extends "network"
+      ? NetworkProfile
+      : T extends "bigint"
+        ? bigint
+        : T extends "integer" | "number"
+          ? number
+          : T extends "boolean"
+            ? boolean
+            : string;
+
+/**
+ * Parsed option values keyed by option name. Options that are required, have a
+ * default or are boolean flags are always present.
+ */
+export type ParsedOptions<T extends OptionSpecs> = {
+  [K in keyof T]: T[K] extends { required: true } | { default: string }
+    ? OptionValue<T[K]["type"]>
+    : T[K] extends { type: "boolean" }
+      ? boolean
+      : OptionValue<T[K]["type"]> | undefined;
+};
+
+export interface Command<T extends OptionSpecs = OptionSpecs> {
+  name: string;
+  description: string;
+  options: T;
+  run(options: ParsedOptions<T>): Promise<void>;
+}
+
+/**
+ * Declares a command while preserving the literal option types for `run`
+ * @param command Command definition
+ * @returns The same command definition
+ */
+export const defineCommand = <const T extends OptionSpecs>(
+  command: Command<T>,
+): Command<T> => command;
+
+/**
+ * Converts an option name to its flag form, e.g. `newAuthority` -> `new-authority`
+ */
+export const toFlagName = (name: string) =>
+  name.replace(/[A-Z]/g, (c) => `-${c.toLowerCase()}`);
+
+/**
+ * Splits a comma-separated list of addresses given to a string flag
+ * @param flag Flag name used in error messages
+ * @param value Raw flag value, e.g. `addr1,addr2`
+ * @returns Addresses in the given order
+ */
+export const parseAddressList = (flag: string, value: string) =>
+  value
+    .split(",")
+    .map((item) => item.trim())
+    .filter((item) => item !== "")
+    .map((item) => {
+      if (!isAddress(item)) {
+        throw new UsageError(
+          `--${flag} must be a comma-separated list of base58 addresses, got "${item}"`,
+        );
+      }
+      return item;
+    });
+
+/**
+ * Converts a raw flag value to the declared option type
+ * @param flag Flag name used in error messages
+ * @param spec Option specification
+ * @param raw Raw string value from the command line
+ * @returns Typed option value
+ */
+const convertValue = (flag: string, spec: OptionSpec, raw: string) => {
+  switch (spec.type) {
+    case "address":
+      if (!isAddress(raw)) {
+        throw new UsageError(
+          `--${flag} must be a base58 address, got "${raw}"`,
+        );
+      }
+      return raw;
+    case "signer":
+      // Resolved to a signer by resolveSignerOptions once every flag is valid
+      if (raw.trim() === "") {
+        throw new UsageError(
+          `--${flag} must be an address or a signer profile name`,
+        );
+      }
+      return raw;
+    case "network":
+      // Resolved to a profile by resolveNetworkOptions
+      return raw;
+    case "bigint":
+      if (!/^\d+$/.test(raw)) {
+        throw new UsageError(`--${flag} must be a non-negative integer`);
+      }
+      return BigInt(raw);
+    case "integer":
+      if (!/^-?\d+$/.test(raw)) {
+        throw new UsageError(`--${flag} must be an integer`);
+      }
+      return Number(raw);
+    case "number": {
+      const value = Number(raw);
+      if (raw.trim() === "" || !Number.isFinite(value)) {
+        throw new UsageError(`--${flag} must be a number`);
+      }
+      return value;
+    }
+    default:
+      if (spec.choices && !spec.choices.includes(raw)) {
+        throw new UsageError(
+          `--${flag} must be one of ${spec.choices.join(", ")}, got "${raw}"`,
+        );
+      }
+      return raw;
+  }
+};
+
+/**
+ * Parses and validates the flags for a command. Network and signer flags are left as
+ * given and must be passed through resolveNetworkOptions and resolveSignerOptions
+ * before the command runs.
+ * @param options Option specifications for the command
+ * @param argv Arguments following the command name
+ * @returns Typed option values
+ */
+export const parseOptions = <T extends OptionSpecs>(
+  options: T,
+  argv: string[],
+): ParsedOptions<T> => {
+  const config: Record<string, { type: "string" | "boolean" }> = {};
+  for (const [name, spec] of Object.entries(options)) {
+    config[toFlagName(name)] = {
+      type: spec.type === "boolean" ? "boolean" : "string",
+    };
+  }
+
+  let values: Record<string, string | boolean | undefined>;
+  try {
+    ({ values } = parseArgs({
+      args: argv,
+      options: config,
+      allowPositionals: false,
+      strict: true,
+    }) as { values: Record<string, string | boolean | undefined> });
+  } catch (error: any) {
+    throw new UsageError(error.message);
+  }
+
+  const parsed: Record<string, unknown> = {};
+  for (const [name, spec] of Object.entries(options)) {
+    const flag = toFlagName(name);
+    const raw = values[flag] ?? spec.default;
+    if (spec.type === "boolean") {
+      parsed[name] = raw === true || raw === "true";
+      continue;
+    }
+    if (raw === undefined) {
+      if (spec.required) {
+        throw new UsageError(`Missing required flag --${flag}`);
+      }
+      parsed[name] = undefined;
+      continue;
+    }
+    parsed[name] = convertValue(flag, spec, raw as string);
+  }
+  return parsed as ParsedOptions<T>;
+};
+
+/**
+ * Resolves the command named by the leading arguments. Commands may be nested
+ * one level deep, e.g. `scaled-ui set-multiplier`.
+ * @param commands Commands to choose from
+ * @param argv Command-line arguments without the node binary and script path
+ * @returns The matching command, the remaining arguments and whether they ask for
+ * help, or undefined when no command matches
+ */
+export const findCommand = (commands: Command[], argv: string[]) => {
+  for (const length of [2, 1]) {
+    const name = argv.slice(0, length).join(" ");
+    const command = commands.find((c) => c.name === name);
+    if (command) {
+      const rest = argv.slice(length);
+      return {
+        command,
+        rest,
+        help: rest.includes("--help") || rest.includes("-h"),
+      };
+    }
+  }
+  return undefined;
+};
+
+/**
+ * Formats the help text for a single command
+ * @param command Command to describe
+ * @returns Help text
+ */
+export const formatCommandHelp = (command: Command) => {
+  const lines = [
+    `Usage: tem ${command.name} [flags]`,
+    "",
+    command.description,
+    "",
+  ];
+  lines.push("Flags:");
+  for (const [name, spec] of Object.entries(command.options)) {
+    const flag = `--${toFlagName(name)}`;
+    const placeholder =
+      spec.type === "boolean"
+        ? ""
+        : ` <${spec.choices ? spec.choices.join("|") : spec.type}>`;
+    const notes = [
+      spec.required ? "required" : undefined,
+      spec.default !== undefined ? `default: ${spec.default}` : undefined,
+    ].filter(Boolean);
+    const suffix = notes.length > 0 ? ` (${notes.join(", ")})` : "";
+    lines.push(
+      `  ${(flag + placeholder).padEnd(32)} ${spec.description}${suffix}`,
+    );
+  }
+  lines.push(`  ${"--help".padEnd(32)} Show this help`);
+  return lines.join("\n");
+};
@@ -0,0 +1,124 @@
+import { writeFile } from "node:fs/promises";
+import { defineCommand } from "../args";
+import { connectionOptions, getClient } from "../connection";
+import { outputOptions, writeTransactions } from "../output";
+import {
+  loadDistributionCsv,
+  prepareBatchMint,
+  recordExecutedBatch,
+  writeResumeState,
+} from "../../token/batchMint";
+
+export const planAirdropCommand = defineCommand({
+  name: "airdrop plan",
+  description:
+    "Pack a destination,amount CSV into mint transactions, skipping batches already executed",
+  options: {
+    ...connectionOptions,
+    ...outputOptions,
+    csv: {
+      type: "string",
+      description: "CSV file with one destination,amount row per wallet",
+      required: true,
+    },
+    mint: {
+      type: "address",
+      description: "Token mint address",
+      required: true,
+    },
+    payer: {
+      type: "signer",
+      role: "payer",
+      description: "Fee payer address, also pays for new token accounts",
+      required: true,
+    },
+    authority: {
+      type: "signer",
+      role: "authority",
+      description: "Mint authority address or signer profile",
+      required: true,
+    },
+    manifest: {
+      type: "string",
+      description:
+        "Manifest file mapping rows to batches (defaults to <csv>.manifest.json)",
+    },
+    resume: {
+      type: "string",
+      description:
+        "Resume file recording executed batches (defaults to <csv>.resume.json)",
+    },
+  },
+  async run(options) {
+    // Validate the CSV before connecting to the network
+    const rows = await loadDistributionCsv(options.csv);
+    const manifestPath = options.manifest ?? `${options.csv}.manifest.json`;
+    const resumePath = options.resume ?? `${options.csv}.resume.json`;
+
+    const { rpc } = getClient(options.url);
+    const { manifest, state, transactions } = await prepareBatchMint({
+      rpc,
+      mint: options.mint,
+      payer: options.payer,
+      authority: options.authority,
+      rows,
+      resumePath,
+    });
+
+    await writeFile(manifestPath, `${JSON.stringify(manifest, null, 2)}\n`);
+    await writeResumeState(resumePath, state);
+
+    const executed = Object.keys(state.executed).length;
+    console.error(
+      `${rows.length} rows (${manifest.totalAmount} raw tokens) in ${manifest.batches.length} batch(es); ` +
+        `${executed} already executed. Manifest: ${manifestPath}, resume file: ${resumePath}`,
+    );
+    transactions.forEach((t, i) =>
+      console.error(`  transaction ${i + 1}: batch ${t.batch}`),
+    );
+    if (transactions.length > 0) {
+      await writeTransactions(
+        options,
+        transactions.map((t) => t.transaction),
+      );
+    }
+  },
+});
+
+export const recordAirdropCommand = defineCommand({
+  name: "airdrop record",
+  description:
+    "Record a batch as executed in the resume file after checking its signature",
+  options: {
+    ...connectionOptions,
+    resume: {
+      type: "string",
+      description: "Resume file written by `airdrop plan`",
+      required: true,
+    },
+    batch: {
+      type: "integer",
+      description: "Index of the executed batch",
+      required: true,
+    },
+    signature: {
+      type: "string",
+      description: "Signature of the transaction that executed the batch",
+      required: true,
+    },
+  },
+  async run(options) {
+    const { rpc } = getClient(options.url);
+
+    const state = await recordExecutedBatch({
+      rpc,
+      path: options.resume,
+      batch: options.batch,
+      signature: options.signature,
+    });
+
+    console.log(
+      `Recorded batch ${options.batch}; ${Object.keys(state.executed).length} of ${state.batchCount} batch(es) executed`,
+    );
+  },
+});
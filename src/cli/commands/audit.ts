@@ -0,0 +1,59 @@
+import { defineCommand } from "../args";
+import { connectionOptions, getClient } from "../connection";
+import { outputOptions, writeTransactions } from "../output";
+import { getTransactionOptions, transactionOptions } from "../transaction";
+import {
+  auditAuthorityPolicy,
+  formatAuthorityDrift,
+  getAuthorityFixTransactions,
+  loadAuthorityPolicy,
+} from "../../token/authorityPolicy";
+
+export const auditCommand = defineCommand({
+  name: "audit",
+  description:
+    "Compare on-chain authorities with a policy file; exits non-zero on drift",
+  options: {
+    ...connectionOptions,
+    ...outputOptions,
+    ...transactionOptions,
+    policy: {
+      type: "string",
+      description: "Path to the JSON or YAML authority policy",
+      required: true,
+    },
+    payer: {
+      type: "signer",
+      role: "payer",
+      description:
+        "Fee payer address; when set, prints the transactions that fix the drift",
+    },
+  },
+  async run(options) {
+    const policy = await loadAuthorityPolicy(options.policy);
+    const { rpc } = getClient(options.url);
+
+    const drifts = await auditAuthorityPolicy(rpc, policy);
+    const mintCount = Object.keys(policy.mints).length;
+    if (drifts.length === 0) {
+      console.error(`All ${mintCount} mint(s) match the policy`);
+      return;
+    }
+
+    console.error(`Found ${drifts.length} authority mismatch(es):`);
+    for (const drift of drifts) {
+      console.error(`  - ${formatAuthorityDrift(drift)}`);
+    }
+    process.exitCode = 1;
+
+    if (options.payer) {
+      const txs = await getAuthorityFixTransactions(
+        { rpc, payer: options.payer, drifts },
+        await getTransactionOptions(rpc, options),
+      );
+      if (txs.length > 0) {
+        await writeTransactions(options, txs);
+      }
+    }
+  },
+});
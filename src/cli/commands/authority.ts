@@ -0,0 +1,58 @@
+import { defineCommand } from "../args";
+import { connectionOptions, getClient } from "../connection";
+import { getTransactionOptions, transactionOptions } from "../transaction";
+import { outputOptions, writeTransactions } from "../output";
+import { updateAuthority } from "../../token/updateAuthority";
+
+export const setAuthorityCommand = defineCommand({
+  name: "set-authority",
+  description: "Change the holder of an authority role on a mint",
+  options: {
+    ...connectionOptions,
+    ...outputOptions,
+    ...transactionOptions,
+    mint: {
+      type: "address",
+      description: "Token mint address",
+      required: true,
+    },
+    role: {
+      type: "string",
+      description:
+        "Authority role, e.g. MintTokens, Pause, ScaledUiAmount, Metadata",
+      required: true,
+    },
+    payer: {
+      type: "signer",
+      role: "payer",
+      description: "Fee payer address or signer profile",
+      required: true,
+    },
+    currentAuthority: {
+      type: "signer",
+      role: "authority",
+      description: "Address that currently holds the role",
+      required: true,
+    },
+    newAuthority: {
+      type: "address",
+      description: "Address that will hold the role",
+      required: true,
+    },
+  },
+  async run(options) {
+    const { rpc } = getClient(options.url);
+
+    const tx = await updateAuthority({
+      rpc,
+      mint: options.mint,
+      role: options.role,
+      payer: options.payer,
+      currentAuthority: options.currentAuthority,
+      newAuthority: options.newAuthority,
+      ...(await getTransactionOptions(rpc, options)),
+    });
+
+    await writeTransactions(options, [tx]);
+  },
+});
@@ -0,0 +1,41 @@
+import { defineCommand } from "../args";
+import { loadMintSpec, MINT_SPEC_ROLES } from "../../token/mintSpec";
+
+export const checkSpecCommand = defineCommand({
+  name: "spec check",
+  description: "Validate a mint spec file and print the resolved configuration",
+  options: {
+    file: {
+      type: "string",
+      description: "Path to the JSON or YAML mint spec",
+      required: true,
+    },
+  },
+  async run(options) {
+    const spec = await loadMintSpec(options.file);
+
+    console.log(`Decimals: ${spec.decimals}`);
+    if (spec.metadata) {
+      console.log(
+        `Metadata: ${spec.metadata.name} (${spec.metadata.symbol}) ${spec.metadata.uri}`,
+      );
+      for (const [key, value] of Object.entries(
+        spec.metadata.additionalMetadata,
+      )) {
+        console.log(`  ${key}: ${value}`);
+      }
+    }
+    console.log("Extensions:");
+    for (const [name, config] of Object.entries(spec.extensions)) {
+      console.log(
+        `  ${name} ${JSON.stringify(config, (_, v) => (typeof v === "bigint" ? v.toString() : v))}`,
+      );
+    }
+    console.log("Authorities:");
+    for (const role of MINT_SPEC_ROLES) {
+      if (spec.authorities[role] !== undefined) {
+        console.log(`  ${role.padEnd(26)} ${spec.authorities[role] ?? "none"}`);
+      }
+    }
+  },
+});
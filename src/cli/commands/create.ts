@@ -0,0 +1,101 @@
+import { sendAndConfirmDurableNonceTransactionFactory } from "@solana/kit";
+import { defineCommand, UsageError } from "../args";
+import {
+  confirmationOptions,
+  confirmMainnet,
+  connectionOptions,
+  getClient,
+} from "../connection";
+import { getLocalPayer, localPayerOptions } from "../signers";
+import { getTransactionOptions, transactionOptions } from "../transaction";
+import {
+  createMintFromSpec,
+  createMintFromSpecWithNonce,
+} from "../../token/create";
+import { getBackedMintSpec, loadMintSpec } from "../../token/mintSpec";
+
+export const createCommand = defineCommand({
+  name: "create",
+  description:
+    "Create a Token-2022 mint with metadata and extensions, signed by a local keypair or signer profile",
+  options: {
+    ...connectionOptions,
+    ...confirmationOptions,
+    ...transactionOptions,
+    ...localPayerOptions,
+    spec: {
+      type: "string",
+      description:
+        "JSON or YAML mint spec listing extensions and authorities (replaces the flags below)",
+    },
+    authority: {
+      type: "signer",
+      role: "authority",
+      description:
+        "Authority for the mint and its extensions, as an address or signer profile (defaults to the payer)",
+    },
+    name: { type: "string", description: "Token name" },
+    symbol: { type: "string", description: "Token symbol" },
+    uri: { type: "string", description: "Token metadata URI" },
+    decimals: {
+      type: "integer",
+      description: "Number of decimal places",
+      default: "6",
+    },
+  },
+  async run(options) {
+    // Validate the spec before connecting to the network
+    const spec = options.spec ? await loadMintSpec(options.spec) : undefined;
+    if (!spec && (!options.name || !options.symbol || !options.uri)) {
+      throw new UsageError(
+        "Provide --spec or all of --name, --symbol and --uri",
+      );
+    }
+
+    const { rpc, rpcSubscriptions, sendAndConfirmTransaction } = getClient(
+      options.url,
+    );
+    const payer = await getLocalPayer(options);
+    const mintSpec =
+      spec ??
+      getBackedMintSpec(
+        options.authority?.address ?? payer.address,
+        options.decimals,
+        {
+          name: options.name!,
+          symbol: options.symbol!,
+          uri: options.uri!,
+        },
+      );
+
+    const { durableNonce, ...messageOptions } = await getTransactionOptions(
+      rpc,
+      options,
+    );
+    await confirmMainnet(options, rpc, [
+      `Create mint ${mintSpec.metadata ? `"${mintSpec.metadata.name}" (${mintSpec.metadata.symbol}) ` : ""}with ${mintSpec.decimals} decimals, paid by ${payer.address}`,
+    ]);
+    const result = durableNonce
+      ? await createMintFromSpecWithNonce(
+          rpc,
+          mintSpec,
+          payer,
+          durableNonce,
+          sendAndConfirmDurableNonceTransactionFactory({
+            rpc,
+            rpcSubscriptions,
+          }),
+          messageOptions,
+        )
+      : await createMintFromSpec(
+          rpc,
+          mintSpec,
+          payer,
+          sendAndConfirmTransaction,
+          messageOptions,
+        );
+
+    console.log(`Mint: ${result.mint}`);
+    console.log(result.signature);
+  },
+});
@@ -0,0 +1,99 @@
+import { readFile } from "node:fs/promises";
+import { defineCommand, UsageError } from "../args";
+import { connectionOptions, getClient } from "../connection";
+import {
+  decodeTransactionText,
+  explainTransaction,
+  formatTransactionExplanation,
+  TransactionExplanation,
+} from "../../token/explain";
+import { TransactionEnvelope } from "../../output/encoders";
+
+/**
+ * Reads the transactions in a file written by another command: one encoded
+ * transaction per line, or the JSON envelopes of `--format json`
+ * @param path Path to the file
+ * @returns Encoded transactions
+ */
+const readTransactions = async (path: string) => {
+  const content = (await readFile(path, "utf8")).trim();
+  if (content.startsWith("{") || content.startsWith("[")) {
+    const parsed = JSON.parse(content) as
+      TransactionEnvelope | TransactionEnvelope[];
+    return (Array.isArray(parsed) ? parsed : [parsed]).map((e) => e.message);
+  }
+  return content
+    .split("\n")
+    .map((line) => line.trim())
+    .filter((line) => line !== "" && !line.startsWith("#"));
+};
+
+export const explainCommand = defineCommand({
+  name: "explain",
+  description:
+    "Describe every instruction of a transaction in plain language before approving it",
+  options: {
+    ...connectionOptions,
+    transaction: {
+      type: "string",
+      description:
+        "Base58 or base64 transaction message or wire transaction, as printed by another command",
+    },
+    file: {
+      type: "string",
+      description:
+        "File with one transaction per line, or the JSON written with --format json",
+    },
+    format: {
+      type: "string",
+      description: "Report format",
+      choices: ["table", "json"],
+      default: "table",
+    },
+  },
+  async run(options) {
+    if ((options.transaction === undefined) === (options.file === undefined)) {
+      throw new UsageError("Pass either --transaction or --file");
+    }
+    const transactions = options.file
+      ? await readTransactions(options.file)
+      : [options.transaction!];
+    if (transactions.length === 0) {
+      throw new UsageError(`${options.file} contains no transactions`);
+    }
+
+    transactions.forEach((transaction, i) => {
+      try {
+        decodeTransactionText(transaction);
+      } catch (error: any) {
+        throw new UsageError(`Transaction ${i + 1}: ${error.message}`);
+      }
+    });
+
+    const { rpc } = getClient(options.url);
+    const explanations: TransactionExplanation[] = [];
+    for (const transaction of transactions) {
+      explanations.push(await explainTransaction(rpc, transaction));
+    }
+
+    if (options.format === "json") {
+      console.log(
+        JSON.stringify(
+          explanations.length === 1 ? explanations[0] : explanations,
+          null,
+          2,
+        ),
+      );
+      return;
+    }
+    console.log(
+      explanations
+        .map((explanation, i) =>
+          explanations.length === 1
+            ? formatTransactionExplanation(explanation)
+            : `Transaction ${i + 1}\n${formatTransactionExplanation(explanation)}`,
+        )
+        .join("\n\n"),
+    );
+  },
+});
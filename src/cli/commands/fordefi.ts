@@ -0,0 +1,67 @@
+import { loadKeypairSignerFromFile } from "gill/node";
+import { defineCommand, UsageError } from "../args";
+import { FordefiSimulator } from "../../fordefi/simulator";
+
+export const simulateFordefiCommand = defineCommand({
+  name: "fordefi simulate",
+  description:
+    "Run a local Fordefi API stand-in that signs with a local keypair, for development",
+  options: {
+    port: {
+      type: "integer",
+      description: "Port to listen on",
+      default: "8787",
+    },
+    keypair: {
+      type: "string",
+      description:
+        "Keypair file standing in for the vault key (defaults to the Solana CLI keypair)",
+    },
+    vaultId: {
+      type: "string",
+      description: "Vault ID accepted in transaction requests",
+      default: "simulated-vault",
+    },
+    approval: {
+      type: "string",
+      description:
+        "auto signs every transaction; manual waits for POST /simulator/transactions/<id>/approve",
+      choices: ["auto", "manual"],
+      default: "auto",
+    },
+    stepDelay: {
+      type: "integer",
+      description: "Delay between state transitions in milliseconds",
+      default: "0",
+    },
+  },
+  async run(options) {
+    const apiKey = process.env.FORDEFI_API_KEY;
+    const apiSecret = process.env.FORDEFI_API_SECRET;
+    if (!apiKey || !apiSecret) {
+      throw new UsageError(
+        "Set FORDEFI_API_KEY and FORDEFI_API_SECRET to the credentials clients will use",
+      );
+    }
+
+    const signer = await loadKeypairSignerFromFile(options.keypair);
+    const simulator = new FordefiSimulator({
+      apiKey,
+      apiSecret,
+      signer,
+      vaultId: options.vaultId,
+      approval: options.approval as "auto" | "manual",
+      stepDelay: options.stepDelay,
+    });
+    const url = await simulator.start(options.port);
+
+    console.error(`Fordefi simulator listening on ${url}`);
+    console.error(`Vault ${options.vaultId}: ${signer.address}`);
+    console.error(`Point clients at it with FORDEFI_API_URL=${url}`);
+    await new Promise<void>((resolve) => {
+      process.once("SIGINT", resolve);
+      process.once("SIGTERM", resolve);
+    });
+    await simulator.stop();
+  },
+});
@@ -0,0 +1,121 @@
+import { Address } from "@solana/kit";
+import { defineCommand, UsageError } from "../args";
+import { connectionOptions, getClient } from "../connection";
+import { outputOptions, writeTransactions } from "../output";
+import {
+  FREEZE_BATCH_SIZE,
+  loadWalletList,
+  setWalletsFrozen,
+} from "../../token/freeze";
+
+const freezeOptions = {
+  ...connectionOptions,
+  ...outputOptions,
+  mint: { type: "address", description: "Token mint address", required: true },
+  payer: {
+    type: "signer",
+    role: "payer",
+    description: "Fee payer address or signer profile",
+    required: true,
+  },
+  authority: {
+    type: "signer",
+    role: "authority",
+    description: "Freeze authority address or signer profile",
+    required: true,
+  },
+  wallet: {
+    type: "address",
+    description: "Wallet whose associated token account is updated",
+  },
+  wallets: {
+    type: "string",
+    description: "File with one wallet address per line (bulk mode)",
+  },
+  batchSize: {
+    type: "integer",
+    description: "Token accounts per transaction in bulk mode",
+    default: String(FREEZE_BATCH_SIZE),
+  },
+} as const;
+
+/**
+ * Resolves the wallets selected by `--wallet` or `--wallets`
+ * @param options Parsed flags
+ * @returns Wallet addresses
+ */
+const getWallets = async (options: {
+  wallet: Address | undefined;
+  wallets: string | undefined;
+}) => {
+  if ((options.wallet === undefined) === (options.wallets === undefined)) {
+    throw new UsageError("Provide exactly one of --wallet and --wallets");
+  }
+  return options.wallet ? [options.wallet] : loadWalletList(options.wallets!);
+};
+
+export const freezeCommand = defineCommand({
+  name: "freeze",
+  description:
+    "Freeze the token accounts of one or more wallets, recording the reason in a memo",
+  options: {
+    ...freezeOptions,
+    reason: {
+      type: "string",
+      description: "Reason for the freeze, written to a memo instruction",
+      required: true,
+    },
+  },
+  async run(options) {
+    if (options.batchSize < 1) {
+      throw new UsageError("--batch-size must be at least 1");
+    }
+    const wallets = await getWallets(options);
+    const { rpc } = getClient(options.url);
+
+    const txs = await setWalletsFrozen({
+      rpc,
+      mint: options.mint,
+      payer: options.payer,
+      authority: options.authority,
+      wallets,
+      frozen: true,
+      reason: options.reason,
+      batchSize: options.batchSize,
+    });
+
+    await writeTransactions(options, txs);
+  },
+});
+
+export const thawCommand = defineCommand({
+  name: "thaw",
+  description: "Thaw the frozen token accounts of one or more wallets",
+  options: {
+    ...freezeOptions,
+    reason: {
+      type: "string",
+      description: "Reason for the thaw, written to a memo instruction",
+    },
+  },
+  async run(options) {
+    if (options.batchSize < 1) {
+      throw new UsageError("--batch-size must be at least 1");
+    }
+    const wallets = await getWallets(options);
+    const { rpc } = getClient(options.url);
+
+    const txs = await setWalletsFrozen({
+      rpc,
+      mint: options.mint,
+      payer: options.payer,
+      authority: options.authority,
+      wallets,
+      frozen: false,
+      reason: options.reason,
+      batchSize: options.batchSize,
+    });
+
+    await writeTransactions(options, txs);
+  },
+});
@@ -0,0 +1,220 @@
+import { defineCommand } from "../args";
+import {
+  confirmationOptions,
+  confirmMainnet,
+  connectionOptions,
+  getClient,
+} from "../connection";
+import { outputOptions, writeTransactions } from "../output";
+import { getLocalPayer, localPayerOptions } from "../signers";
+import { createMintFromSpec } from "../../token/create";
+import {
+  addGroupMember,
+  getGroupMemberMintSpec,
+  getGroupMintSpec,
+  listGroupMembers,
+  updateGroupMaxSize,
+} from "../../token/group";
+import { readMintSpecDocument } from "../../token/mintSpec";
+
+export const createGroupCommand = defineCommand({
+  name: "group create",
+  description:
+    "Create a group mint from a mint spec, signed by a local keypair or signer profile",
+  options: {
+    ...connectionOptions,
+    ...confirmationOptions,
+    ...localPayerOptions,
+    spec: {
+      type: "string",
+      description: "JSON or YAML mint spec used as the template for the group",
+      required: true,
+    },
+    maxSize: {
+      type: "bigint",
+      description: "Maximum number of members in the group",
+      required: true,
+    },
+  },
+  async run(options) {
+    const spec = getGroupMintSpec(
+      await readMintSpecDocument(options.spec),
+      options.maxSize,
+    );
+
+    const { rpc, sendAndConfirmTransaction } = getClient(options.url);
+    const payer = await getLocalPayer(options);
+    await confirmMainnet(options, rpc, [
+      `Create group mint with at most ${options.maxSize} members, paid by ${payer.address}`,
+    ]);
+
+    const result = await createMintFromSpec(
+      rpc,
+      spec,
+      payer,
+      sendAndConfirmTransaction,
+    );
+
+    console.log(`Mint: ${result.mint}`);
+    console.log(result.signature);
+  },
+});
+
+export const createGroupMemberCommand = defineCommand({
+  name: "group create-member",
+  description:
+    "Create a mint that can join a group, signed by a local keypair or signer profile (join it with `group add-member`)",
+  options: {
+    ...connectionOptions,
+    ...confirmationOptions,
+    ...localPayerOptions,
+    spec: {
+      type: "string",
+      description: "JSON or YAML mint spec used as the template for the member",
+      required: true,
+    },
+    group: {
+      type: "address",
+      description: "Group mint address",
+      required: true,
+    },
+  },
+  async run(options) {
+    const spec = getGroupMemberMintSpec(
+      await readMintSpecDocument(options.spec),
+      options.group,
+    );
+
+    const { rpc, sendAndConfirmTransaction } = getClient(options.url);
+    const payer = await getLocalPayer(options);
+    await confirmMainnet(options, rpc, [
+      `Create member mint for group ${options.group}, paid by ${payer.address}`,
+    ]);
+
+    const result = await createMintFromSpec(
+      rpc,
+      spec,
+      payer,
+      sendAndConfirmTransaction,
+    );
+
+    console.log(`Mint: ${result.mint}`);
+    console.log(result.signature);
+  },
+});
+
+export const addGroupMemberCommand = defineCommand({
+  name: "group add-member",
+  description: "Add a member mint to a group",
+  options: {
+    ...connectionOptions,
+    ...outputOptions,
+    group: {
+      type: "address",
+      description: "Group mint address",
+      required: true,
+    },
+    member: {
+      type: "address",
+      description: "Member mint address",
+      required: true,
+    },
+    payer: {
+      type: "signer",
+      role: "payer",
+      description: "Fee payer address or signer profile",
+      required: true,
+    },
+    memberAuthority: {
+      type: "signer",
+      role: "authority",
+      description: "Mint authority of the member mint",
+      required: true,
+    },
+    groupAuthority: {
+      type: "signer",
+      role: "authority",
+      description: "Update authority of the group",
+      required: true,
+    },
+  },
+  async run(options) {
+    const { rpc } = getClient(options.url);
+
+    const tx = await addGroupMember({
+      rpc,
+      group: options.group,
+      member: options.member,
+      payer: options.payer,
+      memberMintAuthority: options.memberAuthority,
+      groupUpdateAuthority: options.groupAuthority,
+    });
+
+    await writeTransactions(options, [tx]);
+  },
+});
+
+export const setGroupMaxSizeCommand = defineCommand({
+  name: "group set-max-size",
+  description: "Change the maximum number of members of a group",
+  options: {
+    ...connectionOptions,
+    ...outputOptions,
+    group: {
+      type: "address",
+      description: "Group mint address",
+      required: true,
+    },
+    payer: {
+      type: "signer",
+      role: "payer",
+      description: "Fee payer address or signer profile",
+      required: true,
+    },
+    authority: {
+      type: "signer",
+      role: "authority",
+      description: "Update authority of the group",
+      required: true,
+    },
+    maxSize: {
+      type: "bigint",
+      description: "New maximum number of members",
+      required: true,
+    },
+  },
+  async run(options) {
+    const { rpc } = getClient(options.url);
+
+    const tx = await updateGroupMaxSize({
+      rpc,
+      group: options.group,
+      payer: options.payer,
+      updateAuthority: options.authority,
+      maxSize: options.maxSize,
+    });
+
+    await writeTransactions(options, [tx]);
+  },
+});
+
+export const listGroupMembersCommand = defineCommand({
+  name: "group list",
+  description: "List the member mints of a group",
+  options: {
+    ...connectionOptions,
+    group: {
+      type: "address",
+      description: "Group mint address",
+      required: true,
+    },
+  },
+  async run(options) {
+    const { rpc } = getClient(options.url);
+
+    const members = await listGroupMembers(rpc, options.group);
+
+    console.error(`Found ${members.length} member(s)`);
+    members.forEach((m) => console.log(`${m.memberNumber} ${m.mint}`));
+  },
+});
@@ -0,0 +1,44 @@
+import { writeFile } from "node:fs/promises";
+import { defineCommand } from "../args";
+import { connectionOptions, getClient } from "../connection";
+import { formatMintReport, inspectMint } from "../../token/inspect";
+
+export const inspectCommand = defineCommand({
+  name: "inspect",
+  description:
+    "Decode a mint and all of its extensions: authorities, pause state, multipliers, metadata",
+  options: {
+    ...connectionOptions,
+    mint: {
+      type: "address",
+      description: "Token mint address",
+      required: true,
+    },
+    format: {
+      type: "string",
+      description: "Report format",
+      choices: ["table", "json"],
+      default: "table",
+    },
+    out: {
+      type: "string",
+      description: "Write the report to a file instead of stdout",
+    },
+  },
+  async run(options) {
+    const { rpc } = getClient(options.url);
+
+    const report = await inspectMint(rpc, options.mint);
+    const output =
+      options.format === "json"
+        ? JSON.stringify(report, null, 2)
+        : formatMintReport(report);
+
+    if (options.out) {
+      await writeFile(options.out, `${output}\n`);
+      console.error(`Wrote the report to ${options.out}`);
+    } else {
+      console.log(output);
+    }
+  },
+});
@@ -0,0 +1,125 @@
+import { defineCommand, UsageError } from "../args";
+import { connectionOptions, getClient } from "../connection";
+import { outputOptions, writeTransactions } from "../output";
+import {
+  calculateInterestBearingUiAmount,
+  fetchInterestRateHistory,
+  projectInterestRateUpdate,
+  updateInterestRate,
+} from "../../token/interestBearing";
+
+export const setInterestRateCommand = defineCommand({
+  name: "interest set-rate",
+  description: "Change the interest rate of an interest-bearing mint",
+  options: {
+    ...connectionOptions,
+    ...outputOptions,
+    mint: {
+      type: "address",
+      description: "Token mint address",
+      required: true,
+    },
+    payer: {
+      type: "signer",
+      role: "payer",
+      description: "Fee payer address or signer profile",
+      required: true,
+    },
+    authority: {
+      type: "signer",
+      role: "authority",
+      description: "Interest rate authority address or signer profile",
+      required: true,
+    },
+    rate: {
+      type: "integer",
+      description: "New annual interest rate in basis points (100 = 1%)",
+      required: true,
+    },
+  },
+  async run(options) {
+    const { rpc } = getClient(options.url);
+
+    const tx = await updateInterestRate({
+      rpc,
+      mint: options.mint,
+      payer: options.payer,
+      authority: options.authority,
+      rate: options.rate,
+    });
+
+    await writeTransactions(options, [tx]);
+  },
+});
+
+export const previewInterestCommand = defineCommand({
+  name: "interest preview",
+  description:
+    "Show the UI amount wallets will display for a raw amount, optionally after a rate change",
+  options: {
+    ...connectionOptions,
+    mint: {
+      type: "address",
+      description: "Token mint address",
+      required: true,
+    },
+    amount: {
+      type: "bigint",
+      description: "Raw token amount",
+      required: true,
+    },
+    at: {
+      type: "bigint",
+      description:
+        "Unix timestamp at which to evaluate the amount (defaults to now)",
+    },
+    newRate: {
+      type: "integer",
+      description: "Proposed annual interest rate in basis points",
+    },
+    updateAt: {
+      type: "bigint",
+      description:
+        "Unix timestamp at which the proposed rate takes effect (defaults to now)",
+    },
+  },
+  async run(options) {
+    if (options.updateAt !== undefined && options.newRate === undefined) {
+      throw new UsageError("--update-at requires --new-rate");
+    }
+    const now = BigInt(Math.floor(Date.now() / 1000));
+    const at = options.at ?? now;
+    const updateAt = options.updateAt ?? now;
+    if (options.newRate !== undefined && at < updateAt) {
+      throw new UsageError("--at must not be before --update-at");
+    }
+
+    const { rpc } = getClient(options.url);
+    const { decimals, history } = await fetchInterestRateHistory(
+      rpc,
+      options.mint,
+    );
+
+    console.log(`Decimals: ${decimals}`);
+    console.log(`Initialized at: ${history.initializationTimestamp}`);
+    console.log(`Last rate update at: ${history.lastUpdateTimestamp}`);
+    console.log(
+      `Average rate before last update: ${history.preUpdateAverageRate} bps`,
+    );
+    console.log(`Current rate: ${history.currentRate} bps`);
+    console.log(
+      `UI amount at ${at}: ${calculateInterestBearingUiAmount(options.amount, decimals, history, at)}`,
+    );
+
+    if (options.newRate !== undefined) {
+      const projected = projectInterestRateUpdate(
+        history,
+        options.newRate,
+        updateAt,
+      );
+      console.log(
+        `With ${options.newRate} bps from ${updateAt}: ${calculateInterestBearingUiAmount(options.amount, decimals, projected, at)}`,
+      );
+    }
+  },
+});
@@ -0,0 +1,170 @@
+import { defineCommand, parseAddressList } from "../args";
+import { connectionOptions, getClient } from "../connection";
+import { outputOptions, writeTransactions } from "../output";
+import { getTransactionOptions, transactionOptions } from "../transaction";
+import {
+  createLookupTable,
+  deactivateLookupTable,
+  extendLookupTable,
+  fetchLookupTableAddresses,
+  getCommonLookupTableAddresses,
+} from "../../token/lookupTable";
+
+const tableOptions = {
+  ...connectionOptions,
+  ...outputOptions,
+  payer: {
+    type: "signer",
+    role: "payer",
+    description: "Fee payer address or signer profile",
+    required: true,
+  },
+  authority: {
+    type: "signer",
+    role: "authority",
+    description: "Lookup table authority, e.g. the multisig vault",
+    required: true,
+  },
+} as const;
+
+const contentOptions = {
+  mints: {
+    type: "string",
+    description: "Comma-separated mints to store with their treasury accounts",
+  },
+  vaults: {
+    type: "string",
+    description: "Comma-separated Squads vault addresses to store",
+  },
+  treasuries: {
+    type: "string",
+    description:
+      "Comma-separated treasury owners whose token account of every mint is stored",
+  },
+  addresses: {
+    type: "string",
+    description: "Comma-separated additional addresses to store",
+  },
+} as const;
+
+/**
+ * Resolves the addresses selected by the content flags, starting with the token
+ * programs every transaction uses
+ * @param options Parsed flags
+ * @returns Distinct addresses to store
+ */
+const getTableContent = async (options: {
+  mints: string | undefined;
+  vaults: string | undefined;
+  treasuries: string | undefined;
+  addresses: string | undefined;
+}) => {
+  const list = (flag: string, value: string | undefined) =>
+    value ? parseAddressList(flag, value) : [];
+  const common = await getCommonLookupTableAddresses({
+    mints: list("mints", options.mints),
+    vaults: list("vaults", options.vaults),
+    treasuries: list("treasuries", options.treasuries),
+  });
+  return [...new Set([...common, ...list("addresses", options.addresses)])];
+};
+
+export const createLookupTableCommand = defineCommand({
+  name: "lookup-table create",
+  description:
+    "Create an address lookup table holding the token programs, mints, vaults and treasury accounts",
+  options: { ...tableOptions, ...contentOptions },
+  async run(options) {
+    const addresses = await getTableContent(options);
+    const { rpc } = getClient(options.url);
+    const result = await createLookupTable({
+      rpc,
+      payer: options.payer.address,
+      authority: options.authority.address,
+      addresses,
+    });
+
+    console.error(
+      `Lookup table: ${result.lookupTable} (${addresses.length} addresses)`,
+    );
+    await writeTransactions(options, result.transactions);
+  },
+});
+
+export const extendLookupTableCommand = defineCommand({
+  name: "lookup-table extend",
+  description: "Add the selected addresses that an address lookup table lacks",
+  options: {
+    ...tableOptions,
+    ...contentOptions,
+    lookupTable: {
+      type: "address",
+      description: "Address lookup table",
+      required: true,
+    },
+  },
+  async run(options) {
+    const addresses = await getTableContent(options);
+    const { rpc } = getClient(options.url);
+    const transactions = await extendLookupTable({
+      rpc,
+      payer: options.payer.address,
+      authority: options.authority.address,
+      lookupTable: options.lookupTable,
+      addresses,
+    });
+
+    if (transactions.length === 0) {
+      console.error(`${options.lookupTable} already holds every address`);
+      return;
+    }
+    await writeTransactions(options, transactions);
+  },
+});
+
+export const deactivateLookupTableCommand = defineCommand({
+  name: "lookup-table deactivate",
+  description:
+    "Deactivate an address lookup table so it can be closed once the cooldown has passed",
+  options: {
+    ...tableOptions,
+    ...transactionOptions,
+    lookupTable: {
+      type: "address",
+      description: "Address lookup table",
+      required: true,
+    },
+  },
+  async run(options) {
+    const { rpc } = getClient(options.url);
+    await writeTransactions(options, [
+      await deactivateLookupTable({
+        rpc,
+        payer: options.payer.address,
+        authority: options.authority.address,
+        lookupTable: options.lookupTable,
+        ...(await getTransactionOptions(rpc, options)),
+      }),
+    ]);
+  },
+});
+
+export const showLookupTableCommand = defineCommand({
+  name: "lookup-table show",
+  description: "Print the addresses stored in an address lookup table",
+  options: {
+    ...connectionOptions,
+    lookupTable: {
+      type: "address",
+      description: "Address lookup table",
+      required: true,
+    },
+  },
+  async run(options) {
+    const { rpc } = getClient(options.url);
+    const tables = await fetchLookupTableAddresses(rpc, [options.lookupTable]);
+    tables[options.lookupTable].forEach((address, index) =>
+      console.log(`${index}\t${address}`),
+    );
+  },
+});
@@ -0,0 +1,140 @@
+import { defineCommand, UsageError } from "../args";
+import { connectionOptions, getClient } from "../connection";
+import { getTransactionOptions, transactionOptions } from "../transaction";
+import { outputOptions, writeTransactions } from "../output";
+import {
+  fetchTokenMetadata,
+  formatTokenMetadataDiff,
+  planTokenMetadataUpdate,
+  updateTokenMetadata,
+} from "../../token/metadata";
+
+/**
+ * Reads `KEY=VALUE` pairs given to --set, separated by commas
+ * @param value Raw flag value, e.g. `ISIN=US0000000001,CUSIP=000000001`
+ * @returns Values keyed by metadata key
+ */
+const parseKeyValues = (value: string) => {
+  const pairs = new Map<string, string>();
+  for (const item of value.split(",")) {
+    if (item.trim() === "") {
+      continue;
+    }
+    const separator = item.indexOf("=");
+    if (separator <= 0) {
+      throw new UsageError(
+        `--set must be a comma-separated list of KEY=VALUE pairs, got "${item}"`,
+      );
+    }
+    const key = item.slice(0, separator).trim();
+    if (pairs.has(key)) {
+      throw new UsageError(`--set lists the key "${key}" twice`);
+    }
+    pairs.set(key, item.slice(separator + 1));
+  }
+  return Object.fromEntries(pairs);
+};
+
+export const updateMetadataCommand = defineCommand({
+  name: "metadata update",
+  description:
+    "Change the name, symbol, uri or additional metadata keys of a mint, topping up rent when it grows",
+  options: {
+    ...connectionOptions,
+    ...outputOptions,
+    ...transactionOptions,
+    mint: {
+      type: "address",
+      description: "Token mint address",
+      required: true,
+    },
+    payer: {
+      type: "signer",
+      role: "payer",
+      description:
+        "Fee payer address or signer profile, also paying any rent top-up",
+      required: true,
+    },
+    authority: {
+      type: "signer",
+      role: "authority",
+      description: "Metadata update authority address or signer profile",
+      required: true,
+    },
+    name: {
+      type: "string",
+      description: "New token name",
+    },
+    symbol: {
+      type: "string",
+      description: "New token symbol",
+    },
+    uri: {
+      type: "string",
+      description: "New metadata URI",
+    },
+    set: {
+      type: "string",
+      description:
+        "Comma-separated KEY=VALUE additional metadata to add or overwrite, e.g. ISIN=US0000000001",
+    },
+    remove: {
+      type: "string",
+      description: "Comma-separated additional metadata keys to remove",
+    },
+  },
+  async run(options) {
+    const set = options.set ? parseKeyValues(options.set) : undefined;
+    const remove = options.remove
+      ?.split(",")
+      .map((key) => key.trim())
+      .filter((key) => key !== "");
+    if (
+      [options.name, options.symbol, options.uri, set, remove].every(
+        (change) => change === undefined,
+      )
+    ) {
+      throw new UsageError(
+        "Pass at least one of --name, --symbol, --uri, --set and --remove",
+      );
+    }
+
+    const { rpc } = getClient(options.url);
+    const state = await fetchTokenMetadata(rpc, options.mint);
+    if (!state.updateAuthority) {
+      throw new Error(
+        `The metadata of ${options.mint} has no update authority and cannot be changed`,
+      );
+    }
+    if (state.updateAuthority !== options.authority.address) {
+      console.error(
+        `Warning: the metadata update authority is ${state.updateAuthority}, not ${options.authority.address}`,
+      );
+    }
+    const plan = await planTokenMetadataUpdate(rpc, state, {
+      name: options.name,
+      symbol: options.symbol,
+      uri: options.uri,
+      set,
+      remove,
+    });
+
+    console.error(formatTokenMetadataDiff(plan));
+    console.error(
+      `\nMint account: ${plan.sizeBefore} -> ${plan.sizeAfter} bytes${plan.rentTopUp > 0n ? `, rent top-up of ${plan.rentTopUp} lamports from ${options.payer.address}` : ""}\n`,
+    );
+
+    const tx = await updateTokenMetadata(
+      {
+        rpc,
+        mint: options.mint,
+        payer: options.payer,
+        updateAuthority: options.authority,
+        plan,
+      },
+      await getTransactionOptions(rpc, options),
+    );
+
+    await writeTransactions(options, [tx]);
+  },
+});
@@ -0,0 +1,58 @@
+import { defineCommand } from "../args";
+import { connectionOptions, getClient } from "../connection";
+import { getTransactionOptions, transactionOptions } from "../transaction";
+import { outputOptions, writeTransactions } from "../output";
+import { mintTo } from "../../token/mint";
+
+export const mintCommand = defineCommand({
+  name: "mint",
+  description:
+    "Mint tokens to the associated token account of a destination wallet",
+  options: {
+    ...connectionOptions,
+    ...outputOptions,
+    ...transactionOptions,
+    mint: {
+      type: "address",
+      description: "Token mint address",
+      required: true,
+    },
+    payer: {
+      type: "signer",
+      role: "payer",
+      description: "Fee payer address or signer profile",
+      required: true,
+    },
+    authority: {
+      type: "signer",
+      role: "authority",
+      description: "Mint authority address or signer profile",
+      required: true,
+    },
+    destination: {
+      type: "address",
+      description: "Wallet that receives the tokens",
+      required: true,
+    },
+    amount: {
+      type: "bigint",
+      description: "Raw amount to mint (1 token = 10^decimals)",
+      required: true,
+    },
+  },
+  async run(options) {
+    const { rpc } = getClient(options.url);
+
+    const tx = await mintTo(
+      rpc,
+      options.mint,
+      options.payer.address,
+      options.authority.address,
+      options.destination,
+      options.amount,
+      await getTransactionOptions(rpc, options),
+    );
+
+    await writeTransactions(options, [tx]);
+  },
+});
@@ -0,0 +1,64 @@
+import { defineCommand } from "../args";
+import {
+  confirmationOptions,
+  confirmMainnet,
+  connectionOptions,
+  getClient,
+} from "../connection";
+import { getLocalPayer, localPayerOptions } from "../signers";
+import { createNonceAccount, fetchDurableNonce } from "../../token/nonce";
+
+export const createNonceCommand = defineCommand({
+  name: "nonce create",
+  description:
+    "Create a durable nonce account, signed by a local keypair or signer profile, for long-lived transactions",
+  options: {
+    ...connectionOptions,
+    ...confirmationOptions,
+    ...localPayerOptions,
+    authority: {
+      type: "signer",
+      role: "authority",
+      description:
+        "Nonce authority, e.g. the multisig vault, as an address or signer profile (defaults to the payer)",
+    },
+  },
+  async run(options) {
+    const { rpc, sendAndConfirmTransaction } = getClient(options.url);
+    const payer = await getLocalPayer(options);
+    const authority = options.authority?.address ?? payer.address;
+    await confirmMainnet(options, rpc, [
+      `Create nonce account with authority ${authority}, paid by ${payer.address}`,
+    ]);
+
+    const result = await createNonceAccount(
+      rpc,
+      payer,
+      authority,
+      sendAndConfirmTransaction,
+    );
+
+    console.log(`Nonce account: ${result.nonceAccount}`);
+    console.log(result.signature);
+  },
+});
+
+export const showNonceCommand = defineCommand({
+  name: "nonce show",
+  description: "Print the current nonce value and authority of a nonce account",
+  options: {
+    ...connectionOptions,
+    account: {
+      type: "address",
+      description: "Nonce account address",
+      required: true,
+    },
+  },
+  async run(options) {
+    const { rpc } = getClient(options.url);
+    const nonce = await fetchDurableNonce(rpc, options.account);
+
+    console.log(`Nonce: ${nonce.nonce}`);
+    console.log(`Authority: ${nonce.nonceAuthorityAddress}`);
+  },
+});
@@ -0,0 +1,62 @@
+import { defineCommand } from "../args";
+import { connectionOptions, getClient } from "../connection";
+import { getTransactionOptions, transactionOptions } from "../transaction";
+import { outputOptions, writeTransactions } from "../output";
+import { pause } from "../../token/pause";
+
+const pauseOptions = {
+  ...connectionOptions,
+  ...outputOptions,
+  ...transactionOptions,
+  mint: { type: "address", description: "Token mint address", required: true },
+  payer: {
+    type: "signer",
+    role: "payer",
+    description: "Fee payer address or signer profile",
+    required: true,
+  },
+  authority: {
+    type: "signer",
+    role: "authority",
+    description: "Pause authority address or signer profile",
+    required: true,
+  },
+} as const;
+
+export const pauseCommand = defineCommand({
+  name: "pause",
+  description: "Pause all transfers, mints and burns of a pausable mint",
+  options: pauseOptions,
+  async run(options) {
+    const { rpc } = getClient(options.url);
+    await writeTransactions(options, [
+      await pause(
+        rpc,
+        options.mint,
+        options.payer.address,
+        options.authority.address,
+        true,
+        await getTransactionOptions(rpc, options),
+      ),
+    ]);
+  },
+});
+
+export const resumeCommand = defineCommand({
+  name: "resume",
+  description: "Resume a paused mint",
+  options: pauseOptions,
+  async run(options) {
+    const { rpc } = getClient(options.url);
+    await writeTransactions(options, [
+      await pause(
+        rpc,
+        options.mint,
+        options.payer.address,
+        options.authority.address,
+        false,
+        await getTransactionOptions(rpc, options),
+      ),
+    ]);
+  },
+});
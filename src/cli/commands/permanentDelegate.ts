@@ -0,0 +1,80 @@
+import { defineCommand } from "../args";
+import { connectionOptions, getClient } from "../connection";
+import { outputOptions, writeTransactions } from "../output";
+import { clawback, forceBurn } from "../../token/permanentDelegate";
+
+const delegateOptions = {
+  ...connectionOptions,
+  ...outputOptions,
+  mint: { type: "address", description: "Token mint address", required: true },
+  payer: {
+    type: "signer",
+    role: "payer",
+    description: "Fee payer address or signer profile",
+    required: true,
+  },
+  delegate: {
+    type: "signer",
+    role: "authority",
+    description: "Permanent delegate address or signer profile",
+    required: true,
+  },
+  holder: {
+    type: "address",
+    description: "Wallet whose associated token account is debited",
+    required: true,
+  },
+  amount: {
+    type: "bigint",
+    description: "Raw amount (defaults to the holder's full balance)",
+  },
+} as const;
+
+export const clawbackCommand = defineCommand({
+  name: "clawback",
+  description:
+    "Move tokens from a holder to a treasury using the permanent delegate",
+  options: {
+    ...delegateOptions,
+    treasury: {
+      type: "address",
+      description: "Wallet that receives the tokens",
+      required: true,
+    },
+  },
+  async run(options) {
+    const { rpc } = getClient(options.url);
+
+    const tx = await clawback({
+      rpc,
+      mint: options.mint,
+      payer: options.payer,
+      delegate: options.delegate,
+      holder: options.holder,
+      treasury: options.treasury,
+      amount: options.amount,
+    });
+
+    await writeTransactions(options, [tx]);
+  },
+});
+
+export const burnCommand = defineCommand({
+  name: "burn",
+  description: "Burn tokens held by any wallet using the permanent delegate",
+  options: delegateOptions,
+  async run(options) {
+    const { rpc } = getClient(options.url);
+
+    const tx = await forceBurn({
+      rpc,
+      mint: options.mint,
+      payer: options.payer,
+      delegate: options.delegate,
+      holder: options.holder,
+      amount: options.amount,
+    });
+
+    await writeTransactions(options, [tx]);
+  },
+});
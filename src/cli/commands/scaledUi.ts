@@ -0,0 +1,238 @@
+import { defineCommand, parseAddressList, UsageError } from "../args";
+import { connectionOptions, getClient } from "../connection";
+import { getTransactionOptions, transactionOptions } from "../transaction";
+import { outputOptions, writeTransactions } from "../output";
+import {
+  CorporateAction,
+  describeCorporateAction,
+  fetchScaledUiAmountConfig,
+  planScaledUiMultiplier,
+  previewScaledUiBalances,
+} from "../../token/scaledUiAmount";
+import { updateScaledUI } from "../../token/updateScaledUI";
+
+/**
+ * Formats a Unix timestamp in seconds for the report
+ */
+const formatTimestamp = (timestamp: bigint) =>
+  `${timestamp} (${new Date(Number(timestamp) * 1000).toISOString()})`;
+
+/**
+ * Reads a ratio flag such as `2:1`
+ * @param flag Flag name used in error messages
+ * @param value Raw flag value
+ * @returns Numerator and denominator
+ */
+const parseRatio = (flag: string, value: string) => {
+  const match = /^(\d+):(\d+)$/.exec(value.trim());
+  if (!match) {
+    throw new UsageError(
+      `--${flag} must be a ratio of new to old tokens such as 2:1, got "${value}"`,
+    );
+  }
+  return { numerator: Number(match[1]), denominator: Number(match[2]) };
+};
+
+/**
+ * Reads the corporate action selected by the action flags
+ * @param options Parsed flags
+ * @returns Corporate action
+ */
+const getCorporateAction = (options: {
+  split?: string;
+  reverseSplit?: string;
+  dividend?: number;
+}): CorporateAction => {
+  const given = [options.split, options.reverseSplit, options.dividend].filter(
+    (v) => v !== undefined,
+  );
+  if (given.length !== 1) {
+    throw new UsageError(
+      "Pass exactly one of --split, --reverse-split and --dividend",
+    );
+  }
+  if (options.split !== undefined) {
+    return { kind: "split", ...parseRatio("split", options.split) };
+  }
+  if (options.reverseSplit !== undefined) {
+    return {
+      kind: "reverse-split",
+      ...parseRatio("reverse-split", options.reverseSplit),
+    };
+  }
+  return { kind: "dividend", percent: options.dividend! };
+};
+
+export const setMultiplierCommand = defineCommand({
+  name: "scaled-ui set-multiplier",
+  description: "Schedule a new multiplier for the Scaled UI Amount extension",
+  options: {
+    ...connectionOptions,
+    ...outputOptions,
+    ...transactionOptions,
+    mint: {
+      type: "address",
+      description: "Token mint address",
+      required: true,
+    },
+    payer: {
+      type: "signer",
+      role: "payer",
+      description: "Fee payer address or signer profile",
+      required: true,
+    },
+    authority: {
+      type: "signer",
+      role: "authority",
+      description: "Scaled UI amount authority address or signer profile",
+      required: true,
+    },
+    multiplier: {
+      type: "number",
+      description: "New UI multiplier",
+      required: true,
+    },
+    effectiveTimestamp: {
+      type: "bigint",
+      description:
+        "Unix timestamp when the multiplier takes effect (defaults to now + 180s)",
+    },
+  },
+  async run(options) {
+    const { rpc } = getClient(options.url);
+    const effectiveTimestamp =
+      options.effectiveTimestamp ?? BigInt(Math.floor(Date.now() / 1000) + 180);
+
+    const tx = await updateScaledUI(
+      rpc,
+      options.mint,
+      options.payer.address,
+      options.authority.address,
+      options.multiplier,
+      effectiveTimestamp,
+      await getTransactionOptions(rpc, options),
+    );
+
+    await writeTransactions(options, [tx]);
+  },
+});
+
+export const planMultiplierCommand = defineCommand({
+  name: "scaled-ui plan",
+  description:
+    "Derive the next UI multiplier from a split, reverse split or reinvested dividend and preview holder balances",
+  options: {
+    ...connectionOptions,
+    ...outputOptions,
+    ...transactionOptions,
+    mint: {
+      type: "address",
+      description: "Token mint address",
+      required: true,
+    },
+    payer: {
+      type: "signer",
+      role: "payer",
+      description: "Fee payer address or signer profile",
+      required: true,
+    },
+    authority: {
+      type: "signer",
+      role: "authority",
+      description: "Scaled UI amount authority address or signer profile",
+      required: true,
+    },
+    split: {
+      type: "string",
+      description: "Split ratio of new to old tokens, e.g. 2:1",
+    },
+    reverseSplit: {
+      type: "string",
+      description: "Reverse split ratio of new to old tokens, e.g. 1:10",
+    },
+    dividend: {
+      type: "number",
+      description: "Dividend reinvested in tokens, in percent of holdings",
+    },
+    effectiveTimestamp: {
+      type: "bigint",
+      description: "Unix timestamp when the new multiplier takes effect",
+      required: true,
+    },
+    holders: {
+      type: "string",
+      description:
+        "Comma-separated wallets whose balances are previewed (defaults to the largest accounts)",
+    },
+    sample: {
+      type: "integer",
+      description:
+        "Number of largest token accounts previewed without --holders",
+      default: "5",
+    },
+  },
+  async run(options) {
+    const action = getCorporateAction(options);
+    const holders = options.holders
+      ? parseAddressList("holders", options.holders)
+      : undefined;
+    if (options.sample < 1 || options.sample > 20) {
+      throw new UsageError("--sample must be between 1 and 20");
+    }
+
+    const { rpc } = getClient(options.url);
+    const { decimals, config } = await fetchScaledUiAmountConfig(
+      rpc,
+      options.mint,
+    );
+    const plan = planScaledUiMultiplier({
+      mint: options.mint,
+      decimals,
+      config,
+      action,
+      effectiveTimestamp: options.effectiveTimestamp,
+      now: BigInt(Math.floor(Date.now() / 1000)),
+    });
+
+    console.error(
+      `Action: ${describeCorporateAction(action)} (x${plan.factor})`,
+    );
+    console.error(`Current multiplier: ${plan.currentMultiplier}`);
+    console.error(
+      `New multiplier: ${plan.newMultiplier} from ${formatTimestamp(plan.effectiveTimestamp)}`,
+    );
+    if (plan.overwrittenPending) {
+      console.error(
+        `Warning: the pending multiplier ${plan.overwrittenPending.multiplier} scheduled for ${formatTimestamp(plan.overwrittenPending.effectiveTimestamp)} has not taken effect and will be replaced`,
+      );
+    }
+    if (config.authority !== options.authority.address) {
+      console.error(
+        `Warning: the scaled UI amount authority is ${config.authority}, not ${options.authority.address}`,
+      );
+    }
+
+    const preview = await previewScaledUiBalances(rpc, plan, {
+      holders,
+      sample: options.sample,
+    });
+    console.error("\nOwner\tRaw amount\tUI before\tUI after");
+    for (const row of preview) {
+      console.error(`${row.owner}\t${row.amount}\t${row.before}\t${row.after}`);
+    }
+    console.error("");
+
+    const tx = await updateScaledUI(
+      rpc,
+      options.mint,
+      options.payer.address,
+      options.authority.address,
+      plan.newMultiplier,
+      plan.effectiveTimestamp,
+      await getTransactionOptions(rpc, options),
+    );
+    tx.summary += ` (${describeCorporateAction(action)})`;
+
+    await writeTransactions(options, [tx]);
+  },
+});
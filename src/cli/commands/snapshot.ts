@@ -0,0 +1,60 @@
+import { writeFile } from "node:fs/promises";
+import { defineCommand } from "../args";
+import { connectionOptions, getClient } from "../connection";
+import {
+  formatHolderSnapshotCsv,
+  takeHolderSnapshot,
+} from "../../token/snapshot";
+
+export const snapshotCommand = defineCommand({
+  name: "snapshot",
+  description:
+    "Export every holder of a mint with raw and UI amounts at one slot, for cap tables and reporting",
+  options: {
+    ...connectionOptions,
+    mint: {
+      type: "address",
+      description: "Token mint address",
+      required: true,
+    },
+    format: {
+      type: "string",
+      description: "Snapshot format",
+      choices: ["csv", "json"],
+      default: "csv",
+    },
+    out: {
+      type: "string",
+      description: "Write the snapshot to a file instead of stdout",
+    },
+    skipEmpty: {
+      type: "boolean",
+      description: "Leave out token accounts holding no tokens",
+    },
+  },
+  async run(options) {
+    const { rpc } = getClient(options.url);
+
+    const snapshot = await takeHolderSnapshot(rpc, options.mint, {
+      skipEmpty: options.skipEmpty,
+    });
+    if (snapshot.totalHeld !== snapshot.supply) {
+      console.error(
+        `Warning: token accounts hold ${snapshot.totalHeld} raw tokens, but the supply is ${snapshot.supply}`,
+      );
+    }
+    const output =
+      options.format === "json"
+        ? JSON.stringify(snapshot, null, 2)
+        : formatHolderSnapshotCsv(snapshot);
+
+    if (options.out) {
+      await writeFile(options.out, `${output}\n`);
+      console.error(
+        `Wrote ${snapshot.holders.length} holder(s) at slot ${snapshot.slot} to ${options.out}`,
+      );
+    } else {
+      console.log(output);
+    }
+  },
+});
@@ -0,0 +1,122 @@
+import {
+  CompiledTransactionMessage,
+  Rpc,
+  SolanaRpcApi,
+  decompileTransactionMessage,
+  getBase58Encoder,
+  getCompiledTransactionMessageDecoder,
+} from "@solana/kit";
+import { defineCommand, UsageError } from "../args";
+import { connectionOptions, getClient } from "../connection";
+import { outputOptions, writeTransactions } from "../output";
+import { createProposal } from "../../squads/proposal";
+import { fetchLookupTableAddresses } from "../../token/lookupTable";
+
+/**
+ * Recovers the instructions from a base58 transaction message printed by another command.
+ * Accounts of a version 0 message that refer to lookup tables are read from the tables.
+ * @param rpc RPC client
+ * @param message Base58-encoded transaction message
+ * @returns Instructions of the message
+ */
+const getMessageInstructions = async (
+  rpc: Rpc<SolanaRpcApi>,
+  message: string,
+) => {
+  let compiled: CompiledTransactionMessage;
+  try {
+    compiled = getCompiledTransactionMessageDecoder().decode(
+      getBase58Encoder().encode(message),
+    );
+  } catch (error: any) {
+    throw new UsageError(
+      `--message must be a base58 transaction message: ${error.message}`,
+    );
+  }
+  const lookupTables =
+    "addressTableLookups" in compiled
+      ? (compiled.addressTableLookups ?? []).map(
+          (lookup) => lookup.lookupTableAddress,
+        )
+      : [];
+  const { instructions } = decompileTransactionMessage(compiled, {
+    addressesByLookupTableAddress:
+      lookupTables.length > 0
+        ? await fetchLookupTableAddresses(rpc, lookupTables)
+        : undefined,
+  });
+  // The vault transaction lists every account itself
+  return instructions.map((ix) => ({
+    ...ix,
+    accounts: ix.accounts?.map(({ address, role }) => ({ address, role })),
+  }));
+};
+
+export const proposeCommand = defineCommand({
+  name: "squads propose",
+  description:
+    "Wrap the transaction printed by another command in a Squads v4 proposal",
+  options: {
+    ...connectionOptions,
+    ...outputOptions,
+    multisig: {
+      type: "address",
+      description:
+        "Squads multisig account address (defaults to the multisig of the network profile)",
+    },
+    vaultIndex: {
+      type: "integer",
+      description: "Index of the vault that executes the transaction",
+      default: "0",
+    },
+    creator: {
+      type: "signer",
+      role: "payer",
+      description: "Member that creates the proposal and pays fees and rent",
+      required: true,
+    },
+    message: {
+      type: "string",
+      description:
+        "Base58 transaction message to propose; its signers must be the vault",
+      required: true,
+    },
+    approve: {
+      type: "boolean",
+      description: "Also approve the proposal as the creator",
+    },
+    memo: {
+      type: "string",
+      description: "Memo stored with the vault transaction",
+    },
+  },
+  async run(options) {
+    // Vault indexes are stored in a single byte
+    if (options.vaultIndex < 0 || options.vaultIndex > 255) {
+      throw new UsageError("--vault-index must be between 0 and 255");
+    }
+    const multisig = options.multisig ?? options.url.multisig;
+    if (!multisig) {
+      throw new UsageError(
+        `Pass --multisig or set a multisig for the network ${options.url.name} in TEM_NETWORKS`,
+      );
+    }
+    const { rpc } = getClient(options.url);
+    const instructions = await getMessageInstructions(rpc, options.message);
+
+    const result = await createProposal({
+      rpc,
+      multisig,
+      vaultIndex: options.vaultIndex,
+      creator: options.creator,
+      instructions: [...instructions],
+      approve: options.approve,
+      memo: options.memo,
+    });
+
+    console.error(
+      `Proposing transaction ${result.transactionIndex} for vault ${result.vault}`,
+    );
+    await writeTransactions(options, [result.transaction]);
+  },
+});
@@ -0,0 +1,133 @@
+import { defineCommand, UsageError } from "../args";
+import { connectionOptions, getClient } from "../connection";
+import { outputOptions, writeTransactions } from "../output";
+import { getTransactionOptions, transactionOptions } from "../transaction";
+import {
+  harvestWithheldFees,
+  HARVEST_BATCH_SIZE,
+  setTransferFee,
+} from "../../token/transferFee";
+
+export const setTransferFeeCommand = defineCommand({
+  name: "transfer-fee set",
+  description:
+    "Schedule a new transfer fee (takes effect two epochs after execution)",
+  options: {
+    ...connectionOptions,
+    ...outputOptions,
+    ...transactionOptions,
+    mint: {
+      type: "address",
+      description: "Token mint address",
+      required: true,
+    },
+    payer: {
+      type: "signer",
+      role: "payer",
+      description: "Fee payer address or signer profile",
+      required: true,
+    },
+    authority: {
+      type: "signer",
+      role: "authority",
+      description: "Transfer fee config authority address or signer profile",
+      required: true,
+    },
+    basisPoints: {
+      type: "integer",
+      description: "Transfer fee in basis points (100 = 1%)",
+      required: true,
+    },
+    maximumFee: {
+      type: "bigint",
+      description: "Maximum fee per transfer in raw token units",
+      required: true,
+    },
+  },
+  async run(options) {
+    const { rpc } = getClient(options.url);
+
+    const tx = await setTransferFee(
+      {
+        rpc,
+        mint: options.mint,
+        payer: options.payer,
+        authority: options.authority,
+        transferFeeBasisPoints: options.basisPoints,
+        maximumFee: options.maximumFee,
+      },
+      await getTransactionOptions(rpc, options),
+    );
+
+    await writeTransactions(options, [tx]);
+  },
+});
+
+export const harvestTransferFeesCommand = defineCommand({
+  name: "transfer-fee harvest",
+  description:
+    "Harvest withheld fees from all token accounts to the mint, then withdraw them",
+  options: {
+    ...connectionOptions,
+    ...outputOptions,
+    ...transactionOptions,
+    mint: {
+      type: "address",
+      description: "Token mint address",
+      required: true,
+    },
+    payer: {
+      type: "signer",
+      role: "payer",
+      description: "Fee payer address or signer profile",
+      required: true,
+    },
+    authority: {
+      type: "signer",
+      role: "authority",
+      description: "Withdraw withheld authority address or signer profile",
+      required: true,
+    },
+    destination: {
+      type: "address",
+      description: "Wallet whose associated token account receives the fees",
+      required: true,
+    },
+    batchSize: {
+      type: "integer",
+      description: "Token accounts harvested per transaction",
+      default: String(HARVEST_BATCH_SIZE),
+    },
+  },
+  async run(options) {
+    if (options.batchSize < 1) {
+      throw new UsageError("--batch-size must be at least 1");
+    }
+    const { rpc } = getClient(options.url);
+
+    const result = await harvestWithheldFees(
+      {
+        rpc,
+        mint: options.mint,
+        payer: options.payer,
+        authority: options.authority,
+        destination: options.destination,
+        batchSize: options.batchSize,
+      },
+      await getTransactionOptions(rpc, options),
+    );
+
+    const total = result.accounts.reduce(
+      (sum, a) => sum + a.withheldAmount,
+      0n,
+    );
+    console.error(
+      `Found ${result.accounts.length} accounts withholding ${total} raw tokens; ` +
+        `${result.harvestTransactions.length} harvest transaction(s) followed by 1 withdraw transaction`,
+    );
+    await writeTransactions(options, [
+      ...result.harvestTransactions,
+      result.withdrawTransaction,
+    ]);
+  },
+});
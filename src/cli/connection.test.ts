@@ -0,0 +1,67 @@
+import { describe, expect, it, jest } from "@jest/globals";
+import { confirmMainnet, OperationCancelledError } from "./connection";
+import { getNetworkProfile, NETWORK_PROFILES } from "../network/profile";
+import { createTestRpc } from "../testing/rpc";
+
+const RPC_URL = "https://rpc.example.com/?api-key=secret-key";
+
+// Runs confirmMainnet and returns what it printed to stderr
+const printed = async (...args: Parameters<typeof confirmMainnet>) => {
+  const error = jest.spyOn(console, "error").mockImplementation(() => {});
+  try {
+    await confirmMainnet(...args);
+    return error.mock.calls.map((call) => call.join(" "));
+  } finally {
+    error.mockRestore();
+  }
+};
+
+describe("confirmMainnet", () => {
+  const { rpc } = createTestRpc();
+
+  it("lists the transactions without the RPC credentials", async () => {
+    const lines = await printed(
+      { url: { ...NETWORK_PROFILES.mainnet, rpcUrl: RPC_URL }, yes: true },
+      rpc,
+      ["Pause MINT"],
+    );
+
+    expect(lines).toEqual([
+      "Mainnet (mainnet, rpc.example.com): 1 transaction(s)",
+      "  - Pause MINT",
+    ]);
+  });
+
+  it("names a mainnet given by URL by its origin", async () => {
+    const { rpc } = createTestRpc({
+      getGenesisHash: () => "5eykt4UsFv8P8NJdTREpY1vzqKqZKvdpKuc147dw2N9d",
+    });
+    const lines = await printed(
+      { url: getNetworkProfile(RPC_URL), yes: true },
+      rpc,
+      [],
+    );
+
+    expect(lines).toEqual([
+      "Mainnet (https://rpc.example.com): 0 transaction(s)",
+    ]);
+  });
+
+  it("does nothing on other networks", async () => {
+    await expect(
+      printed({ url: NETWORK_PROFILES.devnet, yes: false }, rpc, ["x"]),
+    ).resolves.toEqual([]);
+  });
+
+  it("refuses without --yes when no terminal is attached", async () => {
+    const isTTY = process.stdin.isTTY;
+    process.stdin.isTTY = false;
+    try {
+      await expect(
+        printed({ url: NETWORK_PROFILES.mainnet, yes: false }, rpc, ["x"]),
+      ).rejects.toThrow(OperationCancelledError);
+    } finally {
+      process.stdin.isTTY = isTTY;
+    }
+  });
+});
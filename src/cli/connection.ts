@@ -0,0 +1,136 @@
+import { createInterface } from "node:readline/promises";
+import { Rpc, SolanaRpcApi } from "@solana/kit";
+import { OptionSpecs, toFlagName, UsageError } from "./args";
+import {
+  createNetworkClient,
+  describeNetwork,
+  getNetworkProfile,
+  isMainnet,
+  loadNetworkProfiles,
+  NETWORK_PROFILES,
+  NetworkProfile,
+} from "../network/profile";
+
+/**
+ * Environment variable naming the network profile file
+ */
+export const NETWORK_PROFILES_VARIABLE = "TEM_NETWORKS";
+
+/**
+ * Error raised when a mainnet operation is not confirmed
+ */
+export class OperationCancelledError extends Error {
+  constructor(message = "Cancelled; nothing was sent or printed") {
+    super(message);
+    this.name = "OperationCancelledError";
+  }
+}
+
+/**
+ * Flags shared by every command that talks to the network
+ */
+export const connectionOptions = {
+  url: {
+    type: "network",
+    description: `Network profile (localnet, devnet, testnet, mainnet or one from ${NETWORK_PROFILES_VARIABLE}) or RPC URL`,
+    default: "devnet",
+  },
+} as const satisfies OptionSpecs;
+
+/**
+ * Flags of commands that build or send transactions
+ */
+export const confirmationOptions = {
+  yes: {
+    type: "boolean",
+    description:
+      "Skip the confirmation asked before mainnet operations, for non-interactive use",
+  },
+} as const satisfies OptionSpecs;
+
+let profiles: Promise<Record<string, NetworkProfile>> | undefined;
+
+/**
+ * Loads the profiles named by the environment once per invocation
+ * @returns Built-in profiles, merged with the file when one is configured
+ */
+const getNetworkProfiles = () => {
+  const path = process.env[NETWORK_PROFILES_VARIABLE];
+  if (!path) {
+    return Promise.resolve(NETWORK_PROFILES);
+  }
+  profiles ??= loadNetworkProfiles(path);
+  return profiles;
+};
+
+/**
+ * Replaces the raw values of network flags with the profiles they name
+ * @param specs Option specifications for the command
+ * @param options Values returned by parseOptions, updated in place
+ */
+export const resolveNetworkOptions = async (
+  specs: OptionSpecs,
+  options: Record<string, unknown>,
+) => {
+  for (const [name, spec] of Object.entries(specs)) {
+    const value = options[name];
+    if (spec.type === "network" && typeof value === "string") {
+      const known = await getNetworkProfiles();
+      try {
+        options[name] = getNetworkProfile(value, known);
+      } catch (error: any) {
+        throw new UsageError(`--${toFlagName(name)}: ${error.issues[0]}`);
+      }
+    }
+  }
+};
+
+/**
+ * Creates the Solana client for a command invocation
+ * @param network Network profile chosen with --url
+ * @returns Solana client
+ */
+export const getClient = (network: NetworkProfile) =>
+  createNetworkClient(network);
+
+/**
+ * Shows what a command is about to do on mainnet and asks for confirmation. Other
+ * networks, and mainnet with --yes, go ahead without asking.
+ * @param options Network and --yes flag
+ * @param rpc RPC client of the network
+ * @param summaries One line per transaction
+ */
+export const confirmMainnet = async (
+  options: { url: NetworkProfile; yes: boolean },
+  rpc: Rpc<SolanaRpcApi>,
+  summaries: string[],
+) => {
+  if (!(await isMainnet(options.url, rpc))) {
+    return;
+  }
+  console.error(
+    `Mainnet (${describeNetwork(options.url)}): ${summaries.length} transaction(s)`,
+  );
+  summaries.forEach((summary) => console.error(`  - ${summary}`));
+  if (options.yes) {
+    return;
+  }
+  if (!process.stdin.isTTY) {
+    throw new OperationCancelledError(
+      "Mainnet operations need confirmation; pass --yes when no terminal is attached",
+    );
+  }
+
+  const prompt = createInterface({
+    input: process.stdin,
+    output: process.stderr,
+  });
+  try {
+    const answer = await prompt.question('Type "mainnet" to continue: ');
+    if (answer.trim() !== "mainnet") {
+      throw new OperationCancelledError();
+    }
+  } finally {
+    prompt.close();
+  }
+};
@@ -0,0 +1,155 @@
+#!/usr/bin/env node
+/**
+ * Entry point for the `tem` command-line interface. Each subcommand wraps one
+ * of the operations in `src/token` and prints the same output the operation returns.
+ */
+
+import "dotenv/config";
+import {
+  Command,
+  findCommand,
+  formatCommandHelp,
+  OptionSpecs,
+  parseOptions,
+  UsageError,
+} from "./args";
+import { OperationCancelledError, resolveNetworkOptions } from "./connection";
+import { planAirdropCommand, recordAirdropCommand } from "./commands/airdrop";
+import { setAuthorityCommand } from "./commands/authority";
+import { auditCommand } from "./commands/audit";
+import { createCommand } from "./commands/create";
+import { simulateFordefiCommand } from "./commands/fordefi";
+import { freezeCommand, thawCommand } from "./commands/freeze";
+import {
+  addGroupMemberCommand,
+  createGroupCommand,
+  createGroupMemberCommand,
+  listGroupMembersCommand,
+  setGroupMaxSizeCommand,
+} from "./commands/group";
+import { explainCommand } from "./commands/explain";
+import { inspectCommand } from "./commands/inspect";
+import {
+  previewInterestCommand,
+  setInterestRateCommand,
+} from "./commands/interestBearing";
+import {
+  createLookupTableCommand,
+  deactivateLookupTableCommand,
+  extendLookupTableCommand,
+  showLookupTableCommand,
+} from "./commands/lookupTable";
+import { updateMetadataCommand } from "./commands/metadata";
+import { mintCommand } from "./commands/mint";
+import { createNonceCommand, showNonceCommand } from "./commands/nonce";
+import { pauseCommand, resumeCommand } from "./commands/pause";
+import { burnCommand, clawbackCommand } from "./commands/permanentDelegate";
+import {
+  planMultiplierCommand,
+  setMultiplierCommand,
+} from "./commands/scaledUi";
+import { snapshotCommand } from "./commands/snapshot";
+import { checkSpecCommand } from "./commands/checkSpec";
+import { proposeCommand } from "./commands/squads";
+import {
+  harvestTransferFeesCommand,
+  setTransferFeeCommand,
+} from "./commands/transferFee";
+import { resolveSignerOptions } from "./signers";
+import { SignerProfileError, SignerRegistryError } from "../signer/registry";
+import { AuthorityPolicyError } from "../token/authorityPolicy";
+import { DistributionError } from "../token/batchMint";
+import { MintSpecError } from "../token/mintSpec";
+import { NetworkProfileError } from "../network/profile";
+
+const commands: Command<OptionSpecs>[] = [
+  createCommand,
+  inspectCommand,
+  explainCommand,
+  snapshotCommand,
+  mintCommand,
+  pauseCommand,
+  resumeCommand,
+  setAuthorityCommand,
+  auditCommand,
+  setMultiplierCommand,
+  planMultiplierCommand,
+  updateMetadataCommand,
+  checkSpecCommand,
+  setTransferFeeCommand,
+  harvestTransferFeesCommand,
+  createGroupCommand,
+  createGroupMemberCommand,
+  addGroupMemberCommand,
+  setGroupMaxSizeCommand,
+  listGroupMembersCommand,
+  setInterestRateCommand,
+  previewInterestCommand,
+  proposeCommand,
+  planAirdropCommand,
+  recordAirdropCommand,
+  freezeCommand,
+  thawCommand,
+  clawbackCommand,
+  burnCommand,
+  createNonceCommand,
+  showNonceCommand,
+  createLookupTableCommand,
+  extendLookupTableCommand,
+  deactivateLookupTableCommand,
+  showLookupTableCommand,
+  simulateFordefiCommand,
+];
+
+const formatHelp = () =>
+  [
+    "Usage: tem <command> [flags]",
+    "",
+    "Commands:",
+    ...commands.map((c) => `  ${c.name.padEnd(28)} ${c.description}`),
+    "",
+    "Run `tem <command> --help` for the flags of a command.",
+  ].join("\n");
+
+const main = async (argv: string[]) => {
+  if (argv.length === 0 || argv[0] === "--help" || argv[0] === "help") {
+    console.log(formatHelp());
+    return;
+  }
+
+  const match = findCommand(commands, argv);
+  if (!match) {
+    throw new UsageError(`Unknown command: ${argv.slice(0, 2).join(" ")}`);
+  }
+
+  if (match.help) {
+    console.log(formatCommandHelp(match.command));
+    return;
+  }
+
+  const options = parseOptions(match.command.options, match.rest);
+  await resolveNetworkOptions(match.command.options, options);
+  await resolveSignerOptions(match.command.options, options);
+  await match.command.run(options);
+};
+
+main(process.argv.slice(2)).catch((error) => {
+  if (
+    error instanceof MintSpecError ||
+    error instanceof DistributionError ||
+    error instanceof AuthorityPolicyError ||
+    error instanceof SignerRegistryError ||
+    error instanceof SignerProfileError ||
+    error instanceof NetworkProfileError ||
+    error instanceof OperationCancelledError
+  ) {
+    console.error(error.message);
+  } else if (error instanceof UsageError) {
+    console.error(`Error: ${error.message}\n`);
+    const match = findCommand(commands, process.argv.slice(2));
+    console.error(match ? formatCommandHelp(match.command) : formatHelp());
+  } else {
+    console.error(error);
+  }
+  process.exitCode = 1;
+});
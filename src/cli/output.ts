@@ -0,0 +1,124 @@
+import { writeFile } from "node:fs/promises";
+import { OptionSpecs, UsageError } from "./args";
+import { confirmationOptions, confirmMainnet, getClient } from "./connection";
+import {
+  encodeTransactions,
+  OUTPUT_FORMATS,
+  OutputFormat,
+} from "../output/encoders";
+import {
+  addComputeBudget,
+  DEFAULT_COMPUTE_BUDGET_CONFIG,
+} from "../token/computeBudget";
+import { NetworkProfile } from "../network/profile";
+import { PreparedTransaction } from "../token/transaction";
+
+/**
+ * Flags that add compute budget instructions to the printed transactions
+ */
+export const computeBudgetOptions = {
+  computeBudget: {
+    type: "boolean",
+    description:
+      "Add compute unit limit and price instructions, measured by simulating each transaction",
+  },
+  computeUnitMargin: {
+    type: "number",
+    description: "Fraction added to the simulated compute units",
+    default: String(DEFAULT_COMPUTE_BUDGET_CONFIG.margin),
+  },
+  priorityFeePercentile: {
+    type: "integer",
+    description:
+      "Percentile of recent prioritization fees for the transaction's writable accounts",
+    default: String(DEFAULT_COMPUTE_BUDGET_CONFIG.percentile),
+  },
+  computeUnitPrice: {
+    type: "bigint",
+    description:
+      "Fixed compute unit price in micro-lamports, instead of the fee history",
+  },
+} as const satisfies OptionSpecs;
+
+/**
+ * Flags shared by every command that prints transactions
+ */
+export const outputOptions = {
+  format: {
+    type: "string",
+    description: "Transaction output format",
+    choices: OUTPUT_FORMATS,
+    default: "base58-message",
+  },
+  out: {
+    type: "string",
+    description: "Write the transactions to a file instead of stdout",
+  },
+  ...computeBudgetOptions,
+  ...confirmationOptions,
+} as const satisfies OptionSpecs;
+
+/**
+ * Prints or writes transactions in the format selected for the invocation, adding
+ * compute budget instructions first when requested. On mainnet the summaries are
+ * shown and confirmed before anything is printed.
+ * @param options Parsed connection and output flags
+ * @param txs Prepared transactions in execution order
+ */
+export const writeTransactions = async (
+  options: {
+    url: NetworkProfile;
+    yes: boolean;
+    format: string;
+    out?: string;
+    computeBudget: boolean;
+    computeUnitMargin: number;
+    priorityFeePercentile: number;
+    computeUnitPrice?: bigint;
+  },
+  txs: PreparedTransaction[],
+) => {
+  const { rpc } = getClient(options.url);
+  if (options.computeBudget || options.computeUnitPrice !== undefined) {
+    if (options.computeUnitMargin < 0) {
+      throw new UsageError("--compute-unit-margin must not be negative");
+    }
+    if (
+      options.priorityFeePercentile < 0 ||
+      options.priorityFeePercentile > 100
+    ) {
+      throw new UsageError(
+        "--priority-fee-percentile must be between 0 and 100",
+      );
+    }
+    const budgeted: PreparedTransaction[] = [];
+    for (const tx of txs) {
+      budgeted.push(
+        await addComputeBudget(rpc, tx, {
+          margin: options.computeUnitMargin,
+          percentile: options.priorityFeePercentile,
+          price: options.computeUnitPrice,
+        }),
+      );
+    }
+    txs = budgeted;
+  }
+
+  await confirmMainnet(
+    options,
+    rpc,
+    txs.map((tx) => tx.summary),
+  );
+
+  const output = encodeTransactions(
+    txs,
+    options.format as OutputFormat,
+    options.url.name,
+  );
+  if (options.out) {
+    await writeFile(options.out, `${output}\n`);
+    console.error(`Wrote ${txs.length} transaction(s) to ${options.out}`);
+  } else {
+    console.log(output);
+  }
+};
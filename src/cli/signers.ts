@@ -0,0 +1,134 @@
+import { createNoopSigner, isAddress, TransactionSigner } from "@solana/kit";
+import { loadKeypairSignerFromFile } from "gill/node";
+import { OptionSpec, OptionSpecs, toFlagName, UsageError } from "./args";
+import { NetworkProfile } from "../network/profile";
+import {
+  loadSignerRegistry,
+  resolveSigner,
+  SignerRegistry,
+} from "../signer/registry";
+
+/**
+ * Environment variable naming the signer registry file
+ */
+export const SIGNER_REGISTRY_VARIABLE = "TEM_SIGNERS";
+
+let registry: Promise<SignerRegistry> | undefined;
+
+/**
+ * Loads the registry named by the environment once per invocation
+ * @returns Validated registry, or undefined when none is configured
+ */
+const getSignerRegistry = () => {
+  const path = process.env[SIGNER_REGISTRY_VARIABLE];
+  if (!path) {
+    return undefined;
+  }
+  registry ??= loadSignerRegistry(path);
+  return registry;
+};
+
+/**
+ * Resolves the value of a signer flag. An address stands for a no-op signer, so the
+ * transaction can be exported for signing elsewhere; any other value names a profile.
+ * @param flag Flag name used in error messages
+ * @param spec Option specification with the role the signer fills
+ * @param value Address or profile name
+ * @param network Network of the invocation, which picks the Fordefi chain
+ * @returns Signer for the role
+ */
+const resolveSignerFlag = async (
+  flag: string,
+  spec: OptionSpec,
+  value: string,
+  network: NetworkProfile | undefined,
+) => {
+  if (isAddress(value)) {
+    if (spec.signing) {
+      throw new UsageError(
+        `--${flag} must name a signer profile that holds a key, got the address ${value}`,
+      );
+    }
+    return createNoopSigner(value);
+  }
+
+  const signers = await getSignerRegistry();
+  if (!signers) {
+    throw new UsageError(
+      `--${flag} must be a base58 address, or set ${SIGNER_REGISTRY_VARIABLE} to a signer registry to use the profile "${value}"`,
+    );
+  }
+  const { profile, signer } = await resolveSigner(
+    signers,
+    value,
+    spec.role ?? "authority",
+    network,
+  );
+  if (spec.signing && profile.kind === "noop") {
+    throw new UsageError(
+      `--${flag}: the signer profile "${value}" is a no-op signer and cannot sign locally`,
+    );
+  }
+  return signer;
+};
+
+/**
+ * Replaces the raw values of signer flags with the signers they resolve to. Network
+ * flags must be resolved first.
+ * @param specs Option specifications for the command
+ * @param options Values returned by parseOptions, updated in place
+ */
+export const resolveSignerOptions = async (
+  specs: OptionSpecs,
+  options: Record<string, unknown>,
+) => {
+  const networkOption = Object.keys(specs).find(
+    (name) => specs[name].type === "network",
+  );
+  const network = networkOption
+    ? (options[networkOption] as NetworkProfile)
+    : undefined;
+  for (const [name, spec] of Object.entries(specs)) {
+    const value = options[name];
+    if (spec.type === "signer" && typeof value === "string") {
+      options[name] = await resolveSignerFlag(
+        toFlagName(name),
+        spec,
+        value,
+        network,
+      );
+    }
+  }
+};
+
+/**
+ * Flags choosing the fee payer of commands that sign and send transactions themselves
+ */
+export const localPayerOptions = {
+  payer: {
+    type: "signer",
+    role: "payer",
+    signing: true,
+    description: "Signer profile of the fee payer, instead of --keypair",
+  },
+  keypair: {
+    type: "string",
+    description:
+      "Path to the fee payer keypair file (defaults to the Solana CLI keypair)",
+  },
+} as const satisfies OptionSpecs;
+
+/**
+ * Returns the fee payer chosen by the local payer flags
+ * @param options Parsed flags
+ * @returns Signer of the profile, or of the keypair file
+ */
+export const getLocalPayer = async (options: {
+  payer?: TransactionSigner<string>;
+  keypair?: string;
+}): Promise<TransactionSigner<string>> => {
+  if (options.payer && options.keypair) {
+    throw new UsageError("Pass either --payer or --keypair, not both");
+  }
+  return options.payer ?? loadKeypairSignerFromFile(options.keypair);
+};
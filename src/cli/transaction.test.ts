@@ -0,0 +1,79 @@
+import { describe, expect, it } from "@jest/globals";
+import {
+  ADDRESS_LOOKUP_TABLE_PROGRAM_ADDRESS,
+  getAddressLookupTableEncoder,
+} from "gill/programs";
+import { UsageError } from "./args";
+import { getTransactionOptions } from "./transaction";
+import {
+  accountHandlers,
+  createTestRpc,
+  encodedAccount,
+  testAddress,
+} from "../testing/rpc";
+
+const TABLE = testAddress(1);
+const STORED = [testAddress(2), testAddress(3)];
+
+const tableRpc = () =>
+  createTestRpc(
+    accountHandlers({
+      [TABLE]: encodedAccount(
+        getAddressLookupTableEncoder().encode({
+          deactivationSlot: 2n ** 64n - 1n,
+          lastExtendedSlot: 0n,
+          lastExtendedSlotStartIndex: 0,
+          authority: testAddress(4),
+          addresses: STORED,
+        }),
+        ADDRESS_LOOKUP_TABLE_PROGRAM_ADDRESS,
+      ),
+    }),
+  );
+
+describe("getTransactionOptions", () => {
+  it("builds a legacy message with the latest blockhash by default", async () => {
+    const { rpc, calls } = createTestRpc();
+
+    await expect(getTransactionOptions(rpc, {})).resolves.toEqual({
+      durableNonce: undefined,
+      version: "legacy",
+      addressLookupTables: undefined,
+    });
+    expect(calls).toEqual([]);
+  });
+
+  it("builds a version 0 message on request", async () => {
+    const { rpc } = createTestRpc();
+
+    await expect(
+      getTransactionOptions(rpc, { transactionVersion: "0" }),
+    ).resolves.toMatchObject({ version: 0 });
+  });
+
+  it("switches to version 0 and loads the lookup tables", async () => {
+    const { rpc } = tableRpc();
+
+    await expect(
+      getTransactionOptions(rpc, { lookupTables: TABLE }),
+    ).resolves.toEqual({
+      durableNonce: undefined,
+      version: 0,
+      addressLookupTables: { [TABLE]: STORED },
+    });
+  });
+
+  it("rejects lookup tables with a legacy message", async () => {
+    const { rpc, calls } = tableRpc();
+    const options = getTransactionOptions(rpc, {
+      transactionVersion: "legacy",
+      lookupTables: TABLE,
+    });
+
+    await expect(options).rejects.toThrow(UsageError);
+    await expect(options).rejects.toThrow(
+      "--lookup-tables requires a version 0 message; remove --transaction-version legacy",
+    );
+    expect(calls).toEqual([]);
+  });
+});
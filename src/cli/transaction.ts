@@ -0,0 +1,77 @@
+import { Address, Rpc, SolanaRpcApi } from "@solana/kit";
+import { OptionSpecs, parseAddressList, UsageError } from "./args";
+import { fetchLookupTableAddresses } from "../token/lookupTable";
+import { fetchDurableNonce } from "../token/nonce";
+import { TransactionOptions } from "../token/transaction";
+
+/**
+ * Flags shared by every command whose transactions can use a durable nonce, a version 0
+ * message and address lookup tables
+ */
+export const transactionOptions = {
+  nonceAccount: {
+    type: "address",
+    description:
+      "Durable nonce account to use as the transaction lifetime instead of a recent blockhash",
+  },
+  transactionVersion: {
+    type: "string",
+    description:
+      "Message version (defaults to 0 with --lookup-tables, legacy otherwise)",
+    choices: ["legacy", "0"],
+  },
+  lookupTables: {
+    type: "string",
+    description:
+      "Comma-separated address lookup tables used to compress a version 0 message",
+  },
+} as const satisfies OptionSpecs;
+
+/**
+ * Reads the durable nonce selected for the invocation, if any
+ * @param rpc RPC client
+ * @param nonceAccount Value of `--nonce-account`
+ * @returns Durable nonce, or undefined to use the latest blockhash
+ */
+const getDurableNonce = async (
+  rpc: Rpc<SolanaRpcApi>,
+  nonceAccount: Address | undefined,
+) => (nonceAccount ? fetchDurableNonce(rpc, nonceAccount) : undefined);
+
+/**
+ * Resolves the transaction flags into the options accepted by the operations, fetching
+ * the durable nonce and the contents of the lookup tables
+ * @param rpc RPC client
+ * @param options Parsed values of the transaction flags
+ * @returns Transaction options
+ */
+export const getTransactionOptions = async (
+  rpc: Rpc<SolanaRpcApi>,
+  options: {
+    nonceAccount?: Address;
+    transactionVersion?: string;
+    lookupTables?: string;
+  },
+): Promise<TransactionOptions> => {
+  const lookupTables = options.lookupTables
+    ? parseAddressList("lookup-tables", options.lookupTables)
+    : [];
+  if (lookupTables.length > 0 && options.transactionVersion === "legacy") {
+    throw new UsageError(
+      "--lookup-tables requires a version 0 message; remove --transaction-version legacy",
+    );
+  }
+  const version =
+    options.transactionVersion === "0" || lookupTables.length > 0
+      ? 0
+      : "legacy";
+
+  return {
+    durableNonce: await getDurableNonce(rpc, options.nonceAccount),
+    version,
+    addressLookupTables:
+      lookupTables.length > 0
+        ? await fetchLookupTableAddresses(rpc, lookupTables)
+        : undefined,
+  };
+};
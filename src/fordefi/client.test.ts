@@ -0,0 +1,221 @@
+import {
+  afterEach,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  jest,
+} from "@jest/globals";
+import {
+  FordefiClient,
+  FordefiWaitTimeoutError,
+  TransactionResponse,
+  TransactionState,
+} from "./client";
+import { FordefiTransport } from "./transport";
+
+const TX_ID = "tx/1";
+
+const transaction = (state: TransactionState) =>
+  ({ id: TX_ID, state }) as TransactionResponse;
+
+// Answers the client's requests in order, repeating the last response
+const stubRequests = (...responses: unknown[]) =>
+  jest
+    .spyOn(FordefiTransport.prototype, "request")
+    .mockImplementation(
+      async () =>
+        (responses.length > 1 ? responses.shift() : responses[0]) as never,
+    );
+
+// Replaces the clock so that sleeping returns at once and moves time forward
+const useFakeClock = () => {
+  const sleeps: number[] = [];
+  let now = 0;
+  jest.spyOn(Date, "now").mockImplementation(() => now);
+  jest.spyOn(global, "setTimeout").mockImplementation(((
+    callback: () => void,
+    ms: number,
+  ) => {
+    sleeps.push(ms);
+    now += ms;
+    callback();
+  }) as typeof setTimeout);
+  return sleeps;
+};
+
+const client = new FordefiClient({
+  apiKey: "api-key",
+  apiSecret: "api-secret",
+  timeout: 1_000,
+});
+
+// The client logs every failed call to stderr
+beforeEach(() => {
+  jest.spyOn(console, "error").mockImplementation(() => {});
+});
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe("getTransaction", () => {
+  it("fetches the transaction by its escaped ID", async () => {
+    const request = stubRequests(transaction(TransactionState.Pushed));
+
+    await expect(client.getTransactionStatus(TX_ID)).resolves.toBe(
+      TransactionState.Pushed,
+    );
+    expect(request).toHaveBeenCalledWith("GET", "/v1/transactions/tx%2F1");
+  });
+});
+
+describe("listTransactions", () => {
+  it("sends every filter as a query parameter", async () => {
+    const request = stubRequests({ transactions: [] });
+    await client.listTransactions({
+      vaultIds: ["vault-1", "vault-2"],
+      states: [TransactionState.WaitingForApproval],
+      createdAfter: new Date("2024-01-01T00:00:00Z"),
+      createdBefore: new Date("2024-02-01T00:00:00Z"),
+      page: 2,
+      size: 50,
+    });
+
+    const [method, path] = request.mock.calls[0];
+    expect(method).toBe("GET");
+    const url = new URL(path, "https://api.fordefi.com");
+    expect(url.pathname).toBe("/v1/transactions");
+    expect(url.searchParams.getAll("vault_ids")).toEqual([
+      "vault-1",
+      "vault-2",
+    ]);
+    expect(Object.fromEntries(url.searchParams)).toMatchObject({
+      states: "waiting_for_approval",
+      created_after: "2024-01-01T00:00:00.000Z",
+      created_before: "2024-02-01T00:00:00.000Z",
+      page: "2",
+      size: "50",
+    });
+  });
+
+  it("lists without a query string when unfiltered", async () => {
+    const request = stubRequests({ transactions: [] });
+    await client.listTransactions();
+
+    expect(request).toHaveBeenCalledWith("GET", "/v1/transactions");
+  });
+});
+
+describe("abortTransaction", () => {
+  it("posts an abort that is safe to retry", async () => {
+    const request = stubRequests(undefined);
+    await client.abortTransaction(TX_ID);
+
+    expect(request).toHaveBeenCalledWith(
+      "POST",
+      "/v1/transactions/tx%2F1/abort",
+      { idempotent: true },
+    );
+  });
+});
+
+describe("createAndWaitTransaction", () => {
+  it("sends an idempotence ID and outlasts the wait on the HTTP side", async () => {
+    const request = stubRequests(transaction(TransactionState.Completed));
+    await client.createAndWaitTransaction(
+      "vault-1",
+      new Uint8Array([1, 2, 3]),
+      "solana_devnet",
+      { pushMode: "manual", timeout: 5_000 },
+    );
+
+    const [, path, options] = request.mock.calls[0];
+    expect(path).toBe("/v1/transactions/create-and-wait");
+    expect(options).toMatchObject({
+      idempotent: true,
+      timeout: 6_000,
+      body: {
+        type: "solana_transaction",
+        vault_id: "vault-1",
+        transaction: "AQID",
+        chain: "solana_devnet",
+        push_mode: "manual",
+        timeout: 5_000,
+      },
+    });
+    expect(
+      (options?.body as { idempotence_id: string }).idempotence_id,
+    ).toMatch(/^[0-9a-f-]{36}$/);
+  });
+
+  it("keeps a given idempotence ID and the default HTTP timeout", async () => {
+    const request = stubRequests(transaction(TransactionState.Completed));
+    await client.createAndWaitTransaction(
+      "vault-1",
+      new Uint8Array([1]),
+      "solana_devnet",
+      { idempotenceId: "repeat-me" },
+    );
+
+    const [, , options] = request.mock.calls[0];
+    expect(options?.timeout).toBeUndefined();
+    expect(options?.body).toMatchObject({ idempotence_id: "repeat-me" });
+    expect(options?.body).not.toHaveProperty("timeout");
+  });
+});
+
+describe("waitForState", () => {
+  it("polls with a growing, capped interval until the target state", async () => {
+    const sleeps = useFakeClock();
+    stubRequests(
+      transaction(TransactionState.Created),
+      transaction(TransactionState.WaitingForApproval),
+      transaction(TransactionState.WaitingForApproval),
+      transaction(TransactionState.WaitingForSignature),
+      transaction(TransactionState.ReadyForPush),
+    );
+
+    await expect(
+      client.waitForState(TX_ID, TransactionState.ReadyForPush, {
+        initialInterval: 1_000,
+        maxInterval: 3_000,
+      }),
+    ).resolves.toEqual(transaction(TransactionState.ReadyForPush));
+    expect(sleeps).toEqual([1_000, 2_000, 3_000, 3_000]);
+  });
+
+  it("stops at a terminal state", async () => {
+    useFakeClock();
+    stubRequests(
+      transaction(TransactionState.WaitingForApproval),
+      transaction(TransactionState.Aborted),
+    );
+
+    await expect(
+      client.waitForState(TX_ID, [
+        TransactionState.ReadyForPush,
+        TransactionState.Pushed,
+      ]),
+    ).resolves.toEqual(transaction(TransactionState.Aborted));
+  });
+
+  it("gives up at the deadline with the last state", async () => {
+    const sleeps = useFakeClock();
+    stubRequests(transaction(TransactionState.WaitingForApproval));
+
+    const error = await client
+      .waitForState(TX_ID, TransactionState.Completed, {
+        timeout: 2_500,
+        initialInterval: 1_000,
+      })
+      .catch((e) => e);
+
+    // The last sleep is shortened to end at the deadline
+    expect(sleeps).toEqual([1_000, 1_500]);
+    expect(error).toBeInstanceOf(FordefiWaitTimeoutError);
+    expect(error.lastState).toBe(TransactionState.WaitingForApproval);
+    expect(error.message).toBe(
+      `Fordefi transaction ${TX_ID} is still waiting_for_approval after the wait timed out`,
+    );
+  });
+});
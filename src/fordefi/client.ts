@@ -1,12 +1,9 @@
-import axios, { AxiosInstance, AxiosResponse } from "axios";
-import { createHmac } from "crypto";
+import { randomUUID } from "crypto";
 import { Buffer } from "buffer";
+import { FordefiConfig, FordefiTransport, sleep } from "./transport";
 
-export interface FordefiConfig {
-  apiKey: string;
-  apiSecret: string;
-  baseUrl?: string;
-}
+export type { FordefiConfig } from "./transport";
+export { FordefiHttpError } from "./transport";
 
 // Transaction types supported by Fordefi
 export enum TransactionType {
@@ -28,6 +25,21 @@ export enum TransactionState {
   Aborted = "aborted",
 }
 
+// States after which a transaction no longer changes
+export const TERMINAL_TRANSACTION_STATES: readonly TransactionState[] = [
+  TransactionState.Completed,
+  TransactionState.Failed,
+  TransactionState.Aborted,
+];
+
+// Solana chain identifiers in Fordefi
+export const FORDEFI_SOLANA_CHAINS = [
+  "solana_mainnet",
+  "solana_devnet",
+] as const;
+
+export type FordefiSolanaChain = (typeof FORDEFI_SOLANA_CHAINS)[number];
+
 // Base transaction request
 export interface TransactionRequest {
   type: TransactionType;
@@ -42,7 +54,7 @@ export interface TransactionRequest {
 export interface SolanaTransactionRequest extends TransactionRequest {
   type: TransactionType.SolanaTransaction;
   transaction: string; // Base64 encoded transaction
-  chain: string; // E.g., "solana_mainnet"
+  chain: FordefiSolanaChain;
 }
 
 // Transaction response from Fordefi
@@ -64,145 +76,52 @@ export interface TransactionResponse {
   }>;
 }
 
-export class FordefiClient {
-  private readonly api: AxiosInstance;
-  private readonly apiKey: string;
-  private readonly apiSecret: string;
-  private accessToken: string | null = null;
-
-  constructor(config: FordefiConfig) {
-    this.apiKey = config.apiKey;
-    this.apiSecret = config.apiSecret;
-    this.api = axios.create({
-      baseURL: config.baseUrl || "https://api.fordefi.com",
-      headers: {
-        "Content-Type": "application/json",
-      },
-    });
-  }
-
-  /**
-   * Creates signature for Fordefi API requests
-   * @param body - The request body
-   * @returns Object with signature and timestamp
-   */
-  private createSignature(body: string): {
-    signature: string;
-    timestamp: number;
-  } {
-    const timestamp = Date.now();
-    const message = `${timestamp}${body}`;
-    const signature = createHmac("sha256", this.apiSecret)
-      .update(message)
-      .digest("hex");
-
-    return { signature, timestamp };
-  }
-
-  /**
-   * Authenticates with Fordefi to get an access token
-   * @returns Access token
-   */
-  private async authenticate(): Promise<string> {
-    if (this.accessToken) {
-      return this.accessToken;
-    }
-
-    const requestBody = JSON.stringify({
-      apiKey: this.apiKey,
-    });
+// Filters for listing transactions; every field is optional
+export interface ListTransactionsFilter {
+  vaultIds?: string[];
+  states?: TransactionState[];
+  createdAfter?: Date;
+  createdBefore?: Date;
+  page?: number;
+  size?: number;
+}
 
-    const { signature, timestamp } = this.createSignature(requestBody);
+// Page of transactions returned by the list endpoint
+export interface ListTransactionsResponse {
+  total: number;
+  page: number;
+  size: number;
+  transactions: TransactionResponse[];
+}
 
-    try {
-      const response = await this.api.post("/auth", requestBody, {
-        headers: {
-          "x-signature": signature,
-          "x-timestamp": timestamp,
-        },
-      });
+// Polling schedule used by waitForState
+export interface WaitForStateOptions {
+  timeout?: number; // Total time to wait in milliseconds (default 5 minutes)
+  initialInterval?: number; // First delay between polls in milliseconds (default 1 second)
+  maxInterval?: number; // Longest delay between polls in milliseconds (default 30 seconds)
+  backoffFactor?: number; // Multiplier applied to the delay after each poll (default 2)
+}
 
-      this.accessToken = response.data.accessToken;
-      if (!this.accessToken) {
-        throw new Error("No access token received from Fordefi");
-      }
-      return this.accessToken;
-    } catch (error) {
-      console.error("Authentication failed:", error);
-      throw new Error("Failed to authenticate with Fordefi");
-    }
+/**
+ * Error raised when a transaction does not reach the awaited state in time
+ */
+export class FordefiWaitTimeoutError extends Error {
+  constructor(
+    readonly transactionId: string,
+    readonly lastState: TransactionState,
+  ) {
+    super(
+      `Fordefi transaction ${transactionId} is still ${lastState} after the wait timed out`,
+    );
+    this.name = "FordefiWaitTimeoutError";
   }
+}
 
-  /**
-   * Performs a request to the Fordefi API with proper authentication and error handling
-   * @param method - HTTP method
-   * @param path - API path
-   * @param body - Request body (optional)
-   * @returns Response data
-   */
-  private async request<T>(
-    method: "GET" | "POST",
-    path: string,
-    body?: any,
-  ): Promise<T> {
-    const accessToken = await this.authenticate();
-    const url = `${this.api.defaults.baseURL}${path}`;
-    const requestBody = body ? JSON.stringify(body) : "";
-
-    try {
-      let response: AxiosResponse;
-
-      if (method === "GET") {
-        response = await axios.request({
-          method,
-          url,
-          headers: {
-            Authorization: `Bearer ${accessToken}`,
-            "Content-Type": "application/json",
-          },
-          validateStatus: () => true,
-        });
-      } else {
-        const { signature, timestamp } = this.createSignature(requestBody);
-
-        response = await axios.post(url, requestBody, {
-          headers: {
-            Authorization: `Bearer ${accessToken}`,
-            "x-signature": signature,
-            "x-timestamp": timestamp,
-            "Content-Type": "application/json",
-          },
-          validateStatus: () => true,
-        });
-      }
-
-      if (response.status < 200 || response.status >= 300) {
-        let errorMessage = `HTTP error occurred: status = ${response.status}`;
-        try {
-          const errorDetail = response.data;
-          errorMessage += `\nError details: ${JSON.stringify(errorDetail)}`;
-        } catch {
-          errorMessage += `\nRaw response: ${response.data}`;
-        }
-        throw new Error(errorMessage);
-      }
+export class FordefiClient {
+  private readonly transport: FordefiTransport;
 
-      return method === "GET" ? response.data : response.data;
-    } catch (error: any) {
-      // If we have an Axios error with a response, parse it
-      if (error.response) {
-        let errorMessage = `HTTP error occurred: status = ${error.response.status}`;
-        try {
-          const errorDetail = error.response.data;
-          errorMessage += `\nError details: ${JSON.stringify(errorDetail)}`;
-        } catch {
-          errorMessage += `\nRaw response: ${error.response.data}`;
-        }
-        throw new Error(errorMessage);
-      }
-      // Otherwise, it's a network or unknown error
-      throw new Error(`Network error occurred: ${error.message ?? error}`);
-    }
+  constructor(config: FordefiConfig) {
+    this.transport = new FordefiTransport(config);
   }
 
   /**
@@ -216,14 +135,14 @@ export class FordefiClient {
       const serializedTx = Buffer.from(transaction).toString("base64");
 
       // Send to Fordefi for signing
-      const response = await this.request<{ signedTransaction: string }>(
-        "POST",
-        "/v1/transactions/sign",
-        {
+      const response = await this.transport.request<{
+        signedTransaction: string;
+      }>("POST", "/v1/transactions/sign", {
+        body: {
           transaction: serializedTx,
           network: "solana",
         },
-      );
+      });
 
       // Parse the signed transaction
       return Buffer.from(response.signedTransaction, "base64");
@@ -246,7 +165,7 @@ export class FordefiClient {
   async createAndWaitTransaction(
     vaultId: string,
     transaction: Uint8Array,
-    chain: string,
+    chain: FordefiSolanaChain,
     options: {
       note?: string;
       idempotenceId?: string;
@@ -259,13 +178,14 @@ export class FordefiClient {
       // Convert transaction to base64
       const serializedTx = Buffer.from(transaction).toString("base64");
 
-      // Prepare the transaction request
+      // Prepare the transaction request. The idempotence ID makes a retried request
+      // return the transaction created by the first attempt instead of a duplicate.
       const txRequest: SolanaTransactionRequest = {
         type: TransactionType.SolanaTransaction,
         vault_id: vaultId,
         transaction: serializedTx,
         chain: chain,
-        idempotence_id: options.idempotenceId,
+        idempotence_id: options.idempotenceId ?? randomUUID(),
         note: options.note,
         sign_mode: options.signMode,
         push_mode: options.pushMode,
@@ -277,12 +197,19 @@ export class FordefiClient {
         requestOptions.timeout = options.timeout;
       }
 
-      const response = await this.request<TransactionResponse>(
+      // The HTTP timeout must outlast the time Fordefi waits before answering
+      const response = await this.transport.request<TransactionResponse>(
         "POST",
         "/v1/transactions/create-and-wait",
         {
-          ...txRequest,
-          ...requestOptions,
+          body: {
+            ...txRequest,
+            ...requestOptions,
+          },
+          idempotent: true,
+          timeout: options.timeout
+            ? options.timeout + this.transport.timeout
+            : undefined,
         },
       );
 
@@ -299,7 +226,7 @@ export class FordefiClient {
    */
   async getWalletAddress(): Promise<string> {
     try {
-      const response = await this.request<{ address: string }>(
+      const response = await this.transport.request<{ address: string }>(
         "GET",
         "/v1/wallets/solana",
       );
@@ -311,20 +238,125 @@ export class FordefiClient {
   }
 
   /**
-   * Gets transaction status from Fordefi
+   * Gets a transaction from Fordefi
+   * @param txId - Transaction ID
+   * @returns Transaction details including its state and signatures
+   */
+  async getTransaction(txId: string): Promise<TransactionResponse> {
+    try {
+      return await this.transport.request<TransactionResponse>(
+        "GET",
+        `/v1/transactions/${encodeURIComponent(txId)}`,
+      );
+    } catch (error) {
+      console.error("Error getting transaction:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Gets transaction state from Fordefi
    * @param txId - Transaction ID
-   * @returns Transaction status
+   * @returns Transaction state
    */
-  async getTransactionStatus(txId: string): Promise<string> {
+  async getTransactionStatus(txId: string): Promise<TransactionState> {
+    return (await this.getTransaction(txId)).state;
+  }
+
+  /**
+   * Lists transactions, newest first
+   * @param filter - Vaults, states and creation time range to match, and the page
+   * @returns One page of matching transactions
+   */
+  async listTransactions(
+    filter: ListTransactionsFilter = {},
+  ): Promise<ListTransactionsResponse> {
+    const query = new URLSearchParams();
+    for (const vaultId of filter.vaultIds ?? []) {
+      query.append("vault_ids", vaultId);
+    }
+    for (const state of filter.states ?? []) {
+      query.append("states", state);
+    }
+    if (filter.createdAfter) {
+      query.set("created_after", filter.createdAfter.toISOString());
+    }
+    if (filter.createdBefore) {
+      query.set("created_before", filter.createdBefore.toISOString());
+    }
+    if (filter.page !== undefined) {
+      query.set("page", String(filter.page));
+    }
+    if (filter.size !== undefined) {
+      query.set("size", String(filter.size));
+    }
+
     try {
-      const response = await this.request<{ status: string }>(
+      const search = query.toString();
+      return await this.transport.request<ListTransactionsResponse>(
         "GET",
-        `/v1/transactions/${txId}`,
+        `/v1/transactions${search ? `?${search}` : ""}`,
       );
-      return response.status;
     } catch (error) {
-      console.error("Error getting transaction status:", error);
+      console.error("Error listing transactions:", error);
       throw error;
     }
   }
+
+  /**
+   * Aborts a transaction that has not been signed yet, e.g. one stuck waiting for
+   * approval
+   * @param txId - Transaction ID
+   */
+  async abortTransaction(txId: string): Promise<void> {
+    try {
+      await this.transport.request<unknown>(
+        "POST",
+        `/v1/transactions/${encodeURIComponent(txId)}/abort`,
+        { idempotent: true },
+      );
+    } catch (error) {
+      console.error("Error aborting transaction:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Polls a transaction with exponential backoff until it reaches one of the target
+   * states or a terminal state. Useful when create-and-wait times out while the
+   * transaction is still waiting for approval.
+   * @param txId - Transaction ID
+   * @param target - State or states to wait for
+   * @param options - Timeout and polling schedule
+   * @returns Transaction in a target or terminal state; check `state` to tell them apart
+   */
+  async waitForState(
+    txId: string,
+    target: TransactionState | TransactionState[],
+    options: WaitForStateOptions = {},
+  ): Promise<TransactionResponse> {
+    const targets = Array.isArray(target) ? target : [target];
+    const timeout = options.timeout ?? 5 * 60_000;
+    const maxInterval = options.maxInterval ?? 30_000;
+    const backoffFactor = options.backoffFactor ?? 2;
+    const deadline = Date.now() + timeout;
+    let interval = options.initialInterval ?? 1_000;
+
+    for (;;) {
+      const transaction = await this.getTransaction(txId);
+      if (
+        targets.includes(transaction.state) ||
+        TERMINAL_TRANSACTION_STATES.includes(transaction.state)
+      ) {
+        return transaction;
+      }
+
+      const remaining = deadline - Date.now();
+      if (remaining <= 0) {
+        throw new FordefiWaitTimeoutError(txId, transaction.state);
+      }
+      await sleep(Math.min(interval, remaining));
+      interval = Math.min(interval * backoffFactor, maxInterval);
+    }
+  }
 }
@@ -0,0 +1,412 @@
+import { createHmac } from "crypto";
+import {
+  afterAll,
+  afterEach,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  jest,
+} from "@jest/globals";
+import {
+  AccountRole,
+  Address,
+  generateKeyPairSigner,
+  getBase64EncodedWireTransaction,
+  getPublicKeyFromAddress,
+  getTransactionDecoder,
+  KeyPairSigner,
+  ReadonlyUint8Array,
+  SignatureBytes,
+  Transaction,
+  verifySignature,
+} from "@solana/kit";
+import { getAddMemoInstruction } from "gill/programs";
+import { FordefiClient, FordefiHttpError, TransactionState } from "./client";
+import { FordefiSimulator } from "./simulator";
+import { fordefiPartialSigner } from "../signer/fordefi";
+import { testAddress, TEST_BLOCKHASH } from "../testing/rpc";
+import { compilePreparedTransaction } from "../token/transaction";
+
+const API_KEY = "simulator-api-key";
+const API_SECRET = "simulator-api-secret";
+const VAULT_ID = "vault-1";
+
+// Compiles a memo transaction paid by the given address
+const memoTransaction = (feePayer: Address, memo = "hello"): Transaction =>
+  compilePreparedTransaction({
+    feePayer,
+    instructions: [getAddMemoInstruction({ memo })],
+    lifetime: { blockhash: TEST_BLOCKHASH, lastValidBlockHeight: 100n },
+    summary: memo,
+  }).transaction;
+
+const verifies = async (
+  signer: Address,
+  signature: Uint8Array,
+  message: ReadonlyUint8Array,
+) =>
+  verifySignature(
+    await getPublicKeyFromAddress(signer),
+    signature as SignatureBytes,
+    message,
+  );
+
+// Starts a simulator for the tests of a describe block and a client pointing at it
+const useSimulator = (config: { approval?: "auto" | "manual" } = {}) => {
+  const context = {} as {
+    vault: KeyPairSigner;
+    simulator: FordefiSimulator;
+    url: string;
+    client: FordefiClient;
+  };
+  beforeAll(async () => {
+    context.vault = await generateKeyPairSigner();
+    context.simulator = new FordefiSimulator({
+      apiKey: API_KEY,
+      apiSecret: API_SECRET,
+      signer: context.vault,
+      vaultId: VAULT_ID,
+      ...config,
+    });
+    context.url = await context.simulator.start();
+    context.client = new FordefiClient({
+      apiKey: API_KEY,
+      apiSecret: API_SECRET,
+      baseUrl: context.url,
+      maxRetries: 0,
+      logger: () => {},
+    });
+  });
+  afterAll(() => context.simulator.stop());
+  return context;
+};
+
+// The client logs every failed call to stderr
+beforeEach(() => {
+  jest.spyOn(console, "error").mockImplementation(() => {});
+});
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe("request authentication", () => {
+  const context = useSimulator();
+
+  it("rejects a POST without a signature", async () => {
+    const response = await fetch(`${context.url}/auth`, {
+      method: "POST",
+      body: JSON.stringify({ apiKey: API_KEY }),
+    });
+
+    expect(response.status).toBe(401);
+    expect(await response.json()).toEqual({
+      title: "Missing x-signature or x-timestamp",
+    });
+  });
+
+  it("rejects a stale timestamp", async () => {
+    const body = JSON.stringify({ apiKey: API_KEY });
+    const timestamp = String(Date.now() - 10 * 60_000);
+    const response = await fetch(`${context.url}/auth`, {
+      method: "POST",
+      body,
+      headers: {
+        "x-timestamp": timestamp,
+        "x-signature": createHmac("sha256", API_SECRET)
+          .update(`${timestamp}${body}`)
+          .digest("hex"),
+      },
+    });
+
+    expect(response.status).toBe(401);
+  });
+
+  it("rejects a client with the wrong secret", async () => {
+    const client = new FordefiClient({
+      apiKey: API_KEY,
+      apiSecret: "wrong-secret",
+      baseUrl: context.url,
+      maxRetries: 0,
+      logger: () => {},
+    });
+
+    const error = await client.getWalletAddress().catch((e) => e);
+    expect(error).toBeInstanceOf(FordefiHttpError);
+    expect(error.status).toBe(401);
+    expect(error.details).toContain("Invalid x-signature");
+  });
+
+  it("rejects requests without an access token", async () => {
+    const response = await fetch(`${context.url}/v1/wallets/solana`);
+
+    expect(response.status).toBe(401);
+  });
+
+  it("serves the vault address to a signed-in client", async () => {
+    await expect(context.client.getWalletAddress()).resolves.toBe(
+      context.vault.address,
+    );
+  });
+});
+
+describe("FordefiClient against the simulator", () => {
+  const context = useSimulator();
+
+  it("creates, signs and completes a transaction", async () => {
+    const tx = memoTransaction(context.vault.address);
+    const response = await context.client.createAndWaitTransaction(
+      VAULT_ID,
+      new Uint8Array(tx.messageBytes),
+      "solana_devnet",
+    );
+
+    expect(response.state).toBe(TransactionState.Completed);
+    expect(response.signatures).toHaveLength(1);
+    const [{ signature, public_key }] = response.signatures!;
+    expect(public_key).toBe(context.vault.address);
+    await expect(
+      verifies(
+        context.vault.address,
+        Buffer.from(signature, "base64"),
+        tx.messageBytes,
+      ),
+    ).resolves.toBe(true);
+  });
+
+  it("returns the same transaction for a repeated idempotence ID", async () => {
+    const tx = new Uint8Array(
+      memoTransaction(context.vault.address).messageBytes,
+    );
+    const first = await context.client.createAndWaitTransaction(
+      VAULT_ID,
+      tx,
+      "solana_devnet",
+      { idempotenceId: "repeat-me" },
+    );
+    const second = await context.client.createAndWaitTransaction(
+      VAULT_ID,
+      tx,
+      "solana_devnet",
+      { idempotenceId: "repeat-me" },
+    );
+
+    expect(second.id).toBe(first.id);
+  });
+
+  it("fails a message the vault does not have to sign", async () => {
+    const response = await context.client.createAndWaitTransaction(
+      VAULT_ID,
+      new Uint8Array(memoTransaction(testAddress(9)).messageBytes),
+      "solana_devnet",
+    );
+
+    expect(response.state).toBe(TransactionState.Failed);
+    expect(response.signatures).toBeUndefined();
+  });
+
+  it("rejects an unknown vault", async () => {
+    const error = await context.client
+      .createAndWaitTransaction(
+        "other-vault",
+        new Uint8Array(memoTransaction(context.vault.address).messageBytes),
+        "solana_devnet",
+      )
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(FordefiHttpError);
+    expect(error.status).toBe(404);
+  });
+
+  it("signs a wire transaction", async () => {
+    const tx = memoTransaction(context.vault.address);
+    const signed = getTransactionDecoder().decode(
+      await context.client.signTransaction(
+        Buffer.from(getBase64EncodedWireTransaction(tx), "base64"),
+      ),
+    );
+
+    await expect(
+      verifies(
+        context.vault.address,
+        signed.signatures[context.vault.address]!,
+        tx.messageBytes,
+      ),
+    ).resolves.toBe(true);
+  });
+
+  it("rejects a malformed sign request", async () => {
+    const error = await context.client
+      .signTransaction(new Uint8Array([1, 2, 3]))
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(FordefiHttpError);
+    expect(error.status).toBe(400);
+  });
+
+  it("filters listed transactions by vault and state", async () => {
+    const { transactions } = await context.client.listTransactions({
+      vaultIds: [VAULT_ID],
+      states: [TransactionState.Failed],
+    });
+
+    expect(transactions.length).toBeGreaterThan(0);
+    for (const tx of transactions) {
+      expect(tx.state).toBe(TransactionState.Failed);
+    }
+  });
+});
+
+describe("manual approval", () => {
+  const context = useSimulator({ approval: "manual" });
+  const create = () =>
+    context.client.createAndWaitTransaction(
+      VAULT_ID,
+      new Uint8Array(memoTransaction(context.vault.address).messageBytes),
+      "solana_devnet",
+      { pushMode: "manual", timeout: 100 },
+    );
+
+  it("waits for approval, then signs without pushing", async () => {
+    const created = await create();
+    expect(created.state).toBe(TransactionState.WaitingForApproval);
+
+    const approve = await fetch(
+      `${context.url}/simulator/transactions/${created.id}/approve`,
+      { method: "POST" },
+    );
+    expect(approve.status).toBe(200);
+    expect((await approve.json()).state).toBe(TransactionState.ReadyForPush);
+
+    const signed = await context.client.waitForState(
+      created.id,
+      TransactionState.ReadyForPush,
+      { initialInterval: 10 },
+    );
+    expect(signed.signatures).toHaveLength(1);
+    expect(signed.transaction_hash).toBeUndefined();
+  });
+
+  it("refuses to approve a transaction twice", async () => {
+    const created = await create();
+    await context.simulator.approve(created.id);
+
+    await expect(context.simulator.approve(created.id)).rejects.toThrow(
+      "not waiting for approval",
+    );
+  });
+
+  it("aborts a transaction waiting for approval", async () => {
+    const created = await create();
+    await context.client.abortTransaction(created.id);
+
+    expect(context.simulator.getTransaction(created.id)?.state).toBe(
+      TransactionState.Aborted,
+    );
+    const error = await context.client
+      .abortTransaction(created.id)
+      .catch((e) => e);
+    expect(error.status).toBe(400);
+  });
+});
+
+describe("fordefiPartialSigner against the simulator", () => {
+  const context = useSimulator({ approval: "manual" });
+  // Approves every transaction the simulator holds once it waits for approval
+  const approveWhenWaiting = async (fail = false) => {
+    for (;;) {
+      const { transactions } = await context.client.listTransactions({
+        states: [TransactionState.WaitingForApproval],
+      });
+      if (transactions.length > 0) {
+        for (const tx of transactions) {
+          if (fail) {
+            context.simulator.fail(tx.id);
+          } else {
+            await context.simulator.approve(tx.id);
+          }
+        }
+        return;
+      }
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+  };
+
+  it("returns the verified vault signature once approved", async () => {
+    const tx = memoTransaction(context.vault.address);
+    const signer = fordefiPartialSigner(
+      context.client,
+      context.vault.address,
+      VAULT_ID,
+      "solana_devnet",
+      { timeout: 5_000 },
+    );
+
+    const [signatures] = await Promise.all([
+      signer.signTransactions([tx]),
+      approveWhenWaiting(),
+    ]);
+
+    const signature = signatures[0][context.vault.address];
+    await expect(
+      verifies(context.vault.address, signature, tx.messageBytes),
+    ).resolves.toBe(true);
+  });
+
+  it("fails when the transaction is failed in Fordefi", async () => {
+    const signer = fordefiPartialSigner(
+      context.client,
+      context.vault.address,
+      VAULT_ID,
+      "solana_devnet",
+      { timeout: 5_000 },
+    );
+
+    const [result] = await Promise.allSettled([
+      signer.signTransactions([memoTransaction(context.vault.address)]),
+      approveWhenWaiting(true),
+    ]);
+
+    expect(result.status).toBe("rejected");
+    expect((result as PromiseRejectedResult).reason.message).toMatch(
+      /ended in state failed/,
+    );
+  });
+
+  it("rejects a signature made by another key", async () => {
+    const signer = fordefiPartialSigner(
+      context.client,
+      testAddress(9),
+      VAULT_ID,
+      "solana_devnet",
+      { timeout: 5_000 },
+    );
+    // Both the vault key and the address the signer expects must sign
+    const tx = compilePreparedTransaction({
+      feePayer: testAddress(9),
+      instructions: [
+        {
+          ...getAddMemoInstruction({ memo: "two signers" }),
+          accounts: [
+            {
+              address: context.vault.address,
+              role: AccountRole.READONLY_SIGNER,
+            },
+          ],
+        },
+      ],
+      lifetime: { blockhash: TEST_BLOCKHASH, lastValidBlockHeight: 100n },
+      summary: "",
+    }).transaction;
+
+    const [result] = await Promise.allSettled([
+      signer.signTransactions([tx]),
+      approveWhenWaiting(),
+    ]);
+
+    expect((result as PromiseRejectedResult).reason.message).toMatch(
+      `was signed by ${context.vault.address}, not the vault ${testAddress(9)}`,
+    );
+  });
+});
@@ -0,0 +1,518 @@
+import {
+  createServer,
+  IncomingMessage,
+  Server,
+  ServerResponse,
+} from "node:http";
+import { AddressInfo } from "node:net";
+import { createHmac, randomUUID, timingSafeEqual } from "crypto";
+import { Buffer } from "buffer";
+import {
+  KeyPairSigner,
+  getBase58Decoder,
+  getCompiledTransactionMessageDecoder,
+  getTransactionDecoder,
+  getTransactionEncoder,
+  signBytes,
+  Transaction,
+} from "@solana/kit";
+import {
+  FORDEFI_SOLANA_CHAINS,
+  SolanaTransactionRequest,
+  TERMINAL_TRANSACTION_STATES,
+  TransactionResponse,
+  TransactionState,
+  TransactionType,
+} from "./client";
+import { sleep } from "./transport";
+
+export interface FordefiSimulatorConfig {
+  apiKey: string;
+  apiSecret: string;
+  signer: KeyPairSigner; // Local keypair standing in for the vault key
+  vaultId?: string; // ID accepted as vault_id (default "simulated-vault")
+  approval?: "auto" | "manual"; // Manual transactions wait for approve() (default auto)
+  stepDelay?: number; // Delay between state transitions in milliseconds (default 0)
+  waitTimeout?: number; // Longest create-and-wait hold in milliseconds (default 10 seconds)
+}
+
+// A transaction held by the simulator
+interface SimulatedTransaction {
+  response: TransactionResponse;
+  message: Uint8Array;
+  pushMode: "auto" | "manual";
+  idempotenceId?: string;
+  note?: string;
+}
+
+// Body of a create-and-wait request. It comes from the network, so every field is
+// checked before use.
+type CreateAndWaitRequest = Partial<SolanaTransactionRequest> & {
+  timeout?: number;
+};
+
+// Body of a sign request, as sent by FordefiClient.signTransaction
+interface SignRequest {
+  transaction?: string; // Base64 encoded wire transaction
+  network?: string;
+}
+
+// Maximum age of a signed request, as enforced by the real API
+const MAX_TIMESTAMP_SKEW = 5 * 60_000;
+
+class SimulatorHttpError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * Local stand-in for the Fordefi API. It implements the endpoints FordefiClient calls,
+ * verifies the HMAC request signatures, signs with a local keypair and walks each
+ * transaction through the Fordefi states, so the signing path can be exercised without
+ * Fordefi credentials. Pushing is simulated: nothing is sent to a Solana cluster.
+ *
+ * Besides the Fordefi endpoints it exposes two test hooks:
+ * `POST /simulator/transactions/{id}/approve` and `POST /simulator/transactions/{id}/fail`.
+ */
+export class FordefiSimulator {
+  private readonly config: Required<FordefiSimulatorConfig>;
+  private readonly transactions = new Map<string, SimulatedTransaction>();
+  private readonly accessTokens = new Set<string>();
+  private server: Server | null = null;
+
+  constructor(config: FordefiSimulatorConfig) {
+    this.config = {
+      vaultId: "simulated-vault",
+      approval: "auto",
+      stepDelay: 0,
+      waitTimeout: 10_000,
+      ...config,
+    };
+  }
+
+  /**
+   * Starts listening on the loopback interface
+   * @param port - Port to listen on, 0 for any free port
+   * @returns Base URL to pass to FordefiClient
+   */
+  async start(port = 0): Promise<string> {
+    const server = createServer((req, res) => void this.handle(req, res));
+    await new Promise<void>((resolve, reject) => {
+      server.once("error", reject);
+      server.listen(port, "127.0.0.1", resolve);
+    });
+    this.server = server;
+    return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  }
+
+  /**
+   * Stops the server
+   */
+  async stop(): Promise<void> {
+    const server = this.server;
+    this.server = null;
+    if (server) {
+      await new Promise((resolve) => server.close(resolve));
+    }
+  }
+
+  /**
+   * Gets a transaction held by the simulator
+   * @param id - Transaction ID
+   * @returns Transaction response, or undefined when unknown
+   */
+  getTransaction(id: string): TransactionResponse | undefined {
+    return this.transactions.get(id)?.response;
+  }
+
+  /**
+   * Approves a transaction waiting for approval and signs it
+   * @param id - Transaction ID
+   */
+  async approve(id: string): Promise<void> {
+    const tx = this.find(id);
+    if (tx.response.state !== TransactionState.WaitingForApproval) {
+      throw new SimulatorHttpError(
+        400,
+        `Transaction ${id} is ${tx.response.state}, not waiting for approval`,
+      );
+    }
+    await this.sign(tx);
+  }
+
+  /**
+   * Moves a transaction that has not completed to the failed state
+   * @param id - Transaction ID
+   */
+  fail(id: string): void {
+    const tx = this.find(id);
+    if (TERMINAL_TRANSACTION_STATES.includes(tx.response.state)) {
+      throw new SimulatorHttpError(
+        400,
+        `Transaction ${id} is already ${tx.response.state}`,
+      );
+    }
+    this.setState(tx, TransactionState.Failed);
+  }
+
+  /**
+   * Aborts a transaction that has not been signed yet
+   * @param id - Transaction ID
+   */
+  abort(id: string): void {
+    const tx = this.find(id);
+    if (
+      ![
+        TransactionState.Created,
+        TransactionState.WaitingForApproval,
+        TransactionState.WaitingForSignature,
+      ].includes(tx.response.state)
+    ) {
+      throw new SimulatorHttpError(
+        400,
+        `Transaction ${id} is ${tx.response.state} and can no longer be aborted`,
+      );
+    }
+    this.setState(tx, TransactionState.Aborted);
+  }
+
+  private find(id: string): SimulatedTransaction {
+    const tx = this.transactions.get(id);
+    if (!tx) {
+      throw new SimulatorHttpError(404, `Transaction ${id} not found`);
+    }
+    return tx;
+  }
+
+  // Reads the state afresh, as it can change while a step is waiting
+  private isIn(tx: SimulatedTransaction, state: TransactionState) {
+    return tx.response.state === state;
+  }
+
+  private setState(tx: SimulatedTransaction, state: TransactionState) {
+    tx.response.state = state;
+    tx.response.modification_time = new Date().toISOString();
+  }
+
+  /**
+   * Checks the x-signature header: an HMAC-SHA256 of the timestamp followed by the body
+   * @param req - Incoming request
+   * @param body - Raw request body
+   */
+  private verifySignature(req: IncomingMessage, body: string) {
+    const signature = req.headers["x-signature"];
+    const timestamp = req.headers["x-timestamp"];
+    if (typeof signature !== "string" || typeof timestamp !== "string") {
+      throw new SimulatorHttpError(401, "Missing x-signature or x-timestamp");
+    }
+    if (Math.abs(Date.now() - Number(timestamp)) > MAX_TIMESTAMP_SKEW) {
+      throw new SimulatorHttpError(401, "x-timestamp is too far from now");
+    }
+    const expected = createHmac("sha256", this.config.apiSecret)
+      .update(`${timestamp}${body}`)
+      .digest();
+    const actual = Buffer.from(signature, "hex");
+    if (
+      actual.length !== expected.length ||
+      !timingSafeEqual(actual, expected)
+    ) {
+      throw new SimulatorHttpError(401, "Invalid x-signature");
+    }
+  }
+
+  private verifyAccessToken(req: IncomingMessage) {
+    const token = req.headers.authorization?.replace(/^Bearer /, "");
+    if (!token || !this.accessTokens.has(token)) {
+      throw new SimulatorHttpError(401, "Invalid or missing access token");
+    }
+  }
+
+  /**
+   * Walks a transaction from creation to approval, or leaves it waiting for approval
+   * in manual mode
+   * @param tx - Transaction to advance
+   */
+  private async advance(tx: SimulatedTransaction) {
+    await sleep(this.config.stepDelay);
+    if (!this.isIn(tx, TransactionState.Created)) {
+      return;
+    }
+    this.setState(tx, TransactionState.WaitingForApproval);
+    if (this.config.approval === "auto") {
+      await sleep(this.config.stepDelay);
+      if (this.isIn(tx, TransactionState.WaitingForApproval)) {
+        await this.sign(tx);
+      }
+    }
+  }
+
+  /**
+   * Signs an approved transaction with the local keypair and, in auto push mode,
+   * marks it as pushed and completed. A message that cannot be signed moves the
+   * transaction to the failed state.
+   * @param tx - Transaction to sign
+   */
+  private async sign(tx: SimulatedTransaction) {
+    this.setState(tx, TransactionState.WaitingForSignature);
+    await sleep(this.config.stepDelay);
+    if (!this.isIn(tx, TransactionState.WaitingForSignature)) {
+      return;
+    }
+
+    const signer = this.config.signer;
+    let signature: Uint8Array;
+    try {
+      const compiled = getCompiledTransactionMessageDecoder().decode(
+        tx.message,
+      );
+      const signers = compiled.staticAccounts.slice(
+        0,
+        compiled.header.numSignerAccounts,
+      );
+      if (!signers.includes(signer.address)) {
+        // The vault is not a required signer of this message
+        this.setState(tx, TransactionState.Failed);
+        return;
+      }
+      signature = await signBytes(signer.keyPair.privateKey, tx.message);
+    } catch {
+      this.setState(tx, TransactionState.Failed);
+      return;
+    }
+    tx.response.signatures = [
+      {
+        signature: Buffer.from(signature).toString("base64"),
+        public_key: signer.address,
+      },
+    ];
+    if (tx.pushMode === "manual") {
+      this.setState(tx, TransactionState.ReadyForPush);
+      return;
+    }
+    tx.response.transaction_hash = getBase58Decoder().decode(signature);
+    this.setState(tx, TransactionState.Pushed);
+    await sleep(this.config.stepDelay);
+    if (this.isIn(tx, TransactionState.Pushed)) {
+      this.setState(tx, TransactionState.Completed);
+    }
+  }
+
+  /**
+   * Holds a create-and-wait request until the transaction is signed or terminal
+   * @param tx - Transaction to wait for
+   * @param timeout - Longest wait in milliseconds
+   */
+  private async waitForSettled(tx: SimulatedTransaction, timeout: number) {
+    const deadline = Date.now() + timeout;
+    while (
+      tx.response.state !== TransactionState.ReadyForPush &&
+      !TERMINAL_TRANSACTION_STATES.includes(tx.response.state) &&
+      Date.now() < deadline
+    ) {
+      await sleep(Math.min(50, Math.max(deadline - Date.now(), 0)));
+    }
+  }
+
+  private async createAndWait(body: CreateAndWaitRequest) {
+    if (body.type !== TransactionType.SolanaTransaction) {
+      throw new SimulatorHttpError(400, `Unsupported type ${body.type}`);
+    }
+    if (body.vault_id !== this.config.vaultId) {
+      throw new SimulatorHttpError(404, `Vault ${body.vault_id} not found`);
+    }
+    if (typeof body.transaction !== "string") {
+      throw new SimulatorHttpError(400, "transaction must be base64");
+    }
+    if (!(FORDEFI_SOLANA_CHAINS as readonly unknown[]).includes(body.chain)) {
+      throw new SimulatorHttpError(400, `Unsupported chain ${body.chain}`);
+    }
+
+    let tx = body.idempotence_id
+      ? [...this.transactions.values()].find(
+          (t) => t.idempotenceId === body.idempotence_id,
+        )
+      : undefined;
+    if (!tx) {
+      const now = new Date().toISOString();
+      tx = {
+        response: {
+          id: randomUUID(),
+          creation_time: now,
+          modification_time: now,
+          state: TransactionState.Created,
+          vault_id: body.vault_id,
+          type: TransactionType.SolanaTransaction,
+          chain: { unique_id: String(body.chain), name: String(body.chain) },
+        },
+        message: new Uint8Array(Buffer.from(body.transaction, "base64")),
+        pushMode: body.push_mode === "manual" ? "manual" : "auto",
+        idempotenceId: body.idempotence_id,
+        note: body.note,
+      };
+      this.transactions.set(tx.response.id, tx);
+      void this.advance(tx);
+    }
+
+    const timeout = Math.min(
+      typeof body.timeout === "number" ? body.timeout : Infinity,
+      this.config.waitTimeout,
+    );
+    await this.waitForSettled(tx, timeout);
+    return tx.response;
+  }
+
+  private listTransactions(query: URLSearchParams) {
+    const vaultIds = query.getAll("vault_ids");
+    const states = query.getAll("states");
+    const createdAfter = query.get("created_after");
+    const createdBefore = query.get("created_before");
+    const matching = [...this.transactions.values()]
+      .map((t) => t.response)
+      .filter(
+        (t) =>
+          (vaultIds.length === 0 || vaultIds.includes(t.vault_id)) &&
+          (states.length === 0 || states.includes(t.state)) &&
+          (!createdAfter || t.creation_time >= createdAfter) &&
+          (!createdBefore || t.creation_time <= createdBefore),
+      )
+      .reverse();
+    const page = Number(query.get("page") ?? 1);
+    const size = Number(query.get("size") ?? 50);
+    return {
+      total: matching.length,
+      page,
+      size,
+      transactions: matching.slice((page - 1) * size, page * size),
+    };
+  }
+
+  /**
+   * Signs a serialized wire transaction with the local keypair
+   * @param body - Request with the base64 wire transaction
+   * @returns Signed wire transaction
+   */
+  private async signWireTransaction(body: SignRequest) {
+    const signer = this.config.signer;
+    if (typeof body.transaction !== "string") {
+      throw new SimulatorHttpError(400, "transaction must be base64");
+    }
+    let transaction: Transaction;
+    try {
+      transaction = getTransactionDecoder().decode(
+        Buffer.from(body.transaction, "base64"),
+      );
+    } catch {
+      throw new SimulatorHttpError(
+        400,
+        "transaction is not a wire transaction",
+      );
+    }
+    if (!(signer.address in transaction.signatures)) {
+      throw new SimulatorHttpError(
+        400,
+        `${signer.address} is not a signer of the transaction`,
+      );
+    }
+    const signature = await signBytes(
+      signer.keyPair.privateKey,
+      transaction.messageBytes,
+    );
+    const signed = getTransactionEncoder().encode({
+      ...transaction,
+      signatures: { ...transaction.signatures, [signer.address]: signature },
+    });
+    return { signedTransaction: Buffer.from(signed).toString("base64") };
+  }
+
+  private async route(req: IncomingMessage, body: string): Promise<unknown> {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    const path = url.pathname;
+    const parse = <T extends object>(): T => {
+      let parsed: unknown;
+      try {
+        parsed = body ? JSON.parse(body) : {};
+      } catch {
+        throw new SimulatorHttpError(400, "Body is not JSON");
+      }
+      if (typeof parsed !== "object" || parsed === null) {
+        throw new SimulatorHttpError(400, "Body must be a JSON object");
+      }
+      return parsed as T;
+    };
+
+    const hook = path.match(
+      /^\/simulator\/transactions\/([^/]+)\/(approve|fail)$/,
+    );
+    if (req.method === "POST" && hook) {
+      const id = decodeURIComponent(hook[1]);
+      if (hook[2] === "approve") {
+        await this.approve(id);
+      } else {
+        this.fail(id);
+      }
+      return this.find(id).response;
+    }
+
+    if (req.method === "POST") {
+      this.verifySignature(req, body);
+    }
+    if (req.method === "POST" && path === "/auth") {
+      if (parse<{ apiKey?: string }>().apiKey !== this.config.apiKey) {
+        throw new SimulatorHttpError(401, "Unknown API key");
+      }
+      const accessToken = randomUUID();
+      this.accessTokens.add(accessToken);
+      return { accessToken };
+    }
+
+    this.verifyAccessToken(req);
+    if (req.method === "GET" && path === "/v1/wallets/solana") {
+      return { address: this.config.signer.address };
+    }
+    if (req.method === "GET" && path === "/v1/transactions") {
+      return this.listTransactions(url.searchParams);
+    }
+    if (req.method === "POST" && path === "/v1/transactions/create-and-wait") {
+      return this.createAndWait(parse<CreateAndWaitRequest>());
+    }
+    if (req.method === "POST" && path === "/v1/transactions/sign") {
+      return this.signWireTransaction(parse<SignRequest>());
+    }
+    const abort = path.match(/^\/v1\/transactions\/([^/]+)\/abort$/);
+    if (req.method === "POST" && abort) {
+      this.abort(decodeURIComponent(abort[1]));
+      return {};
+    }
+    const get = path.match(/^\/v1\/transactions\/([^/]+)$/);
+    if (req.method === "GET" && get) {
+      return this.find(decodeURIComponent(get[1])).response;
+    }
+    throw new SimulatorHttpError(404, `No route for ${req.method} ${path}`);
+  }
+
+  private async handle(req: IncomingMessage, res: ServerResponse) {
+    let body = "";
+    for await (const chunk of req) {
+      body += chunk;
+    }
+
+    let status = 200;
+    let payload: unknown;
+    try {
+      payload = await this.route(req, body);
+    } catch (error: any) {
+      status = error instanceof SimulatorHttpError ? error.status : 500;
+      payload = { title: error.message ?? String(error) };
+    }
+    const requestId = req.headers["x-request-id"];
+    res.writeHead(status, {
+      "Content-Type": "application/json",
+      ...(typeof requestId === "string" ? { "x-request-id": requestId } : {}),
+    });
+    res.end(JSON.stringify(payload));
+  }
+}
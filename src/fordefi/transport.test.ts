@@ -0,0 +1,311 @@
+import { createHmac } from "crypto";
+import {
+  afterEach,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  jest,
+} from "@jest/globals";
+import axios, { AxiosInstance, AxiosRequestConfig } from "axios";
+import { FordefiConfig, FordefiHttpError, FordefiTransport } from "./transport";
+
+const API_KEY = "transport-api-key";
+const API_SECRET = "transport-api-secret";
+
+type Reply = {
+  status: number;
+  data?: unknown;
+  headers?: Record<string, string>;
+};
+
+// Serves /auth with a fresh token each time and every other path from the script, in
+// order; an Error in the script is thrown as a network failure. Like axios, an empty
+// body is read as an empty string.
+const createTransport = (
+  script: (Reply | Error)[],
+  config: Partial<FordefiConfig> = {},
+) => {
+  const calls: AxiosRequestConfig[] = [];
+  const logs: string[] = [];
+  let tokens = 0;
+  const request = async (call: AxiosRequestConfig) => {
+    calls.push(call);
+    if (call.url === "/auth") {
+      tokens++;
+      return {
+        status: 200,
+        data: { accessToken: `token-${tokens}-secret`, expiresIn: 3_600 },
+      };
+    }
+    const next = script.shift();
+    if (!next) {
+      throw new Error(`Unexpected request to ${call.url}`);
+    }
+    if (next instanceof Error) {
+      throw next;
+    }
+    return { data: "", headers: {}, ...next };
+  };
+  jest
+    .spyOn(axios, "create")
+    .mockReturnValue({ request } as unknown as AxiosInstance);
+  const transport = new FordefiTransport({
+    apiKey: API_KEY,
+    apiSecret: API_SECRET,
+    retryBaseDelay: 100,
+    retryMaxDelay: 2_000,
+    logger: (message) => logs.push(message),
+    ...config,
+  });
+  return {
+    transport,
+    logs,
+    // Requests other than authentication
+    apiCalls: () => calls.filter((call) => call.url !== "/auth"),
+    authCalls: () => calls.filter((call) => call.url === "/auth"),
+  };
+};
+
+let now: number;
+let sleeps: number[];
+
+// Sleeping returns at once and moves the clock forward; jitter is half the ceiling
+beforeEach(() => {
+  now = 1_700_000_000_000;
+  sleeps = [];
+  jest.spyOn(Date, "now").mockImplementation(() => now);
+  jest.spyOn(Math, "random").mockReturnValue(0.5);
+  jest.spyOn(global, "setTimeout").mockImplementation(((
+    callback: () => void,
+    ms: number,
+  ) => {
+    sleeps.push(ms);
+    now += ms;
+    callback();
+  }) as typeof setTimeout);
+});
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe("authentication", () => {
+  it("signs POST requests and reuses the access token", async () => {
+    const { transport, apiCalls, authCalls } = createTransport([
+      { status: 200, data: { ok: 1 } },
+      { status: 200, data: { ok: 2 } },
+    ]);
+
+    await expect(
+      transport.request("POST", "/v1/things", { body: { a: 1 } }),
+    ).resolves.toEqual({ ok: 1 });
+    await transport.request("GET", "/v1/things");
+
+    expect(authCalls()).toHaveLength(1);
+    const [post, get] = apiCalls();
+    const headers = post.headers as Record<string, string>;
+    expect(post.data).toBe('{"a":1}');
+    expect(headers.Authorization).toBe("Bearer token-1-secret");
+    expect(headers["x-signature"]).toBe(
+      createHmac("sha256", API_SECRET)
+        .update(`${headers["x-timestamp"]}{"a":1}`)
+        .digest("hex"),
+    );
+    expect(get.data).toBeUndefined();
+    expect(get.headers).not.toHaveProperty("x-signature");
+  });
+
+  it("refreshes a rejected token once without spending a retry", async () => {
+    const { transport, apiCalls, authCalls } = createTransport(
+      [{ status: 401 }, { status: 200, data: "ok" }],
+      { maxRetries: 0 },
+    );
+
+    await expect(transport.request("GET", "/v1/things")).resolves.toBe("ok");
+    expect(authCalls()).toHaveLength(2);
+    expect(
+      apiCalls().map(
+        (call) => (call.headers as Record<string, string>).Authorization,
+      ),
+    ).toEqual(["Bearer token-1-secret", "Bearer token-2-secret"]);
+  });
+
+  it("refreshes the token 30 seconds before it expires", async () => {
+    const { transport, authCalls } = createTransport([
+      { status: 200 },
+      { status: 200 },
+      { status: 200 },
+    ]);
+    await transport.request("GET", "/v1/things");
+    now += 3_569_999;
+    await transport.request("GET", "/v1/things");
+    now += 1;
+    await transport.request("GET", "/v1/things");
+
+    expect(authCalls()).toHaveLength(2);
+  });
+
+  it("fails when the refreshed token is rejected too", async () => {
+    const { transport } = createTransport([{ status: 401 }, { status: 401 }]);
+
+    await expect(transport.request("GET", "/v1/things")).rejects.toThrow(
+      FordefiHttpError,
+    );
+  });
+});
+
+describe("retries", () => {
+  it("retries an idempotent call with capped exponential backoff", async () => {
+    const { transport, apiCalls } = createTransport([
+      { status: 503 },
+      { status: 502 },
+      { status: 500 },
+      { status: 200, data: "ok" },
+    ]);
+
+    await expect(transport.request("GET", "/v1/things")).resolves.toBe("ok");
+    expect(apiCalls()).toHaveLength(4);
+    // Half of 100, 200 and 400 ms
+    expect(sleeps).toEqual([50, 100, 200]);
+  });
+
+  it("keeps the request ID across attempts", async () => {
+    const { transport, apiCalls } = createTransport([
+      { status: 503 },
+      { status: 200 },
+    ]);
+    await transport.request("GET", "/v1/things");
+
+    const [first, second] = apiCalls().map(
+      (call) => (call.headers as Record<string, string>)["x-request-id"],
+    );
+    expect(first).toMatch(/^[0-9a-f-]{36}$/);
+    expect(second).toBe(first);
+  });
+
+  it("gives up after the configured retries", async () => {
+    const { transport, apiCalls } = createTransport(
+      [
+        { status: 503 },
+        { status: 503 },
+        { status: 503, data: { title: "down" } },
+      ],
+      { maxRetries: 2 },
+    );
+
+    const error = await transport
+      .request<never>("GET", "/v1/things")
+      .catch((e) => e);
+    expect(error).toBeInstanceOf(FordefiHttpError);
+    expect(error.status).toBe(503);
+    expect(error.details).toBe('{"title":"down"}');
+    expect(apiCalls()).toHaveLength(3);
+  });
+
+  it("does not repeat a POST the server may have processed", async () => {
+    const { transport, apiCalls } = createTransport([{ status: 503 }]);
+
+    await expect(
+      transport.request("POST", "/v1/things", { body: {} }),
+    ).rejects.toThrow("HTTP error occurred: status = 503");
+    expect(apiCalls()).toHaveLength(1);
+  });
+
+  it("repeats a rate-limited POST after Retry-After, capped at retryMaxDelay", async () => {
+    const { transport } = createTransport([
+      { status: 429, headers: { "retry-after": "1" } },
+      { status: 429, headers: { "retry-after": "120" } },
+      { status: 200, data: "ok" },
+    ]);
+
+    await expect(
+      transport.request("POST", "/v1/things", { body: {} }),
+    ).resolves.toBe("ok");
+    expect(sleeps).toEqual([1_000, 2_000]);
+  });
+
+  it("reads Retry-After given as an HTTP date", async () => {
+    const { transport } = createTransport([
+      {
+        status: 429,
+        headers: { "retry-after": new Date(now + 1_500).toUTCString() },
+      },
+      { status: 200 },
+    ]);
+    await transport.request("GET", "/v1/things");
+
+    // HTTP dates have a one-second resolution
+    expect(sleeps).toEqual([1_000]);
+  });
+
+  it("retries network errors of idempotent calls only", async () => {
+    const { transport } = createTransport([
+      new Error("socket hang up"),
+      { status: 200, data: "ok" },
+      new Error("socket hang up"),
+    ]);
+
+    await expect(transport.request("GET", "/v1/things")).resolves.toBe("ok");
+    await expect(
+      transport.request("POST", "/v1/things", { body: {} }),
+    ).rejects.toThrow(
+      /^Network error occurred: socket hang up \(request [0-9a-f-]{36}\)$/,
+    );
+  });
+
+  it("passes the per-request timeout to the HTTP client", async () => {
+    const { transport, apiCalls } = createTransport(
+      [{ status: 200 }, { status: 200 }],
+      { timeout: 1_000 },
+    );
+    await transport.request("GET", "/v1/things");
+    await transport.request("GET", "/v1/things", { timeout: 9_000 });
+
+    expect(apiCalls().map((call) => call.timeout)).toEqual([1_000, 9_000]);
+  });
+});
+
+describe("logging", () => {
+  it("logs every attempt with its request ID and status", async () => {
+    const { transport, logs, apiCalls } = createTransport([
+      { status: 503, headers: { "x-request-id": "server-id" } },
+      { status: 200 },
+    ]);
+    await transport.request("GET", "/v1/things");
+
+    const requestId = (apiCalls()[0].headers as Record<string, string>)[
+      "x-request-id"
+    ];
+    expect(logs.slice(1)).toEqual([
+      `Fordefi GET /v1/things request ${requestId} (server server-id) attempt 1: 503 in 0 ms`,
+      `Fordefi GET /v1/things request ${requestId} attempt 2: 200 in 0 ms`,
+    ]);
+  });
+
+  it("redacts the credentials from errors and log lines", async () => {
+    const { transport, logs } = createTransport(
+      [
+        new Error(`connect failed for ${API_KEY} with Bearer token-1-secret`),
+        { status: 400, data: { echoed: API_SECRET } },
+      ],
+      { maxRetries: 0 },
+    );
+
+    const network = await transport
+      .request<never>("GET", "/v1/things")
+      .catch((e) => e);
+    const http = await transport
+      .request<never>("GET", "/v1/things")
+      .catch((e) => e);
+
+    expect(network.message).toContain(
+      "connect failed for [REDACTED] with Bearer [REDACTED]",
+    );
+    expect(http.details).toBe('{"echoed":"[REDACTED]"}');
+    for (const text of [...logs, network.message, http.message]) {
+      expect(text).not.toContain(API_KEY);
+      expect(text).not.toContain(API_SECRET);
+      expect(text).not.toContain("token-1-secret");
+    }
+  });
+});
@@ -0,0 +1,296 @@
+import axios, { AxiosInstance, AxiosResponse } from "axios";
+import { createHmac, randomUUID } from "crypto";
+
+export interface FordefiConfig {
+  apiKey: string;
+  apiSecret: string;
+  baseUrl?: string;
+  timeout?: number; // Per-request timeout in milliseconds (default 30 seconds)
+  maxRetries?: number; // Retries after the first attempt (default 3)
+  retryBaseDelay?: number; // First backoff delay in milliseconds (default 500)
+  retryMaxDelay?: number; // Longest retry delay, Retry-After included, in milliseconds (default 10 seconds)
+  logger?: (message: string) => void; // Receives one line per call (default stderr)
+}
+
+export interface RequestOptions {
+  body?: unknown;
+  // Whether the call can be repeated safely; GET requests always can
+  idempotent?: boolean;
+  // Overrides the configured timeout, e.g. for create-and-wait
+  timeout?: number;
+}
+
+/**
+ * Error raised when Fordefi answers with a non-2xx status
+ */
+export class FordefiHttpError extends Error {
+  constructor(
+    readonly status: number,
+    readonly requestId: string,
+    readonly details: string,
+  ) {
+    super(
+      `HTTP error occurred: status = ${status}, request ${requestId}\nError details: ${details}`,
+    );
+    this.name = "FordefiHttpError";
+  }
+}
+
+// Statuses that mean the request was not processed and may succeed later
+const RETRYABLE_STATUSES = [429, 500, 502, 503, 504];
+
+export const sleep = (ms: number) =>
+  new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Reads a Retry-After header given in seconds or as an HTTP date
+ * @param value - Header value
+ * @returns Delay in milliseconds, or undefined when absent or invalid
+ */
+const parseRetryAfter = (value: unknown): number | undefined => {
+  if (typeof value !== "string" || value.trim() === "") {
+    return undefined;
+  }
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(seconds * 1000, 0);
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(date - Date.now(), 0);
+};
+
+/**
+ * Sends authenticated requests to the Fordefi API. Access tokens are refreshed when they
+ * expire or are rejected, retryable failures are retried with exponential backoff and
+ * jitter, and every call is logged with its request ID and secrets redacted.
+ */
+export class FordefiTransport {
+  readonly timeout: number;
+  private readonly api: AxiosInstance;
+  private readonly apiKey: string;
+  private readonly apiSecret: string;
+  private readonly maxRetries: number;
+  private readonly retryBaseDelay: number;
+  private readonly retryMaxDelay: number;
+  private readonly logger: (message: string) => void;
+  private accessToken: string | null = null;
+  private accessTokenExpiresAt = Infinity;
+
+  constructor(config: FordefiConfig) {
+    this.apiKey = config.apiKey;
+    this.apiSecret = config.apiSecret;
+    this.timeout = config.timeout ?? 30_000;
+    this.maxRetries = config.maxRetries ?? 3;
+    this.retryBaseDelay = config.retryBaseDelay ?? 500;
+    this.retryMaxDelay = config.retryMaxDelay ?? 10_000;
+    this.logger = config.logger ?? ((message) => console.error(message));
+    this.api = axios.create({
+      baseURL: config.baseUrl || "https://api.fordefi.com",
+      headers: {
+        "Content-Type": "application/json",
+      },
+    });
+  }
+
+  /**
+   * Creates signature for Fordefi API requests
+   * @param body - The request body
+   * @returns Object with signature and timestamp
+   */
+  private createSignature(body: string): {
+    signature: string;
+    timestamp: number;
+  } {
+    const timestamp = Date.now();
+    const message = `${timestamp}${body}`;
+    const signature = createHmac("sha256", this.apiSecret)
+      .update(message)
+      .digest("hex");
+
+    return { signature, timestamp };
+  }
+
+  /**
+   * Replaces the API key, secret, access token and bearer credentials in a log line
+   * @param text - Text that may contain secrets
+   * @returns Redacted text
+   */
+  redact(text: string): string {
+    let redacted = text.replace(/Bearer\s+[^\s"',]+/g, "Bearer [REDACTED]");
+    for (const secret of [this.apiKey, this.apiSecret, this.accessToken]) {
+      // Very short values would mangle ordinary words without hiding anything
+      if (secret && secret.length >= 8) {
+        redacted = redacted.split(secret).join("[REDACTED]");
+      }
+    }
+    return redacted;
+  }
+
+  /**
+   * Computes the delay before a retry: the Retry-After header when the server sent one,
+   * otherwise exponential backoff with full jitter. Either is capped at retryMaxDelay.
+   * @param attempt - Number of attempts made so far, starting at 1
+   * @param response - Failed response, if any
+   * @returns Delay in milliseconds
+   */
+  private getRetryDelay(attempt: number, response?: AxiosResponse): number {
+    const retryAfter = parseRetryAfter(response?.headers?.["retry-after"]);
+    if (retryAfter !== undefined) {
+      return Math.min(retryAfter, this.retryMaxDelay);
+    }
+    const ceiling = Math.min(
+      this.retryBaseDelay * 2 ** (attempt - 1),
+      this.retryMaxDelay,
+    );
+    return Math.random() * ceiling;
+  }
+
+  /**
+   * Sends one request, retrying network errors and retryable statuses. Requests that are
+   * not idempotent are retried only when the server did not process them (429), and a
+   * rejected access token is refreshed once without counting as a retry.
+   * @param method - HTTP method
+   * @param path - API path
+   * @param body - Serialized request body
+   * @param options - Whether to authenticate, idempotency and timeout
+   * @returns Final response, whatever its status
+   */
+  private async send(
+    method: "GET" | "POST",
+    path: string,
+    body: string,
+    options: { authenticated: boolean; idempotent: boolean; timeout: number },
+  ): Promise<{ response: AxiosResponse; requestId: string }> {
+    const requestId = randomUUID();
+    let refreshed = false;
+    let attempt = 0;
+
+    for (;;) {
+      attempt++;
+      const headers: Record<string, string> = { "x-request-id": requestId };
+      if (options.authenticated) {
+        headers.Authorization = `Bearer ${await this.authenticate()}`;
+      }
+      if (method === "POST") {
+        const { signature, timestamp } = this.createSignature(body);
+        headers["x-signature"] = signature;
+        headers["x-timestamp"] = String(timestamp);
+      }
+
+      const started = Date.now();
+      let response: AxiosResponse;
+      try {
+        response = await this.api.request({
+          method,
+          url: path,
+          // An empty string would be sent as "" and no longer match the signature
+          data: method === "POST" && body !== "" ? body : undefined,
+          headers,
+          timeout: options.timeout,
+          validateStatus: () => true,
+        });
+      } catch (error: any) {
+        const message = this.redact(String(error?.message ?? error));
+        this.logger(
+          `Fordefi ${method} ${path} request ${requestId} attempt ${attempt} failed after ${Date.now() - started} ms: ${message}`,
+        );
+        if (options.idempotent && attempt <= this.maxRetries) {
+          await sleep(this.getRetryDelay(attempt));
+          continue;
+        }
+        throw new Error(
+          `Network error occurred: ${message} (request ${requestId})`,
+        );
+      }
+
+      const serverRequestId = response.headers?.["x-request-id"];
+      this.logger(
+        `Fordefi ${method} ${path} request ${requestId}${serverRequestId && serverRequestId !== requestId ? ` (server ${serverRequestId})` : ""} attempt ${attempt}: ${response.status} in ${Date.now() - started} ms`,
+      );
+
+      if (options.authenticated && response.status === 401 && !refreshed) {
+        refreshed = true;
+        attempt--;
+        this.accessToken = null;
+        continue;
+      }
+      if (
+        RETRYABLE_STATUSES.includes(response.status) &&
+        (options.idempotent || response.status === 429) &&
+        attempt <= this.maxRetries
+      ) {
+        await sleep(this.getRetryDelay(attempt, response));
+        continue;
+      }
+      return { response, requestId };
+    }
+  }
+
+  /**
+   * Authenticates with Fordefi to get an access token, reusing it until it expires
+   * @returns Access token
+   */
+  private async authenticate(): Promise<string> {
+    if (this.accessToken && Date.now() < this.accessTokenExpiresAt) {
+      return this.accessToken;
+    }
+    this.accessToken = null;
+
+    const requestBody = JSON.stringify({
+      apiKey: this.apiKey,
+    });
+    const { response, requestId } = await this.send(
+      "POST",
+      "/auth",
+      requestBody,
+      { authenticated: false, idempotent: true, timeout: this.timeout },
+    );
+    if (response.status < 200 || response.status >= 300) {
+      throw new FordefiHttpError(
+        response.status,
+        requestId,
+        this.redact(JSON.stringify(response.data)),
+      );
+    }
+
+    const { accessToken, expiresIn } = response.data ?? {};
+    if (!accessToken) {
+      throw new Error("No access token received from Fordefi");
+    }
+    this.accessToken = accessToken as string;
+    // Refresh a little before the token expires when Fordefi reports its lifetime
+    this.accessTokenExpiresAt =
+      typeof expiresIn === "number"
+        ? Date.now() + Math.max(expiresIn - 30, 0) * 1000
+        : Infinity;
+    return this.accessToken;
+  }
+
+  /**
+   * Performs a request to the Fordefi API with authentication, retries and logging
+   * @param method - HTTP method
+   * @param path - API path
+   * @param options - Request body, idempotency and timeout
+   * @returns Response data
+   */
+  async request<T>(
+    method: "GET" | "POST",
+    path: string,
+    options: RequestOptions = {},
+  ): Promise<T> {
+    const body = options.body === undefined ? "" : JSON.stringify(options.body);
+    const { response, requestId } = await this.send(method, path, body, {
+      authenticated: true,
+      idempotent: method === "GET" || options.idempotent === true,
+      timeout: options.timeout ?? this.timeout,
+    });
+    if (response.status < 200 || response.status >= 300) {
+      throw new FordefiHttpError(
+        response.status,
+        requestId,
+        this.redact(JSON.stringify(response.data)),
+      );
+    }
+    return response.data;
+  }
+}
@@ -0,0 +1,312 @@
+/**
+ * This module describes the networks the tools operate on. A network profile carries
+ * the RPC and WebSocket URLs, the Fordefi chain and the default Squads multisig of a
+ * cluster, so operations receive one value instead of URLs and chain names passed
+ * around separately. Clients are only created on request, never on import.
+ */
+
+import { readFile } from "node:fs/promises";
+import {
+  Address,
+  createSolanaRpc,
+  createSolanaRpcSubscriptions,
+  isAddress,
+  Rpc,
+  SolanaRpcApi,
+} from "@solana/kit";
+import {
+  getMonikerFromGenesisHash,
+  sendAndConfirmTransactionWithSignersFactory,
+} from "gill";
+import { parse as parseYaml } from "yaml";
+import { FORDEFI_SOLANA_CHAINS, FordefiSolanaChain } from "../fordefi/client";
+
+export const CLUSTERS = ["localnet", "devnet", "testnet", "mainnet"] as const;
+
+export type Cluster = (typeof CLUSTERS)[number];
+
+export interface NetworkProfile {
+  /**
+   * Profile name, or the origin of the RPC URL for a network given by URL. The name
+   * is shown in messages and output, so it never carries the path, query string or
+   * user info, where RPC providers put API keys.
+   */
+  name: string;
+  /** Cluster the profile points at; "custom" until the genesis hash says otherwise */
+  cluster: Cluster | "custom";
+  rpcUrl: string;
+  wsUrl: string;
+  /** Chain used when a Fordefi vault signs; Fordefi does not serve every cluster */
+  fordefiChain?: FordefiSolanaChain;
+  /** Squads multisig used when a command is not given one */
+  multisig?: Address;
+}
+
+/**
+ * Built-in profiles for the public clusters
+ */
+export const NETWORK_PROFILES: Readonly<Record<Cluster, NetworkProfile>> = {
+  localnet: {
+    name: "localnet",
+    cluster: "localnet",
+    rpcUrl: "http://127.0.0.1:8899",
+    wsUrl: "ws://127.0.0.1:8900",
+  },
+  devnet: {
+    name: "devnet",
+    cluster: "devnet",
+    rpcUrl: "https://api.devnet.solana.com",
+    wsUrl: "wss://api.devnet.solana.com",
+    fordefiChain: "solana_devnet",
+  },
+  testnet: {
+    name: "testnet",
+    cluster: "testnet",
+    rpcUrl: "https://api.testnet.solana.com",
+    wsUrl: "wss://api.testnet.solana.com",
+  },
+  mainnet: {
+    name: "mainnet",
+    cluster: "mainnet",
+    rpcUrl: "https://api.mainnet-beta.solana.com",
+    wsUrl: "wss://api.mainnet-beta.solana.com",
+    fordefiChain: "solana_mainnet",
+  },
+};
+
+/**
+ * Error raised when a network profile file is invalid or names an unknown profile
+ */
+export class NetworkProfileError extends Error {
+  constructor(readonly issues: string[]) {
+    super(
+      `Invalid network profiles:\n${issues.map((i) => `  - ${i}`).join("\n")}`,
+    );
+    this.name = "NetworkProfileError";
+  }
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isUrl = (value: string, protocols: string[]) => {
+  try {
+    return protocols.includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Derives the WebSocket URL of an RPC URL. Local validators serve WebSockets on the
+ * port after the RPC port.
+ * @param rpcUrl HTTP(S) RPC URL
+ * @returns WS(S) URL
+ */
+export const getWebSocketUrl = (rpcUrl: string) => {
+  const url = new URL(rpcUrl);
+  url.protocol = url.protocol.replace("http", "ws");
+  if (url.hostname === "localhost" || url.hostname.startsWith("127.")) {
+    url.port = String(Number(url.port || "8899") + 1);
+  }
+  return url.toString();
+};
+
+/**
+ * Returns the chain Fordefi uses for a cluster, if Fordefi serves it
+ */
+const getFordefiChain = (cluster: Cluster | "custom") =>
+  NETWORK_PROFILES[cluster as Cluster]?.fordefiChain;
+
+/**
+ * Validates a parsed profile document. Built-in profiles can be given another RPC URL
+ * or a default multisig; other names add profiles. Every issue is reported, not only
+ * the first.
+ * @param input Parsed JSON or YAML document
+ * @returns Built-in profiles merged with the ones in the document
+ */
+export const parseNetworkProfiles = (
+  input: unknown,
+): Record<string, NetworkProfile> => {
+  const issues: string[] = [];
+  const profiles: Record<string, NetworkProfile> = { ...NETWORK_PROFILES };
+
+  if (!isObject(input) || !isObject(input.networks)) {
+    throw new NetworkProfileError(["networks must be an object keyed by name"]);
+  }
+  for (const key of Object.keys(input)) {
+    if (key !== "networks") {
+      issues.push(`${key} is not a recognized field`);
+    }
+  }
+  for (const [name, value] of Object.entries(input.networks)) {
+    const path = `networks.${name}`;
+    if (!isObject(value)) {
+      issues.push(`${path} must be an object`);
+      continue;
+    }
+    const before = issues.length;
+    const builtIn = profiles[name] as NetworkProfile | undefined;
+    for (const key of Object.keys(value)) {
+      if (
+        !["cluster", "rpcUrl", "wsUrl", "fordefiChain", "multisig"].includes(
+          key,
+        )
+      ) {
+        issues.push(`${path}.${key} is not a recognized field`);
+      }
+    }
+
+    const { cluster, rpcUrl, wsUrl, fordefiChain, multisig } = value;
+    if (cluster !== undefined) {
+      if (builtIn && cluster !== builtIn.cluster) {
+        issues.push(`${path}.cluster cannot be changed for a built-in profile`);
+      } else if (!(CLUSTERS as readonly unknown[]).includes(cluster)) {
+        issues.push(`${path}.cluster must be one of ${CLUSTERS.join(", ")}`);
+      }
+    }
+    if (
+      rpcUrl === undefined
+        ? !builtIn
+        : typeof rpcUrl !== "string" || !isUrl(rpcUrl, ["http:", "https:"])
+    ) {
+      issues.push(`${path}.rpcUrl must be an http(s) URL`);
+    }
+    if (
+      wsUrl !== undefined &&
+      (typeof wsUrl !== "string" || !isUrl(wsUrl, ["ws:", "wss:"]))
+    ) {
+      issues.push(`${path}.wsUrl must be a ws(s) URL`);
+    }
+    if (
+      fordefiChain !== undefined &&
+      !(FORDEFI_SOLANA_CHAINS as readonly unknown[]).includes(fordefiChain)
+    ) {
+      issues.push(
+        `${path}.fordefiChain must be one of ${FORDEFI_SOLANA_CHAINS.join(", ")}`,
+      );
+    }
+    if (
+      multisig !== undefined &&
+      !(typeof multisig === "string" && isAddress(multisig))
+    ) {
+      issues.push(`${path}.multisig must be a base58 address`);
+    }
+    if (issues.length > before) {
+      continue;
+    }
+
+    const profileCluster = (cluster ?? builtIn?.cluster ?? "custom") as
+      Cluster | "custom";
+    const profileRpcUrl = (rpcUrl as string | undefined) ?? builtIn!.rpcUrl;
+    profiles[name] = {
+      name,
+      cluster: profileCluster,
+      rpcUrl: profileRpcUrl,
+      wsUrl:
+        (wsUrl as string | undefined) ??
+        (rpcUrl === undefined
+          ? builtIn!.wsUrl
+          : getWebSocketUrl(profileRpcUrl)),
+      fordefiChain:
+        (fordefiChain as FordefiSolanaChain | undefined) ??
+        builtIn?.fordefiChain ??
+        getFordefiChain(profileCluster),
+      multisig: (multisig as Address | undefined) ?? builtIn?.multisig,
+    };
+  }
+
+  if (issues.length > 0) {
+    throw new NetworkProfileError(issues);
+  }
+  return profiles;
+};
+
+/**
+ * Reads and validates network profiles from a JSON or YAML file
+ * @param path Path to the profile file
+ * @returns Built-in profiles merged with the ones in the file
+ */
+export const loadNetworkProfiles = async (path: string) => {
+  const content = await readFile(path, "utf8");
+  return parseNetworkProfiles(
+    path.endsWith(".json") ? JSON.parse(content) : parseYaml(content),
+  );
+};
+
+/**
+ * Looks up a profile by name, or describes a network given by its RPC URL
+ * @param nameOrUrl Profile name or http(s) RPC URL
+ * @param profiles Known profiles (defaults to the built-in ones)
+ * @returns Network profile
+ */
+export const getNetworkProfile = (
+  nameOrUrl: string,
+  profiles: Record<string, NetworkProfile> = NETWORK_PROFILES,
+): NetworkProfile => {
+  const profile = profiles[nameOrUrl];
+  if (profile) {
+    return profile;
+  }
+  if (isUrl(nameOrUrl, ["http:", "https:"])) {
+    return {
+      name: new URL(nameOrUrl).origin,
+      cluster: "custom",
+      rpcUrl: nameOrUrl,
+      wsUrl: getWebSocketUrl(nameOrUrl),
+    };
+  }
+  throw new NetworkProfileError([
+    `"${nameOrUrl}" is neither a network profile (${Object.keys(profiles).join(", ")}) nor an http(s) URL`,
+  ]);
+};
+
+/**
+ * Describes a network for messages without its credentials: the profile name and the
+ * host of its RPC URL
+ * @param profile Network profile
+ * @returns E.g. `mainnet, mainnet.example-rpc.com`
+ */
+export const describeNetwork = (profile: NetworkProfile) => {
+  const url = new URL(profile.rpcUrl);
+  return profile.name === url.origin
+    ? profile.name
+    : `${profile.name}, ${url.host}`;
+};
+
+/**
+ * Creates the RPC clients for a network
+ * @param profile Network profile
+ * @returns RPC client, subscriptions client and a function that signs, sends and
+ * confirms a transaction
+ */
+export const createNetworkClient = (profile: NetworkProfile) => {
+  const rpc = createSolanaRpc(profile.rpcUrl);
+  const rpcSubscriptions = createSolanaRpcSubscriptions(profile.wsUrl);
+  return {
+    rpc,
+    rpcSubscriptions,
+    sendAndConfirmTransaction: sendAndConfirmTransactionWithSignersFactory({
+      rpc,
+      rpcSubscriptions,
+    }),
+  };
+};
+
+/**
+ * Tells whether a network is mainnet. Profiles given by URL are identified by the
+ * genesis hash of the cluster they serve.
+ * @param profile Network profile
+ * @param rpc RPC client of the network
+ * @returns True for mainnet
+ */
+export const isMainnet = async (
+  profile: NetworkProfile,
+  rpc: Rpc<SolanaRpcApi>,
+) => {
+  if (profile.cluster !== "custom") {
+    return profile.cluster === "mainnet";
+  }
+  const genesisHash = await rpc.getGenesisHash().send();
+  return getMonikerFromGenesisHash(genesisHash) === "mainnet";
+};
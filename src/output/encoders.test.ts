@@ -0,0 +1,151 @@
+import { describe, expect, it } from "@jest/globals";
+import {
+  AccountRole,
+  getBase58Encoder,
+  getBase64Encoder,
+  getTransactionDecoder,
+  Nonce,
+} from "@solana/kit";
+import { getAddMemoInstruction } from "gill/programs";
+import {
+  encodeTransaction,
+  encodeTransactions,
+  getTransactionEnvelope,
+  isOutputFormat,
+} from "./encoders";
+import {
+  compilePreparedTransaction,
+  TransactionLifetime,
+} from "../token/transaction";
+import { TEST_BLOCKHASH, testAddress } from "../testing/rpc";
+
+const PAYER = testAddress(1);
+const AUTHORITY = testAddress(2);
+const TABLE = testAddress(3);
+
+const blockhashLifetime = {
+  blockhash: TEST_BLOCKHASH,
+  lastValidBlockHeight: 100n,
+};
+
+// A memo the authority must sign, paid by PAYER
+const memo = (
+  text: string,
+  lifetime: TransactionLifetime = blockhashLifetime,
+) =>
+  compilePreparedTransaction({
+    feePayer: PAYER,
+    instructions: [
+      {
+        ...getAddMemoInstruction({ memo: text }),
+        accounts: [{ address: AUTHORITY, role: AccountRole.READONLY_SIGNER }],
+      },
+    ],
+    lifetime,
+    summary: `Memo ${text}`,
+  });
+
+describe("encodeTransaction", () => {
+  const tx = memo("hello");
+
+  it("prints the message in base58 and base64", () => {
+    expect(
+      getBase58Encoder().encode(encodeTransaction(tx, "base58-message", "")),
+    ).toEqual(tx.transaction.messageBytes);
+    expect(
+      getBase64Encoder().encode(encodeTransaction(tx, "base64-message", "")),
+    ).toEqual(tx.transaction.messageBytes);
+  });
+
+  it("prints wire transactions with empty signature slots", () => {
+    for (const [format, encoder] of [
+      ["base58-wire", getBase58Encoder()],
+      ["base64-wire", getBase64Encoder()],
+    ] as const) {
+      const wire = getTransactionDecoder().decode(
+        encoder.encode(encodeTransaction(tx, format, "")),
+      );
+      expect(wire.messageBytes).toEqual(tx.transaction.messageBytes);
+      expect(wire.signatures).toEqual({ [PAYER]: null, [AUTHORITY]: null });
+    }
+  });
+
+  it("prints a JSON envelope", () => {
+    expect(JSON.parse(encodeTransaction(tx, "json", "devnet"))).toEqual(
+      getTransactionEnvelope(tx, "devnet"),
+    );
+  });
+});
+
+describe("getTransactionEnvelope", () => {
+  it("lists the signers fee payer first with the blockhash lifetime", () => {
+    expect(getTransactionEnvelope(memo("hello"), "devnet")).toEqual({
+      network: "devnet",
+      summary: "Memo hello",
+      message: encodeTransaction(memo("hello"), "base64-message", ""),
+      signers: [PAYER, AUTHORITY],
+      lifetime: {
+        blockhash: TEST_BLOCKHASH,
+        lastValidBlockHeight: "100",
+      },
+    });
+  });
+
+  it("describes a durable nonce lifetime", () => {
+    const tx = memo("hello", {
+      nonce: TEST_BLOCKHASH as string as Nonce,
+      nonceAccountAddress: testAddress(4),
+      nonceAuthorityAddress: PAYER,
+    });
+
+    expect(getTransactionEnvelope(tx, "devnet").lifetime).toEqual({
+      nonce: TEST_BLOCKHASH,
+      nonceAccount: testAddress(4),
+      nonceAuthority: PAYER,
+    });
+  });
+
+  it("names the lookup tables of a version 0 message", () => {
+    const tx = compilePreparedTransaction({
+      feePayer: PAYER,
+      instructions: [getAddMemoInstruction({ memo: "v0" })],
+      lifetime: blockhashLifetime,
+      summary: "",
+      version: 0,
+      addressLookupTables: { [TABLE]: [testAddress(5)] },
+    });
+
+    expect(getTransactionEnvelope(tx, "devnet").addressLookupTables).toEqual([
+      TABLE,
+    ]);
+  });
+});
+
+describe("encodeTransactions", () => {
+  const txs = [memo("one"), memo("two")];
+
+  it("prints one transaction per line in execution order", () => {
+    expect(encodeTransactions(txs, "base58-message", "").split("\n")).toEqual(
+      txs.map((tx) => encodeTransaction(tx, "base58-message", "")),
+    );
+  });
+
+  it("prints an array of envelopes unless there is exactly one", () => {
+    expect(
+      JSON.parse(encodeTransactions(txs, "json", "devnet")).map(
+        (e: { summary: string }) => e.summary,
+      ),
+    ).toEqual(["Memo one", "Memo two"]);
+    expect(JSON.parse(encodeTransactions([], "json", "devnet"))).toEqual([]);
+    expect(
+      JSON.parse(encodeTransactions(txs.slice(0, 1), "json", "devnet")),
+    ).toMatchObject({ summary: "Memo one" });
+  });
+});
+
+describe("isOutputFormat", () => {
+  it("accepts only the listed formats", () => {
+    expect(isOutputFormat("base64-wire")).toBe(true);
+    expect(isOutputFormat("hex")).toBe(false);
+  });
+});
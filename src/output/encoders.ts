@@ -0,0 +1,128 @@
+/**
+ * This module turns prepared transactions into the formats expected by the tools that
+ * consume them: Squads (base58 message), Fordefi (base64), wallets and RPC tooling
+ * (wire transactions) and review tooling (JSON envelope).
+ */
+
+import {
+  getBase58Decoder,
+  getBase64Decoder,
+  getTransactionEncoder,
+} from "@solana/kit";
+import {
+  isDurableNonceLifetime,
+  PreparedTransaction,
+} from "../token/transaction";
+
+export const OUTPUT_FORMATS = [
+  "base58-message",
+  "base64-message",
+  "base58-wire",
+  "base64-wire",
+  "json",
+] as const;
+
+export type OutputFormat = (typeof OUTPUT_FORMATS)[number];
+
+/**
+ * JSON envelope describing one transaction for review tooling
+ */
+export interface TransactionEnvelope {
+  network: string;
+  summary: string;
+  /** Base64-encoded transaction message */
+  message: string;
+  /** Addresses that must sign, fee payer first */
+  signers: string[];
+  lifetime:
+    | { blockhash: string; lastValidBlockHeight: string }
+    | { nonce: string; nonceAccount: string; nonceAuthority: string };
+  /** Lookup tables a version 0 message resolves accounts through */
+  addressLookupTables?: string[];
+}
+
+export const isOutputFormat = (value: string): value is OutputFormat =>
+  (OUTPUT_FORMATS as readonly string[]).includes(value);
+
+/**
+ * Builds the JSON envelope for a prepared transaction
+ * @param tx Prepared transaction
+ * @param network Network the transaction was built for
+ * @returns JSON envelope
+ */
+export const getTransactionEnvelope = (
+  tx: PreparedTransaction,
+  network: string,
+): TransactionEnvelope => ({
+  network,
+  summary: tx.summary,
+  message: getBase64Decoder().decode(tx.transaction.messageBytes),
+  signers: Object.keys(tx.transaction.signatures),
+  lifetime: isDurableNonceLifetime(tx.lifetime)
+    ? {
+        nonce: tx.lifetime.nonce,
+        nonceAccount: tx.lifetime.nonceAccountAddress,
+        nonceAuthority: tx.lifetime.nonceAuthorityAddress,
+      }
+    : {
+        blockhash: tx.lifetime.blockhash,
+        lastValidBlockHeight: tx.lifetime.lastValidBlockHeight.toString(),
+      },
+  ...(tx.addressLookupTables
+    ? { addressLookupTables: Object.keys(tx.addressLookupTables) }
+    : {}),
+});
+
+/**
+ * Encodes a prepared transaction. Wire formats hold a zeroed placeholder for every
+ * signature that has not been provided yet.
+ * @param tx Prepared transaction
+ * @param format Output format
+ * @param network Network the transaction was built for, used by the JSON envelope
+ * @returns Encoded transaction
+ */
+export const encodeTransaction = (
+  tx: PreparedTransaction,
+  format: OutputFormat,
+  network: string,
+) => {
+  switch (format) {
+    case "base58-message":
+      return getBase58Decoder().decode(tx.transaction.messageBytes);
+    case "base64-message":
+      return getBase64Decoder().decode(tx.transaction.messageBytes);
+    case "base58-wire":
+      return getBase58Decoder().decode(
+        getTransactionEncoder().encode(tx.transaction),
+      );
+    case "base64-wire":
+      return getBase64Decoder().decode(
+        getTransactionEncoder().encode(tx.transaction),
+      );
+    case "json":
+      return JSON.stringify(getTransactionEnvelope(tx, network), null, 2);
+  }
+};
+
+/**
+ * Encodes transactions that must be executed in order. String formats are one
+ * transaction per line; JSON is an array of envelopes when there is more than one.
+ * @param txs Prepared transactions in execution order
+ * @param format Output format
+ * @param network Network the transactions were built for
+ * @returns Encoded transactions
+ */
+export const encodeTransactions = (
+  txs: PreparedTransaction[],
+  format: OutputFormat,
+  network: string,
+) => {
+  if (format === "json" && txs.length !== 1) {
+    return JSON.stringify(
+      txs.map((tx) => getTransactionEnvelope(tx, network)),
+      null,
+      2,
+    );
+  }
+  return txs.map((tx) => encodeTransaction(tx, format, network)).join("\n");
+};
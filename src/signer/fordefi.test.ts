@@ -0,0 +1,224 @@
+import {
+  afterEach,
+  beforeAll,
+  describe,
+  expect,
+  it,
+  jest,
+} from "@jest/globals";
+import {
+  Address,
+  generateKeyPairSigner,
+  getAddressEncoder,
+  KeyPairSigner,
+  ReadonlyUint8Array,
+  signBytes,
+  Transaction,
+} from "@solana/kit";
+import { getAddMemoInstruction } from "gill/programs";
+import { fordefiPartialSigner } from "./fordefi";
+import {
+  FordefiClient,
+  TransactionResponse,
+  TransactionState,
+} from "../fordefi/client";
+import { TEST_BLOCKHASH, testAddress } from "../testing/rpc";
+import { compilePreparedTransaction } from "../token/transaction";
+
+const VAULT_ID = "vault-1";
+
+const client = new FordefiClient({ apiKey: "api-key", apiSecret: "secret" });
+
+let vault: KeyPairSigner;
+beforeAll(async () => {
+  vault = await generateKeyPairSigner();
+});
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+const memoTransaction = (memo: string): Transaction =>
+  compilePreparedTransaction({
+    feePayer: vault.address,
+    instructions: [getAddMemoInstruction({ memo })],
+    lifetime: { blockhash: TEST_BLOCKHASH, lastValidBlockHeight: 100n },
+    summary: memo,
+  }).transaction;
+
+// Fordefi response carrying the given signatures of the message
+const response = (
+  state: TransactionState,
+  signatures: { signature: Uint8Array; public_key: string }[] = [],
+) =>
+  ({
+    id: "fordefi-tx",
+    state,
+    signatures: signatures.map((s) => ({
+      signature: Buffer.from(s.signature).toString("base64"),
+      public_key: s.public_key,
+    })),
+  }) as TransactionResponse;
+
+const vaultSignature = async (
+  tx: { messageBytes: ReadonlyUint8Array },
+  publicKey: string = vault.address,
+) => ({
+  signature: await signBytes(vault.keyPair.privateKey, tx.messageBytes),
+  public_key: publicKey,
+});
+
+const signer = (addr: Address = vault.address) =>
+  fordefiPartialSigner(client, addr, VAULT_ID, "solana_devnet", {
+    idempotenceId: "batch",
+    timeout: 5_000,
+  });
+
+describe("fordefiPartialSigner", () => {
+  it("asks for signatures only, with one idempotence ID per transaction", async () => {
+    const txs = [memoTransaction("one"), memoTransaction("two")];
+    const create = jest
+      .spyOn(client, "createAndWaitTransaction")
+      .mockImplementation(async (_, message) =>
+        response(TransactionState.ReadyForPush, [
+          await vaultSignature({ messageBytes: message }),
+        ]),
+      );
+    const wait = jest.spyOn(client, "waitForState");
+
+    const signatures = await signer().signTransactions(txs);
+
+    expect(signatures).toEqual([
+      { [vault.address]: (await vaultSignature(txs[0])).signature },
+      { [vault.address]: (await vaultSignature(txs[1])).signature },
+    ]);
+    expect(
+      create.mock.calls.map(([vaultId, , chain, options]) => [
+        vaultId,
+        chain,
+        options,
+      ]),
+    ).toEqual([
+      [
+        VAULT_ID,
+        "solana_devnet",
+        { idempotenceId: "batch-0", pushMode: "manual", timeout: 5_000 },
+      ],
+      [
+        VAULT_ID,
+        "solana_devnet",
+        { idempotenceId: "batch-1", pushMode: "manual", timeout: 5_000 },
+      ],
+    ]);
+    expect(wait).not.toHaveBeenCalled();
+  });
+
+  it("waits for approval when create-and-wait answers early", async () => {
+    const tx = memoTransaction("one");
+    jest
+      .spyOn(client, "createAndWaitTransaction")
+      .mockResolvedValue(response(TransactionState.WaitingForApproval));
+    const wait = jest
+      .spyOn(client, "waitForState")
+      .mockResolvedValue(
+        response(TransactionState.ReadyForPush, [await vaultSignature(tx)]),
+      );
+
+    await expect(signer().signTransactions([tx])).resolves.toHaveLength(1);
+    expect(wait).toHaveBeenCalledWith(
+      "fordefi-tx",
+      TransactionState.ReadyForPush,
+      { timeout: 5_000 },
+    );
+  });
+
+  it("accepts the vault key given as base64 bytes", async () => {
+    const tx = memoTransaction("one");
+    jest
+      .spyOn(client, "createAndWaitTransaction")
+      .mockResolvedValue(
+        response(TransactionState.ReadyForPush, [
+          await vaultSignature(
+            tx,
+            Buffer.from(getAddressEncoder().encode(vault.address)).toString(
+              "base64",
+            ),
+          ),
+        ]),
+      );
+
+    await expect(signer().signTransactions([tx])).resolves.toEqual([
+      { [vault.address]: (await vaultSignature(tx)).signature },
+    ]);
+  });
+
+  it.each([TransactionState.Failed, TransactionState.Aborted])(
+    "fails when the transaction ends %s",
+    async (state) => {
+      jest
+        .spyOn(client, "createAndWaitTransaction")
+        .mockResolvedValue(response(state));
+
+      await expect(
+        signer().signTransactions([memoTransaction("one")]),
+      ).rejects.toThrow(
+        `Fordefi transaction fordefi-tx ended in state ${state}`,
+      );
+    },
+  );
+
+  it("fails without a signature", async () => {
+    jest
+      .spyOn(client, "createAndWaitTransaction")
+      .mockResolvedValue(response(TransactionState.Completed));
+
+    await expect(
+      signer().signTransactions([memoTransaction("one")]),
+    ).rejects.toThrow(
+      "No signature returned for Fordefi transaction fordefi-tx",
+    );
+  });
+
+  it("rejects a vault signature over another message", async () => {
+    jest
+      .spyOn(client, "createAndWaitTransaction")
+      .mockResolvedValue(
+        response(TransactionState.ReadyForPush, [
+          await vaultSignature(memoTransaction("other")),
+        ]),
+      );
+
+    await expect(
+      signer().signTransactions([memoTransaction("one")]),
+    ).rejects.toThrow(
+      `Fordefi transaction fordefi-tx returned a signature that does not verify against the vault ${vault.address}`,
+    );
+  });
+
+  it("rejects a malformed public key", async () => {
+    const tx = memoTransaction("one");
+    jest
+      .spyOn(client, "createAndWaitTransaction")
+      .mockResolvedValue(
+        response(TransactionState.ReadyForPush, [
+          await vaultSignature(tx, "AAEC"),
+        ]),
+      );
+
+    await expect(signer().signTransactions([tx])).rejects.toThrow(
+      "Fordefi returned an invalid public key: AAEC",
+    );
+  });
+
+  it("rejects a signature by another key", async () => {
+    const tx = memoTransaction("one");
+    jest
+      .spyOn(client, "createAndWaitTransaction")
+      .mockResolvedValue(
+        response(TransactionState.ReadyForPush, [await vaultSignature(tx)]),
+      );
+
+    await expect(signer(testAddress(9)).signTransactions([tx])).rejects.toThrow(
+      `Fordefi transaction fordefi-tx was signed by ${vault.address}, not the vault ${testAddress(9)}`,
+    );
+  });
+});
@@ -1,39 +1,59 @@
+import {
+  Address,
+  SignatureBytes,
+  SignatureDictionary,
+  Transaction,
+  address,
+  getAddressDecoder,
+  getPublicKeyFromAddress,
+  isAddress,
+  TransactionPartialSigner,
+  TransactionSendingSigner,
+  verifySignature,
+} from "@solana/kit";
+import {
+  FordefiClient,
+  FordefiSolanaChain,
+  TERMINAL_TRANSACTION_STATES,
+  TransactionResponse,
+  TransactionState,
+} from "../fordefi/client";
 
-import { SignatureBytes, Transaction, address, TransactionSendingSigner } from "@solana/kit";
-import { FordefiClient } from "../fordefi/client";
+export interface FordefiSignerOptions {
+  note?: string;
+  idempotenceId?: string;
+  signMode?: "auto" | "manual";
+  pushMode?: "auto" | "manual";
+  timeout?: number; // Timeout in milliseconds
+}
 
+/**
+ * Creates a signer that has Fordefi sign and send each transaction
+ * @param client - Fordefi client holding the API credentials
+ * @param addr - Address of the Fordefi vault
+ * @param vaultId - ID of the vault in Fordefi
+ * @param chain - Chain identifier (e.g., "solana_mainnet")
+ * @param options - Note, idempotence ID, sign and push modes and timeout
+ * @returns Sending signer returning the signature of each transaction
+ */
 const fordefiSigner = (
+  client: FordefiClient,
   addr: string,
   vaultId: string,
-  chain: string,
-  options: {
-    note?: string;
-    idempotenceId?: string;
-    signMode?: "auto" | "manual";
-    pushMode?: "auto" | "manual";
-    timeout?: number; // Timeout in milliseconds
-  },
+  chain: FordefiSolanaChain,
+  options: FordefiSignerOptions,
 ) => {
-  const fordefiClient = new FordefiClient({
-    apiKey: process.env.FORDEFI_API_KEY!,
-    apiSecret: process.env.FORDEFI_API_SECRET!,
-  });
   const fordefiTransactionSendingSigner: TransactionSendingSigner<string> = {
     address: address(addr),
     signAndSendTransactions: async (
       transactions: Transaction[],
     ): Promise<SignatureBytes[]> => {
-      const fordefiClient = new FordefiClient({
-        apiKey: process.env.FORDEFI_API_KEY!,
-        apiSecret: process.env.FORDEFI_API_SECRET!,
-      });
-
       // Process all transactions in parallel and wait for all to complete
       const signaturePromises = transactions.map(async (tx, index) => {
         // Convert transaction message bytes to proper Uint8Array format for Fordefi
         const txBuffer = Buffer.from(tx.messageBytes);
 
-        const response = await fordefiClient.createAndWaitTransaction(
+        const response = await client.createAndWaitTransaction(
           vaultId,
           txBuffer,
           chain,
@@ -74,4 +94,136 @@ const fordefiSigner = (
   return fordefiTransactionSendingSigner;
 };
 
+/**
+ * Reads a public key returned by Fordefi, given either as a base58 address or as the
+ * base64-encoded key bytes
+ * @param publicKey - Public key from the transaction response
+ * @returns Address of the key
+ */
+const decodePublicKey = (publicKey: string): Address => {
+  if (isAddress(publicKey)) {
+    return publicKey;
+  }
+  const bytes = Buffer.from(publicKey, "base64");
+  if (bytes.length !== 32) {
+    throw new Error(`Fordefi returned an invalid public key: ${publicKey}`);
+  }
+  return getAddressDecoder().decode(bytes);
+};
+
+/**
+ * Checks that every signature in a Fordefi response was made by the vault over the
+ * transaction message
+ * @param vault - Address of the Fordefi vault
+ * @param tx - Transaction sent for signing
+ * @param response - Transaction response holding the signatures
+ * @returns The vault signature
+ */
+const getVerifiedVaultSignature = async (
+  vault: Address,
+  tx: Transaction,
+  response: TransactionResponse,
+): Promise<SignatureBytes> => {
+  if (!response.signatures || response.signatures.length === 0) {
+    throw new Error(
+      `No signature returned for Fordefi transaction ${response.id}`,
+    );
+  }
+
+  const publicKey = await getPublicKeyFromAddress(vault);
+  let vaultSignature: SignatureBytes | undefined;
+  for (const entry of response.signatures) {
+    const signer = decodePublicKey(entry.public_key);
+    if (signer !== vault) {
+      throw new Error(
+        `Fordefi transaction ${response.id} was signed by ${signer}, not the vault ${vault}`,
+      );
+    }
+    const signature = new Uint8Array(
+      Buffer.from(entry.signature, "base64"),
+    ) as SignatureBytes;
+    if (
+      signature.length !== 64 ||
+      !(await verifySignature(publicKey, signature, tx.messageBytes))
+    ) {
+      throw new Error(
+        `Fordefi transaction ${response.id} returned a signature that does not verify against the vault ${vault}`,
+      );
+    }
+    vaultSignature = signature;
+  }
+  return vaultSignature!;
+};
+
+/**
+ * Creates a signer that asks Fordefi for the vault signature only, so the vault can
+ * co-sign with local keypairs (e.g. a fresh mint keypair) and the transaction is sent
+ * locally. Fordefi is told not to push the transaction (`push_mode: manual`).
+ * @param client - Fordefi client holding the API credentials
+ * @param addr - Address of the Fordefi vault
+ * @param vaultId - ID of the vault in Fordefi
+ * @param chain - Chain identifier (e.g., "solana_mainnet")
+ * @param options - Note, idempotence ID, sign mode and timeout
+ * @returns Partial signer returning the verified vault signature for each transaction
+ */
+export const fordefiPartialSigner = (
+  client: FordefiClient,
+  addr: string,
+  vaultId: string,
+  chain: FordefiSolanaChain,
+  options: Omit<FordefiSignerOptions, "pushMode"> = {},
+) => {
+  const vault = address(addr);
+  const fordefiTransactionPartialSigner: TransactionPartialSigner<string> = {
+    address: vault,
+    signTransactions: async (
+      transactions: readonly Transaction[],
+    ): Promise<SignatureDictionary[]> => {
+      return Promise.all(
+        transactions.map(async (tx, index) => {
+          let response = await client.createAndWaitTransaction(
+            vaultId,
+            Buffer.from(tx.messageBytes),
+            chain,
+            {
+              ...options,
+              pushMode: "manual",
+              // Append index to idempotenceId if provided to make it unique per transaction
+              idempotenceId: options.idempotenceId
+                ? `${options.idempotenceId}-${index}`
+                : undefined,
+            },
+          );
+
+          // create-and-wait can answer before the signature is ready, e.g. while the
+          // transaction waits for approval
+          if (
+            response.state !== TransactionState.ReadyForPush &&
+            !TERMINAL_TRANSACTION_STATES.includes(response.state)
+          ) {
+            response = await client.waitForState(
+              response.id,
+              TransactionState.ReadyForPush,
+              { timeout: options.timeout },
+            );
+          }
+          if (
+            response.state === TransactionState.Failed ||
+            response.state === TransactionState.Aborted
+          ) {
+            throw new Error(
+              `Fordefi transaction ${response.id} ended in state ${response.state}`,
+            );
+          }
+
+          return {
+            [vault]: await getVerifiedVaultSignature(vault, tx, response),
+          };
+        }),
+      );
+    },
+  };
+  return fordefiTransactionPartialSigner;
+};
+
 export default fordefiSigner;
@@ -0,0 +1,292 @@
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeAll, describe, expect, it } from "@jest/globals";
+import {
+  createKeyPairSignerFromPrivateKeyBytes,
+  getAddressEncoder,
+  getBase58Decoder,
+  isTransactionPartialSigner,
+  KeyPairSigner,
+} from "@solana/kit";
+import {
+  loadSignerRegistry,
+  parseSignerRegistry,
+  resolveSigner,
+  SignerProfileError,
+  SignerRegistryError,
+} from "./registry";
+import { NETWORK_PROFILES } from "../network/profile";
+import { testAddress } from "../testing/rpc";
+
+const VAULT = testAddress(1);
+const OTHER = testAddress(2);
+
+// Runs parseSignerRegistry and returns the issues it reports
+const issuesOf = (input: unknown) => {
+  try {
+    parseSignerRegistry(input);
+  } catch (error) {
+    if (error instanceof SignerRegistryError) {
+      return error.issues;
+    }
+    throw error;
+  }
+  throw new Error("Expected the registry to be rejected");
+};
+
+const registry = parseSignerRegistry({
+  signers: {
+    treasury: { kind: "noop", address: VAULT, roles: ["authority"] },
+    ci: {
+      kind: "env",
+      variable: "TEM_TEST_KEYPAIR",
+      roles: ["payer", "authority"],
+    },
+    pinned: {
+      kind: "env",
+      variable: "TEM_TEST_KEYPAIR",
+      encoding: "base58",
+      address: OTHER,
+      roles: ["payer"],
+    },
+    custody: {
+      kind: "fordefi",
+      address: VAULT,
+      vaultId: "vault-1",
+      apiKeyVariable: "TEM_TEST_FORDEFI_KEY",
+      apiSecretVariable: "TEM_TEST_FORDEFI_SECRET",
+      roles: ["authority"],
+    },
+    devnetCustody: {
+      kind: "fordefi",
+      address: VAULT,
+      vaultId: "vault-2",
+      chain: "solana_devnet",
+      apiKeyVariable: "TEM_TEST_FORDEFI_KEY",
+      apiSecretVariable: "TEM_TEST_FORDEFI_SECRET",
+      roles: ["authority"],
+    },
+  },
+});
+
+describe("parseSignerRegistry", () => {
+  it("fills in the defaults of each kind", () => {
+    const { signers } = parseSignerRegistry({
+      signers: {
+        local: { kind: "keypair", roles: ["payer", "payer"] },
+        ci: { kind: "env", variable: "CI_KEY", roles: ["payer"] },
+        custody: {
+          kind: "fordefi",
+          address: VAULT,
+          vaultId: "vault-1",
+          roles: ["authority"],
+        },
+      },
+    });
+
+    expect(signers.local).toEqual({
+      kind: "keypair",
+      roles: ["payer"],
+      path: undefined,
+      address: undefined,
+    });
+    expect(signers.ci).toMatchObject({ encoding: "json" });
+    expect(signers.custody).toEqual({
+      kind: "fordefi",
+      roles: ["authority"],
+      address: VAULT,
+      vaultId: "vault-1",
+      chain: undefined,
+      apiKeyVariable: "FORDEFI_API_KEY",
+      apiSecretVariable: "FORDEFI_API_SECRET",
+      apiUrl: undefined,
+    });
+  });
+
+  it("reports every issue together", () => {
+    expect(
+      issuesOf({
+        version: 2,
+        signers: {
+          [VAULT]: { kind: "noop", address: VAULT, roles: ["authority"] },
+          hsm: { kind: "hsm", roles: ["payer"] },
+          treasury: { kind: "noop", roles: ["owner"], path: "x" },
+          ci: { kind: "env", variable: "", encoding: "hex", roles: ["payer"] },
+          custody: {
+            kind: "fordefi",
+            address: VAULT,
+            vaultId: "vault-1",
+            chain: "solana_testnet",
+            apiUrl: "ftp://fordefi",
+            roles: ["payer"],
+          },
+        },
+      }),
+    ).toEqual([
+      "version is not a recognized field",
+      `signers.${VAULT}: a profile name must not be an address`,
+      'signers.hsm.kind must be one of keypair, noop, fordefi, env, got "hsm"',
+      "signers.treasury.path is not a recognized field for noop",
+      "signers.treasury.roles must list at least one of payer, authority",
+      "signers.treasury.address must be a base58 address",
+      "signers.ci.encoding must be json or base58",
+      "signers.ci.variable must be a non-empty string",
+      "signers.custody.apiUrl must be an http(s) URL",
+      "signers.custody.chain must be one of solana_mainnet, solana_devnet",
+    ]);
+  });
+
+  it("loads the example registry", async () => {
+    const { signers } = await loadSignerRegistry("examples/signers.yaml");
+
+    expect(signers.custody).toMatchObject({
+      kind: "fordefi",
+      apiKeyVariable: "FORDEFI_CUSTODY_API_KEY",
+    });
+  });
+});
+
+describe("resolveSigner", () => {
+  let key: KeyPairSigner;
+  let keyBytes: Uint8Array;
+
+  beforeAll(async () => {
+    const secret = new Uint8Array(32).fill(7);
+    key = await createKeyPairSignerFromPrivateKeyBytes(secret);
+    keyBytes = new Uint8Array([
+      ...secret,
+      ...getAddressEncoder().encode(key.address),
+    ]);
+  });
+
+  afterEach(() => {
+    delete process.env.TEM_TEST_KEYPAIR;
+    delete process.env.TEM_TEST_FORDEFI_KEY;
+    delete process.env.TEM_TEST_FORDEFI_SECRET;
+  });
+
+  it("resolves a noop profile to a signer that signs nothing", async () => {
+    const { signer } = await resolveSigner(registry, "treasury", "authority");
+
+    expect(signer.address).toBe(VAULT);
+  });
+
+  it("rejects unknown profiles and roles the profile may not fill", async () => {
+    await expect(resolveSigner(registry, "ops", "payer")).rejects.toThrow(
+      'Signer profile "ops": not found in the registry (known: treasury, ci, pinned, custody, devnetCustody)',
+    );
+    await expect(resolveSigner(registry, "treasury", "payer")).rejects.toThrow(
+      'Signer profile "treasury": may not act as payer (allowed: authority)',
+    );
+  });
+
+  it("loads a key from the environment", async () => {
+    process.env.TEM_TEST_KEYPAIR = JSON.stringify([...keyBytes]);
+
+    const { signer } = await resolveSigner(registry, "ci", "payer");
+    expect(signer.address).toBe(key.address);
+  });
+
+  it("reports a missing environment variable", async () => {
+    await expect(resolveSigner(registry, "ci", "payer")).rejects.toThrow(
+      new SignerProfileError(
+        "ci",
+        "environment variable TEM_TEST_KEYPAIR is not set",
+      ),
+    );
+  });
+
+  it("checks the key against the expected address", async () => {
+    process.env.TEM_TEST_KEYPAIR = getBase58Decoder().decode(keyBytes);
+
+    await expect(resolveSigner(registry, "pinned", "payer")).rejects.toThrow(
+      `the key belongs to ${key.address}, not ${OTHER}`,
+    );
+  });
+
+  it("loads a keypair file", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "signer-registry-"));
+    try {
+      const path = join(dir, "id.json");
+      await writeFile(path, JSON.stringify([...keyBytes]));
+      const local = parseSignerRegistry({
+        signers: { local: { kind: "keypair", path, roles: ["payer"] } },
+      });
+
+      const { signer } = await resolveSigner(local, "local", "payer");
+      expect(signer.address).toBe(key.address);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  describe("fordefi profiles", () => {
+    const setCredentials = () => {
+      process.env.TEM_TEST_FORDEFI_KEY = "key";
+      process.env.TEM_TEST_FORDEFI_SECRET = "secret";
+    };
+
+    it("signs on the Fordefi chain of the network", async () => {
+      setCredentials();
+
+      const { signer } = await resolveSigner(
+        registry,
+        "custody",
+        "authority",
+        NETWORK_PROFILES.mainnet,
+      );
+      expect(signer.address).toBe(VAULT);
+      expect(isTransactionPartialSigner(signer)).toBe(true);
+    });
+
+    it("fails at resolution when a credential is missing", async () => {
+      process.env.TEM_TEST_FORDEFI_KEY = "key";
+
+      await expect(
+        resolveSigner(
+          registry,
+          "custody",
+          "authority",
+          NETWORK_PROFILES.devnet,
+        ),
+      ).rejects.toThrow(
+        new SignerProfileError(
+          "custody",
+          "environment variable TEM_TEST_FORDEFI_SECRET is not set",
+        ),
+      );
+    });
+
+    it("refuses a vault bound to another chain", async () => {
+      setCredentials();
+
+      await expect(
+        resolveSigner(
+          registry,
+          "devnetCustody",
+          "authority",
+          NETWORK_PROFILES.mainnet,
+        ),
+      ).rejects.toThrow(
+        "the vault is on solana_devnet, but the network mainnet uses solana_mainnet",
+      );
+    });
+
+    it("refuses a network Fordefi does not serve", async () => {
+      setCredentials();
+
+      await expect(
+        resolveSigner(
+          registry,
+          "custody",
+          "authority",
+          NETWORK_PROFILES.testnet,
+        ),
+      ).rejects.toThrow("Fordefi does not serve the network testnet");
+      await expect(
+        resolveSigner(registry, "custody", "authority"),
+      ).rejects.toThrow("no chain given and no network to take it from");
+    });
+  });
+});
@@ -0,0 +1,445 @@
+/**
+ * This module resolves named signer profiles to transaction signers. A registry file
+ * maps each name to where its key lives (a keypair file, an environment variable or a
+ * Fordefi vault) or to a bare address for transactions exported to a multisig, and
+ * lists the roles the signer may fill.
+ */
+
+import { readFile } from "node:fs/promises";
+import {
+  Address,
+  TransactionSigner,
+  createNoopSigner,
+  isAddress,
+} from "@solana/kit";
+import {
+  loadKeypairSignerFromEnvironment,
+  loadKeypairSignerFromEnvironmentBase58,
+  loadKeypairSignerFromFile,
+} from "gill/node";
+import { parse as parseYaml } from "yaml";
+import { fordefiPartialSigner } from "./fordefi";
+import {
+  FORDEFI_SOLANA_CHAINS,
+  FordefiClient,
+  FordefiSolanaChain,
+} from "../fordefi/client";
+import { NetworkProfile } from "../network/profile";
+
+/**
+ * Roles a signer can fill in an operation
+ */
+export const SIGNER_ROLES = ["payer", "authority"] as const;
+
+export type SignerRole = (typeof SIGNER_ROLES)[number];
+
+export const SIGNER_KINDS = ["keypair", "noop", "fordefi", "env"] as const;
+
+export type SignerKind = (typeof SIGNER_KINDS)[number];
+
+/**
+ * Where a named signer gets its signatures from
+ */
+export type SignerProfile = { roles: SignerRole[] } & (
+  | {
+      kind: "keypair";
+      /** Keypair file (defaults to the Solana CLI keypair) */
+      path?: string;
+      /** Expected address, checked when the keypair is loaded */
+      address?: Address;
+    }
+  | {
+      /** Signs nothing; the transaction is exported, e.g. to a Squads proposal */
+      kind: "noop";
+      address: Address;
+    }
+  | {
+      kind: "fordefi";
+      address: Address;
+      vaultId: string;
+      /** Fordefi chain; defaults to the chain of the network in use */
+      chain?: FordefiSolanaChain;
+      /** Environment variable holding the API key (default "FORDEFI_API_KEY") */
+      apiKeyVariable: string;
+      /** Environment variable holding the API secret (default "FORDEFI_API_SECRET") */
+      apiSecretVariable: string;
+      /** API base URL; defaults to FORDEFI_API_URL, then the Fordefi API */
+      apiUrl?: string;
+    }
+  | {
+      kind: "env";
+      /** Environment variable holding the secret key */
+      variable: string;
+      /** JSON byte array as written by the Solana CLI, or base58 (default "json") */
+      encoding: "json" | "base58";
+      address?: Address;
+    }
+);
+
+export interface SignerRegistry {
+  signers: Record<string, SignerProfile>;
+}
+
+/**
+ * Error raised when a registry file is invalid
+ */
+export class SignerRegistryError extends Error {
+  constructor(readonly issues: string[]) {
+    super(
+      `Invalid signer registry:\n${issues.map((i) => `  - ${i}`).join("\n")}`,
+    );
+    this.name = "SignerRegistryError";
+  }
+}
+
+/**
+ * Error raised when a named profile is unknown, cannot fill a role or its key cannot be
+ * loaded
+ */
+export class SignerProfileError extends Error {
+  constructor(
+    readonly profile: string,
+    message: string,
+  ) {
+    super(`Signer profile "${profile}": ${message}`);
+    this.name = "SignerProfileError";
+  }
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isHttpUrl = (value: string) => {
+  try {
+    return ["http:", "https:"].includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+};
+
+// Fields allowed for each kind besides kind and roles
+const KIND_FIELDS: Record<SignerKind, string[]> = {
+  keypair: ["path", "address"],
+  noop: ["address"],
+  fordefi: [
+    "address",
+    "vaultId",
+    "chain",
+    "apiKeyVariable",
+    "apiSecretVariable",
+    "apiUrl",
+  ],
+  env: ["variable", "encoding", "address"],
+};
+
+/**
+ * Validates one profile, collecting its issues
+ * @param path Location of the profile in the document
+ * @param input Parsed profile
+ * @param issues Issues found so far
+ * @returns Validated profile, or undefined when it has issues
+ */
+const parseSignerProfile = (
+  path: string,
+  input: unknown,
+  issues: string[],
+): SignerProfile | undefined => {
+  if (!isObject(input)) {
+    issues.push(`${path} must be an object`);
+    return undefined;
+  }
+  const kind = input.kind as SignerKind;
+  if (!SIGNER_KINDS.includes(kind)) {
+    issues.push(
+      `${path}.kind must be one of ${SIGNER_KINDS.join(", ")}, got ${JSON.stringify(input.kind)}`,
+    );
+    return undefined;
+  }
+
+  const before = issues.length;
+  for (const key of Object.keys(input)) {
+    if (key !== "kind" && key !== "roles" && !KIND_FIELDS[kind].includes(key)) {
+      issues.push(`${path}.${key} is not a recognized field for ${kind}`);
+    }
+  }
+  const roles = input.roles;
+  if (
+    !Array.isArray(roles) ||
+    roles.length === 0 ||
+    roles.some((r) => !(SIGNER_ROLES as readonly string[]).includes(r))
+  ) {
+    issues.push(
+      `${path}.roles must list at least one of ${SIGNER_ROLES.join(", ")}`,
+    );
+  }
+  const address = (required: boolean) => {
+    const value = input.address;
+    if (value === undefined && !required) {
+      return undefined;
+    }
+    if (typeof value !== "string" || !isAddress(value)) {
+      issues.push(`${path}.address must be a base58 address`);
+      return undefined;
+    }
+    return value;
+  };
+  const text = (field: string, required: boolean) => {
+    const value = input[field];
+    if (value === undefined && !required) {
+      return undefined;
+    }
+    if (typeof value !== "string" || value.trim() === "") {
+      issues.push(`${path}.${field} must be a non-empty string`);
+      return undefined;
+    }
+    return value;
+  };
+
+  let profile: SignerProfile;
+  const base = { roles: [...new Set(roles as SignerRole[])] };
+  switch (kind) {
+    case "keypair":
+      profile = {
+        ...base,
+        kind,
+        path: text("path", false),
+        address: address(false),
+      };
+      break;
+    case "noop":
+      profile = { ...base, kind, address: address(true)! };
+      break;
+    case "fordefi":
+      profile = {
+        ...base,
+        kind,
+        address: address(true)!,
+        vaultId: text("vaultId", true)!,
+        chain: input.chain as FordefiSolanaChain | undefined,
+        apiKeyVariable: text("apiKeyVariable", false) ?? "FORDEFI_API_KEY",
+        apiSecretVariable:
+          text("apiSecretVariable", false) ?? "FORDEFI_API_SECRET",
+        apiUrl: text("apiUrl", false),
+      };
+      if (profile.apiUrl !== undefined && !isHttpUrl(profile.apiUrl)) {
+        issues.push(`${path}.apiUrl must be an http(s) URL`);
+      }
+      if (
+        input.chain !== undefined &&
+        !(FORDEFI_SOLANA_CHAINS as readonly unknown[]).includes(input.chain)
+      ) {
+        issues.push(
+          `${path}.chain must be one of ${FORDEFI_SOLANA_CHAINS.join(", ")}`,
+        );
+      }
+      break;
+    case "env": {
+      const encoding = input.encoding ?? "json";
+      if (encoding !== "json" && encoding !== "base58") {
+        issues.push(`${path}.encoding must be json or base58`);
+      }
+      profile = {
+        ...base,
+        kind,
+        variable: text("variable", true)!,
+        encoding: encoding as "json" | "base58",
+        address: address(false),
+      };
+      break;
+    }
+  }
+  return issues.length > before ? undefined : profile;
+};
+
+/**
+ * Validates a parsed registry document. Every issue is reported, not only the first.
+ * Profile names must not be addresses, so that a flag value is never ambiguous.
+ * @param input Parsed JSON or YAML document
+ * @returns Validated registry
+ */
+export const parseSignerRegistry = (input: unknown): SignerRegistry => {
+  const issues: string[] = [];
+  const registry: SignerRegistry = { signers: {} };
+
+  if (!isObject(input) || !isObject(input.signers)) {
+    throw new SignerRegistryError(["signers must be an object keyed by name"]);
+  }
+  for (const key of Object.keys(input)) {
+    if (key !== "signers") {
+      issues.push(`${key} is not a recognized field`);
+    }
+  }
+  for (const [name, value] of Object.entries(input.signers)) {
+    const path = `signers.${name}`;
+    if (isAddress(name)) {
+      issues.push(`${path}: a profile name must not be an address`);
+      continue;
+    }
+    const profile = parseSignerProfile(path, value, issues);
+    if (profile) {
+      registry.signers[name] = profile;
+    }
+  }
+
+  if (issues.length > 0) {
+    throw new SignerRegistryError(issues);
+  }
+  return registry;
+};
+
+/**
+ * Reads and validates a registry from a JSON or YAML file
+ * @param path Path to the registry file
+ * @returns Validated registry
+ */
+export const loadSignerRegistry = async (path: string) => {
+  const content = await readFile(path, "utf8");
+  return parseSignerRegistry(
+    path.endsWith(".json") ? JSON.parse(content) : parseYaml(content),
+  );
+};
+
+/**
+ * Loads the key of a keypair or environment profile and checks it against the
+ * expected address, if any
+ * @param name Profile name used in error messages
+ * @param profile Keypair or environment profile
+ * @returns Keypair signer
+ */
+const loadKeypairProfile = async (
+  name: string,
+  profile: Extract<SignerProfile, { kind: "keypair" | "env" }>,
+) => {
+  let signer;
+  if (profile.kind === "keypair") {
+    signer = await loadKeypairSignerFromFile(profile.path);
+  } else {
+    if (!process.env[profile.variable]) {
+      throw new SignerProfileError(
+        name,
+        `environment variable ${profile.variable} is not set`,
+      );
+    }
+    signer =
+      profile.encoding === "base58"
+        ? await loadKeypairSignerFromEnvironmentBase58(profile.variable)
+        : await loadKeypairSignerFromEnvironment(profile.variable);
+  }
+  if (profile.address && signer.address !== profile.address) {
+    throw new SignerProfileError(
+      name,
+      `the key belongs to ${signer.address}, not ${profile.address}`,
+    );
+  }
+  return signer;
+};
+
+/**
+ * Picks the Fordefi chain of a vault profile for a network, refusing a vault bound to
+ * another chain so that a devnet profile can never sign on mainnet or the reverse
+ * @param name Profile name used in error messages
+ * @param chain Chain given in the profile, if any
+ * @param network Network the transaction is built for, if known
+ * @returns Fordefi chain
+ */
+const getFordefiChain = (
+  name: string,
+  chain: FordefiSolanaChain | undefined,
+  network: NetworkProfile | undefined,
+) => {
+  if (chain && network && chain !== network.fordefiChain) {
+    throw new SignerProfileError(
+      name,
+      `the vault is on ${chain}, but the network ${network.name} uses ${network.fordefiChain ?? "no Fordefi chain"}`,
+    );
+  }
+  const resolved = chain ?? network?.fordefiChain;
+  if (!resolved) {
+    throw new SignerProfileError(
+      name,
+      network
+        ? `Fordefi does not serve the network ${network.name}`
+        : "no chain given and no network to take it from",
+    );
+  }
+  return resolved;
+};
+
+/**
+ * Creates the Fordefi client of a vault profile from the credentials in its environment
+ * variables, so missing credentials fail when the profile is resolved rather than when
+ * the first transaction is signed
+ * @param name Profile name used in error messages
+ * @param profile Fordefi profile
+ * @returns Fordefi client
+ */
+const createFordefiClient = (
+  name: string,
+  profile: Extract<SignerProfile, { kind: "fordefi" }>,
+) => {
+  const [apiKey, apiSecret] = [
+    profile.apiKeyVariable,
+    profile.apiSecretVariable,
+  ].map((variable) => {
+    const value = process.env[variable];
+    if (!value) {
+      throw new SignerProfileError(
+        name,
+        `environment variable ${variable} is not set`,
+      );
+    }
+    return value;
+  });
+  return new FordefiClient({
+    apiKey,
+    apiSecret,
+    baseUrl: profile.apiUrl ?? process.env.FORDEFI_API_URL,
+  });
+};
+
+/**
+ * Resolves a named profile to a signer for a role
+ * @param registry Validated registry
+ * @param name Profile name
+ * @param role Role the signer fills in the operation
+ * @param network Network the transaction is built for, which picks the Fordefi chain
+ * @returns The profile and its signer
+ */
+export const resolveSigner = async (
+  registry: SignerRegistry,
+  name: string,
+  role: SignerRole,
+  network?: NetworkProfile,
+): Promise<{ profile: SignerProfile; signer: TransactionSigner<string> }> => {
+  const profile = registry.signers[name];
+  if (!profile) {
+    const known = Object.keys(registry.signers);
+    throw new SignerProfileError(
+      name,
+      `not found in the registry${known.length > 0 ? ` (known: ${known.join(", ")})` : ""}`,
+    );
+  }
+  if (!profile.roles.includes(role)) {
+    throw new SignerProfileError(
+      name,
+      `may not act as ${role} (allowed: ${profile.roles.join(", ")})`,
+    );
+  }
+
+  switch (profile.kind) {
+    case "noop":
+      return { profile, signer: createNoopSigner(profile.address) };
+    case "fordefi":
+      return {
+        profile,
+        signer: fordefiPartialSigner(
+          createFordefiClient(name, profile),
+          profile.address,
+          profile.vaultId,
+          getFordefiChain(name, profile.chain, network),
+        ),
+      };
+    default:
+      return { profile, signer: await loadKeypairProfile(name, profile) };
+  }
+};
@@ -0,0 +1,249 @@
+import { createHash } from "crypto";
+import { describe, expect, it } from "@jest/globals";
+import {
+  AccountRole,
+  Address,
+  address,
+  createNoopSigner,
+  getAddressEncoder,
+} from "@solana/kit";
+import {
+  getTransferSolInstruction,
+  SYSTEM_PROGRAM_ADDRESS,
+} from "@solana-program/system";
+import {
+  createProposal,
+  encodeVaultTransactionMessage,
+  getProposalAddress,
+  getProposalInstructions,
+  getTransactionAddress,
+  getVaultAddress,
+  SQUADS_PROGRAM_ADDRESS,
+} from "./proposal";
+import {
+  accountHandlers,
+  createTestRpc,
+  encodedAccount,
+  testAddress,
+} from "../testing/rpc";
+
+const MULTISIG = testAddress(1);
+const creator = createNoopSigner(testAddress(2));
+const DESTINATION = testAddress(3);
+
+// PDAs of MULTISIG derived with the seeds of the Squads v4 program
+const VAULT = address("5AqyarvEEwCuy891CxFLuQjqH6H8i4hc3d4rpyTcXHci");
+const TRANSACTION = address("57dZyEaYKvfqpSaKKx9VGN1fGh1FpuC5xfdDncon6EQZ");
+const PROPOSAL = address("G52w84M9KPLzvT1ujaWfcJzvYnP7umnKDDqzJndoAuxD");
+
+// Anchor discriminators, computed here rather than copied from the module
+const discriminator = (name: string) =>
+  createHash("sha256").update(name).digest().subarray(0, 8);
+
+const key = (value: Address) => getAddressEncoder().encode(value);
+const u16 = (value: number) => {
+  const bytes = Buffer.alloc(2);
+  bytes.writeUInt16LE(value);
+  return bytes;
+};
+const u32 = (value: number) => {
+  const bytes = Buffer.alloc(4);
+  bytes.writeUInt32LE(value);
+  return bytes;
+};
+const u64 = (value: bigint) => {
+  const bytes = Buffer.alloc(8);
+  bytes.writeBigUInt64LE(value);
+  return bytes;
+};
+const bytes = (...parts: (ArrayLike<number> | number[])[]) =>
+  new Uint8Array(Buffer.concat(parts.map((part) => Buffer.from(part))));
+
+const transfer = getTransferSolInstruction({
+  source: createNoopSigner(VAULT),
+  destination: DESTINATION,
+  amount: 1_000n,
+});
+const transferData = bytes(u32(2), u64(1_000n));
+
+// The Squads TransactionMessage of the transfer, field by field
+const VAULT_MESSAGE = bytes(
+  [1, 1, 1], // one signer, writable; one writable non-signer
+  [3],
+  key(VAULT),
+  key(DESTINATION),
+  key(SYSTEM_PROGRAM_ADDRESS),
+  [1], // one instruction
+  [2], // program: system
+  [2, 0, 1], // accounts: vault, destination
+  u16(transferData.length),
+  transferData,
+  [0], // no address table lookups
+);
+
+// A multisig account with the creator as its only member
+const multisigAccount = (transactionIndex: bigint, account = "Multisig") =>
+  encodedAccount(
+    bytes(
+      discriminator(`account:${account}`),
+      key(testAddress(8)), // create key
+      key(testAddress(9)), // config authority
+      u16(1), // threshold
+      u32(0), // time lock
+      u64(transactionIndex),
+      u64(0n), // stale transaction index
+      [0], // no rent collector
+      [255], // bump
+      u32(1),
+      key(creator.address),
+      [7], // all permissions
+    ),
+    SQUADS_PROGRAM_ADDRESS,
+  );
+
+describe("Squads addresses", () => {
+  it("derives the vault, transaction and proposal PDAs", async () => {
+    await expect(getVaultAddress(MULTISIG)).resolves.toBe(VAULT);
+    await expect(getVaultAddress(MULTISIG, 1)).resolves.toBe(
+      "AyVRqQKowVtNWVZ4j5wVM34qBRtW5fpx1HmgGxSDVuj4",
+    );
+    await expect(getTransactionAddress(MULTISIG, 7n)).resolves.toBe(
+      TRANSACTION,
+    );
+    await expect(getProposalAddress(MULTISIG, 7n)).resolves.toBe(PROPOSAL);
+  });
+});
+
+describe("encodeVaultTransactionMessage", () => {
+  it("serializes the instructions as a Squads TransactionMessage", () => {
+    expect(encodeVaultTransactionMessage(VAULT, [transfer])).toEqual(
+      VAULT_MESSAGE,
+    );
+  });
+
+  it("rejects instructions signed by anyone but the vault", () => {
+    expect(() =>
+      encodeVaultTransactionMessage(VAULT, [
+        getTransferSolInstruction({
+          source: creator,
+          destination: DESTINATION,
+          amount: 1n,
+        }),
+      ]),
+    ).toThrow(
+      `Instruction for ${SYSTEM_PROGRAM_ADDRESS} requires signer ${creator.address}; only the vault ${VAULT} can sign a vault transaction`,
+    );
+  });
+});
+
+describe("getProposalInstructions", () => {
+  it("encodes vaultTransactionCreate, proposalCreate and proposalApprove", async () => {
+    const [create, propose, approve, ...rest] = await getProposalInstructions({
+      multisig: MULTISIG,
+      vaultIndex: 0,
+      transactionIndex: 7n,
+      creator,
+      instructions: [transfer],
+      approve: true,
+      memo: "pay",
+    });
+
+    expect(rest).toEqual([]);
+    expect(create.programAddress).toBe(SQUADS_PROGRAM_ADDRESS);
+    expect(create.accounts).toEqual([
+      { address: MULTISIG, role: AccountRole.WRITABLE },
+      { address: TRANSACTION, role: AccountRole.WRITABLE },
+      {
+        address: creator.address,
+        role: AccountRole.READONLY_SIGNER,
+        signer: creator,
+      },
+      {
+        address: creator.address,
+        role: AccountRole.WRITABLE_SIGNER,
+        signer: creator,
+      },
+      { address: SYSTEM_PROGRAM_ADDRESS, role: AccountRole.READONLY },
+    ]);
+    expect(create.data).toEqual(
+      bytes(
+        discriminator("global:vault_transaction_create"),
+        [0], // vault index
+        [0], // ephemeral signers
+        u32(VAULT_MESSAGE.length),
+        VAULT_MESSAGE,
+        [1], // memo: Some("pay")
+        u32(3),
+        Buffer.from("pay"),
+      ),
+    );
+
+    expect(propose.accounts?.map((a) => [a.address, a.role])).toEqual([
+      [MULTISIG, AccountRole.READONLY],
+      [PROPOSAL, AccountRole.WRITABLE],
+      [creator.address, AccountRole.READONLY_SIGNER],
+      [creator.address, AccountRole.WRITABLE_SIGNER],
+      [SYSTEM_PROGRAM_ADDRESS, AccountRole.READONLY],
+    ]);
+    expect(propose.data).toEqual(
+      bytes(discriminator("global:proposal_create"), u64(7n), [0]),
+    );
+
+    expect(approve.accounts?.map((a) => [a.address, a.role])).toEqual([
+      [MULTISIG, AccountRole.READONLY],
+      [creator.address, AccountRole.WRITABLE_SIGNER],
+      [PROPOSAL, AccountRole.WRITABLE],
+    ]);
+    expect(approve.data).toEqual(
+      bytes(discriminator("global:proposal_approve"), [0]),
+    );
+  });
+
+  it("leaves the memo unset and the proposal unapproved by default", async () => {
+    const instructions = await getProposalInstructions({
+      multisig: MULTISIG,
+      vaultIndex: 0,
+      transactionIndex: 7n,
+      creator,
+      instructions: [transfer],
+    });
+
+    expect(instructions).toHaveLength(2);
+    expect(instructions[0].data?.at(-1)).toBe(0);
+  });
+});
+
+describe("createProposal", () => {
+  it("proposes the transaction after the last index of the multisig", async () => {
+    const { rpc } = createTestRpc(
+      accountHandlers({ [MULTISIG]: multisigAccount(6n) }),
+    );
+    const proposal = await createProposal({
+      rpc,
+      multisig: MULTISIG,
+      creator,
+      instructions: [transfer],
+    });
+
+    expect(proposal.transactionIndex).toBe(7n);
+    expect(proposal.vault).toBe(VAULT);
+    expect(proposal.transaction.summary).toBe(
+      `Propose transaction 7 for vault ${VAULT} of multisig ${MULTISIG}`,
+    );
+  });
+
+  it("rejects an account that is not a multisig", async () => {
+    const { rpc } = createTestRpc(
+      accountHandlers({ [MULTISIG]: multisigAccount(6n, "Proposal") }),
+    );
+
+    await expect(
+      createProposal({
+        rpc,
+        multisig: MULTISIG,
+        creator,
+        instructions: [transfer],
+      }),
+    ).rejects.toThrow(`${MULTISIG} is not a Squads v4 multisig account`);
+  });
+});
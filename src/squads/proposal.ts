@@ -0,0 +1,428 @@
+/**
+ * This module builds Squads v4 proposals from the instructions of any operation, so a
+ * single multisig member can create (and optionally approve) a vault transaction
+ * without importing it through the Squads UI.
+ */
+
+import {
+  Address,
+  AccountRole,
+  Blockhash,
+  Rpc,
+  SolanaRpcApi,
+  TransactionSigner,
+  IInstruction,
+  ReadonlyUint8Array,
+  address,
+  addEncoderSizePrefix,
+  appendTransactionMessageInstructions,
+  assertAccountExists,
+  compileTransactionMessage,
+  createTransactionMessage,
+  fetchEncodedAccount,
+  fixDecoderSize,
+  fixEncoderSize,
+  getAddressDecoder,
+  getAddressEncoder,
+  getArrayDecoder,
+  getArrayEncoder,
+  getBooleanEncoder,
+  getBytesDecoder,
+  getBytesEncoder,
+  getOptionDecoder,
+  getOptionEncoder,
+  getProgramDerivedAddress,
+  getStructDecoder,
+  getStructEncoder,
+  getU16Decoder,
+  getU16Encoder,
+  getU32Decoder,
+  getU32Encoder,
+  getU64Decoder,
+  getU64Encoder,
+  getU8Decoder,
+  getU8Encoder,
+  getUtf8Encoder,
+  pipe,
+  setTransactionMessageFeePayer,
+  setTransactionMessageLifetimeUsingBlockhash,
+} from "@solana/kit";
+import { SYSTEM_PROGRAM_ADDRESS } from "@solana-program/system";
+import { prepareTransaction } from "../token/transaction";
+
+export const SQUADS_PROGRAM_ADDRESS = address(
+  "SQDS4ep65T869zMMBKyuUq6aD6EgTu8psMjkvj52pCf",
+);
+
+// Anchor discriminators: the first 8 bytes of sha256("global:<instruction>")
+const VAULT_TRANSACTION_CREATE_DISCRIMINATOR = new Uint8Array([
+  48, 250, 78, 168, 208, 226, 218, 211,
+]);
+const PROPOSAL_CREATE_DISCRIMINATOR = new Uint8Array([
+  220, 60, 73, 224, 30, 108, 79, 159,
+]);
+const PROPOSAL_APPROVE_DISCRIMINATOR = new Uint8Array([
+  144, 37, 164, 136, 188, 216, 42, 248,
+]);
+
+// First 8 bytes of sha256("account:Multisig")
+const MULTISIG_ACCOUNT_DISCRIMINATOR = new Uint8Array([
+  224, 116, 121, 186, 68, 161, 79, 236,
+]);
+
+// The lifetime of the vault transaction is not stored; the program supplies it on execution
+const PLACEHOLDER_LIFETIME = {
+  blockhash: "11111111111111111111111111111111" as Blockhash,
+  lastValidBlockHeight: 0n,
+};
+
+const SEED_PREFIX = getUtf8Encoder().encode("multisig");
+
+/**
+ * Derives the address of a multisig vault
+ * @param multisig Address of the multisig account
+ * @param vaultIndex Index of the vault, 0 for the default vault
+ * @returns Vault address
+ */
+export const getVaultAddress = async (multisig: Address, vaultIndex = 0) => {
+  const [vault] = await getProgramDerivedAddress({
+    programAddress: SQUADS_PROGRAM_ADDRESS,
+    seeds: [
+      SEED_PREFIX,
+      getAddressEncoder().encode(multisig),
+      "vault",
+      getU8Encoder().encode(vaultIndex),
+    ],
+  });
+  return vault;
+};
+
+/**
+ * Derives the address of a vault transaction
+ * @param multisig Address of the multisig account
+ * @param transactionIndex Index of the transaction in the multisig
+ * @returns Transaction address
+ */
+export const getTransactionAddress = async (
+  multisig: Address,
+  transactionIndex: bigint,
+) => {
+  const [transaction] = await getProgramDerivedAddress({
+    programAddress: SQUADS_PROGRAM_ADDRESS,
+    seeds: [
+      SEED_PREFIX,
+      getAddressEncoder().encode(multisig),
+      "transaction",
+      getU64Encoder().encode(transactionIndex),
+    ],
+  });
+  return transaction;
+};
+
+/**
+ * Derives the address of the proposal for a vault transaction
+ * @param multisig Address of the multisig account
+ * @param transactionIndex Index of the transaction in the multisig
+ * @returns Proposal address
+ */
+export const getProposalAddress = async (
+  multisig: Address,
+  transactionIndex: bigint,
+) => {
+  const [proposal] = await getProgramDerivedAddress({
+    programAddress: SQUADS_PROGRAM_ADDRESS,
+    seeds: [
+      SEED_PREFIX,
+      getAddressEncoder().encode(multisig),
+      "transaction",
+      getU64Encoder().encode(transactionIndex),
+      "proposal",
+    ],
+  });
+  return proposal;
+};
+
+const getMultisigDecoder = () =>
+  getStructDecoder([
+    ["discriminator", fixDecoderSize(getBytesDecoder(), 8)],
+    ["createKey", getAddressDecoder()],
+    ["configAuthority", getAddressDecoder()],
+    ["threshold", getU16Decoder()],
+    ["timeLock", getU32Decoder()],
+    ["transactionIndex", getU64Decoder()],
+    ["staleTransactionIndex", getU64Decoder()],
+    ["rentCollector", getOptionDecoder(getAddressDecoder())],
+    ["bump", getU8Decoder()],
+    [
+      "members",
+      getArrayDecoder(
+        getStructDecoder([
+          ["key", getAddressDecoder()],
+          ["permissions", getU8Decoder()],
+        ]),
+      ),
+    ],
+  ]);
+
+const bytesEqual = (a: ReadonlyUint8Array, b: ReadonlyUint8Array) =>
+  a.length === b.length && a.every((byte, i) => byte === b[i]);
+
+/**
+ * Reads a Squads v4 multisig account
+ * @param rpc RPC client for Solana network
+ * @param multisig Address of the multisig account
+ * @returns Decoded multisig account
+ */
+export const fetchMultisig = async (
+  rpc: Rpc<SolanaRpcApi>,
+  multisig: Address,
+) => {
+  const account = await fetchEncodedAccount(rpc, multisig);
+  assertAccountExists(account);
+  const data = getMultisigDecoder().decode(account.data);
+  if (
+    account.programAddress !== SQUADS_PROGRAM_ADDRESS ||
+    !bytesEqual(data.discriminator, MULTISIG_ACCOUNT_DISCRIMINATOR)
+  ) {
+    throw new Error(`${multisig} is not a Squads v4 multisig account`);
+  }
+  return data;
+};
+
+const getVaultTransactionMessageEncoder = () =>
+  getStructEncoder([
+    ["numSigners", getU8Encoder()],
+    ["numWritableSigners", getU8Encoder()],
+    ["numWritableNonSigners", getU8Encoder()],
+    [
+      "accountKeys",
+      getArrayEncoder(getAddressEncoder(), { size: getU8Encoder() }),
+    ],
+    [
+      "instructions",
+      getArrayEncoder(
+        getStructEncoder([
+          ["programIdIndex", getU8Encoder()],
+          [
+            "accountIndexes",
+            getArrayEncoder(getU8Encoder(), { size: getU8Encoder() }),
+          ],
+          ["data", addEncoderSizePrefix(getBytesEncoder(), getU16Encoder())],
+        ]),
+        { size: getU8Encoder() },
+      ),
+    ],
+    // Address table lookups are not supported; always encoded as an empty list
+    [
+      "addressTableLookups",
+      getArrayEncoder(getU8Encoder(), { size: getU8Encoder() }),
+    ],
+  ]);
+
+/**
+ * Encodes instructions as the Squads `TransactionMessage` executed by a vault. The vault
+ * is the only signer allowed in the instructions, so operations must use it as their
+ * authority and fee payer.
+ * @param vault Address of the vault that executes the instructions
+ * @param instructions Instructions to execute
+ * @returns Serialized vault transaction message
+ */
+export const encodeVaultTransactionMessage = (
+  vault: Address,
+  instructions: IInstruction<string>[],
+) => {
+  for (const ix of instructions) {
+    for (const account of ix.accounts ?? []) {
+      if (
+        account.address !== vault &&
+        (account.role === AccountRole.READONLY_SIGNER ||
+          account.role === AccountRole.WRITABLE_SIGNER)
+      ) {
+        throw new Error(
+          `Instruction for ${ix.programAddress} requires signer ${account.address}; only the vault ${vault} can sign a vault transaction`,
+        );
+      }
+    }
+  }
+
+  const message = compileTransactionMessage(
+    pipe(
+      createTransactionMessage({ version: 0 }),
+      (m) => setTransactionMessageFeePayer(vault, m),
+      (m) =>
+        setTransactionMessageLifetimeUsingBlockhash(PLACEHOLDER_LIFETIME, m),
+      (m) => appendTransactionMessageInstructions(instructions, m),
+    ),
+  );
+  const { header, staticAccounts } = message;
+  return getVaultTransactionMessageEncoder().encode({
+    numSigners: header.numSignerAccounts,
+    numWritableSigners:
+      header.numSignerAccounts - header.numReadonlySignerAccounts,
+    numWritableNonSigners:
+      staticAccounts.length -
+      header.numSignerAccounts -
+      header.numReadonlyNonSignerAccounts,
+    accountKeys: staticAccounts,
+    instructions: message.instructions.map((ix) => ({
+      programIdIndex: ix.programAddressIndex,
+      accountIndexes: ix.accountIndices ?? [],
+      data: ix.data ?? new Uint8Array(),
+    })),
+    addressTableLookups: [],
+  });
+};
+
+const getVaultTransactionCreateDataEncoder = () =>
+  getStructEncoder([
+    ["discriminator", fixEncoderSize(getBytesEncoder(), 8)],
+    ["vaultIndex", getU8Encoder()],
+    ["ephemeralSigners", getU8Encoder()],
+    [
+      "transactionMessage",
+      addEncoderSizePrefix(getBytesEncoder(), getU32Encoder()),
+    ],
+    [
+      "memo",
+      getOptionEncoder(addEncoderSizePrefix(getUtf8Encoder(), getU32Encoder())),
+    ],
+  ]);
+
+const getProposalCreateDataEncoder = () =>
+  getStructEncoder([
+    ["discriminator", fixEncoderSize(getBytesEncoder(), 8)],
+    ["transactionIndex", getU64Encoder()],
+    ["draft", getBooleanEncoder()],
+  ]);
+
+const getProposalApproveDataEncoder = () =>
+  getStructEncoder([
+    ["discriminator", fixEncoderSize(getBytesEncoder(), 8)],
+    [
+      "memo",
+      getOptionEncoder(addEncoderSizePrefix(getUtf8Encoder(), getU32Encoder())),
+    ],
+  ]);
+
+/**
+ * Generates the Squads instructions that propose a vault transaction. This does not
+ * touch the network, so the encoding can be checked against fixture bytes.
+ * @param input Multisig, vault, transaction index, creating member and the instructions to propose
+ * @returns vaultTransactionCreate and proposalCreate instructions, followed by proposalApprove when requested
+ */
+export const getProposalInstructions = async (input: {
+  multisig: Address;
+  vaultIndex: number;
+  transactionIndex: bigint;
+  creator: TransactionSigner<string>;
+  instructions: IInstruction<string>[];
+  approve?: boolean;
+  memo?: string;
+}): Promise<IInstruction<string>[]> => {
+  const vault = await getVaultAddress(input.multisig, input.vaultIndex);
+  const transaction = await getTransactionAddress(
+    input.multisig,
+    input.transactionIndex,
+  );
+  const proposal = await getProposalAddress(
+    input.multisig,
+    input.transactionIndex,
+  );
+  const creator = {
+    address: input.creator.address,
+    role: AccountRole.WRITABLE_SIGNER,
+    signer: input.creator,
+  };
+
+  const instructions: IInstruction<string>[] = [
+    {
+      programAddress: SQUADS_PROGRAM_ADDRESS,
+      accounts: [
+        { address: input.multisig, role: AccountRole.WRITABLE },
+        { address: transaction, role: AccountRole.WRITABLE },
+        { ...creator, role: AccountRole.READONLY_SIGNER },
+        creator,
+        { address: SYSTEM_PROGRAM_ADDRESS, role: AccountRole.READONLY },
+      ],
+      data: getVaultTransactionCreateDataEncoder().encode({
+        discriminator: VAULT_TRANSACTION_CREATE_DISCRIMINATOR,
+        vaultIndex: input.vaultIndex,
+        ephemeralSigners: 0,
+        transactionMessage: encodeVaultTransactionMessage(
+          vault,
+          input.instructions,
+        ),
+        memo: input.memo ?? null,
+      }),
+    },
+    {
+      programAddress: SQUADS_PROGRAM_ADDRESS,
+      accounts: [
+        { address: input.multisig, role: AccountRole.READONLY },
+        { address: proposal, role: AccountRole.WRITABLE },
+        { ...creator, role: AccountRole.READONLY_SIGNER },
+        creator,
+        { address: SYSTEM_PROGRAM_ADDRESS, role: AccountRole.READONLY },
+      ],
+      data: getProposalCreateDataEncoder().encode({
+        discriminator: PROPOSAL_CREATE_DISCRIMINATOR,
+        transactionIndex: input.transactionIndex,
+        draft: false,
+      }),
+    },
+  ];
+
+  if (input.approve) {
+    instructions.push({
+      programAddress: SQUADS_PROGRAM_ADDRESS,
+      accounts: [
+        { address: input.multisig, role: AccountRole.READONLY },
+        creator,
+        { address: proposal, role: AccountRole.WRITABLE },
+      ],
+      data: getProposalApproveDataEncoder().encode({
+        discriminator: PROPOSAL_APPROVE_DISCRIMINATOR,
+        memo: null,
+      }),
+    });
+  }
+  return instructions;
+};
+
+/**
+ * Builds a transaction that proposes instructions to a Squads v4 multisig. The next
+ * transaction index is read from the multisig account. The creating member pays the
+ * fees and rent, so it is the only signer of the transaction.
+ * @param input Configuration including the multisig, vault index, creating member and instructions
+ * @returns Transaction index, vault and prepared transaction
+ */
+export const createProposal = async (input: {
+  rpc: Rpc<SolanaRpcApi>;
+  multisig: Address;
+  vaultIndex?: number;
+  creator: TransactionSigner<string>;
+  instructions: IInstruction<string>[];
+  approve?: boolean;
+  memo?: string;
+}) => {
+  const vaultIndex = input.vaultIndex ?? 0;
+  const multisig = await fetchMultisig(input.rpc, input.multisig);
+  const transactionIndex = multisig.transactionIndex + 1n;
+  const instructions = await getProposalInstructions({
+    ...input,
+    vaultIndex,
+    transactionIndex,
+  });
+
+  const vault = await getVaultAddress(input.multisig, vaultIndex);
+  return {
+    transactionIndex,
+    vault,
+    transaction: await prepareTransaction({
+      rpc: input.rpc,
+      feePayer: input.creator,
+      instructions,
+      summary: `Propose transaction ${transactionIndex} for vault ${vault} of multisig ${input.multisig}${input.approve ? " and approve it" : ""}`,
+    }),
+  };
+};
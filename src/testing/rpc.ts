@@ -0,0 +1,97 @@
+/**
+ * This module provides fixtures shared by the unit tests: deterministic addresses and
+ * an RPC client that answers from handlers instead of the network.
+ */
+
+import {
+  Address,
+  Blockhash,
+  getAddressDecoder,
+  ReadonlyUint8Array,
+  Rpc,
+  SolanaRpcApi,
+} from "@solana/kit";
+
+export type RpcHandlers = Record<string, (...params: any[]) => unknown>;
+
+/**
+ * Returns an address made of one repeated byte, so tests can name accounts by number
+ * @param seed Byte value, 1 to 255
+ */
+export const testAddress = (seed: number) =>
+  getAddressDecoder().decode(new Uint8Array(32).fill(seed)) as Address;
+
+export const TEST_BLOCKHASH =
+  "EtWTRABZaYq6iMfeYKouRu166VU2xqa1wcaWoxPkrZBG" as Blockhash;
+
+/**
+ * Creates an RPC client whose methods resolve with the value returned by the handler
+ * of the same name. Calling a method without a handler fails the test.
+ * @param handlers Handler per RPC method, called with the method parameters
+ * @returns RPC client and the list of calls made, in order
+ */
+export const createTestRpc = (handlers: RpcHandlers = {}) => {
+  const calls: { method: string; params: unknown[] }[] = [];
+  const all: RpcHandlers = {
+    getLatestBlockhash: () => ({
+      context: { slot: 1n },
+      value: { blockhash: TEST_BLOCKHASH, lastValidBlockHeight: 100n },
+    }),
+    ...handlers,
+  };
+  const rpc = new Proxy(
+    {},
+    {
+      get:
+        (_, method: string) =>
+        (...params: unknown[]) => ({
+          send: async () => {
+            calls.push({ method, params });
+            const handler = all[method];
+            if (!handler) {
+              throw new Error(`Unexpected RPC call ${method}`);
+            }
+            return handler(...params);
+          },
+        }),
+    },
+  ) as Rpc<SolanaRpcApi>;
+  return { rpc, calls };
+};
+
+/**
+ * Wraps account bytes the way getAccountInfo returns them with base64 encoding
+ * @param data Account data
+ * @param owner Program owning the account
+ * @param lamports Account balance
+ */
+export const encodedAccount = (
+  data: ReadonlyUint8Array,
+  owner: Address,
+  lamports = 1_000_000n,
+) => ({
+  data: [Buffer.from(data).toString("base64"), "base64"],
+  executable: false,
+  lamports,
+  owner,
+  rentEpoch: 0n,
+  space: BigInt(data.length),
+});
+
+type EncodedAccount = ReturnType<typeof encodedAccount>;
+
+/**
+ * Creates getAccountInfo and getMultipleAccounts handlers that serve fixed accounts.
+ * Addresses missing from the map do not exist.
+ * @param accounts Encoded accounts by address
+ */
+export const accountHandlers = (accounts: Record<string, EncodedAccount>) => ({
+  getAccountInfo: (address: Address) => ({
+    context: { slot: 1n },
+    value: accounts[address] ?? null,
+  }),
+  getMultipleAccounts: (addresses: Address[]) => ({
+    context: { slot: 1n },
+    value: addresses.map((address) => accounts[address] ?? null),
+  }),
+});
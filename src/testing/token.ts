@@ -0,0 +1,97 @@
+/**
+ * This module encodes Token-2022 mint and token accounts for the unit tests, filling in
+ * every field the test does not care about.
+ */
+
+import {
+  Address,
+  IAccountMeta,
+  IInstruction,
+  IInstructionWithAccounts,
+  IInstructionWithData,
+  none,
+  some,
+} from "@solana/kit";
+import {
+  AccountState,
+  Extension,
+  getMintEncoder,
+  getTokenEncoder,
+  TOKEN_2022_PROGRAM_ADDRESS,
+} from "@solana-program/token-2022";
+import { encodedAccount, testAddress } from "./rpc";
+
+/**
+ * Encodes a mint account
+ * @param fields Fields that differ from an initialized 6-decimal mint without supply
+ * @returns Account as returned by getAccountInfo
+ */
+export const mintAccount = (
+  fields: {
+    mintAuthority?: Address | null;
+    freezeAuthority?: Address | null;
+    supply?: bigint;
+    decimals?: number;
+    extensions?: Extension[];
+  } = {},
+) => {
+  const mintAuthority =
+    fields.mintAuthority === undefined
+      ? testAddress(200)
+      : fields.mintAuthority;
+  const freezeAuthority = fields.freezeAuthority ?? null;
+  return encodedAccount(
+    getMintEncoder().encode({
+      mintAuthority: mintAuthority ? some(mintAuthority) : none(),
+      supply: fields.supply ?? 0n,
+      decimals: fields.decimals ?? 6,
+      isInitialized: true,
+      freezeAuthority: freezeAuthority ? some(freezeAuthority) : none(),
+      extensions: fields.extensions ? some(fields.extensions) : none(),
+    }),
+    TOKEN_2022_PROGRAM_ADDRESS,
+  );
+};
+
+/**
+ * Encodes a token account
+ * @param fields Mint, owner and the fields that differ from an empty initialized account
+ * @returns Account as returned by getAccountInfo
+ */
+export const tokenAccount = (fields: {
+  mint: Address;
+  owner: Address;
+  amount?: bigint;
+  state?: AccountState;
+  extensions?: Extension[];
+}) =>
+  encodedAccount(
+    getTokenEncoder().encode({
+      mint: fields.mint,
+      owner: fields.owner,
+      amount: fields.amount ?? 0n,
+      delegate: none(),
+      state: fields.state ?? AccountState.Initialized,
+      isNative: none(),
+      delegatedAmount: 0n,
+      closeAuthority: none(),
+      extensions: fields.extensions ? some(fields.extensions) : none(),
+    }),
+    TOKEN_2022_PROGRAM_ADDRESS,
+  );
+
+/**
+ * Narrows an instruction built by an operation to the shape the client parse functions
+ * accept, failing when it has no accounts or data
+ * @param ix Instruction
+ */
+export const decodable = (ix: IInstruction) => {
+  if (!ix.accounts || !ix.data) {
+    throw new Error(
+      `Instruction of ${ix.programAddress} has no accounts or data`,
+    );
+  }
+  return ix as IInstruction &
+    IInstructionWithAccounts<IAccountMeta[]> &
+    IInstructionWithData<Uint8Array>;
+};
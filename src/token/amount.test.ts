@@ -0,0 +1,43 @@
+import { describe, expect, it } from "@jest/globals";
+import { formatScaledUiAmount, formatUnits } from "./amount";
+
+describe("formatUnits", () => {
+  it("places the decimal point without trailing zeros", () => {
+    expect(formatUnits(1_500_000n, 6)).toBe("1.5");
+    expect(formatUnits(5n, 6)).toBe("0.000005");
+    expect(formatUnits(2_000_000n, 6)).toBe("2");
+    expect(formatUnits(42n, 0)).toBe("42");
+  });
+
+  it("keeps every digit of amounts above 2^53", () => {
+    expect(formatUnits(123_456_789_012_345_678n, 6)).toBe(
+      "123456789012.345678",
+    );
+    expect(formatUnits(1_000_000_000_000_000_001n, 9)).toBe(
+      "1000000000.000000001",
+    );
+    expect(formatUnits(10n ** 22n, 0)).toBe("10000000000000000000000");
+  });
+});
+
+describe("formatScaledUiAmount", () => {
+  it("truncates the scaled raw amount like the program", () => {
+    expect(formatScaledUiAmount(1_000n, 2, 1.5)).toBe("15");
+    expect(formatScaledUiAmount(3n, 0, 0.5)).toBe("1");
+    expect(formatScaledUiAmount(1_000_000n, 6, 1.1)).toBe("1.1");
+  });
+
+  it("applies the multiplier exactly to large amounts", () => {
+    expect(formatScaledUiAmount(123_456_789_012_345_678n, 6, 1)).toBe(
+      "123456789012.345678",
+    );
+    expect(formatScaledUiAmount(1_000_000_000_000_000_001n, 9, 2.2)).toBe(
+      "2200000000.000000002",
+    );
+  });
+
+  it("reads multipliers printed in exponent notation", () => {
+    expect(formatScaledUiAmount(10n ** 9n, 0, 1e-7)).toBe("100");
+    expect(formatScaledUiAmount(3n, 0, 1e21)).toBe("3000000000000000000000");
+  });
+});
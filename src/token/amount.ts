@@ -0,0 +1,52 @@
+/**
+ * This module formats raw token amounts with bigint arithmetic, so that amounts above
+ * 2^53 keep every digit, and holds the token account layout size shared by the
+ * modules that decode token accounts.
+ */
+
+/**
+ * Size of a base token account; the account type byte of extended accounts follows it
+ */
+export const TOKEN_ACCOUNT_BASE_SIZE = 165;
+
+/**
+ * Formats a raw amount with the decimals of its mint
+ * @param amount Raw amount
+ * @param decimals Decimals of the mint
+ * @returns Decimal string without trailing zeros, e.g. `1.5` for 1500000 at 6 decimals
+ */
+export const formatUnits = (amount: bigint, decimals: number) => {
+  const digits = amount.toString().padStart(decimals + 1, "0");
+  const whole = digits.slice(0, digits.length - decimals);
+  const fraction = digits.slice(digits.length - decimals).replace(/0+$/, "");
+  return fraction ? `${whole}.${fraction}` : whole;
+};
+
+/**
+ * Formats a raw amount as the UI amount of a Scaled UI Amount mint. Like the program,
+ * the scaled raw amount is truncated before the decimals are applied, but the
+ * multiplier is applied exactly to the decimal value it prints as.
+ * @param amount Raw amount
+ * @param decimals Decimals of the mint
+ * @param multiplier Multiplier in effect
+ * @returns Decimal string without trailing zeros
+ */
+export const formatScaledUiAmount = (
+  amount: bigint,
+  decimals: number,
+  multiplier: number,
+) => {
+  const match = /^(\d+)(?:\.(\d+))?(?:e([+-]\d+))?$/.exec(String(multiplier));
+  if (!match) {
+    throw new Error(`Invalid scaled UI multiplier ${multiplier}`);
+  }
+  const [, whole, fraction = "", exponent = "0"] = match;
+  // multiplier = mantissa * 10^(-scale)
+  const mantissa = BigInt(whole + fraction);
+  const scale = fraction.length - Number(exponent);
+  const scaled =
+    scale >= 0
+      ? (amount * mantissa) / 10n ** BigInt(scale)
+      : amount * mantissa * 10n ** BigInt(-scale);
+  return formatUnits(scaled, decimals);
+};
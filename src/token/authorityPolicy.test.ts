@@ -0,0 +1,272 @@
+import { describe, expect, it } from "@jest/globals";
+import {
+  createNoopSigner,
+  getCompiledTransactionMessageDecoder,
+  Nonce,
+  some,
+} from "@solana/kit";
+import {
+  AuthorityType,
+  parseSetAuthorityInstruction,
+} from "@solana-program/token-2022";
+import {
+  auditAuthorityPolicy,
+  AuthorityDrift,
+  AuthorityPolicyError,
+  findAuthorityDrift,
+  formatAuthorityDrift,
+  getAuthorityFixTransactions,
+  loadAuthorityPolicy,
+  parseAuthorityPolicy,
+} from "./authorityPolicy";
+import { decodeMintReport } from "./inspect";
+import {
+  accountHandlers,
+  createTestRpc,
+  TEST_BLOCKHASH,
+  testAddress,
+} from "../testing/rpc";
+import { mintAccount } from "../testing/token";
+
+const MINT = testAddress(1);
+const OTHER_MINT = testAddress(2);
+const VAULT = testAddress(3);
+const ROGUE = testAddress(4);
+const payer = createNoopSigner(testAddress(5));
+
+const pausableMint = mintAccount({
+  mintAuthority: ROGUE,
+  freezeAuthority: VAULT,
+  extensions: [
+    { __kind: "PausableConfig", authority: some(VAULT), paused: false },
+  ],
+});
+
+const drift = (fields: Partial<AuthorityDrift>): AuthorityDrift => ({
+  mint: MINT,
+  role: "MintTokens",
+  expected: VAULT,
+  actual: ROGUE,
+  fixable: true,
+  ...fields,
+});
+
+// Runs parseAuthorityPolicy and returns the issues it reports
+const issuesOf = (input: unknown) => {
+  try {
+    parseAuthorityPolicy(input);
+  } catch (error) {
+    if (error instanceof AuthorityPolicyError) {
+      return error.issues;
+    }
+    throw error;
+  }
+  throw new Error("Expected the policy to be rejected");
+};
+
+describe("parseAuthorityPolicy", () => {
+  it("accepts holders and revoked roles", () => {
+    expect(
+      parseAuthorityPolicy({
+        mints: { [MINT]: { MintTokens: VAULT, FreezeAccount: null } },
+      }),
+    ).toEqual({
+      mints: { [MINT]: { MintTokens: VAULT, FreezeAccount: null } },
+    });
+  });
+
+  it("requires a mints object", () => {
+    expect(issuesOf({ mints: [] })).toEqual([
+      "mints must be an object keyed by mint",
+    ]);
+  });
+
+  it("reports every issue together", () => {
+    expect(
+      issuesOf({
+        version: 1,
+        mints: {
+          "not-a-mint": { MintTokens: VAULT },
+          [MINT]: { Owner: VAULT, Pause: "vault" },
+          [OTHER_MINT]: {},
+        },
+      }),
+    ).toEqual([
+      "version is not a recognized field",
+      'mints.not-a-mint: "not-a-mint" is not a base58 address',
+      expect.stringMatching(
+        new RegExp(
+          `^mints\\.${MINT}\\.Owner is not a recognized role \\(expected one of MintTokens, FreezeAccount, `,
+        ),
+      ),
+      `mints.${MINT}.Pause must be a base58 address or null`,
+      `mints.${OTHER_MINT} must map at least one role to its holder`,
+    ]);
+  });
+
+  it("loads the example policy", async () => {
+    const policy = await loadAuthorityPolicy("examples/authority-policy.yaml");
+
+    expect(Object.values(policy.mints)[0]).toHaveProperty("Pause");
+  });
+});
+
+describe("findAuthorityDrift", () => {
+  const report = decodeMintReport(MINT, {
+    programAddress: pausableMint.owner,
+    data: Buffer.from(pausableMint.data[0], "base64"),
+  });
+
+  it("reports nothing when the holders match", () => {
+    expect(
+      findAuthorityDrift(report, { FreezeAccount: VAULT, Pause: VAULT }),
+    ).toEqual([]);
+  });
+
+  it("marks reassigned roles as fixable and missing roles as not", () => {
+    expect(
+      findAuthorityDrift(report, {
+        MintTokens: VAULT,
+        Pause: null,
+        ScaledUiAmount: VAULT,
+      }),
+    ).toEqual([
+      drift({}),
+      drift({ role: "Pause", expected: null, actual: VAULT }),
+      drift({ role: "ScaledUiAmount", actual: undefined, fixable: false }),
+    ]);
+  });
+
+  it("accepts a role the mint does not have as revoked", () => {
+    expect(
+      findAuthorityDrift(report, {
+        ScaledUiAmount: null,
+        TransferFeeConfig: null,
+      }),
+    ).toEqual([]);
+  });
+
+  it("cannot restore a revoked role", () => {
+    const revoked = mintAccount({ mintAuthority: null });
+    const [found] = findAuthorityDrift(
+      decodeMintReport(MINT, {
+        programAddress: revoked.owner,
+        data: Buffer.from(revoked.data[0], "base64"),
+      }),
+      { MintTokens: VAULT },
+    );
+
+    expect(found).toEqual(drift({ actual: null, fixable: false }));
+  });
+});
+
+describe("auditAuthorityPolicy", () => {
+  it("checks every mint of the policy", async () => {
+    const { rpc } = createTestRpc(
+      accountHandlers({
+        [MINT]: pausableMint,
+        [OTHER_MINT]: mintAccount({ mintAuthority: VAULT }),
+      }),
+    );
+
+    await expect(
+      auditAuthorityPolicy(rpc, {
+        mints: {
+          [MINT]: { MintTokens: VAULT },
+          [OTHER_MINT]: { MintTokens: VAULT },
+        },
+      }),
+    ).resolves.toEqual([drift({})]);
+  });
+
+  it("fails on a mint that does not exist", async () => {
+    const { rpc } = createTestRpc(accountHandlers({}));
+
+    await expect(
+      auditAuthorityPolicy(rpc, { mints: { [MINT]: { MintTokens: VAULT } } }),
+    ).rejects.toThrow(`Mint ${MINT} does not exist`);
+  });
+});
+
+describe("formatAuthorityDrift", () => {
+  it("names revoked and missing holders", () => {
+    expect(formatAuthorityDrift(drift({ expected: null }))).toBe(
+      `${MINT} MintTokens: expected revoked, found ${ROGUE}`,
+    );
+    expect(
+      formatAuthorityDrift(
+        drift({ role: "Pause", actual: undefined, fixable: false }),
+      ),
+    ).toBe(
+      `${MINT} Pause: expected ${VAULT}, found not present on the mint (cannot be fixed by a transaction)`,
+    );
+  });
+});
+
+describe("getAuthorityFixTransactions", () => {
+  const durableNonce = {
+    nonce: "11111111111111111111111111111111" as Nonce,
+    nonceAccountAddress: testAddress(30),
+    nonceAuthorityAddress: VAULT,
+  };
+
+  it("builds one SetAuthority signed by the current holder per fixable drift", async () => {
+    const { rpc } = createTestRpc();
+    const txs = await getAuthorityFixTransactions({
+      rpc,
+      payer,
+      drifts: [
+        drift({}),
+        drift({ role: "Pause", actual: undefined, fixable: false }),
+        drift({ role: "FreezeAccount", expected: null }),
+      ],
+    });
+
+    expect(txs.map((tx) => tx.summary)).toEqual([
+      `Restore the MintTokens authority of ${MINT} from ${ROGUE} to ${VAULT}`,
+      `Restore the FreezeAccount authority of ${MINT} from ${ROGUE} to none (revoke)`,
+    ]);
+    expect(txs[0].lifetime).toHaveProperty("blockhash", TEST_BLOCKHASH);
+    const message = getCompiledTransactionMessageDecoder().decode(
+      txs[0].transaction.messageBytes,
+    );
+    const [ix] = message.instructions;
+    const parsed = parseSetAuthorityInstruction({
+      programAddress: message.staticAccounts[ix.programAddressIndex],
+      accounts: ix.accountIndices!.map((i) => ({
+        address: message.staticAccounts[i],
+        role: 0,
+      })),
+      data: ix.data as Uint8Array,
+    });
+    expect(parsed.accounts.owned.address).toBe(MINT);
+    expect(parsed.accounts.owner.address).toBe(ROGUE);
+    expect(parsed.data.authorityType).toBe(AuthorityType.MintTokens);
+  });
+
+  it("uses a durable nonce for a single fix", async () => {
+    const { rpc, calls } = createTestRpc();
+    const [tx] = await getAuthorityFixTransactions(
+      { rpc, payer, drifts: [drift({})] },
+      { durableNonce },
+    );
+
+    expect(tx.lifetime).toEqual(durableNonce);
+    expect(calls).toEqual([]);
+  });
+
+  it("rejects a durable nonce shared by several fixes", async () => {
+    const { rpc } = createTestRpc();
+
+    await expect(
+      getAuthorityFixTransactions(
+        {
+          rpc,
+          payer,
+          drifts: [drift({}), drift({ role: "FreezeAccount" })],
+        },
+        { durableNonce },
+      ),
+    ).rejects.toThrow(/A durable nonce can only be used by one transaction/);
+  });
+});
@@ -0,0 +1,224 @@
+/**
+ * This module checks mints against an authority policy: a file listing the expected
+ * holder of every authority role per mint. Drift from the policy is reported and can
+ * be turned into the transactions that restore the expected holders.
+ */
+
+import { readFile } from "node:fs/promises";
+import {
+  Address,
+  Rpc,
+  SolanaRpcApi,
+  TransactionSigner,
+  createNoopSigner,
+  isAddress,
+} from "@solana/kit";
+import { parse as parseYaml } from "yaml";
+import { inspectMint, MintReport } from "./inspect";
+import { MINT_SPEC_ROLES, MintSpecRole } from "./mintSpec";
+import {
+  PreparedTransaction,
+  prepareTransaction,
+  TransactionOptions,
+} from "./transaction";
+import { getUpdateAuthorityInstructions } from "./updateAuthority";
+
+/**
+ * Expected holder of each role, per mint. A null holder means the role must be revoked.
+ */
+export interface AuthorityPolicy {
+  mints: Record<Address, Partial<Record<MintSpecRole, Address | null>>>;
+}
+
+/**
+ * A role whose on-chain holder differs from the policy
+ */
+export interface AuthorityDrift {
+  mint: Address;
+  role: MintSpecRole;
+  expected: Address | null;
+  /** Current holder, null when revoked and undefined when the mint has no such role */
+  actual: Address | null | undefined;
+  /** Whether a SetAuthority (or metadata/group update) signed by the current holder can fix it */
+  fixable: boolean;
+}
+
+/**
+ * Error raised when a policy file is invalid
+ */
+export class AuthorityPolicyError extends Error {
+  constructor(readonly issues: string[]) {
+    super(
+      `Invalid authority policy:\n${issues.map((i) => `  - ${i}`).join("\n")}`,
+    );
+    this.name = "AuthorityPolicyError";
+  }
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/**
+ * Validates a parsed policy document. Every issue is reported, not only the first.
+ * @param input Parsed JSON or YAML document
+ * @returns Validated policy
+ */
+export const parseAuthorityPolicy = (input: unknown): AuthorityPolicy => {
+  const issues: string[] = [];
+  const policy: AuthorityPolicy = { mints: {} };
+
+  if (!isObject(input) || !isObject(input.mints)) {
+    throw new AuthorityPolicyError(["mints must be an object keyed by mint"]);
+  }
+  for (const key of Object.keys(input)) {
+    if (key !== "mints") {
+      issues.push(`${key} is not a recognized field`);
+    }
+  }
+  for (const [mint, roles] of Object.entries(input.mints)) {
+    const path = `mints.${mint}`;
+    if (!isAddress(mint)) {
+      issues.push(`${path}: "${mint}" is not a base58 address`);
+      continue;
+    }
+    if (!isObject(roles) || Object.keys(roles).length === 0) {
+      issues.push(`${path} must map at least one role to its holder`);
+      continue;
+    }
+    const expected: Partial<Record<MintSpecRole, Address | null>> = {};
+    for (const [role, holder] of Object.entries(roles)) {
+      if (!(MINT_SPEC_ROLES as readonly string[]).includes(role)) {
+        issues.push(
+          `${path}.${role} is not a recognized role (expected one of ${MINT_SPEC_ROLES.join(", ")})`,
+        );
+      } else if (
+        holder !== null &&
+        !(typeof holder === "string" && isAddress(holder))
+      ) {
+        issues.push(`${path}.${role} must be a base58 address or null`);
+      } else {
+        expected[role as MintSpecRole] = holder;
+      }
+    }
+    policy.mints[mint] = expected;
+  }
+
+  if (issues.length > 0) {
+    throw new AuthorityPolicyError(issues);
+  }
+  return policy;
+};
+
+/**
+ * Reads and validates a policy from a JSON or YAML file
+ * @param path Path to the policy file
+ * @returns Validated policy
+ */
+export const loadAuthorityPolicy = async (path: string) => {
+  const content = await readFile(path, "utf8");
+  return parseAuthorityPolicy(
+    path.endsWith(".json") ? JSON.parse(content) : parseYaml(content),
+  );
+};
+
+/**
+ * Compares the authorities of a mint with the expected holders
+ * @param report Decoded mint
+ * @param expected Expected holder of each role
+ * @returns Roles that differ from the policy, in policy order
+ */
+export const findAuthorityDrift = (
+  report: MintReport,
+  expected: Partial<Record<MintSpecRole, Address | null>>,
+): AuthorityDrift[] => {
+  const drifts: AuthorityDrift[] = [];
+  for (const [role, holder] of Object.entries(expected) as [
+    MintSpecRole,
+    Address | null,
+  ][]) {
+    const actual = report.authorities.find((a) => a.role === role)?.address;
+    // A role the mint does not have meets a policy that revokes it
+    if (actual === holder || (holder === null && actual === undefined)) {
+      continue;
+    }
+    drifts.push({
+      mint: report.address,
+      role,
+      expected: holder,
+      actual,
+      // A revoked or missing role cannot be assigned again
+      fixable: actual !== null && actual !== undefined,
+    });
+  }
+  return drifts;
+};
+
+/**
+ * Fetches every mint in a policy and compares it with the expected holders
+ * @param rpc RPC client
+ * @param policy Authority policy
+ * @returns Drift across all mints; empty when the chain matches the policy
+ */
+export const auditAuthorityPolicy = async (
+  rpc: Rpc<SolanaRpcApi>,
+  policy: AuthorityPolicy,
+) => {
+  const drifts: AuthorityDrift[] = [];
+  for (const [mint, expected] of Object.entries(policy.mints)) {
+    const report = await inspectMint(rpc, mint as Address);
+    drifts.push(...findAuthorityDrift(report, expected));
+  }
+  return drifts;
+};
+
+/**
+ * Describes a drift for reports, e.g. `Pause: expected <vault>, found <address>`
+ * @param drift Drift to describe
+ */
+export const formatAuthorityDrift = (drift: AuthorityDrift) => {
+  const holder = (address: Address | null | undefined) =>
+    address === undefined ? "not present on the mint" : (address ?? "revoked");
+  return `${drift.mint} ${drift.role}: expected ${holder(drift.expected)}, found ${holder(drift.actual)}${drift.fixable ? "" : " (cannot be fixed by a transaction)"}`;
+};
+
+/**
+ * Builds one transaction per fixable drift that moves the role back to its expected
+ * holder. Each transaction is signed by the current holder, so it can be imported into
+ * the multisig holding that role.
+ * @param input Drift to fix and the fee payer
+ * @param options Transaction options; a durable nonce can only serve a single fix
+ * @returns Prepared transactions, one per fixable drift
+ */
+export const getAuthorityFixTransactions = async (
+  input: {
+    rpc: Rpc<SolanaRpcApi>;
+    payer: TransactionSigner<string>;
+    drifts: AuthorityDrift[];
+  },
+  options: TransactionOptions = {},
+): Promise<PreparedTransaction[]> => {
+  const fixable = input.drifts.filter((d) => d.fixable);
+  if (options.durableNonce && fixable.length > 1) {
+    throw new Error(
+      `A durable nonce can only be used by one transaction, but ${fixable.length} roles need fixing; narrow the policy or build the fixes without a nonce`,
+    );
+  }
+  const transactions: PreparedTransaction[] = [];
+  for (const drift of fixable) {
+    transactions.push(
+      await prepareTransaction({
+        rpc: input.rpc,
+        feePayer: input.payer,
+        instructions: getUpdateAuthorityInstructions({
+          mint: drift.mint,
+          role: drift.role,
+          currentAuthority: createNoopSigner(drift.actual!),
+          newAuthority: drift.expected,
+        }),
+        summary: `Restore the ${drift.role} authority of ${drift.mint} from ${drift.actual} to ${drift.expected ?? "none (revoke)"}`,
+        ...options,
+      }),
+    );
+  }
+  return transactions;
+};
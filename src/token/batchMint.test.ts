@@ -0,0 +1,282 @@
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterAll, beforeAll, describe, expect, it } from "@jest/globals";
+import { createNoopSigner, getBase58Decoder } from "@solana/kit";
+import {
+  COMPUTE_BUDGET_PROGRAM_ADDRESS,
+  ComputeBudgetInstruction,
+  identifyComputeBudgetInstruction,
+} from "gill/programs";
+import {
+  DistributionError,
+  DistributionRow,
+  getDistributionFingerprint,
+  MINT_ROW_COMPUTE_UNITS,
+  packMintBatches,
+  parseDistributionCsv,
+  prepareBatchMint,
+  readResumeState,
+  recordExecutedBatch,
+  writeResumeState,
+} from "./batchMint";
+import {
+  compilePreparedTransaction,
+  getTransactionSize,
+  TRANSACTION_SIZE_LIMIT,
+} from "./transaction";
+import { createTestRpc, TEST_BLOCKHASH, testAddress } from "../testing/rpc";
+
+const MINT = testAddress(1);
+const payer = createNoopSigner(testAddress(2));
+const authority = createNoopSigner(testAddress(3));
+const SIGNATURE = getBase58Decoder().decode(new Uint8Array(64).fill(7));
+
+const rows: DistributionRow[] = Array.from({ length: 25 }, (_, i) => ({
+  line: i + 1,
+  destination: testAddress(10 + i),
+  amount: BigInt(i + 1),
+}));
+const accounts = { mint: MINT, payer, authority, rows };
+const fingerprint = getDistributionFingerprint({
+  mint: MINT,
+  payer: payer.address,
+  authority: authority.address,
+  rows,
+});
+
+describe("parseDistributionCsv", () => {
+  it("skips the header, blank lines and comments", () => {
+    const content = [
+      "destination,amount",
+      "# first wave",
+      `${rows[0].destination}, 100`,
+      "",
+      `${rows[1].destination},5`,
+    ].join("\r\n");
+
+    expect(parseDistributionCsv(content)).toEqual([
+      { line: 3, destination: rows[0].destination, amount: 100n },
+      { line: 5, destination: rows[1].destination, amount: 5n },
+    ]);
+  });
+
+  it("reports every invalid row", () => {
+    const content = [
+      `${rows[0].destination},1`,
+      "alice,1",
+      `${rows[1].destination},0`,
+      `${rows[2].destination},1.5`,
+      `${rows[0].destination},2`,
+      "a,b,c",
+    ].join("\n");
+
+    expect(() => parseDistributionCsv(content)).toThrow(
+      new DistributionError([
+        'line 2: "alice" is not a base58 address',
+        "line 3: amount must be a positive integer in raw units",
+        "line 4: amount must be a positive integer in raw units",
+        `line 5: ${rows[0].destination} is already listed on line 1`,
+        'line 6: expected "destination,amount"',
+      ]),
+    );
+  });
+
+  it("rejects a file without rows", () => {
+    expect(() => parseDistributionCsv("destination,amount\n")).toThrow(
+      /no rows to distribute/,
+    );
+  });
+});
+
+describe("getDistributionFingerprint", () => {
+  it("changes with the rows and the accounts", () => {
+    expect(fingerprint).toMatch(/^[0-9a-f]{64}$/);
+    expect(
+      getDistributionFingerprint({
+        mint: MINT,
+        payer: payer.address,
+        authority: authority.address,
+        rows: rows.slice(1),
+      }),
+    ).not.toBe(fingerprint);
+    expect(
+      getDistributionFingerprint({
+        mint: MINT,
+        payer: payer.address,
+        authority: payer.address,
+        rows,
+      }),
+    ).not.toBe(fingerprint);
+  });
+});
+
+describe("packMintBatches", () => {
+  it("fills batches up to the size limit, keeping row order", async () => {
+    const batches = await packMintBatches(accounts);
+
+    expect(batches.length).toBeGreaterThan(1);
+    expect(batches.flatMap((b) => b.rows)).toEqual(rows);
+    batches.forEach((batch, i) => {
+      expect(batch.index).toBe(i);
+      const { transaction } = compilePreparedTransaction({
+        feePayer: payer,
+        instructions: batch.instructions,
+        lifetime: { blockhash: TEST_BLOCKHASH, lastValidBlockHeight: 0n },
+        summary: "",
+      });
+      expect(getTransactionSize(transaction)).toBeLessThanOrEqual(
+        TRANSACTION_SIZE_LIMIT,
+      );
+    });
+  });
+
+  it("starts every batch with a compute unit limit sized to its rows", async () => {
+    const batches = await packMintBatches(accounts);
+
+    for (const batch of batches) {
+      const [limit, ...rest] = batch.instructions;
+      expect(batch.computeUnitLimit).toBe(
+        batch.rows.length * MINT_ROW_COMPUTE_UNITS,
+      );
+      expect(limit.programAddress).toBe(COMPUTE_BUDGET_PROGRAM_ADDRESS);
+      expect(identifyComputeBudgetInstruction(limit.data!)).toBe(
+        ComputeBudgetInstruction.SetComputeUnitLimit,
+      );
+      // The limit is a little-endian u32 after the discriminator
+      expect(Buffer.from(limit.data!).readUInt32LE(1)).toBe(
+        batch.computeUnitLimit,
+      );
+      // An associated token account creation and a MintTo per row
+      expect(rest).toHaveLength(batch.rows.length * 2);
+    }
+  });
+});
+
+describe("resume files", () => {
+  let dir: string;
+  const { rpc } = createTestRpc({
+    getSignatureStatuses: () => ({
+      context: { slot: 1n },
+      value: [{ confirmationStatus: "confirmed", err: null }],
+    }),
+  });
+
+  beforeAll(async () => {
+    dir = await mkdtemp(join(tmpdir(), "batch-mint-"));
+  });
+
+  afterAll(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("starts empty when the file does not exist", async () => {
+    await expect(
+      readResumeState(join(dir, "missing.json"), fingerprint, 3),
+    ).resolves.toEqual({ fingerprint, batchCount: 3, executed: {} });
+  });
+
+  it("records a confirmed batch and skips it on the next plan", async () => {
+    const path = join(dir, "resume.json");
+    const first = await prepareBatchMint({
+      ...accounts,
+      rpc,
+      resumePath: path,
+    });
+    await writeResumeState(path, first.state);
+
+    await recordExecutedBatch({ rpc, path, batch: 0, signature: SIGNATURE });
+    const second = await prepareBatchMint({
+      ...accounts,
+      rpc,
+      resumePath: path,
+    });
+
+    expect(second.state.executed).toEqual({ 0: SIGNATURE });
+    expect(second.manifest.batches[0].signature).toBe(SIGNATURE);
+    expect(second.transactions.map((t) => t.batch)).toEqual(
+      first.transactions.slice(1).map((t) => t.batch),
+    );
+  });
+
+  it("rejects a batch recorded with another signature", async () => {
+    const path = join(dir, "recorded.json");
+    await writeResumeState(path, {
+      fingerprint,
+      batchCount: 2,
+      executed: { 1: SIGNATURE },
+    });
+
+    await expect(
+      recordExecutedBatch({
+        rpc,
+        path,
+        batch: 1,
+        signature: getBase58Decoder().decode(new Uint8Array(64).fill(8)),
+      }),
+    ).rejects.toThrow(
+      `batch 1 was already recorded as executed by ${SIGNATURE}`,
+    );
+    await expect(
+      recordExecutedBatch({ rpc, path, batch: 2, signature: SIGNATURE }),
+    ).rejects.toThrow("batch 2 does not exist; the distribution has 2 batches");
+  });
+
+  it("rejects a file packed into a different number of batches", async () => {
+    const path = join(dir, "repacked.json");
+    await writeResumeState(path, { fingerprint, batchCount: 2, executed: {} });
+
+    await expect(readResumeState(path, fingerprint, 3)).rejects.toThrow(
+      /was created for 2 batches but the distribution now packs into 3/,
+    );
+  });
+
+  it.each([
+    ["not JSON", "{", /is not a valid resume file: /],
+    ["an array", "[]", /expected a JSON object/],
+    [
+      "a missing fingerprint",
+      JSON.stringify({ batchCount: 1, executed: {} }),
+      /fingerprint must be a hex-encoded SHA-256 hash/,
+    ],
+    [
+      "a fractional batch count",
+      JSON.stringify({ fingerprint, batchCount: 1.5, executed: {} }),
+      /batchCount must be a positive integer/,
+    ],
+    [
+      "executed as a list",
+      JSON.stringify({ fingerprint, batchCount: 1, executed: [SIGNATURE] }),
+      /executed must map batch indexes to signatures/,
+    ],
+    [
+      "an out of range batch",
+      JSON.stringify({
+        fingerprint,
+        batchCount: 1,
+        executed: { 4: SIGNATURE },
+      }),
+      /executed\.4 is not a batch of the distribution/,
+    ],
+    [
+      "a malformed signature",
+      JSON.stringify({ fingerprint, batchCount: 1, executed: { 0: "sig" } }),
+      /executed\.0 must be a base58 signature/,
+    ],
+  ])("rejects a file with %s", async (_, content, message) => {
+    const path = join(dir, "corrupt.json");
+    await writeFile(path, content);
+
+    await expect(readResumeState(path, fingerprint, 1)).rejects.toThrow(
+      DistributionError,
+    );
+    await expect(readResumeState(path, fingerprint, 1)).rejects.toThrow(
+      message,
+    );
+    await expect(
+      recordExecutedBatch({ rpc, path, batch: 0, signature: SIGNATURE }),
+    ).rejects.toThrow(message);
+    // A rejected file is left untouched
+    expect(await readFile(path, "utf8")).toBe(content);
+  });
+});
@@ -0,0 +1,467 @@
+/**
+ * This module provides batch minting for airdrops: a CSV of destinations and amounts
+ * is packed into as few transactions as fit under the packet size limit and the compute
+ * budget, with a manifest mapping rows to transactions and a resume file recording
+ * executed batches.
+ */
+
+import { createHash } from "node:crypto";
+import { readFile, writeFile } from "node:fs/promises";
+import {
+  Address,
+  Blockhash,
+  Rpc,
+  SolanaRpcApi,
+  TransactionSigner,
+  IInstruction,
+  isAddress,
+  isSignature,
+  signature,
+} from "@solana/kit";
+import { getSetComputeUnitLimitInstruction } from "gill/programs";
+import { MAX_COMPUTE_UNIT_LIMIT } from "./computeBudget";
+import { getMintToInstructions } from "./mint";
+import {
+  compilePreparedTransaction,
+  getTransactionSize,
+  PreparedTransaction,
+  TRANSACTION_SIZE_LIMIT,
+} from "./transaction";
+
+// Packing only depends on the accounts and data, not on the blockhash
+const PLACEHOLDER_BLOCKHASH = {
+  blockhash: "11111111111111111111111111111111" as Blockhash,
+  lastValidBlockHeight: 0n,
+};
+
+/**
+ * Compute units budgeted for one row: creating a Token-2022 associated token account
+ * that inherits the mint's account extensions, and minting to it
+ */
+export const MINT_ROW_COMPUTE_UNITS = 40_000;
+
+/**
+ * One `destination,amount` row of a distribution CSV
+ */
+export interface DistributionRow {
+  /** Line number in the CSV file, starting at 1 */
+  line: number;
+  destination: Address;
+  /** Raw amount in base units */
+  amount: bigint;
+}
+
+/**
+ * Rows minted together in one transaction
+ */
+export interface MintBatch {
+  index: number;
+  rows: DistributionRow[];
+  /** Compute unit limit requested by the batch transaction */
+  computeUnitLimit: number;
+  /** SetComputeUnitLimit followed by the instructions of every row */
+  instructions: IInstruction<string>[];
+}
+
+/**
+ * Maps every CSV row to the batch that mints it
+ */
+export interface DistributionManifest {
+  fingerprint: string;
+  mint: Address;
+  payer: Address;
+  authority: Address;
+  totalAmount: string;
+  batches: {
+    index: number;
+    /** Signature of the executed batch, or null when it is still pending */
+    signature: string | null;
+    rows: { line: number; destination: Address; amount: string }[];
+  }[];
+}
+
+/**
+ * Batches already executed for a distribution, keyed by batch index
+ */
+export interface ResumeState {
+  fingerprint: string;
+  batchCount: number;
+  executed: Record<string, string>;
+}
+
+/**
+ * Error raised when a distribution CSV or resume file is invalid
+ */
+export class DistributionError extends Error {
+  constructor(readonly issues: string[]) {
+    super(`Invalid distribution:\n${issues.map((i) => `  - ${i}`).join("\n")}`);
+    this.name = "DistributionError";
+  }
+}
+
+/**
+ * Parses a `destination,amount` CSV. A header row, blank lines and lines starting
+ * with `#` are skipped. Every invalid row is reported, not only the first.
+ * @param content CSV file content
+ * @returns Validated rows in file order
+ */
+export const parseDistributionCsv = (content: string): DistributionRow[] => {
+  const issues: string[] = [];
+  const rows: DistributionRow[] = [];
+  const seen = new Map<string, number>();
+
+  content.split(/\r?\n/).forEach((text, i) => {
+    const line = i + 1;
+    const trimmed = text.trim();
+    if (trimmed === "" || trimmed.startsWith("#")) {
+      return;
+    }
+    const fields = trimmed.split(",").map((f) => f.trim());
+    if (rows.length === 0 && fields[0]?.toLowerCase() === "destination") {
+      return;
+    }
+    if (fields.length !== 2) {
+      issues.push(`line ${line}: expected "destination,amount"`);
+      return;
+    }
+    const [destination, amount] = fields;
+    if (!isAddress(destination)) {
+      issues.push(`line ${line}: "${destination}" is not a base58 address`);
+      return;
+    }
+    if (!/^\d+$/.test(amount) || BigInt(amount) === 0n) {
+      issues.push(
+        `line ${line}: amount must be a positive integer in raw units`,
+      );
+      return;
+    }
+    const previous = seen.get(destination);
+    if (previous !== undefined) {
+      issues.push(
+        `line ${line}: ${destination} is already listed on line ${previous}`,
+      );
+      return;
+    }
+    seen.set(destination, line);
+    rows.push({ line, destination, amount: BigInt(amount) });
+  });
+
+  if (rows.length === 0 && issues.length === 0) {
+    issues.push("no rows to distribute");
+  }
+  if (issues.length > 0) {
+    throw new DistributionError(issues);
+  }
+  return rows;
+};
+
+/**
+ * Reads and parses a distribution CSV file
+ * @param path Path to the CSV file
+ * @returns Validated rows in file order
+ */
+export const loadDistributionCsv = async (path: string) =>
+  parseDistributionCsv(await readFile(path, "utf8"));
+
+/**
+ * Identifies a distribution by its rows and accounts, so a resume file is only
+ * applied to the distribution it was created for
+ * @param input Mint, fee payer, mint authority and rows
+ * @returns Hex-encoded SHA-256 fingerprint
+ */
+export const getDistributionFingerprint = (input: {
+  mint: Address;
+  payer: Address;
+  authority: Address;
+  rows: DistributionRow[];
+}) => {
+  const hash = createHash("sha256");
+  hash.update(`${input.mint}\n${input.payer}\n${input.authority}\n`);
+  for (const row of input.rows) {
+    hash.update(`${row.destination},${row.amount}\n`);
+  }
+  return hash.digest("hex");
+};
+
+/**
+ * Packs rows into batches. Each row adds an idempotent associated token account
+ * creation and a MintTo, budgeted at MINT_ROW_COMPUTE_UNITS; a batch is closed when
+ * the next row would push the transaction over the packet size limit or its compute
+ * budget over the highest limit a transaction can request. Every batch starts with a
+ * SetComputeUnitLimit instruction sized to its rows.
+ * @param input Mint, fee payer, mint authority and rows
+ * @returns Batches in row order
+ */
+export const packMintBatches = async (input: {
+  mint: Address;
+  payer: TransactionSigner<string>;
+  authority: TransactionSigner<string>;
+  rows: DistributionRow[];
+}): Promise<MintBatch[]> => {
+  const toBatch = (
+    index: number,
+    rows: DistributionRow[],
+    rowInstructions: IInstruction<string>[],
+  ): MintBatch => {
+    const computeUnitLimit = rows.length * MINT_ROW_COMPUTE_UNITS;
+    return {
+      index,
+      rows,
+      computeUnitLimit,
+      instructions: [
+        getSetComputeUnitLimitInstruction({ units: computeUnitLimit }),
+        ...rowInstructions,
+      ],
+    };
+  };
+  const fits = (batch: MintBatch) => {
+    if (batch.computeUnitLimit > MAX_COMPUTE_UNIT_LIMIT) {
+      return false;
+    }
+    const { transaction } = compilePreparedTransaction({
+      feePayer: input.payer,
+      instructions: batch.instructions,
+      lifetime: PLACEHOLDER_BLOCKHASH,
+      summary: "",
+    });
+    return getTransactionSize(transaction) <= TRANSACTION_SIZE_LIMIT;
+  };
+
+  const batches: MintBatch[] = [];
+  let rows: DistributionRow[] = [];
+  let rowInstructions: IInstruction<string>[] = [];
+  for (const row of input.rows) {
+    const instructions = await getMintToInstructions({
+      mint: input.mint,
+      payer: input.payer,
+      authority: input.authority,
+      destination: row.destination,
+      amount: row.amount,
+    });
+    if (
+      rows.length > 0 &&
+      !fits(
+        toBatch(
+          batches.length,
+          [...rows, row],
+          [...rowInstructions, ...instructions],
+        ),
+      )
+    ) {
+      batches.push(toBatch(batches.length, rows, rowInstructions));
+      rows = [];
+      rowInstructions = [];
+    }
+    rows.push(row);
+    rowInstructions.push(...instructions);
+  }
+  if (rows.length > 0) {
+    batches.push(toBatch(batches.length, rows, rowInstructions));
+  }
+  return batches;
+};
+
+/**
+ * Parses the content of a resume file, checking its shape
+ * @param path Path to the resume file, used in error messages
+ * @param content File content
+ * @returns Resume state
+ */
+const parseResumeState = (path: string, content: string): ResumeState => {
+  const invalid = (reason: string) =>
+    new DistributionError([`${path} is not a valid resume file: ${reason}`]);
+
+  let state: unknown;
+  try {
+    state = JSON.parse(content);
+  } catch (error: any) {
+    throw invalid(error.message);
+  }
+  if (typeof state !== "object" || state === null || Array.isArray(state)) {
+    throw invalid("expected a JSON object");
+  }
+  const { fingerprint, batchCount, executed } = state as Record<
+    string,
+    unknown
+  >;
+  if (typeof fingerprint !== "string" || !/^[0-9a-f]{64}$/.test(fingerprint)) {
+    throw invalid("fingerprint must be a hex-encoded SHA-256 hash");
+  }
+  if (
+    typeof batchCount !== "number" ||
+    !Number.isInteger(batchCount) ||
+    batchCount < 1
+  ) {
+    throw invalid("batchCount must be a positive integer");
+  }
+  if (
+    typeof executed !== "object" ||
+    executed === null ||
+    Array.isArray(executed)
+  ) {
+    throw invalid("executed must map batch indexes to signatures");
+  }
+  for (const [batch, sig] of Object.entries(executed)) {
+    if (!/^\d+$/.test(batch) || Number(batch) >= batchCount) {
+      throw invalid(`executed.${batch} is not a batch of the distribution`);
+    }
+    if (typeof sig !== "string" || !isSignature(sig)) {
+      throw invalid(`executed.${batch} must be a base58 signature`);
+    }
+  }
+  return {
+    fingerprint,
+    batchCount,
+    executed: executed as Record<string, string>,
+  };
+};
+
+/**
+ * Reads a resume file. A missing file means no batch has been executed yet.
+ * @param path Path to the resume file
+ * @param fingerprint Fingerprint of the distribution being resumed
+ * @param batchCount Number of batches in the distribution
+ * @returns Resume state
+ */
+export const readResumeState = async (
+  path: string,
+  fingerprint: string,
+  batchCount: number,
+): Promise<ResumeState> => {
+  let content: string;
+  try {
+    content = await readFile(path, "utf8");
+  } catch (error: any) {
+    if (error.code === "ENOENT") {
+      return { fingerprint, batchCount, executed: {} };
+    }
+    throw error;
+  }
+  const state = parseResumeState(path, content);
+  if (state.fingerprint !== fingerprint) {
+    throw new DistributionError([
+      `${path} was created for a different distribution (CSV, mint, payer or authority changed)`,
+    ]);
+  }
+  if (state.batchCount !== batchCount) {
+    throw new DistributionError([
+      `${path} was created for ${state.batchCount} batches but the distribution now packs into ${batchCount}; batches cannot be matched to the executed ones`,
+    ]);
+  }
+  return state;
+};
+
+/**
+ * Writes a resume file
+ * @param path Path to the resume file
+ * @param state Resume state
+ */
+export const writeResumeState = (path: string, state: ResumeState) =>
+  writeFile(path, `${JSON.stringify(state, null, 2)}\n`);
+
+/**
+ * Records a batch as executed once its signature is confirmed without error
+ * @param input Configuration including the resume file, batch index and signature
+ * @returns Updated resume state
+ */
+export const recordExecutedBatch = async (input: {
+  rpc: Rpc<SolanaRpcApi>;
+  path: string;
+  batch: number;
+  signature: string;
+}) => {
+  const state = parseResumeState(
+    input.path,
+    await readFile(input.path, "utf8"),
+  );
+  if (input.batch < 0 || input.batch >= state.batchCount) {
+    throw new DistributionError([
+      `batch ${input.batch} does not exist; the distribution has ${state.batchCount} batches`,
+    ]);
+  }
+  const existing = state.executed[input.batch];
+  if (existing !== undefined && existing !== input.signature) {
+    throw new DistributionError([
+      `batch ${input.batch} was already recorded as executed by ${existing}`,
+    ]);
+  }
+
+  const {
+    value: [status],
+  } = await input.rpc
+    .getSignatureStatuses([signature(input.signature)], {
+      searchTransactionHistory: true,
+    })
+    .send();
+  if (!status || status.err || status.confirmationStatus === "processed") {
+    throw new Error(
+      `Transaction ${input.signature} is not confirmed${status?.err ? `: ${JSON.stringify(status.err)}` : ""}`,
+    );
+  }
+
+  state.executed[input.batch] = input.signature;
+  await writeResumeState(input.path, state);
+  return state;
+};
+
+/**
+ * Builds the transactions for every batch of a distribution that has not been
+ * executed yet, together with the manifest describing all batches
+ * @param input Configuration including the rows, accounts and resume file
+ * @returns Manifest, resume state and prepared transactions for the pending batches
+ */
+export const prepareBatchMint = async (input: {
+  rpc: Rpc<SolanaRpcApi>;
+  mint: Address;
+  payer: TransactionSigner<string>;
+  authority: TransactionSigner<string>;
+  rows: DistributionRow[];
+  resumePath: string;
+}) => {
+  const fingerprint = getDistributionFingerprint({
+    mint: input.mint,
+    payer: input.payer.address,
+    authority: input.authority.address,
+    rows: input.rows,
+  });
+  const batches = await packMintBatches(input);
+  const state = await readResumeState(
+    input.resumePath,
+    fingerprint,
+    batches.length,
+  );
+
+  const manifest: DistributionManifest = {
+    fingerprint,
+    mint: input.mint,
+    payer: input.payer.address,
+    authority: input.authority.address,
+    totalAmount: input.rows.reduce((sum, r) => sum + r.amount, 0n).toString(),
+    batches: batches.map((batch) => ({
+      index: batch.index,
+      signature: state.executed[batch.index] ?? null,
+      rows: batch.rows.map((r) => ({
+        line: r.line,
+        destination: r.destination,
+        amount: r.amount.toString(),
+      })),
+    })),
+  };
+
+  const pending = batches.filter((b) => state.executed[b.index] === undefined);
+  const { value: latestBlockhash } = await input.rpc
+    .getLatestBlockhash()
+    .send();
+  const transactions: { batch: number; transaction: PreparedTransaction }[] =
+    pending.map((batch) => ({
+      batch: batch.index,
+      transaction: compilePreparedTransaction({
+        feePayer: input.payer,
+        instructions: batch.instructions,
+        lifetime: latestBlockhash,
+        summary: `Mint ${input.mint} to ${batch.rows.length} wallet(s), CSV lines ${batch.rows[0].line}-${batch.rows[batch.rows.length - 1].line} (batch ${batch.index}; ${batches.length} batches in total; compute unit limit ${batch.computeUnitLimit})`,
+      }),
+    }));
+
+  return { manifest, state, transactions };
+};
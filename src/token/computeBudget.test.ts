@@ -0,0 +1,217 @@
+import { describe, expect, it } from "@jest/globals";
+import {
+  AccountRole,
+  getBase64Encoder,
+  getCompiledTransactionMessageDecoder,
+  getTransactionDecoder,
+  IInstruction,
+  Nonce,
+  ReadonlyUint8Array,
+} from "@solana/kit";
+import { SYSTEM_PROGRAM_ADDRESS } from "@solana-program/system";
+import {
+  COMPUTE_BUDGET_PROGRAM_ADDRESS,
+  getAddMemoInstruction,
+  getSetComputeUnitLimitInstruction,
+  getSetComputeUnitPriceInstruction,
+} from "gill/programs";
+import {
+  addComputeBudget,
+  getPercentile,
+  MAX_COMPUTE_UNIT_LIMIT,
+} from "./computeBudget";
+import { compilePreparedTransaction, TransactionLifetime } from "./transaction";
+import { createTestRpc, TEST_BLOCKHASH, testAddress } from "../testing/rpc";
+
+const PAYER = testAddress(1);
+const WRITABLE = testAddress(2);
+
+const memo = {
+  ...getAddMemoInstruction({ memo: "hello" }),
+  accounts: [
+    { address: WRITABLE, role: AccountRole.WRITABLE },
+    { address: testAddress(3), role: AccountRole.READONLY },
+  ],
+};
+
+const prepare = (
+  instructions: IInstruction[] = [memo],
+  lifetime: TransactionLifetime = {
+    blockhash: TEST_BLOCKHASH,
+    lastValidBlockHeight: 100n,
+  },
+) =>
+  compilePreparedTransaction({
+    feePayer: PAYER,
+    instructions,
+    lifetime,
+    summary: "Memo",
+  });
+
+// Program and data of each instruction of a compiled message
+const instructionsOf = (messageBytes: ReadonlyUint8Array) => {
+  const message = getCompiledTransactionMessageDecoder().decode(messageBytes);
+  return message.instructions.map((ix) => ({
+    programAddress: message.staticAccounts[ix.programAddressIndex],
+    data: ix.data,
+  }));
+};
+
+const dataOf = (ix: { programAddress: string; data?: ReadonlyUint8Array }) => ({
+  programAddress: ix.programAddress,
+  data: ix.data,
+});
+
+const budgetRpc = (unitsConsumed = 10_000n) =>
+  createTestRpc({
+    simulateTransaction: () => ({
+      context: { slot: 1n },
+      value: { err: null, logs: [], unitsConsumed },
+    }),
+    getRecentPrioritizationFees: () =>
+      [5n, 1n, 100n, 20n].map((prioritizationFee) => ({
+        slot: 1n,
+        prioritizationFee,
+      })),
+  });
+
+describe("getPercentile", () => {
+  it("picks the nearest rank", () => {
+    const values = [40n, 10n, 30n, 20n];
+
+    expect(getPercentile(values, 0)).toBe(10n);
+    expect(getPercentile(values, 50)).toBe(20n);
+    expect(getPercentile(values, 75)).toBe(30n);
+    expect(getPercentile(values, 76)).toBe(40n);
+    expect(getPercentile(values, 100)).toBe(40n);
+    expect(getPercentile([], 75)).toBe(0n);
+  });
+});
+
+describe("addComputeBudget", () => {
+  it("sets the simulated units plus the margin and a percentile of recent fees", async () => {
+    const { rpc, calls } = budgetRpc();
+    const tx = await addComputeBudget(rpc, prepare());
+
+    expect(instructionsOf(tx.transaction.messageBytes)).toEqual([
+      dataOf(getSetComputeUnitLimitInstruction({ units: 11_000 })),
+      dataOf(getSetComputeUnitPriceInstruction({ microLamports: 20n })),
+      dataOf(memo),
+    ]);
+    expect(tx.summary).toBe(
+      "Memo (compute unit limit 11000 for 10000 simulated; price 20 micro-lamports/CU, p75 of recent fees; priority fee 1 lamports)",
+    );
+    expect(
+      calls.find((c) => c.method === "getRecentPrioritizationFees")?.params,
+    ).toEqual([[PAYER, WRITABLE]]);
+  });
+
+  it("simulates with the maximum limit", async () => {
+    const { rpc, calls } = budgetRpc();
+    await addComputeBudget(rpc, prepare());
+
+    const [wire, config] = calls.find(
+      (c) => c.method === "simulateTransaction",
+    )!.params as [string, object];
+    const simulated = getTransactionDecoder().decode(
+      getBase64Encoder().encode(wire),
+    );
+    expect(instructionsOf(simulated.messageBytes)[0]).toEqual(
+      dataOf(
+        getSetComputeUnitLimitInstruction({ units: MAX_COMPUTE_UNIT_LIMIT }),
+      ),
+    );
+    expect(config).toMatchObject({
+      sigVerify: false,
+      replaceRecentBlockhash: true,
+    });
+  });
+
+  it("uses a fixed price without reading the fee history", async () => {
+    const { rpc, calls } = budgetRpc(2_000_000n);
+    const tx = await addComputeBudget(rpc, prepare(), {
+      margin: 0,
+      percentile: 75,
+      price: 3n,
+    });
+
+    expect(instructionsOf(tx.transaction.messageBytes).slice(0, 2)).toEqual([
+      dataOf(
+        getSetComputeUnitLimitInstruction({ units: MAX_COMPUTE_UNIT_LIMIT }),
+      ),
+      dataOf(getSetComputeUnitPriceInstruction({ microLamports: 3n })),
+    ]);
+    expect(tx.summary).toContain("price 3 micro-lamports/CU, fixed");
+    expect(calls.map((c) => c.method)).not.toContain(
+      "getRecentPrioritizationFees",
+    );
+  });
+
+  it("keeps AdvanceNonceAccount first with a durable nonce", async () => {
+    const { rpc } = budgetRpc();
+    const tx = await addComputeBudget(
+      rpc,
+      prepare([memo], {
+        nonce: TEST_BLOCKHASH as string as Nonce,
+        nonceAccountAddress: testAddress(4),
+        nonceAuthorityAddress: PAYER,
+      }),
+    );
+
+    expect(
+      instructionsOf(tx.transaction.messageBytes).map(
+        (ix) => ix.programAddress,
+      ),
+    ).toEqual([
+      SYSTEM_PROGRAM_ADDRESS,
+      COMPUTE_BUDGET_PROGRAM_ADDRESS,
+      COMPUTE_BUDGET_PROGRAM_ADDRESS,
+      memo.programAddress,
+    ]);
+  });
+
+  it("replaces an estimated compute unit limit", async () => {
+    const { rpc } = budgetRpc();
+    const tx = await addComputeBudget(
+      rpc,
+      prepare([getSetComputeUnitLimitInstruction({ units: 80_000 }), memo]),
+    );
+
+    expect(instructionsOf(tx.transaction.messageBytes)).toEqual([
+      dataOf(getSetComputeUnitLimitInstruction({ units: 11_000 })),
+      dataOf(getSetComputeUnitPriceInstruction({ microLamports: 20n })),
+      dataOf(memo),
+    ]);
+  });
+
+  it("refuses a transaction that already sets a price", async () => {
+    const { rpc, calls } = budgetRpc();
+
+    await expect(
+      addComputeBudget(
+        rpc,
+        prepare([
+          getSetComputeUnitPriceInstruction({ microLamports: 1 }),
+          memo,
+        ]),
+      ),
+    ).rejects.toThrow('"Memo" already has compute budget instructions');
+    expect(calls).toEqual([]);
+  });
+
+  it("reports a failed simulation with its logs", async () => {
+    const { rpc } = createTestRpc({
+      simulateTransaction: () => ({
+        context: { slot: 1n },
+        value: {
+          err: { InstructionError: [2, { Custom: 1n }] },
+          logs: ["Program log: boom"],
+        },
+      }),
+    });
+
+    await expect(addComputeBudget(rpc, prepare())).rejects.toThrow(
+      'Simulation of "Memo" failed: {"InstructionError":[2,{"Custom":"1"}]}\nProgram log: boom',
+    );
+  });
+});
@@ -0,0 +1,236 @@
+/**
+ * This module adds compute budget instructions to prepared transactions: a compute
+ * unit limit measured by simulation and a compute unit price derived from recent
+ * prioritization fees, so transactions land when the network is congested.
+ */
+
+import {
+  Address,
+  Rpc,
+  SolanaRpcApi,
+  IInstruction,
+  decompileTransactionMessage,
+  getBase64EncodedWireTransaction,
+  getCompiledTransactionMessageDecoder,
+  isWritableRole,
+} from "@solana/kit";
+import {
+  COMPUTE_BUDGET_PROGRAM_ADDRESS,
+  ComputeBudgetInstruction,
+  getSetComputeUnitLimitInstruction,
+  getSetComputeUnitPriceInstruction,
+  identifyComputeBudgetInstruction,
+} from "gill/programs";
+import {
+  compilePreparedTransaction,
+  isDurableNonceLifetime,
+  PreparedTransaction,
+} from "./transaction";
+
+/**
+ * Highest compute unit limit a transaction can request, used while simulating
+ */
+export const MAX_COMPUTE_UNIT_LIMIT = 1_400_000;
+
+/**
+ * How the compute unit limit and price are chosen
+ */
+export interface ComputeBudgetConfig {
+  /** Fraction added to the simulated compute units, e.g. 0.1 for 10% */
+  margin: number;
+  /** Percentile of recent prioritization fees used as the price, from 0 to 100 */
+  percentile: number;
+  /** Fixed price in micro-lamports per compute unit, overriding the fee history */
+  price?: bigint;
+}
+
+export const DEFAULT_COMPUTE_BUDGET_CONFIG: ComputeBudgetConfig = {
+  margin: 0.1,
+  percentile: 75,
+};
+
+/**
+ * Returns the value at a percentile of a list, using the nearest-rank method
+ * @param values Values in any order
+ * @param percentile Percentile from 0 to 100
+ * @returns Value at the percentile, or 0 for an empty list
+ */
+export const getPercentile = (values: bigint[], percentile: number) => {
+  if (values.length === 0) {
+    return 0n;
+  }
+  const sorted = [...values].sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+  const rank = Math.ceil((percentile / 100) * sorted.length);
+  return sorted[Math.min(Math.max(rank, 1), sorted.length) - 1];
+};
+
+/**
+ * Decompiles the message of a prepared transaction so instructions can be added
+ * @param tx Prepared transaction
+ */
+const decompilePreparedTransaction = (tx: PreparedTransaction) =>
+  decompileTransactionMessage(
+    getCompiledTransactionMessageDecoder().decode(tx.transaction.messageBytes),
+    {
+      addressesByLookupTableAddress: tx.addressLookupTables,
+      lastValidBlockHeight: isDurableNonceLifetime(tx.lifetime)
+        ? undefined
+        : tx.lifetime.lastValidBlockHeight,
+    },
+  );
+
+/**
+ * Tells whether an instruction is a SetComputeUnitLimit, which operations such as
+ * batch minting add with an estimated limit
+ * @param ix Instruction
+ */
+const isComputeUnitLimitInstruction = (ix: IInstruction) =>
+  ix.programAddress === COMPUTE_BUDGET_PROGRAM_ADDRESS &&
+  ix.data !== undefined &&
+  identifyComputeBudgetInstruction(ix.data) ===
+    ComputeBudgetInstruction.SetComputeUnitLimit;
+
+/**
+ * Inserts instructions at the start of a prepared transaction, after the
+ * AdvanceNonceAccount instruction when it uses a durable nonce. An existing
+ * SetComputeUnitLimit is removed, since the inserted instructions replace it.
+ * @param tx Prepared transaction
+ * @param instructions Instructions to insert
+ * @returns Compiled transaction
+ */
+const insertInstructions = (
+  tx: PreparedTransaction,
+  instructions: IInstruction[],
+) => {
+  const message = decompilePreparedTransaction(tx);
+  // The AdvanceNonceAccount instruction is added back when compiling
+  const rest = (
+    isDurableNonceLifetime(tx.lifetime)
+      ? message.instructions.slice(1)
+      : message.instructions
+  ).filter((ix) => !isComputeUnitLimitInstruction(ix));
+  return compilePreparedTransaction({
+    feePayer: message.feePayer.address,
+    instructions: [...instructions, ...rest],
+    lifetime: tx.lifetime,
+    summary: tx.summary,
+    version: message.version,
+    addressLookupTables: tx.addressLookupTables,
+  }).transaction;
+};
+
+/**
+ * Simulates a transaction with the maximum compute unit limit and returns the
+ * compute units it consumed
+ * @param rpc RPC client
+ * @param tx Prepared transaction
+ * @returns Compute units consumed
+ */
+export const simulateComputeUnits = async (
+  rpc: Rpc<SolanaRpcApi>,
+  tx: PreparedTransaction,
+) => {
+  const transaction = insertInstructions(tx, [
+    getSetComputeUnitLimitInstruction({ units: MAX_COMPUTE_UNIT_LIMIT }),
+    getSetComputeUnitPriceInstruction({ microLamports: 0 }),
+  ]);
+  const { value } = await rpc
+    .simulateTransaction(getBase64EncodedWireTransaction(transaction), {
+      encoding: "base64",
+      sigVerify: false,
+      replaceRecentBlockhash: true,
+    })
+    .send();
+  if (value.err) {
+    throw new Error(
+      `Simulation of "${tx.summary}" failed: ${JSON.stringify(value.err, (_, v) => (typeof v === "bigint" ? v.toString() : v))}\n${(value.logs ?? []).join("\n")}`,
+    );
+  }
+  if (value.unitsConsumed === undefined) {
+    throw new Error("The RPC node did not report the compute units consumed");
+  }
+  return value.unitsConsumed;
+};
+
+/**
+ * Reads the prioritization fees paid recently by transactions locking the given
+ * accounts and returns the fee at a percentile
+ * @param rpc RPC client
+ * @param accounts Writable accounts of the transaction
+ * @param percentile Percentile from 0 to 100
+ * @returns Price in micro-lamports per compute unit
+ */
+export const getPrioritizationFee = async (
+  rpc: Rpc<SolanaRpcApi>,
+  accounts: Address[],
+  percentile: number,
+) => {
+  const fees = await rpc.getRecentPrioritizationFees(accounts).send();
+  return getPercentile(
+    fees.map((f) => f.prioritizationFee),
+    percentile,
+  );
+};
+
+/**
+ * Adds SetComputeUnitLimit and SetComputeUnitPrice instructions to a prepared
+ * transaction. The limit is the simulated compute units plus the margin; the price is
+ * the fixed override or the chosen percentile of recent fees for the writable accounts.
+ * An estimated SetComputeUnitLimit already in the transaction is replaced by the
+ * simulated one. The chosen values are appended to the summary.
+ * @param rpc RPC client
+ * @param tx Prepared transaction
+ * @param config Margin, percentile and optional fixed price
+ * @returns Prepared transaction with compute budget instructions
+ */
+export const addComputeBudget = async (
+  rpc: Rpc<SolanaRpcApi>,
+  tx: PreparedTransaction,
+  config: ComputeBudgetConfig = DEFAULT_COMPUTE_BUDGET_CONFIG,
+): Promise<PreparedTransaction> => {
+  const message = decompilePreparedTransaction(tx);
+  if (
+    message.instructions.some(
+      (ix) =>
+        ix.programAddress === COMPUTE_BUDGET_PROGRAM_ADDRESS &&
+        !isComputeUnitLimitInstruction(ix),
+    )
+  ) {
+    throw new Error(`"${tx.summary}" already has compute budget instructions`);
+  }
+
+  const consumed = await simulateComputeUnits(rpc, tx);
+  const units = Math.min(
+    Number(consumed) + Math.ceil(Number(consumed) * config.margin),
+    MAX_COMPUTE_UNIT_LIMIT,
+  );
+
+  const writable = new Set<Address>([message.feePayer.address]);
+  for (const ix of message.instructions) {
+    for (const account of ix.accounts ?? []) {
+      if (isWritableRole(account.role)) {
+        writable.add(account.address);
+      }
+    }
+  }
+  const price =
+    config.price ??
+    (await getPrioritizationFee(rpc, [...writable], config.percentile));
+
+  // Priority fee in lamports: limit times price, rounded up to a whole lamport
+  const priorityFee = (BigInt(units) * price + 999_999n) / 1_000_000n;
+  const source =
+    config.price === undefined
+      ? `p${config.percentile} of recent fees`
+      : "fixed";
+
+  return {
+    transaction: insertInstructions(tx, [
+      getSetComputeUnitLimitInstruction({ units }),
+      getSetComputeUnitPriceInstruction({ microLamports: price }),
+    ]),
+    lifetime: tx.lifetime,
+    addressLookupTables: tx.addressLookupTables,
+    summary: `${tx.summary} (compute unit limit ${units} for ${consumed} simulated; price ${price} micro-lamports/CU, ${source}; priority fee ${priorityFee} lamports)`,
+  };
+};
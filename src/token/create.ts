@@ -5,6 +5,10 @@
 
 import {
   generateKeyPairSigner,
+  getSignatureFromTransaction,
+  sendAndConfirmDurableNonceTransactionFactory,
+  setTransactionMessageLifetimeUsingBlockhash,
+  setTransactionMessageLifetimeUsingDurableNonce,
   signTransactionMessageWithSigners,
   SolanaRpcApi,
   Rpc,
@@ -23,17 +27,26 @@ import {
   extension,
   ExtensionArgs,
   getInitializeMintInstruction,
+  getInitializeTokenGroupInstruction,
   getInitializeTokenMetadataInstruction,
   getMintSize,
   getSetAuthorityInstruction,
+  getUpdateTokenMetadataFieldInstruction,
+  getUpdateTokenMetadataUpdateAuthorityInstruction,
   getUpdateTransferHookInstruction,
+  tokenMetadataField,
   TOKEN_2022_PROGRAM_ADDRESS,
   getPreInitializeInstructionsForMintExtensions,
   AccountState,
   AuthorityType,
 } from "@solana-program/token-2022";
-import { createSolanaClient, createTransaction } from "gill";
-import { loadKeypairSignerFromFile } from "gill/node";
+import { SendAndConfirmTransactionWithSignersFunction } from "gill";
+import { getBackedMintSpec, MintSpec } from "./mintSpec";
+import {
+  createVersionedTransaction,
+  DurableNonce,
+  MessageOptions
+} from "./transaction";
 
 /**
  * Generates instructions for creating and initializing a new token mint
@@ -51,7 +64,11 @@ export const getCreateMintInstructions = async (input: {
 }): Promise<IInstruction<string>[]> => {
   // Calculate required space for mint account including extensions
   const space = getMintSize(input.extensions);
-  const postInitializeExtensions: Extension["__kind"][] = ["TokenMetadata"];
+  const postInitializeExtensions: Extension["__kind"][] = [
+    "TokenMetadata",
+    "TokenGroup",
+    "TokenGroupMember",
+  ];
 
   // Calculate space excluding post-initialization extensions
   const spaceWithoutPostInitializeExtensions = input.extensions
@@ -91,234 +108,475 @@ export const getCreateMintInstructions = async (input: {
 };
 
 /**
- * Generates instructions for creating a Token-2022 token with multiple extensions
- * @param rpc RPC client for Solana network
- * @param feePayer Account that will pay for the transaction
- * @param authority Address that will have authority over the token
- * @param decimals Number of decimal places for the token
- * @param metadata Token metadata including name, symbol and URI
- * @returns Array of instructions for creating the token with all extensions
+ * Converts a mint spec into the list of extensions to initialize on the mint
+ * @param spec Validated mint spec
+ * @param mint Address of the new mint
+ * @param feePayer Address that temporarily holds authorities that must sign during creation
+ * @returns Extension arguments in initialization order
  */
-async function createBackedMintInstructions(
-  rpc: Rpc<SolanaRpcApi>,
-  feePayer: TransactionSigner<string>,
-  authority: Address,
-  decimals: number,
-  metadata: {
-    name: string;
-    symbol: string;
-    uri: string;
-  }
-) {
-  const tokenProgram = TOKEN_2022_PROGRAM_ADDRESS;
-  const mint = await generateKeyPairSigner();
+export const getMintSpecExtensions = (
+  spec: MintSpec,
+  mint: Address,
+  feePayer: Address
+): ExtensionArgs[] => {
+  const { authorities, extensions, metadata } = spec;
+  const list: ExtensionArgs[] = [];
 
-  // Initialize token extensions
-  const metadataPointer = extension("MetadataPointer", {
-    metadataAddress: mint.address,
-    authority: authority,
-  });
+  if (metadata) {
+    list.push(
+      extension("MetadataPointer", {
+        metadataAddress: mint,
+        authority: authorities.MetadataPointer!,
+      })
+    );
 
-  const metadataExtensionData = extension("TokenMetadata", {
-    updateAuthority: authority,
-    mint: mint.address,
-    name: metadata.name,
-    symbol: metadata.symbol,
-    uri: metadata.uri,
-    additionalMetadata: new Map(),
-  });
+    // Additional metadata fields are written by the fee payer after initialization,
+    // so it holds the update authority until they are in place
+    const hasAdditionalMetadata =
+      Object.keys(metadata.additionalMetadata).length > 0;
+    list.push(
+      extension("TokenMetadata", {
+        updateAuthority: hasAdditionalMetadata
+          ? feePayer
+          : authorities.Metadata!,
+        mint,
+        name: metadata.name,
+        symbol: metadata.symbol,
+        uri: metadata.uri,
+        additionalMetadata: new Map(Object.entries(metadata.additionalMetadata)),
+      })
+    );
+  }
 
   // Permanent delegate extension - allows specified delegate to transfer tokens
-  const permanentDelegateExtension = extension("PermanentDelegate", {
-    delegate: authority,
-  });
+  if (extensions.PermanentDelegate) {
+    list.push(
+      extension("PermanentDelegate", {
+        delegate: authorities.PermanentDelegate!,
+      })
+    );
+  }
 
-  const defaultAccountStateExtension = extension("DefaultAccountState", {
-    state: AccountState.Initialized,
-  });
+  if (extensions.DefaultAccountState) {
+    list.push(
+      extension("DefaultAccountState", {
+        state:
+          extensions.DefaultAccountState.state === "frozen"
+            ? AccountState.Frozen
+            : AccountState.Initialized,
+      })
+    );
+  }
 
   // Scaled UI amount extension - for displaying scaled token amounts in UI
-  const scaledUiAmountMintExtension = extension("ScaledUiAmountConfig", {
-    authority: authority,
-    multiplier: 1,
-    newMultiplierEffectiveTimestamp: 0,
-    newMultiplier: 1,
-  });
-
-  const pausableMintExtension = extension("PausableConfig", {
-    authority: authority,
-    paused: false,
-  });
+  if (extensions.ScaledUiAmountConfig) {
+    list.push(
+      extension("ScaledUiAmountConfig", {
+        authority: authorities.ScaledUiAmount!,
+        multiplier: extensions.ScaledUiAmountConfig.multiplier,
+        newMultiplierEffectiveTimestamp: 0,
+        newMultiplier: extensions.ScaledUiAmountConfig.multiplier,
+      })
+    );
+  }
+
+  if (extensions.PausableConfig) {
+    list.push(
+      extension("PausableConfig", {
+        authority: authorities.Pause!,
+        paused: false,
+      })
+    );
+  }
 
   // Confidential balances extension - enables confidential token transfers and balances
-  const confidentialBalancesExtension = extension("ConfidentialTransferMint", {
-    authority: authority,
-    autoApproveNewAccounts: false,
-    auditorElgamalPubkey: null,
-  });
-
-  // Transfer hooks extension - enables custom logic on token transfers
-  const transferHooksExtension = extension("TransferHook", {
-    authority: feePayer.address, // we will change the authority after deployment
-    programId: SYSTEM_PROGRAM_ADDRESS, // Will be disabled after deployment
-  });
+  if (extensions.ConfidentialTransferMint) {
+    list.push(
+      extension("ConfidentialTransferMint", {
+        authority: authorities.ConfidentialTransferMint!,
+        autoApproveNewAccounts:
+          extensions.ConfidentialTransferMint.autoApproveNewAccounts,
+        auditorElgamalPubkey:
+          extensions.ConfidentialTransferMint.auditorElgamalPubkey,
+      })
+    );
+  }
+
+  // Transfer hooks extension - enables custom logic on token transfers. Without a
+  // program the hook is initialized by the fee payer and disabled after initialization.
+  if (extensions.TransferHook) {
+    const { programId } = extensions.TransferHook;
+    list.push(
+      extension("TransferHook", {
+        authority: programId ? authorities.TransferHookProgramId! : feePayer,
+        programId: programId ?? SYSTEM_PROGRAM_ADDRESS,
+      })
+    );
+  }
+
+  if (extensions.TransferFeeConfig) {
+    const fee = {
+      epoch: 0n,
+      maximumFee: extensions.TransferFeeConfig.maximumFee,
+      transferFeeBasisPoints:
+        extensions.TransferFeeConfig.transferFeeBasisPoints,
+    };
+    list.push(
+      extension("TransferFeeConfig", {
+        transferFeeConfigAuthority: authorities.TransferFeeConfig!,
+        withdrawWithheldAuthority: authorities.WithheldWithdraw!,
+        withheldAmount: 0n,
+        olderTransferFee: fee,
+        newerTransferFee: fee,
+      })
+    );
+  }
+
+  if (extensions.InterestBearingConfig) {
+    list.push(
+      extension("InterestBearingConfig", {
+        rateAuthority: authorities.InterestRate!,
+        initializationTimestamp: 0n,
+        preUpdateAverageRate: extensions.InterestBearingConfig.rate,
+        lastUpdateTimestamp: 0n,
+        currentRate: extensions.InterestBearingConfig.rate,
+      })
+    );
+  }
+
+  if (extensions.NonTransferable) {
+    list.push(extension("NonTransferable", {}));
+  }
+
+  if (extensions.MintCloseAuthority) {
+    list.push(
+      extension("MintCloseAuthority", {
+        closeAuthority: authorities.CloseMint!,
+      })
+    );
+  }
+
+  // Token group extensions - the mint holds its own group or member data
+  if (extensions.TokenGroup) {
+    list.push(
+      extension("GroupPointer", {
+        authority: authorities.GroupPointer!,
+        groupAddress: mint,
+      }),
+      extension("TokenGroup", {
+        updateAuthority: authorities.Group!,
+        mint,
+        size: 0n,
+        maxSize: extensions.TokenGroup.maxSize,
+      })
+    );
+  }
+
+  // The member itself is initialized later by the group update authority
+  // (see `addGroupMember`); the extension is listed so rent covers it
+  if (extensions.TokenGroupMember) {
+    list.push(
+      extension("GroupMemberPointer", {
+        authority: authorities.GroupMemberPointer!,
+        memberAddress: mint,
+      }),
+      extension("TokenGroupMember", {
+        mint,
+        group: extensions.TokenGroupMember.group,
+        memberNumber: 0n,
+      })
+    );
+  }
+
+  return list;
+};
+
+/**
+ * Generates instructions for creating a Token-2022 token described by a mint spec
+ * @param rpc RPC client for Solana network
+ * @param feePayer Account that will pay for the transaction
+ * @param spec Validated mint spec
+ * @param mint Signer for the new mint account (a new keypair by default)
+ * @returns Array of instructions for creating the token with the spec's extensions
+ */
+export async function getMintSpecInstructions(
+  rpc: Rpc<SolanaRpcApi>,
+  feePayer: TransactionSigner<string>,
+  spec: MintSpec,
+  mint?: TransactionSigner<string>
+) {
+  mint = mint ?? (await generateKeyPairSigner());
+  const { authorities, metadata } = spec;
+  const extensionsList = getMintSpecExtensions(
+    spec,
+    mint.address,
+    feePayer.address
+  );
 
   // Get instructions for creating and initializing the mint account
   const [createMintAccountInstruction, initMintInstruction] =
     await getCreateMintInstructions({
       rpc: rpc,
-      decimals,
-      extensions: [
-        metadataPointer,
-        metadataExtensionData,
-        permanentDelegateExtension,
-        defaultAccountStateExtension,
-        scaledUiAmountMintExtension,
-        pausableMintExtension,
-        confidentialBalancesExtension,
-        transferHooksExtension,
-      ],
-      freezeAuthority: authority,
+      decimals: spec.decimals,
+      extensions: extensionsList,
+      freezeAuthority: authorities.FreezeAccount ?? undefined,
       mint: mint,
       payer: feePayer,
       programAddress: TOKEN_2022_PROGRAM_ADDRESS,
     });
 
-  // Initialize token metadata
-  const initMetadataInstruction = getInitializeTokenMetadataInstruction({
-    metadata: mint.address,
-    mint: mint.address,
-    mintAuthority: feePayer,
-    name: metadata.name,
-    symbol: metadata.symbol,
-    uri: metadata.uri,
-    updateAuthority: authority,
-  });
+  // Get pre-initialization instructions for all extensions
+  const preInitializeInstructions = extensionsList.flatMap((ext) =>
+    getPreInitializeInstructionsForMintExtensions(mint.address, [ext])
+  );
 
-  // Change the mint authority to the authority
-  const changeMintAuthorityInstruction = getSetAuthorityInstruction({
-    owned: mint.address,
-    owner: feePayer.address,
-    newAuthority: authority,
-    authorityType: AuthorityType.MintTokens,
-  });
-
-  // Disable transfer hook program
-  const updateTransferHookInstruction = getUpdateTransferHookInstruction({
-    mint: mint.address,
-    authority: feePayer.address,
-    programId: null,
-  });
+  const postInitializeInstructions: IInstruction<string>[] = [];
+
+  if (metadata) {
+    const additionalMetadata = Object.entries(metadata.additionalMetadata);
+
+    // Initialize token metadata
+    postInitializeInstructions.push(
+      getInitializeTokenMetadataInstruction({
+        metadata: mint.address,
+        mint: mint.address,
+        mintAuthority: feePayer,
+        name: metadata.name,
+        symbol: metadata.symbol,
+        uri: metadata.uri,
+        updateAuthority:
+          additionalMetadata.length > 0
+            ? feePayer.address
+            : authorities.Metadata!,
+      })
+    );
+
+    // Write additional metadata fields, then hand over the update authority
+    if (additionalMetadata.length > 0) {
+      for (const [key, value] of additionalMetadata) {
+        postInitializeInstructions.push(
+          getUpdateTokenMetadataFieldInstruction({
+            metadata: mint.address,
+            updateAuthority: feePayer,
+            field: tokenMetadataField("Key", [key]),
+            value,
+          })
+        );
+      }
+      postInitializeInstructions.push(
+        getUpdateTokenMetadataUpdateAuthorityInstruction({
+          metadata: mint.address,
+          updateAuthority: feePayer,
+          newUpdateAuthority: authorities.Metadata!,
+        })
+      );
+    }
+  }
 
-  const updateTransferHookProgramIdAuthorityInstruction =
+  // Initialize the token group while the fee payer is still the mint authority
+  if (spec.extensions.TokenGroup) {
+    postInitializeInstructions.push(
+      getInitializeTokenGroupInstruction({
+        group: mint.address,
+        mint: mint.address,
+        mintAuthority: feePayer,
+        updateAuthority: authorities.Group!,
+        maxSize: spec.extensions.TokenGroup.maxSize,
+      })
+    );
+  }
+
+  // Change the mint authority to the authority
+  postInitializeInstructions.push(
     getSetAuthorityInstruction({
       owned: mint.address,
       owner: feePayer.address,
-      newAuthority: authority,
-      authorityType: AuthorityType.TransferHookProgramId,
-    });
-
-  // Get pre-initialization instructions for all extensions
-  const extensionsList = [
-    metadataPointer,
-    metadataExtensionData,
-    permanentDelegateExtension,
-    defaultAccountStateExtension,
-    scaledUiAmountMintExtension,
-    pausableMintExtension,
-    confidentialBalancesExtension,
-    transferHooksExtension,
-  ];
-
-  const preInitializeInstructions = extensionsList.flatMap((ext) =>
-    getPreInitializeInstructionsForMintExtensions(mint.address, [ext])
+      newAuthority: authorities.MintTokens,
+      authorityType: AuthorityType.MintTokens,
+    })
   );
 
+  if (spec.extensions.TransferHook && !spec.extensions.TransferHook.programId) {
+    // Disable transfer hook program
+    postInitializeInstructions.push(
+      getUpdateTransferHookInstruction({
+        mint: mint.address,
+        authority: feePayer.address,
+        programId: null,
+      }),
+      getSetAuthorityInstruction({
+        owned: mint.address,
+        owner: feePayer.address,
+        newAuthority: authorities.TransferHookProgramId!,
+        authorityType: AuthorityType.TransferHookProgramId,
+      })
+    );
+  }
+
   // Return all instructions in the correct order
   return [
     createMintAccountInstruction,
     ...preInitializeInstructions,
     initMintInstruction,
-    initMetadataInstruction,
-    changeMintAuthorityInstruction,
-    updateTransferHookInstruction,
-    updateTransferHookProgramIdAuthorityInstruction,
+    ...postInitializeInstructions,
   ];
 }
 
 /**
- * Creates a new Token-2022 token with all extensions and metadata
+ * Generates instructions for creating a Token-2022 token with multiple extensions
  * @param rpc RPC client for Solana network
- * @param symbol Token symbol
- * @param uri URI for token metadata
- * @param name Token name
- * @param decimals Number of decimal places
- * @param payer Account that will pay for the transaction
- * @returns Transaction signature
+ * @param feePayer Account that will pay for the transaction
+ * @param authority Address that will have authority over the token
+ * @param decimals Number of decimal places for the token
+ * @param metadata Token metadata including name, symbol and URI
+ * @returns Array of instructions for creating the token with all extensions
  */
-async function createMint(
+export async function createBackedMintInstructions(
   rpc: Rpc<SolanaRpcApi>,
-  symbol: string,
-  uri: string,
-  name: string,
+  feePayer: TransactionSigner<string>,
+  authority: Address,
   decimals: number,
+  metadata: {
+    name: string;
+    symbol: string;
+    uri: string;
+  }
+) {
+  return getMintSpecInstructions(
+    rpc,
+    feePayer,
+    getBackedMintSpec(authority, decimals, metadata)
+  );
+}
+
+/**
+ * Creates a new Token-2022 token described by a mint spec
+ * @param rpc RPC client for Solana network
+ * @param spec Validated mint spec
+ * @param payer Account that will pay for the transaction
+ * @param sendAndConfirmTransaction Function used to send the signed transaction
+ * @param options Message version and address lookup tables
+ * @returns Address of the new mint and the transaction signature
+ */
+export async function createMintFromSpec(
+  rpc: Rpc<SolanaRpcApi>,
+  spec: MintSpec,
   payer: TransactionSigner<string>,
-  authority: Address
+  sendAndConfirmTransaction: SendAndConfirmTransactionWithSignersFunction,
+  options: MessageOptions = {}
 ) {
   // Get latest blockhash for transaction
   const { value: latestBlockhash } = await rpc.getLatestBlockhash().send();
 
   // Get all instructions for creating the token
-  const createMintInstructions = await createBackedMintInstructions(
+  const mint = await generateKeyPairSigner();
+  const createMintInstructions = await getMintSpecInstructions(
     rpc,
     payer,
-    authority,
-    decimals,
-    {
-      name,
-      symbol,
-      uri,
-    }
+    spec,
+    mint
   );
 
   // Create and sign transaction
-  const tx = createTransaction({
-    feePayer: payer,
-    version: "legacy",
+  const tx = setTransactionMessageLifetimeUsingBlockhash(
     latestBlockhash,
-    instructions: createMintInstructions,
-  });
+    createVersionedTransaction({
+      feePayer: payer,
+      instructions: createMintInstructions,
+      ...options,
+    })
+  );
 
   const signedTransaction = await signTransactionMessageWithSigners(tx);
 
   // Send and confirm transaction
-  return await sendAndConfirmTransaction(signedTransaction);
+  const signature = await sendAndConfirmTransaction(signedTransaction);
+  return { mint: mint.address, signature };
 }
 
-// Initialize Solana client for devnet
-const { rpc, sendAndConfirmTransaction } = createSolanaClient({
-  urlOrMoniker: "devnet",
-});
-
-// Example usage
-(async () => {
-  const payer = await loadKeypairSignerFromFile();
-  const authority = payer.address;
-  const symbol = "SST";
-  const uri =
-    "https://raw.githubusercontent.com/solana-developers/opos-asset/main/assets/Climate/metadata.json";
-  const name = "super sweet token";
-  const decimals = 6;
-
-  const tx = await createMint(
+/**
+ * Creates a new Token-2022 token described by a mint spec, using a durable nonce as the
+ * transaction lifetime. The payer must be the nonce authority, as it signs locally.
+ * @param rpc RPC client for Solana network
+ * @param spec Validated mint spec
+ * @param payer Account that will pay for the transaction and advance the nonce
+ * @param durableNonce Nonce to use as the transaction lifetime
+ * @param sendAndConfirmTransaction Function used to send the signed transaction
+ * @param options Message version and address lookup tables
+ * @returns Address of the new mint and the transaction signature
+ */
+export async function createMintFromSpecWithNonce(
+  rpc: Rpc<SolanaRpcApi>,
+  spec: MintSpec,
+  payer: TransactionSigner<string>,
+  durableNonce: DurableNonce,
+  sendAndConfirmTransaction: ReturnType<
+    typeof sendAndConfirmDurableNonceTransactionFactory
+  >,
+  options: MessageOptions = {}
+) {
+  if (durableNonce.nonceAuthorityAddress !== payer.address) {
+    throw new Error(
+      `The nonce authority of ${durableNonce.nonceAccountAddress} is ${durableNonce.nonceAuthorityAddress}, not the payer ${payer.address}`
+    );
+  }
+
+  // Get all instructions for creating the token
+  const mint = await generateKeyPairSigner();
+  const createMintInstructions = await getMintSpecInstructions(
     rpc,
-    symbol,
-    uri,
-    name,
-    decimals,
     payer,
-    authority
+    spec,
+    mint
   );
 
-  console.log(tx);
-})();
+  // Create the transaction with AdvanceNonceAccount as its first instruction and sign it
+  const tx = setTransactionMessageLifetimeUsingDurableNonce(
+    durableNonce,
+    createVersionedTransaction({
+      feePayer: payer,
+      instructions: createMintInstructions,
+      ...options,
+    })
+  );
+
+  const signedTransaction = await signTransactionMessageWithSigners(tx);
+
+  // Send and confirm transaction
+  await sendAndConfirmTransaction(signedTransaction, { commitment: "confirmed" });
+  return {
+    mint: mint.address,
+    signature: getSignatureFromTransaction(signedTransaction),
+  };
+}
+
+/**
+ * Creates a new Token-2022 token with all extensions and metadata
+ * @param rpc RPC client for Solana network
+ * @param symbol Token symbol
+ * @param uri URI for token metadata
+ * @param name Token name
+ * @param decimals Number of decimal places
+ * @param payer Account that will pay for the transaction
+ * @param authority Address that will have authority over the token
+ * @param sendAndConfirmTransaction Function used to send the signed transaction
+ * @returns Transaction signature
+ */
+export async function createMint(
+  rpc: Rpc<SolanaRpcApi>,
+  symbol: string,
+  uri: string,
+  name: string,
+  decimals: number,
+  payer: TransactionSigner<string>,
+  authority: Address,
+  sendAndConfirmTransaction: SendAndConfirmTransactionWithSignersFunction
+) {
+  const { signature } = await createMintFromSpec(
+    rpc,
+    getBackedMintSpec(authority, decimals, { name, symbol, uri }),
+    payer,
+    sendAndConfirmTransaction
+  );
+  return signature;
+}
@@ -0,0 +1,426 @@
+import { describe, expect, it } from "@jest/globals";
+import {
+  AccountRole,
+  Address,
+  createNoopSigner,
+  getBase64EncodedWireTransaction,
+  IInstruction,
+  Nonce,
+  SignatureBytes,
+} from "@solana/kit";
+import { getSetComputeUnitLimitInstruction } from "@solana-program/compute-budget";
+import { getCreateAccountInstruction } from "@solana-program/system";
+import {
+  getCreateAssociatedTokenIdempotentInstruction,
+  getInitializeMint2Instruction,
+  getMintToInstruction,
+  getRemoveTokenMetadataKeyInstruction,
+  getTransferCheckedInstruction,
+  getTransferInstruction,
+  getUpdateTokenMetadataFieldInstruction,
+  TOKEN_2022_PROGRAM_ADDRESS,
+  tokenMetadataField,
+} from "@solana-program/token-2022";
+import {
+  ADDRESS_LOOKUP_TABLE_PROGRAM_ADDRESS,
+  getAddMemoInstruction,
+  getAddressLookupTableEncoder,
+} from "gill/programs";
+import { getAssociatedTokenAccountAddress } from "gill/programs/token";
+import {
+  decodeTransactionText,
+  explainTransaction,
+  formatTransactionExplanation,
+  TransactionExplanation,
+} from "./explain";
+import { compilePreparedTransaction, TransactionLifetime } from "./transaction";
+import { encodeTransaction } from "../output/encoders";
+import {
+  accountHandlers,
+  createTestRpc,
+  encodedAccount,
+  TEST_BLOCKHASH,
+  testAddress,
+} from "../testing/rpc";
+import { mintAccount, tokenAccount } from "../testing/token";
+
+const PAYER = testAddress(1);
+const OWNER = testAddress(2);
+const MINT = testAddress(3);
+const RECIPIENT = testAddress(4);
+const DESTINATION = testAddress(5);
+const UNKNOWN_PROGRAM = testAddress(6);
+const TABLE = testAddress(7);
+const owner = createNoopSigner(OWNER);
+
+const compile = (
+  instructions: IInstruction[],
+  options: {
+    lifetime?: TransactionLifetime;
+    addressLookupTables?: Record<Address, Address[]>;
+  } = {},
+) =>
+  compilePreparedTransaction({
+    feePayer: PAYER,
+    instructions,
+    lifetime: options.lifetime ?? {
+      blockhash: TEST_BLOCKHASH,
+      lastValidBlockHeight: 100n,
+    },
+    summary: "",
+    ...(options.addressLookupTables
+      ? { version: 0, addressLookupTables: options.addressLookupTables }
+      : {}),
+  });
+
+// Base64 message of a transaction paid by PAYER
+const message = (...args: Parameters<typeof compile>) =>
+  encodeTransaction(compile(...args), "base64-message", "");
+
+// A mint with 6 decimals, the ATA of OWNER and a token account of RECIPIENT that is
+// not its ATA
+const tokenAccounts = async () => {
+  const source = await getAssociatedTokenAccountAddress(
+    MINT,
+    OWNER,
+    TOKEN_2022_PROGRAM_ADDRESS,
+  );
+  const { rpc, calls } = createTestRpc(
+    accountHandlers({
+      [MINT]: mintAccount(),
+      [source]: tokenAccount({ mint: MINT, owner: OWNER }),
+      [DESTINATION]: tokenAccount({ mint: MINT, owner: RECIPIENT }),
+      [TABLE]: encodedAccount(
+        getAddressLookupTableEncoder().encode({
+          deactivationSlot: 2n ** 64n - 1n,
+          lastExtendedSlot: 0n,
+          lastExtendedSlotStartIndex: 0,
+          authority: PAYER,
+          addresses: [MINT, DESTINATION],
+        }),
+        ADDRESS_LOOKUP_TABLE_PROGRAM_ADDRESS,
+      ),
+    }),
+  );
+  return { rpc, calls, source };
+};
+
+describe("decodeTransactionText", () => {
+  const tx = compile([getAddMemoInstruction({ memo: "hello" })]);
+
+  it("reads base58 and base64 messages", () => {
+    for (const format of ["base58-message", "base64-message"] as const) {
+      const decoded = decodeTransactionText(
+        ` ${encodeTransaction(tx, format, "")}\n`,
+      );
+      expect(decoded.signatures).toBeUndefined();
+      expect(decoded.message.staticAccounts[0]).toBe(PAYER);
+    }
+  });
+
+  it("reads wire transactions with their signatures", () => {
+    const decoded = decodeTransactionText(
+      encodeTransaction(tx, "base58-wire", ""),
+    );
+
+    expect(decoded.signatures).toEqual({ [PAYER]: null });
+  });
+
+  it("rejects text that is not a transaction", () => {
+    expect(() => decodeTransactionText("AAAA")).toThrow(
+      "Not a base58 or base64 transaction message or wire transaction",
+    );
+    expect(() => decodeTransactionText("not a transaction!")).toThrow(
+      "Not a base58 or base64 string",
+    );
+  });
+});
+
+describe("explainTransaction", () => {
+  it("describes token transfers with the decimals and owners read from the chain", async () => {
+    const { rpc, source } = await tokenAccounts();
+    const explanation = await explainTransaction(
+      rpc,
+      message([
+        getSetComputeUnitLimitInstruction({ units: 50_000 }),
+        getTransferCheckedInstruction({
+          source,
+          mint: MINT,
+          destination: DESTINATION,
+          authority: owner,
+          amount: 1_500_000n,
+          decimals: 6,
+        }),
+        getTransferInstruction({
+          source,
+          destination: DESTINATION,
+          authority: owner,
+          amount: 250_000n,
+        }),
+        getAddMemoInstruction({ memo: "invoice 42" }),
+      ]),
+    );
+
+    expect(explanation).toEqual({
+      version: "legacy",
+      feePayer: PAYER,
+      signers: [
+        { address: PAYER, writable: true },
+        { address: OWNER, writable: false },
+      ],
+      lifetime: { blockhash: TEST_BLOCKHASH },
+      addressLookupTables: [],
+      instructions: [
+        {
+          programAddress: expect.any(String),
+          program: "Compute Budget",
+          description: "SetComputeUnitLimit 50000 units",
+        },
+        {
+          programAddress: TOKEN_2022_PROGRAM_ADDRESS,
+          program: "Token-2022",
+          description: `TransferChecked 1.5 tokens (1500000 raw) from ATA of ${OWNER} to ${DESTINATION} (owner ${RECIPIENT}), authority ${OWNER}`,
+        },
+        {
+          programAddress: TOKEN_2022_PROGRAM_ADDRESS,
+          program: "Token-2022",
+          description: `Transfer 0.25 tokens (250000 raw) from ATA of ${OWNER} to ${DESTINATION} (owner ${RECIPIENT}), authority ${OWNER}`,
+        },
+        {
+          programAddress: expect.any(String),
+          program: "Memo",
+          description: 'Memo "invoice 42"',
+        },
+      ],
+      warnings: [],
+    });
+  });
+
+  it("uses a mint and an ATA created earlier in the same transaction", async () => {
+    const { rpc } = createTestRpc(accountHandlers({}));
+    const mint = createNoopSigner(testAddress(10));
+    const ata = await getAssociatedTokenAccountAddress(
+      mint.address,
+      OWNER,
+      TOKEN_2022_PROGRAM_ADDRESS,
+    );
+    const { instructions } = await explainTransaction(
+      rpc,
+      message([
+        getCreateAccountInstruction({
+          payer: createNoopSigner(PAYER),
+          newAccount: mint,
+          lamports: 1_461_600n,
+          space: 82,
+          programAddress: TOKEN_2022_PROGRAM_ADDRESS,
+        }),
+        getInitializeMint2Instruction({
+          mint: mint.address,
+          decimals: 2,
+          mintAuthority: OWNER,
+        }),
+        getCreateAssociatedTokenIdempotentInstruction({
+          payer: createNoopSigner(PAYER),
+          ata,
+          owner: OWNER,
+          mint: mint.address,
+        }),
+        getMintToInstruction({
+          mint: mint.address,
+          token: ata,
+          mintAuthority: owner,
+          amount: 12_345n,
+        }),
+      ]),
+    );
+
+    expect(instructions.map((ix) => ix.description)).toEqual([
+      `CreateAccount ${mint.address} owned by Token-2022: 82 bytes, 0.0014616 SOL from ${PAYER}`,
+      `InitializeMint2: mint ${mint.address} with 2 decimals, mint authority ${OWNER}, freeze authority none`,
+      `CreateIdempotent ATA ${ata} of ${OWNER} for mint ${mint.address} (Token-2022), paid by ${PAYER}`,
+      `MintTo 123.45 tokens (12345 raw) to ATA of ${OWNER}, mint authority ${OWNER}`,
+    ]);
+  });
+
+  it("decodes the token metadata interface instructions", async () => {
+    const { rpc } = await tokenAccounts();
+    const { instructions, warnings } = await explainTransaction(
+      rpc,
+      message([
+        getUpdateTokenMetadataFieldInstruction({
+          metadata: MINT,
+          updateAuthority: owner,
+          field: tokenMetadataField("Key", ["isin"]),
+          value: "US0000000001",
+        }),
+        getUpdateTokenMetadataFieldInstruction({
+          metadata: MINT,
+          updateAuthority: owner,
+          field: tokenMetadataField("Name"),
+          value: "Fund",
+        }),
+        getRemoveTokenMetadataKeyInstruction({
+          metadata: MINT,
+          updateAuthority: owner,
+          idempotent: true,
+          key: "cusip",
+        }),
+      ]),
+    );
+
+    expect(warnings).toEqual([]);
+    expect(instructions.map((ix) => ix.description)).toEqual([
+      `UpdateTokenMetadataField on ${MINT}: set key "isin" to "US0000000001", update authority ${OWNER}`,
+      `UpdateTokenMetadataField on ${MINT}: set name to "Fund", update authority ${OWNER}`,
+      `RemoveTokenMetadataKey on ${MINT}: key "cusip" (if present), update authority ${OWNER}`,
+    ]);
+  });
+
+  it("warns about unknown programs and undecodable instructions", async () => {
+    const { rpc } = createTestRpc(accountHandlers({}));
+    const { instructions, warnings } = await explainTransaction(
+      rpc,
+      message([
+        {
+          programAddress: UNKNOWN_PROGRAM,
+          accounts: [{ address: OWNER, role: AccountRole.WRITABLE }],
+          data: new Uint8Array([1, 2, 3]),
+        },
+        {
+          programAddress: TOKEN_2022_PROGRAM_ADDRESS,
+          accounts: [],
+          data: new Uint8Array([255]),
+        },
+      ]),
+    );
+
+    expect(instructions).toEqual([
+      {
+        programAddress: UNKNOWN_PROGRAM,
+        program: null,
+        description: "Unknown program: 1 account(s), 3 data byte(s)",
+      },
+      {
+        programAddress: TOKEN_2022_PROGRAM_ADDRESS,
+        program: "Token-2022",
+        description: "Undecodable instruction: 1 data byte(s)",
+      },
+    ]);
+    expect(warnings).toEqual([
+      `Instruction 1 calls the unknown program ${UNKNOWN_PROGRAM}`,
+      expect.stringMatching(
+        /^Instruction 2 could not be decoded as a Token-2022 instruction: /,
+      ),
+    ]);
+  });
+
+  it("resolves accounts through lookup tables", async () => {
+    const { rpc, source } = await tokenAccounts();
+    const explanation = await explainTransaction(
+      rpc,
+      message(
+        [
+          getTransferCheckedInstruction({
+            source,
+            mint: MINT,
+            destination: DESTINATION,
+            authority: owner,
+            amount: 1n,
+            decimals: 6,
+          }),
+        ],
+        { addressLookupTables: { [TABLE]: [MINT, DESTINATION] } },
+      ),
+    );
+
+    expect(explanation.version).toBe(0);
+    expect(explanation.addressLookupTables).toEqual([TABLE]);
+    expect(explanation.instructions[0].description).toBe(
+      `TransferChecked 0.000001 tokens (1 raw) from ATA of ${OWNER} to ${DESTINATION} (owner ${RECIPIENT}), authority ${OWNER}`,
+    );
+  });
+
+  it("reports a durable nonce and which signers have signed", async () => {
+    const { rpc } = createTestRpc(accountHandlers({}));
+    const { transaction } = compile(
+      [
+        {
+          ...getAddMemoInstruction({ memo: "hello" }),
+          accounts: [{ address: OWNER, role: AccountRole.READONLY_SIGNER }],
+        },
+      ],
+      {
+        lifetime: {
+          nonce: TEST_BLOCKHASH as string as Nonce,
+          nonceAccountAddress: testAddress(11),
+          nonceAuthorityAddress: PAYER,
+        },
+      },
+    );
+    const explanation = await explainTransaction(
+      rpc,
+      getBase64EncodedWireTransaction({
+        ...transaction,
+        signatures: {
+          ...transaction.signatures,
+          [PAYER]: new Uint8Array(64).fill(1) as SignatureBytes,
+        },
+      }),
+    );
+
+    expect(explanation.lifetime).toEqual({
+      nonce: TEST_BLOCKHASH,
+      nonceAccount: testAddress(11),
+      nonceAuthority: PAYER,
+    });
+    expect(explanation.signers).toEqual([
+      { address: PAYER, writable: true, signed: true },
+      { address: OWNER, writable: false, signed: false },
+    ]);
+    expect(explanation.instructions[0].description).toBe(
+      `AdvanceNonceAccount ${testAddress(11)}, authority ${PAYER}`,
+    );
+  });
+});
+
+describe("formatTransactionExplanation", () => {
+  it("lists the signers, lifetime, instructions and warnings", () => {
+    const explanation: TransactionExplanation = {
+      version: 0,
+      feePayer: PAYER,
+      signers: [
+        { address: PAYER, writable: true, signed: true },
+        { address: OWNER, writable: false, signed: false },
+      ],
+      lifetime: { blockhash: TEST_BLOCKHASH },
+      addressLookupTables: [TABLE],
+      instructions: [
+        {
+          programAddress: TOKEN_2022_PROGRAM_ADDRESS,
+          program: "Token-2022",
+          description: `Pause mint ${MINT}, authority ${OWNER}`,
+        },
+        {
+          programAddress: UNKNOWN_PROGRAM,
+          program: null,
+          description: "Unknown program: 0 account(s), 0 data byte(s)",
+        },
+      ],
+      warnings: [`Instruction 2 calls the unknown program ${UNKNOWN_PROGRAM}`],
+    };
+
+    expect(formatTransactionExplanation(explanation).split("\n")).toEqual([
+      `Fee payer: ${PAYER}`,
+      "Signers:",
+      `  ${PAYER} (writable) signed`,
+      `  ${OWNER} not signed`,
+      `Lifetime: blockhash ${TEST_BLOCKHASH}`,
+      `Lookup tables: ${TABLE}`,
+      "Instructions:",
+      `  1. [Token-2022] Pause mint ${MINT}, authority ${OWNER}`,
+      `  2. [${UNKNOWN_PROGRAM}] Unknown program: 0 account(s), 0 data byte(s)`,
+      "Warnings:",
+      `  - Instruction 2 calls the unknown program ${UNKNOWN_PROGRAM}`,
+    ]);
+  });
+});
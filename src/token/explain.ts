@@ -0,0 +1,815 @@
+/**
+ * This module explains a transaction before it is approved. The message printed by
+ * the other commands, or a wire transaction, is decoded and every instruction of the
+ * Token-2022, System, Associated Token, Memo and Compute Budget programs is described
+ * in plain language, with the fee payer, the required signers and any program the
+ * explainer does not know.
+ */
+
+import {
+  addDecoderSizePrefix,
+  Address,
+  CompiledTransactionMessage,
+  Decoder,
+  decompileTransactionMessage,
+  fetchEncodedAccounts,
+  getAddressDecoder,
+  getBase58Encoder,
+  getBase64Encoder,
+  getBooleanDecoder,
+  getCompiledTransactionMessageDecoder,
+  getOptionDecoder,
+  getStructDecoder,
+  getTransactionDecoder,
+  getU32Decoder,
+  getU64Decoder,
+  getUtf8Decoder,
+  IAccountMeta,
+  IInstruction,
+  IInstructionWithAccounts,
+  IInstructionWithData,
+  isSome,
+  Option,
+  ReadonlyUint8Array,
+  Rpc,
+  SolanaRpcApi,
+} from "@solana/kit";
+import {
+  COMPUTE_BUDGET_PROGRAM_ADDRESS,
+  ComputeBudgetInstruction,
+  identifyComputeBudgetInstruction,
+  parseRequestHeapFrameInstruction,
+  parseSetComputeUnitLimitInstruction,
+  parseSetComputeUnitPriceInstruction,
+  parseSetLoadedAccountsDataSizeLimitInstruction,
+} from "@solana-program/compute-budget";
+import {
+  identifySystemInstruction,
+  parseAdvanceNonceAccountInstruction,
+  parseCreateAccountInstruction,
+  parseInitializeNonceAccountInstruction,
+  parseTransferSolInstruction,
+  SYSTEM_PROGRAM_ADDRESS,
+  SystemInstruction,
+} from "@solana-program/system";
+import {
+  ASSOCIATED_TOKEN_PROGRAM_ADDRESS,
+  AssociatedTokenInstruction,
+  AuthorityType,
+  getMintDecoder,
+  getTokenDecoder,
+  getTokenMetadataFieldDecoder,
+  identifyAssociatedTokenInstruction,
+  identifyToken2022Instruction,
+  parseApproveCheckedInstruction,
+  parseBurnCheckedInstruction,
+  parseBurnInstruction,
+  parseCloseAccountInstruction,
+  parseCreateAssociatedTokenIdempotentInstruction,
+  parseCreateAssociatedTokenInstruction,
+  parseFreezeAccountInstruction,
+  parseHarvestWithheldTokensToMintInstruction,
+  parseInitializeGroupMemberPointerInstruction,
+  parseInitializeGroupPointerInstruction,
+  parseInitializeInterestBearingMintInstruction,
+  parseInitializeMetadataPointerInstruction,
+  parseInitializeMint2Instruction,
+  parseInitializeMintInstruction,
+  parseInitializePausableConfigInstruction,
+  parseInitializePermanentDelegateInstruction,
+  parseInitializeScaledUiAmountMintInstruction,
+  parseInitializeTokenGroupMemberInstruction,
+  parseInitializeTransferFeeConfigInstruction,
+  parseInitializeTransferHookInstruction,
+  parseMintToCheckedInstruction,
+  parseMintToInstruction,
+  parsePauseInstruction,
+  parseResumeInstruction,
+  parseSetAuthorityInstruction,
+  parseSetTransferFeeInstruction,
+  parseThawAccountInstruction,
+  parseTransferCheckedInstruction,
+  parseTransferInstruction,
+  parseUpdateMultiplierScaledUiMintInstruction,
+  parseUpdateRateInterestBearingMintInstruction,
+  parseUpdateTransferHookInstruction,
+  parseWithdrawWithheldTokensFromMintInstruction,
+  TOKEN_2022_PROGRAM_ADDRESS,
+  Token2022Instruction,
+} from "@solana-program/token-2022";
+import { MEMO_PROGRAM_ADDRESS } from "gill/programs";
+import { getAssociatedTokenAccountAddress } from "gill/programs/token";
+import { formatUnits, TOKEN_ACCOUNT_BASE_SIZE } from "./amount";
+import { fetchLookupTableAddresses } from "./lookupTable";
+
+/**
+ * Names of the programs whose instructions are explained
+ */
+export const KNOWN_PROGRAMS: Readonly<Record<string, string>> = {
+  [TOKEN_2022_PROGRAM_ADDRESS]: "Token-2022",
+  [SYSTEM_PROGRAM_ADDRESS]: "System",
+  [ASSOCIATED_TOKEN_PROGRAM_ADDRESS]: "Associated Token",
+  [MEMO_PROGRAM_ADDRESS]: "Memo",
+  [COMPUTE_BUDGET_PROGRAM_ADDRESS]: "Compute Budget",
+};
+
+/**
+ * Decoded transaction. Every field is JSON-serializable.
+ */
+export interface TransactionExplanation {
+  version: "legacy" | number;
+  feePayer: Address;
+  /** Addresses that must sign, fee payer first. `signed` is only known for wire transactions. */
+  signers: { address: Address; writable: boolean; signed?: boolean }[];
+  lifetime:
+    | { blockhash: string }
+    | { nonce: string; nonceAccount: Address; nonceAuthority: Address };
+  /** Lookup tables a version 0 message resolves accounts through */
+  addressLookupTables: Address[];
+  instructions: {
+    programAddress: Address;
+    /** Program name, or null for a program the explainer does not know */
+    program: string | null;
+    description: string;
+  }[];
+  /** Unknown programs and instructions that could not be decoded */
+  warnings: string[];
+}
+
+// Instruction as decompiled from a message, with every account resolved
+type DecodableInstruction = IInstruction &
+  IInstructionWithAccounts<IAccountMeta[]> &
+  IInstructionWithData<Uint8Array>;
+
+/**
+ * Token-2022 accounts referenced by a transaction, read from the chain or created by it
+ */
+interface AccountContext {
+  /** Decimals of each mint */
+  mints: Map<Address, number>;
+  tokenAccounts: Map<
+    Address,
+    { owner: Address; mint: Address; associated: boolean }
+  >;
+}
+
+// Size of a mint account without extensions
+const MINT_BASE_SIZE = 82;
+
+// Maximum number of accounts in one getMultipleAccounts request
+const MAX_ACCOUNTS_PER_REQUEST = 100;
+
+const BASE58_PATTERN = /^[1-9A-HJ-NP-Za-km-z]+$/;
+
+/**
+ * Decodes a message and checks that it spans the whole input
+ * @param bytes Message bytes
+ * @returns Compiled message, or undefined when the bytes are not a message
+ */
+const readMessage = (bytes: ReadonlyUint8Array) => {
+  try {
+    const [message, offset] = getCompiledTransactionMessageDecoder().read(
+      bytes,
+      0,
+    );
+    return offset === bytes.length ? message : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Decodes a transaction given as a base58 or base64 message or wire transaction, the
+ * formats printed by the other commands
+ * @param text Encoded message or wire transaction
+ * @returns Compiled message, and the signatures of a wire transaction
+ */
+export const decodeTransactionText = (text: string) => {
+  const trimmed = text.trim();
+  let bytes: ReadonlyUint8Array;
+  try {
+    bytes = BASE58_PATTERN.test(trimmed)
+      ? getBase58Encoder().encode(trimmed)
+      : getBase64Encoder().encode(trimmed);
+  } catch {
+    throw new Error("Not a base58 or base64 string");
+  }
+
+  // A wire transaction carries one signature per required signer of its message
+  try {
+    const transaction = getTransactionDecoder().decode(bytes);
+    const message = readMessage(transaction.messageBytes);
+    if (
+      message &&
+      message.header.numSignerAccounts ===
+        Object.keys(transaction.signatures).length
+    ) {
+      return { message, signatures: transaction.signatures };
+    }
+  } catch {
+    // Not a wire transaction; try a bare message
+  }
+  const message = readMessage(bytes);
+  if (!message) {
+    throw new Error(
+      "Not a base58 or base64 transaction message or wire transaction",
+    );
+  }
+  return { message, signatures: undefined };
+};
+
+/**
+ * Reads the mints and token accounts referenced by Token-2022 and Associated Token
+ * instructions, adding the ones the transaction itself creates
+ * @param rpc RPC client for Solana network
+ * @param instructions Decompiled instructions
+ * @returns Decimals of the mints and owners of the token accounts
+ */
+const fetchAccountContext = async (
+  rpc: Rpc<SolanaRpcApi>,
+  instructions: DecodableInstruction[],
+): Promise<AccountContext> => {
+  const context: AccountContext = {
+    mints: new Map(),
+    tokenAccounts: new Map(),
+  };
+  const tokenInstructions = instructions.filter(
+    (ix) =>
+      ix.programAddress === TOKEN_2022_PROGRAM_ADDRESS ||
+      ix.programAddress === ASSOCIATED_TOKEN_PROGRAM_ADDRESS,
+  );
+  const addresses = [
+    ...new Set(
+      tokenInstructions.flatMap((ix) => ix.accounts.map((a) => a.address)),
+    ),
+  ];
+
+  for (let i = 0; i < addresses.length; i += MAX_ACCOUNTS_PER_REQUEST) {
+    const accounts = await fetchEncodedAccounts(
+      rpc,
+      addresses.slice(i, i + MAX_ACCOUNTS_PER_REQUEST),
+    );
+    for (const account of accounts) {
+      if (
+        !account.exists ||
+        account.programAddress !== TOKEN_2022_PROGRAM_ADDRESS
+      ) {
+        continue;
+      }
+      const { data } = account;
+      if (
+        data.length === MINT_BASE_SIZE ||
+        (data.length > TOKEN_ACCOUNT_BASE_SIZE &&
+          data[TOKEN_ACCOUNT_BASE_SIZE] === 1)
+      ) {
+        context.mints.set(
+          account.address,
+          getMintDecoder().decode(data).decimals,
+        );
+      } else if (
+        data.length === TOKEN_ACCOUNT_BASE_SIZE ||
+        data[TOKEN_ACCOUNT_BASE_SIZE] === 2
+      ) {
+        const token = getTokenDecoder().decode(data);
+        const ata = await getAssociatedTokenAccountAddress(
+          token.mint,
+          token.owner,
+          TOKEN_2022_PROGRAM_ADDRESS,
+        );
+        context.tokenAccounts.set(account.address, {
+          owner: token.owner,
+          mint: token.mint,
+          associated: ata === account.address,
+        });
+      }
+    }
+  }
+
+  // Mints and associated token accounts created earlier in the same transaction
+  for (const ix of tokenInstructions) {
+    try {
+      if (
+        ix.programAddress === ASSOCIATED_TOKEN_PROGRAM_ADDRESS &&
+        identifyAssociatedTokenInstruction(ix) !==
+          AssociatedTokenInstruction.RecoverNestedAssociatedToken
+      ) {
+        const { accounts } =
+          parseCreateAssociatedTokenIdempotentInstruction(ix);
+        context.tokenAccounts.set(accounts.ata.address, {
+          owner: accounts.owner.address,
+          mint: accounts.mint.address,
+          associated: true,
+        });
+      } else if (
+        ix.programAddress === TOKEN_2022_PROGRAM_ADDRESS &&
+        identifyToken2022Instruction(ix) ===
+          Token2022Instruction.InitializeMint2
+      ) {
+        const { accounts, data } = parseInitializeMint2Instruction(ix);
+        context.mints.set(accounts.mint.address, data.decimals);
+      }
+    } catch {
+      // Described, or reported as undecodable, with the other instructions
+    }
+  }
+  return context;
+};
+
+/**
+ * Formats a Unix timestamp in seconds as a UTC date, e.g. `2026-10-20 14:00 UTC`
+ */
+const formatTimestamp = (timestamp: bigint) => {
+  const iso = new Date(Number(timestamp) * 1000).toISOString();
+  return `${iso.slice(0, iso.endsWith(":00.000Z") ? 16 : 19).replace("T", " ")} UTC`;
+};
+
+const formatOption = (value: Option<Address>) =>
+  isSome(value) ? value.value : "none";
+
+const formatLamports = (lamports: bigint) => `${formatUnits(lamports, 9)} SOL`;
+
+// The Token-2022 client decodes the 8-byte discriminator of the token metadata and
+// token group interface instructions as unsized bytes, which leaves nothing for the
+// fields that follow, so their data is decoded here from the end of the discriminator
+const INTERFACE_DISCRIMINATOR_SIZE = 8;
+
+const sizedUtf8Decoder = addDecoderSizePrefix(
+  getUtf8Decoder(),
+  getU32Decoder(),
+);
+const zeroableAddressDecoder = getOptionDecoder(getAddressDecoder(), {
+  prefix: null,
+  noneValue: "zeroes",
+});
+
+const initializeTokenMetadataDecoder = getStructDecoder([
+  ["name", sizedUtf8Decoder],
+  ["symbol", sizedUtf8Decoder],
+  ["uri", sizedUtf8Decoder],
+]);
+const updateTokenMetadataFieldDecoder = getStructDecoder([
+  ["field", getTokenMetadataFieldDecoder()],
+  ["value", sizedUtf8Decoder],
+]);
+const removeTokenMetadataKeyDecoder = getStructDecoder([
+  ["idempotent", getBooleanDecoder()],
+  ["key", sizedUtf8Decoder],
+]);
+const updateAuthorityDecoder = getStructDecoder([
+  ["newUpdateAuthority", zeroableAddressDecoder],
+]);
+const initializeTokenGroupDecoder = getStructDecoder([
+  ["updateAuthority", zeroableAddressDecoder],
+  ["maxSize", getU64Decoder()],
+]);
+const updateTokenGroupMaxSizeDecoder = getStructDecoder([
+  ["maxSize", getU64Decoder()],
+]);
+
+const decodeInterfaceData = <T extends object>(
+  ix: DecodableInstruction,
+  decoder: Decoder<T>,
+) => decoder.decode(ix.data, INTERFACE_DISCRIMINATOR_SIZE);
+
+const accountAt = (ix: DecodableInstruction, index: number) => {
+  if (index >= ix.accounts.length) {
+    throw new Error("Not enough accounts provided");
+  }
+  return ix.accounts[index].address;
+};
+
+/**
+ * Describes a Token-2022 instruction
+ * @param ix Decompiled instruction
+ * @param context Mints and token accounts referenced by the transaction
+ */
+const describeToken2022Instruction = (
+  ix: DecodableInstruction,
+  context: AccountContext,
+) => {
+  const amount = (value: bigint, mint?: Address, decimals?: number) => {
+    const known = decimals ?? (mint && context.mints.get(mint));
+    return known === undefined
+      ? `${value} raw`
+      : `${formatUnits(value, known)} tokens (${value} raw)`;
+  };
+  const tokenAccount = (address: Address) => {
+    const account = context.tokenAccounts.get(address);
+    if (!account) {
+      return address;
+    }
+    return account.associated
+      ? `ATA of ${account.owner}`
+      : `${address} (owner ${account.owner})`;
+  };
+  const mintOf = (address: Address) => context.tokenAccounts.get(address)?.mint;
+
+  const type = identifyToken2022Instruction(ix);
+  switch (type) {
+    case Token2022Instruction.InitializeMint:
+    case Token2022Instruction.InitializeMint2: {
+      const { accounts, data } =
+        type === Token2022Instruction.InitializeMint
+          ? parseInitializeMintInstruction(ix)
+          : parseInitializeMint2Instruction(ix);
+      return `${Token2022Instruction[type]}: mint ${accounts.mint.address} with ${data.decimals} decimals, mint authority ${data.mintAuthority}, freeze authority ${formatOption(data.freezeAuthority)}`;
+    }
+    case Token2022Instruction.SetAuthority: {
+      const { accounts, data } = parseSetAuthorityInstruction(ix);
+      const owned = accounts.owned.address;
+      const target = context.mints.has(owned)
+        ? `mint ${owned}`
+        : `account ${tokenAccount(owned)}`;
+      return `SetAuthority: ${AuthorityType[data.authorityType]} on ${target} from ${accounts.owner.address} to ${formatOption(data.newAuthority)}`;
+    }
+    case Token2022Instruction.MintTo: {
+      const { accounts, data } = parseMintToInstruction(ix);
+      return `MintTo ${amount(data.amount, accounts.mint.address)} to ${tokenAccount(accounts.token.address)}, mint authority ${accounts.mintAuthority.address}`;
+    }
+    case Token2022Instruction.MintToChecked: {
+      const { accounts, data } = parseMintToCheckedInstruction(ix);
+      return `MintToChecked ${amount(data.amount, accounts.mint.address, data.decimals)} to ${tokenAccount(accounts.token.address)}, mint authority ${accounts.mintAuthority.address}`;
+    }
+    case Token2022Instruction.Burn: {
+      const { accounts, data } = parseBurnInstruction(ix);
+      return `Burn ${amount(data.amount, accounts.mint.address)} from ${tokenAccount(accounts.account.address)}, authority ${accounts.authority.address}`;
+    }
+    case Token2022Instruction.BurnChecked: {
+      const { accounts, data } = parseBurnCheckedInstruction(ix);
+      return `BurnChecked ${amount(data.amount, accounts.mint.address, data.decimals)} from ${tokenAccount(accounts.account.address)}, authority ${accounts.authority.address}`;
+    }
+    case Token2022Instruction.Transfer: {
+      const { accounts, data } = parseTransferInstruction(ix);
+      return `Transfer ${amount(data.amount, mintOf(accounts.source.address))} from ${tokenAccount(accounts.source.address)} to ${tokenAccount(accounts.destination.address)}, authority ${accounts.authority.address}`;
+    }
+    case Token2022Instruction.TransferChecked: {
+      const { accounts, data } = parseTransferCheckedInstruction(ix);
+      return `TransferChecked ${amount(data.amount, accounts.mint.address, data.decimals)} from ${tokenAccount(accounts.source.address)} to ${tokenAccount(accounts.destination.address)}, authority ${accounts.authority.address}`;
+    }
+    case Token2022Instruction.ApproveChecked: {
+      const { accounts, data } = parseApproveCheckedInstruction(ix);
+      return `ApproveChecked ${amount(data.amount, accounts.mint.address, data.decimals)} from ${tokenAccount(accounts.source.address)} for delegate ${accounts.delegate.address}`;
+    }
+    case Token2022Instruction.CloseAccount: {
+      const { accounts } = parseCloseAccountInstruction(ix);
+      return `CloseAccount ${tokenAccount(accounts.account.address)}, rent to ${accounts.destination.address}`;
+    }
+    case Token2022Instruction.FreezeAccount:
+    case Token2022Instruction.ThawAccount: {
+      const { accounts } =
+        type === Token2022Instruction.FreezeAccount
+          ? parseFreezeAccountInstruction(ix)
+          : parseThawAccountInstruction(ix);
+      return `${Token2022Instruction[type]} ${tokenAccount(accounts.account.address)} of mint ${accounts.mint.address}, freeze authority ${accounts.owner.address}`;
+    }
+    case Token2022Instruction.Pause:
+    case Token2022Instruction.Resume: {
+      const { accounts } =
+        type === Token2022Instruction.Pause
+          ? parsePauseInstruction(ix)
+          : parseResumeInstruction(ix);
+      return `${Token2022Instruction[type]} mint ${accounts.mint.address}, authority ${accounts.authority.address}`;
+    }
+    case Token2022Instruction.InitializeScaledUiAmountMint: {
+      const { accounts, data } =
+        parseInitializeScaledUiAmountMintInstruction(ix);
+      return `InitializeScaledUiAmount on mint ${accounts.mint.address}: multiplier ${data.multiplier}, authority ${formatOption(data.authority)}`;
+    }
+    case Token2022Instruction.UpdateMultiplierScaledUiMint: {
+      const { accounts, data } =
+        parseUpdateMultiplierScaledUiMintInstruction(ix);
+      return `UpdateMultiplier on mint ${accounts.mint.address} to ${data.multiplier} effective ${formatTimestamp(data.effectiveTimestamp)}, authority ${accounts.authority.address}`;
+    }
+    case Token2022Instruction.InitializeTransferFeeConfig: {
+      const { accounts, data } =
+        parseInitializeTransferFeeConfigInstruction(ix);
+      return `InitializeTransferFeeConfig on mint ${accounts.mint.address}: ${data.transferFeeBasisPoints} bps, maximum fee ${amount(data.maximumFee, accounts.mint.address)}, config authority ${formatOption(data.transferFeeConfigAuthority)}, withdraw authority ${formatOption(data.withdrawWithheldAuthority)}`;
+    }
+    case Token2022Instruction.SetTransferFee: {
+      const { accounts, data } = parseSetTransferFeeInstruction(ix);
+      return `SetTransferFee on mint ${accounts.mint.address} to ${data.transferFeeBasisPoints} bps, maximum fee ${amount(data.maximumFee, accounts.mint.address)}`;
+    }
+    case Token2022Instruction.HarvestWithheldTokensToMint: {
+      const { accounts } = parseHarvestWithheldTokensToMintInstruction(ix);
+      return `HarvestWithheldTokensToMint from ${ix.accounts.length - 1} account(s) to mint ${accounts.mint.address}`;
+    }
+    case Token2022Instruction.WithdrawWithheldTokensFromMint: {
+      const { accounts } = parseWithdrawWithheldTokensFromMintInstruction(ix);
+      return `WithdrawWithheldTokensFromMint of mint ${accounts.mint.address} to ${tokenAccount(accounts.feeReceiver.address)}, authority ${accounts.withdrawWithheldAuthority.address}`;
+    }
+    case Token2022Instruction.InitializeInterestBearingMint: {
+      const { accounts, data } =
+        parseInitializeInterestBearingMintInstruction(ix);
+      return `InitializeInterestBearingMint on mint ${accounts.mint.address}: ${data.rate} bps, rate authority ${data.rateAuthority}`;
+    }
+    case Token2022Instruction.UpdateRateInterestBearingMint: {
+      const { accounts, data } =
+        parseUpdateRateInterestBearingMintInstruction(ix);
+      return `UpdateRate on mint ${accounts.mint.address} to ${data.rate} bps, authority ${accounts.rateAuthority.address}`;
+    }
+    case Token2022Instruction.InitializePausableConfig: {
+      const { accounts, data } = parseInitializePausableConfigInstruction(ix);
+      return `InitializePausableConfig on mint ${accounts.mint.address}, authority ${formatOption(data.authority)}`;
+    }
+    case Token2022Instruction.InitializePermanentDelegate: {
+      const { accounts, data } =
+        parseInitializePermanentDelegateInstruction(ix);
+      return `InitializePermanentDelegate on mint ${accounts.mint.address}: ${data.delegate}`;
+    }
+    case Token2022Instruction.InitializeTransferHook:
+    case Token2022Instruction.UpdateTransferHook: {
+      if (type === Token2022Instruction.InitializeTransferHook) {
+        const { accounts, data } = parseInitializeTransferHookInstruction(ix);
+        return `InitializeTransferHook on mint ${accounts.mint.address}: program ${formatOption(data.programId)}, authority ${formatOption(data.authority)}`;
+      }
+      const { accounts, data } = parseUpdateTransferHookInstruction(ix);
+      return `UpdateTransferHook on mint ${accounts.mint.address} to program ${formatOption(data.programId)}, authority ${accounts.authority.address}`;
+    }
+    case Token2022Instruction.InitializeMetadataPointer: {
+      const { accounts, data } = parseInitializeMetadataPointerInstruction(ix);
+      return `InitializeMetadataPointer on mint ${accounts.mint.address}: metadata ${formatOption(data.metadataAddress)}, authority ${formatOption(data.authority)}`;
+    }
+    case Token2022Instruction.InitializeGroupPointer: {
+      const { accounts, data } = parseInitializeGroupPointerInstruction(ix);
+      return `InitializeGroupPointer on mint ${accounts.mint.address}: group ${formatOption(data.groupAddress)}, authority ${formatOption(data.authority)}`;
+    }
+    case Token2022Instruction.InitializeGroupMemberPointer: {
+      const { accounts, data } =
+        parseInitializeGroupMemberPointerInstruction(ix);
+      return `InitializeGroupMemberPointer on mint ${accounts.mint.address}: member ${formatOption(data.memberAddress)}, authority ${formatOption(data.authority)}`;
+    }
+    case Token2022Instruction.InitializeTokenMetadata: {
+      const data = decodeInterfaceData(ix, initializeTokenMetadataDecoder);
+      return `InitializeTokenMetadata on mint ${accountAt(ix, 2)}: name "${data.name}", symbol "${data.symbol}", uri "${data.uri}", update authority ${accountAt(ix, 1)}`;
+    }
+    case Token2022Instruction.UpdateTokenMetadataField: {
+      const data = decodeInterfaceData(ix, updateTokenMetadataFieldDecoder);
+      const field =
+        data.field.__kind === "Key"
+          ? `key "${data.field.fields[0]}"`
+          : data.field.__kind.toLowerCase();
+      return `UpdateTokenMetadataField on ${accountAt(ix, 0)}: set ${field} to "${data.value}", update authority ${accountAt(ix, 1)}`;
+    }
+    case Token2022Instruction.RemoveTokenMetadataKey: {
+      const data = decodeInterfaceData(ix, removeTokenMetadataKeyDecoder);
+      return `RemoveTokenMetadataKey on ${accountAt(ix, 0)}: key "${data.key}"${data.idempotent ? " (if present)" : ""}, update authority ${accountAt(ix, 1)}`;
+    }
+    case Token2022Instruction.UpdateTokenMetadataUpdateAuthority: {
+      const data = decodeInterfaceData(ix, updateAuthorityDecoder);
+      return `UpdateTokenMetadataUpdateAuthority on ${accountAt(ix, 0)} from ${accountAt(ix, 1)} to ${formatOption(data.newUpdateAuthority)}`;
+    }
+    case Token2022Instruction.InitializeTokenGroup: {
+      const data = decodeInterfaceData(ix, initializeTokenGroupDecoder);
+      return `InitializeTokenGroup ${accountAt(ix, 0)} for mint ${accountAt(ix, 1)}: max size ${data.maxSize}, update authority ${formatOption(data.updateAuthority)}`;
+    }
+    case Token2022Instruction.UpdateTokenGroupMaxSize: {
+      const data = decodeInterfaceData(ix, updateTokenGroupMaxSizeDecoder);
+      return `UpdateTokenGroupMaxSize of ${accountAt(ix, 0)} to ${data.maxSize}, update authority ${accountAt(ix, 1)}`;
+    }
+    case Token2022Instruction.UpdateTokenGroupUpdateAuthority: {
+      const data = decodeInterfaceData(ix, updateAuthorityDecoder);
+      return `UpdateTokenGroupUpdateAuthority of ${accountAt(ix, 0)} from ${accountAt(ix, 1)} to ${formatOption(data.newUpdateAuthority)}`;
+    }
+    case Token2022Instruction.InitializeTokenGroupMember: {
+      const { accounts } = parseInitializeTokenGroupMemberInstruction(ix);
+      return `InitializeTokenGroupMember: mint ${accounts.memberMint.address} joins group ${accounts.group.address}, group update authority ${accounts.groupUpdateAuthority.address}`;
+    }
+    default:
+      return `${Token2022Instruction[type]}: accounts ${ix.accounts.map((a) => a.address).join(", ")}`;
+  }
+};
+
+/**
+ * Describes a System instruction
+ * @param ix Decompiled instruction
+ */
+const describeSystemInstruction = (ix: DecodableInstruction) => {
+  const type = identifySystemInstruction(ix);
+  switch (type) {
+    case SystemInstruction.CreateAccount: {
+      const { accounts, data } = parseCreateAccountInstruction(ix);
+      const owner = KNOWN_PROGRAMS[data.programAddress] ?? data.programAddress;
+      return `CreateAccount ${accounts.newAccount.address} owned by ${owner}: ${data.space} bytes, ${formatLamports(data.lamports)} from ${accounts.payer.address}`;
+    }
+    case SystemInstruction.TransferSol: {
+      const { accounts, data } = parseTransferSolInstruction(ix);
+      return `Transfer ${formatLamports(data.amount)} from ${accounts.source.address} to ${accounts.destination.address}`;
+    }
+    case SystemInstruction.AdvanceNonceAccount: {
+      const { accounts } = parseAdvanceNonceAccountInstruction(ix);
+      return `AdvanceNonceAccount ${accounts.nonceAccount.address}, authority ${accounts.nonceAuthority.address}`;
+    }
+    case SystemInstruction.InitializeNonceAccount: {
+      const { accounts, data } = parseInitializeNonceAccountInstruction(ix);
+      return `InitializeNonceAccount ${accounts.nonceAccount.address}, authority ${data.nonceAuthority}`;
+    }
+    default:
+      return `${SystemInstruction[type]}: accounts ${ix.accounts.map((a) => a.address).join(", ")}`;
+  }
+};
+
+/**
+ * Describes an Associated Token instruction
+ * @param ix Decompiled instruction
+ */
+const describeAssociatedTokenInstruction = (ix: DecodableInstruction) => {
+  const type = identifyAssociatedTokenInstruction(ix);
+  if (
+    type === AssociatedTokenInstruction.CreateAssociatedToken ||
+    type === AssociatedTokenInstruction.CreateAssociatedTokenIdempotent
+  ) {
+    const { accounts } =
+      type === AssociatedTokenInstruction.CreateAssociatedToken
+        ? parseCreateAssociatedTokenInstruction(ix)
+        : parseCreateAssociatedTokenIdempotentInstruction(ix);
+    const program =
+      KNOWN_PROGRAMS[accounts.tokenProgram.address] ??
+      accounts.tokenProgram.address;
+    return `${type === AssociatedTokenInstruction.CreateAssociatedToken ? "Create" : "CreateIdempotent"} ATA ${accounts.ata.address} of ${accounts.owner.address} for mint ${accounts.mint.address} (${program}), paid by ${accounts.payer.address}`;
+  }
+  return `${AssociatedTokenInstruction[type]}: accounts ${ix.accounts.map((a) => a.address).join(", ")}`;
+};
+
+/**
+ * Describes a Compute Budget instruction
+ * @param ix Decompiled instruction
+ */
+const describeComputeBudgetInstruction = (ix: DecodableInstruction) => {
+  const type = identifyComputeBudgetInstruction(ix);
+  switch (type) {
+    case ComputeBudgetInstruction.SetComputeUnitLimit:
+      return `SetComputeUnitLimit ${parseSetComputeUnitLimitInstruction(ix).data.units} units`;
+    case ComputeBudgetInstruction.SetComputeUnitPrice:
+      return `SetComputeUnitPrice ${parseSetComputeUnitPriceInstruction(ix).data.microLamports} micro-lamports per unit`;
+    case ComputeBudgetInstruction.RequestHeapFrame:
+      return `RequestHeapFrame ${parseRequestHeapFrameInstruction(ix).data.bytes} bytes`;
+    case ComputeBudgetInstruction.SetLoadedAccountsDataSizeLimit:
+      return `SetLoadedAccountsDataSizeLimit ${parseSetLoadedAccountsDataSizeLimitInstruction(ix).data.accountDataSizeLimit} bytes`;
+    default:
+      return ComputeBudgetInstruction[type];
+  }
+};
+
+/**
+ * Describes one instruction of a known program
+ * @param ix Decompiled instruction
+ * @param context Mints and token accounts referenced by the transaction
+ */
+const describeInstruction = (
+  ix: DecodableInstruction,
+  context: AccountContext,
+) => {
+  switch (ix.programAddress) {
+    case TOKEN_2022_PROGRAM_ADDRESS:
+      return describeToken2022Instruction(ix, context);
+    case SYSTEM_PROGRAM_ADDRESS:
+      return describeSystemInstruction(ix);
+    case ASSOCIATED_TOKEN_PROGRAM_ADDRESS:
+      return describeAssociatedTokenInstruction(ix);
+    case MEMO_PROGRAM_ADDRESS:
+      return `Memo "${new TextDecoder().decode(ix.data)}"`;
+    default:
+      return describeComputeBudgetInstruction(ix);
+  }
+};
+
+/**
+ * Decodes a transaction and describes every instruction in it
+ * @param rpc RPC client for Solana network, used to read lookup tables, mints and
+ * token accounts
+ * @param text Base58 or base64 message or wire transaction
+ * @returns Explanation of the transaction
+ */
+export const explainTransaction = async (
+  rpc: Rpc<SolanaRpcApi>,
+  text: string,
+): Promise<TransactionExplanation> => {
+  const { message: compiled, signatures } = decodeTransactionText(text);
+  const lookupTables =
+    "addressTableLookups" in compiled
+      ? (compiled.addressTableLookups ?? []).map(
+          (lookup) => lookup.lookupTableAddress,
+        )
+      : [];
+  const message = decompileTransactionMessage(
+    compiled as CompiledTransactionMessage,
+    {
+      addressesByLookupTableAddress:
+        lookupTables.length > 0
+          ? await fetchLookupTableAddresses(rpc, lookupTables)
+          : undefined,
+    },
+  );
+  const instructions = message.instructions.map(
+    (ix) =>
+      ({
+        ...ix,
+        accounts: ix.accounts ?? [],
+        data: ix.data ?? new Uint8Array(),
+      }) as DecodableInstruction,
+  );
+  const context = await fetchAccountContext(rpc, instructions);
+
+  const { header, staticAccounts } = compiled;
+  const signers = staticAccounts
+    .slice(0, header.numSignerAccounts)
+    .map((address, i) => {
+      const signature = signatures?.[address];
+      return {
+        address,
+        writable:
+          i < header.numSignerAccounts - header.numReadonlySignerAccounts,
+        ...(signatures
+          ? { signed: !!signature && signature.some((byte) => byte !== 0) }
+          : {}),
+      };
+    });
+
+  const warnings: string[] = [];
+  const explained = instructions.map((ix, i) => {
+    const program = KNOWN_PROGRAMS[ix.programAddress] ?? null;
+    if (!program) {
+      warnings.push(
+        `Instruction ${i + 1} calls the unknown program ${ix.programAddress}`,
+      );
+      return {
+        programAddress: ix.programAddress,
+        program,
+        description: `Unknown program: ${ix.accounts.length} account(s), ${ix.data.length} data byte(s)`,
+      };
+    }
+    try {
+      return {
+        programAddress: ix.programAddress,
+        program,
+        description: describeInstruction(ix, context),
+      };
+    } catch (error: any) {
+      warnings.push(
+        `Instruction ${i + 1} could not be decoded as a ${program} instruction: ${error.message}`,
+      );
+      return {
+        programAddress: ix.programAddress,
+        program,
+        description: `Undecodable instruction: ${ix.data.length} data byte(s)`,
+      };
+    }
+  });
+
+  const lifetime = message.lifetimeConstraint;
+  return {
+    version: compiled.version,
+    feePayer: message.feePayer.address,
+    signers,
+    lifetime:
+      "nonce" in lifetime
+        ? {
+            nonce: lifetime.nonce,
+            nonceAccount: instructions[0].accounts[0].address,
+            nonceAuthority: instructions[0].accounts[2].address,
+          }
+        : { blockhash: lifetime.blockhash },
+    addressLookupTables: lookupTables,
+    instructions: explained,
+    warnings,
+  };
+};
+
+/**
+ * Formats an explanation as a human-readable review
+ * @param explanation Explanation of a transaction
+ * @returns Review text
+ */
+export const formatTransactionExplanation = (
+  explanation: TransactionExplanation,
+) => {
+  const { lifetime } = explanation;
+  const lines = [
+    `Fee payer: ${explanation.feePayer}`,
+    "Signers:",
+    ...explanation.signers.map(
+      ({ address, writable, signed }) =>
+        `  ${address}${writable ? " (writable)" : ""}${signed === undefined ? "" : signed ? " signed" : " not signed"}`,
+    ),
+    "nonce" in lifetime
+      ? `Lifetime: durable nonce ${lifetime.nonce} of ${lifetime.nonceAccount}, authority ${lifetime.nonceAuthority}`
+      : `Lifetime: blockhash ${lifetime.blockhash}`,
+  ];
+  if (explanation.addressLookupTables.length > 0) {
+    lines.push(`Lookup tables: ${explanation.addressLookupTables.join(", ")}`);
+  }
+  lines.push(
+    "Instructions:",
+    ...explanation.instructions.map(
+      ({ program, programAddress, description }, i) =>
+        `  ${i + 1}. [${program ?? programAddress}] ${description}`,
+    ),
+  );
+  if (explanation.warnings.length > 0) {
+    lines.push(
+      "Warnings:",
+      ...explanation.warnings.map((warning) => `  - ${warning}`),
+    );
+  }
+  return lines.join("\n");
+};
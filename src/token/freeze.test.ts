@@ -0,0 +1,126 @@
+import { describe, expect, it } from "@jest/globals";
+import { createNoopSigner } from "@solana/kit";
+import {
+  identifyToken2022Instruction,
+  Token2022Instruction,
+  TOKEN_2022_PROGRAM_ADDRESS,
+} from "@solana-program/token-2022";
+import { MEMO_PROGRAM_ADDRESS } from "gill/programs";
+import { getAssociatedTokenAccountAddress } from "gill/programs/token";
+import {
+  FREEZE_BATCH_SIZE,
+  getFreezeInstructions,
+  parseWalletList,
+  setWalletsFrozen,
+} from "./freeze";
+import { createTestRpc, testAddress } from "../testing/rpc";
+
+const MINT = testAddress(1);
+const payer = createNoopSigner(testAddress(2));
+const authority = createNoopSigner(testAddress(3));
+const wallets = Array.from({ length: 20 }, (_, i) => testAddress(10 + i));
+
+describe("parseWalletList", () => {
+  it("skips blank and comment lines and removes duplicates", () => {
+    const content = [
+      "# frozen by compliance",
+      wallets[0],
+      "",
+      `  ${wallets[1]}  `,
+      wallets[0],
+    ].join("\r\n");
+
+    expect(parseWalletList(content)).toEqual([wallets[0], wallets[1]]);
+  });
+
+  it("reports every line that is not an address", () => {
+    expect(() => parseWalletList(`${wallets[0]}\nalice\n\nbob`)).toThrow(
+      'Invalid wallet list:\n  - line 2: "alice" is not a base58 address\n  - line 4: "bob" is not a base58 address',
+    );
+  });
+});
+
+describe("getFreezeInstructions", () => {
+  it("puts the reason memo first and targets the associated token accounts", async () => {
+    const instructions = await getFreezeInstructions({
+      mint: MINT,
+      authority,
+      wallets: wallets.slice(0, 2),
+      frozen: true,
+      reason: "court order 42",
+    });
+
+    expect(instructions.map((ix) => ix.programAddress)).toEqual([
+      MEMO_PROGRAM_ADDRESS,
+      TOKEN_2022_PROGRAM_ADDRESS,
+      TOKEN_2022_PROGRAM_ADDRESS,
+    ]);
+    expect(new TextDecoder().decode(instructions[0].data)).toBe(
+      "court order 42",
+    );
+    expect(identifyToken2022Instruction(instructions[1].data!)).toBe(
+      Token2022Instruction.FreezeAccount,
+    );
+    expect(instructions[1].accounts![0].address).toBe(
+      await getAssociatedTokenAccountAddress(
+        MINT,
+        wallets[0],
+        TOKEN_2022_PROGRAM_ADDRESS,
+      ),
+    );
+  });
+
+  it("thaws without a memo when no reason is given", async () => {
+    const instructions = await getFreezeInstructions({
+      mint: MINT,
+      authority,
+      wallets: wallets.slice(0, 1),
+      frozen: false,
+    });
+
+    expect(instructions).toHaveLength(1);
+    expect(identifyToken2022Instruction(instructions[0].data!)).toBe(
+      Token2022Instruction.ThawAccount,
+    );
+  });
+});
+
+describe("setWalletsFrozen", () => {
+  const { rpc } = createTestRpc();
+  const input = {
+    rpc,
+    mint: MINT,
+    payer,
+    authority,
+    wallets,
+    frozen: true,
+    reason: "sanctions screening",
+  };
+
+  it("splits the wallets into batches that each carry the memo", async () => {
+    const txs = await setWalletsFrozen({ ...input, batchSize: 8 });
+
+    expect(txs).toHaveLength(3);
+    expect(txs[2].summary).toBe(
+      `Freeze the ${MINT} accounts of ${wallets.slice(16).join(", ")} (reason: sanctions screening)`,
+    );
+  });
+
+  it("uses the default batch size", async () => {
+    const txs = await setWalletsFrozen(input);
+
+    expect(txs).toHaveLength(Math.ceil(wallets.length / FREEZE_BATCH_SIZE));
+  });
+
+  it.each([0, -3, 1.5])("rejects a batch size of %s", async (batchSize) => {
+    await expect(setWalletsFrozen({ ...input, batchSize })).rejects.toThrow(
+      /batch size must be a positive integer/,
+    );
+  });
+
+  it("rejects batches over the transaction size limit", async () => {
+    await expect(
+      setWalletsFrozen({ ...input, batchSize: 20, reason: "x".repeat(400) }),
+    ).rejects.toThrow(/over the 1232-byte limit/);
+  });
+});
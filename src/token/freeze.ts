@@ -0,0 +1,153 @@
+/**
+ * This module provides functionality for freezing and thawing the associated token
+ * accounts of wallets, with an optional memo recording the reason on-chain.
+ */
+
+import { readFile } from "node:fs/promises";
+import {
+  Address,
+  Rpc,
+  SolanaRpcApi,
+  TransactionSigner,
+  IInstruction,
+  isAddress,
+} from "@solana/kit";
+import {
+  getFreezeAccountInstruction,
+  getThawAccountInstruction,
+  TOKEN_2022_PROGRAM_ADDRESS,
+} from "@solana-program/token-2022";
+import { getAddMemoInstruction } from "gill/programs";
+import { getAssociatedTokenAccountAddress } from "gill/programs/token";
+import {
+  compilePreparedTransaction,
+  getTransactionSize,
+  PreparedTransaction,
+  TRANSACTION_SIZE_LIMIT,
+} from "./transaction";
+
+/**
+ * Number of token accounts frozen or thawed per transaction. Each account adds about
+ * 40 bytes to the message, which leaves room for a reason memo and for wrapping the
+ * message in a Squads vault transaction.
+ */
+export const FREEZE_BATCH_SIZE = 15;
+
+/**
+ * Parses a list of wallet addresses, one per line. Blank lines and lines starting
+ * with `#` are skipped.
+ * @param content File content
+ * @returns Wallet addresses in file order, without duplicates
+ */
+export const parseWalletList = (content: string): Address[] => {
+  const issues: string[] = [];
+  const wallets = new Set<Address>();
+  content.split(/\r?\n/).forEach((text, i) => {
+    const trimmed = text.trim();
+    if (trimmed === "" || trimmed.startsWith("#")) {
+      return;
+    }
+    if (!isAddress(trimmed)) {
+      issues.push(`line ${i + 1}: "${trimmed}" is not a base58 address`);
+      return;
+    }
+    wallets.add(trimmed);
+  });
+  if (issues.length > 0) {
+    throw new Error(`Invalid wallet list:\n  - ${issues.join("\n  - ")}`);
+  }
+  return [...wallets];
+};
+
+/**
+ * Reads a list of wallet addresses from a file
+ * @param path Path to the file
+ * @returns Wallet addresses in file order, without duplicates
+ */
+export const loadWalletList = async (path: string) =>
+  parseWalletList(await readFile(path, "utf8"));
+
+/**
+ * Generates instructions that freeze or thaw the associated token accounts of wallets
+ * @param input Mint, freeze authority, wallets and the reason recorded in a memo
+ * @returns Memo instruction (when a reason is given) followed by one instruction per wallet
+ */
+export const getFreezeInstructions = async (input: {
+  mint: Address;
+  authority: TransactionSigner<string>;
+  wallets: Address[];
+  frozen: boolean;
+  reason?: string;
+}): Promise<IInstruction<string>[]> => {
+  const instructions: IInstruction<string>[] = [];
+  if (input.reason) {
+    instructions.push(getAddMemoInstruction({ memo: input.reason }));
+  }
+  for (const wallet of input.wallets) {
+    const account = await getAssociatedTokenAccountAddress(
+      input.mint,
+      wallet,
+      TOKEN_2022_PROGRAM_ADDRESS,
+    );
+    const accounts = { account, mint: input.mint, owner: input.authority };
+    instructions.push(
+      input.frozen
+        ? getFreezeAccountInstruction(accounts, {
+            programAddress: TOKEN_2022_PROGRAM_ADDRESS,
+          })
+        : getThawAccountInstruction(accounts, {
+            programAddress: TOKEN_2022_PROGRAM_ADDRESS,
+          }),
+    );
+  }
+  return instructions;
+};
+
+/**
+ * Freezes or thaws the associated token accounts of wallets, splitting them into
+ * transactions of `batchSize` accounts. Every transaction carries the reason memo.
+ * @param input Configuration including the freeze authority, wallets and reason
+ * @returns Prepared transactions, one per batch
+ */
+export const setWalletsFrozen = async (input: {
+  rpc: Rpc<SolanaRpcApi>;
+  mint: Address;
+  payer: TransactionSigner<string>;
+  authority: TransactionSigner<string>;
+  wallets: Address[];
+  frozen: boolean;
+  reason?: string;
+  batchSize?: number;
+}) => {
+  const batchSize = input.batchSize ?? FREEZE_BATCH_SIZE;
+  if (!Number.isInteger(batchSize) || batchSize < 1) {
+    throw new Error(
+      `Freeze batch size must be a positive integer, got ${batchSize}`,
+    );
+  }
+  const action = input.frozen ? "Freeze" : "Thaw";
+  const { value: latestBlockhash } = await input.rpc
+    .getLatestBlockhash()
+    .send();
+
+  const transactions: PreparedTransaction[] = [];
+  for (let i = 0; i < input.wallets.length; i += batchSize) {
+    const wallets = input.wallets.slice(i, i + batchSize);
+    const tx = compilePreparedTransaction({
+      feePayer: input.payer,
+      instructions: await getFreezeInstructions({ ...input, wallets }),
+      lifetime: latestBlockhash,
+      summary:
+        `${action} the ${input.mint} accounts of ${wallets.join(", ")}` +
+        (input.reason ? ` (reason: ${input.reason})` : ""),
+    });
+    const size = getTransactionSize(tx.transaction);
+    if (size > TRANSACTION_SIZE_LIMIT) {
+      throw new Error(
+        `A batch of ${wallets.length} accounts is ${size} bytes, over the ${TRANSACTION_SIZE_LIMIT}-byte limit; use a smaller batch size or a shorter reason`,
+      );
+    }
+    transactions.push(tx);
+  }
+  return transactions;
+};
@@ -0,0 +1,166 @@
+import { describe, expect, it } from "@jest/globals";
+import { Address, createNoopSigner, getBase58Decoder } from "@solana/kit";
+import {
+  getInitializeTokenGroupMemberInstruction,
+  parseInitializeTokenGroupMemberInstruction,
+  TOKEN_2022_PROGRAM_ADDRESS,
+} from "@solana-program/token-2022";
+import {
+  getAddGroupMemberInstructions,
+  getGroupMemberMintSpec,
+  getGroupMintSpec,
+  listGroupMembers,
+} from "./group";
+import { MintSpecError } from "./mintSpec";
+import { accountHandlers, createTestRpc, testAddress } from "../testing/rpc";
+import { decodable, mintAccount } from "../testing/token";
+
+const GROUP = testAddress(1);
+const OTHER_GROUP = testAddress(2);
+const AUTHORITY = testAddress(3);
+const FIRST = testAddress(4);
+const SECOND = testAddress(5);
+const STRAY = testAddress(6);
+
+const base = { decimals: 0, defaultAuthority: AUTHORITY };
+
+const memberMint = (group: Address, memberNumber: bigint) =>
+  mintAccount({
+    extensions: [
+      {
+        __kind: "TokenGroupMember",
+        mint: testAddress(7),
+        group,
+        memberNumber,
+      },
+    ],
+  });
+
+// A transaction in the JSON encoding of getTransaction that adds a member to a group
+const memberTransaction = (member: Address, inner = false) => {
+  const ix = {
+    programIdIndex: 0,
+    accounts: [1, 1, 2, 3, 2],
+    data: getBase58Decoder().decode(
+      getInitializeTokenGroupMemberInstruction({
+        member,
+        memberMint: member,
+        memberMintAuthority: createNoopSigner(AUTHORITY),
+        group: GROUP,
+        groupUpdateAuthority: createNoopSigner(AUTHORITY),
+      }).data,
+    ),
+  };
+  return {
+    transaction: {
+      message: {
+        accountKeys: [TOKEN_2022_PROGRAM_ADDRESS, member, AUTHORITY, GROUP],
+        instructions: inner ? [] : [ix],
+      },
+    },
+    meta: {
+      innerInstructions: inner ? [{ index: 0, instructions: [ix] }] : [],
+    },
+  };
+};
+
+describe("group mint specs", () => {
+  it("adds the group extension to the base spec", () => {
+    const spec = getGroupMintSpec(
+      { ...base, extensions: { MintCloseAuthority: {} } },
+      10n,
+    );
+
+    expect(spec.extensions).toEqual({
+      MintCloseAuthority: {},
+      TokenGroup: { maxSize: 10n },
+    });
+    expect(spec.authorities).toMatchObject({
+      Group: AUTHORITY,
+      GroupPointer: AUTHORITY,
+    });
+  });
+
+  it("adds the member extension to the base spec", () => {
+    expect(getGroupMemberMintSpec(base, GROUP).extensions).toEqual({
+      TokenGroupMember: { group: GROUP },
+    });
+  });
+
+  it("validates the resulting spec", () => {
+    expect(() => getGroupMintSpec(base, 0n)).toThrow(MintSpecError);
+    expect(() => getGroupMemberMintSpec(base, "group" as Address)).toThrow(
+      MintSpecError,
+    );
+  });
+});
+
+describe("getAddGroupMemberInstructions", () => {
+  it("initializes the member inside its own mint", () => {
+    const [ix] = getAddGroupMemberInstructions({
+      group: GROUP,
+      member: FIRST,
+      memberMintAuthority: createNoopSigner(AUTHORITY),
+      groupUpdateAuthority: createNoopSigner(testAddress(9)),
+    });
+    const { accounts } = parseInitializeTokenGroupMemberInstruction(
+      decodable(ix),
+    );
+
+    expect(accounts.member.address).toBe(FIRST);
+    expect(accounts.memberMint.address).toBe(FIRST);
+    expect(accounts.group.address).toBe(GROUP);
+    expect(accounts.groupUpdateAuthority.address).toBe(testAddress(9));
+  });
+});
+
+describe("listGroupMembers", () => {
+  const signature = (seed: number) =>
+    getBase58Decoder().decode(new Uint8Array(64).fill(seed));
+  const transactions: Record<string, unknown> = {
+    [signature(1)]: memberTransaction(SECOND),
+    [signature(2)]: memberTransaction(FIRST, true),
+    [signature(3)]: memberTransaction(STRAY),
+  };
+
+  it("finds members in the group history and orders them by number", async () => {
+    const { rpc, calls } = createTestRpc({
+      getSignaturesForAddress: () => [
+        { signature: signature(1), err: null },
+        { signature: signature(2), err: null },
+        { signature: signature(3), err: null },
+        { signature: signature(4), err: { InstructionError: [0, "Custom"] } },
+      ],
+      getTransaction: (sig: string) => transactions[sig] ?? null,
+      ...accountHandlers({
+        [FIRST]: memberMint(GROUP, 1n),
+        [SECOND]: memberMint(GROUP, 2n),
+        // Initialized for the group, but its mint now belongs to another one
+        [STRAY]: memberMint(OTHER_GROUP, 1n),
+      }),
+    });
+
+    await expect(listGroupMembers(rpc, GROUP)).resolves.toEqual([
+      { mint: FIRST, memberNumber: 1n },
+      { mint: SECOND, memberNumber: 2n },
+    ]);
+    // Failed transactions are not fetched
+    expect(
+      calls
+        .filter((c) => c.method === "getTransaction")
+        .map((c) => c.params[0]),
+    ).toEqual([signature(1), signature(2), signature(3)]);
+  });
+
+  it("ignores instructions of other programs", async () => {
+    const tx = memberTransaction(FIRST);
+    tx.transaction.message.accountKeys[0] = testAddress(8);
+    const { rpc, calls } = createTestRpc({
+      getSignaturesForAddress: () => [{ signature: signature(1), err: null }],
+      getTransaction: () => tx,
+    });
+
+    await expect(listGroupMembers(rpc, GROUP)).resolves.toEqual([]);
+    expect(calls.map((c) => c.method)).not.toContain("getMultipleAccounts");
+  });
+});
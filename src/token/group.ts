@@ -0,0 +1,219 @@
+/**
+ * This module provides functionality for Token-2022 token groups, used to model
+ * families of related tokens such as the share classes of one fund.
+ */
+
+import {
+  Address,
+  Rpc,
+  Signature,
+  SolanaRpcApi,
+  TransactionSigner,
+  IInstruction,
+  ReadonlyUint8Array,
+  getBase58Encoder,
+} from "@solana/kit";
+import {
+  fetchAllMint,
+  getInitializeTokenGroupMemberInstruction,
+  getUpdateTokenGroupMaxSizeInstruction,
+  INITIALIZE_TOKEN_GROUP_MEMBER_DISCRIMINATOR,
+  TOKEN_2022_PROGRAM_ADDRESS,
+} from "@solana-program/token-2022";
+import { MintSpec, parseMintSpec } from "./mintSpec";
+import { prepareTransaction } from "./transaction";
+
+// Maximum page size accepted by getSignaturesForAddress
+const SIGNATURE_PAGE_SIZE = 1000;
+
+// Maximum number of accounts accepted by getMultipleAccounts
+const MULTIPLE_ACCOUNTS_LIMIT = 100;
+
+/**
+ * Adds an extension to an unvalidated mint spec document and validates the result
+ * @param document Parsed JSON or YAML mint spec
+ * @param extensions Extensions to add to the document
+ * @returns Validated mint spec
+ */
+const withExtensions = (
+  document: unknown,
+  extensions: Record<string, unknown>,
+): MintSpec => {
+  const base =
+    typeof document === "object" && document !== null ? document : {};
+  const baseExtensions = (base as { extensions?: object }).extensions ?? {};
+  return parseMintSpec({
+    ...base,
+    extensions: { ...baseExtensions, ...extensions },
+  });
+};
+
+/**
+ * Builds the spec for a group mint from a base mint spec document
+ * @param document Parsed mint spec used as the template for the group mint
+ * @param maxSize Maximum number of members in the group
+ * @returns Validated mint spec with the TokenGroup extension
+ */
+export const getGroupMintSpec = (document: unknown, maxSize: bigint) =>
+  withExtensions(document, { TokenGroup: { maxSize } });
+
+/**
+ * Builds the spec for a member mint from a base mint spec document. The mint points
+ * at itself for member data; the member is initialized with `addGroupMember`.
+ * @param document Parsed mint spec used as the template for the member mint
+ * @param group Address of the group mint
+ * @returns Validated mint spec with the TokenGroupMember extension
+ */
+export const getGroupMemberMintSpec = (document: unknown, group: Address) =>
+  withExtensions(document, { TokenGroupMember: { group } });
+
+/**
+ * Generates the instruction that initializes a member mint in a group
+ * @param input Group, member mint and the authorities that must sign
+ * @returns Array containing the initialize member instruction
+ */
+export const getAddGroupMemberInstructions = (input: {
+  group: Address;
+  member: Address;
+  memberMintAuthority: TransactionSigner<string>;
+  groupUpdateAuthority: TransactionSigner<string>;
+}): IInstruction<string>[] => [
+  getInitializeTokenGroupMemberInstruction({
+    member: input.member,
+    memberMint: input.member,
+    memberMintAuthority: input.memberMintAuthority,
+    group: input.group,
+    groupUpdateAuthority: input.groupUpdateAuthority,
+  }),
+];
+
+/**
+ * Adds a member mint to a group. Both the member's mint authority and the group's
+ * update authority must sign.
+ * @param input Configuration including the group, member mint and authorities
+ * @returns Prepared transaction
+ */
+export const addGroupMember = async (input: {
+  rpc: Rpc<SolanaRpcApi>;
+  group: Address;
+  member: Address;
+  payer: TransactionSigner<string>;
+  memberMintAuthority: TransactionSigner<string>;
+  groupUpdateAuthority: TransactionSigner<string>;
+}) => {
+  const instructions = getAddGroupMemberInstructions(input);
+  return prepareTransaction({
+    rpc: input.rpc,
+    feePayer: input.payer,
+    instructions,
+    summary: `Add ${input.member} to group ${input.group}`,
+  });
+};
+
+/**
+ * Changes the maximum number of members of a group
+ * @param input Configuration including the group update authority and new max size
+ * @returns Prepared transaction
+ */
+export const updateGroupMaxSize = async (input: {
+  rpc: Rpc<SolanaRpcApi>;
+  group: Address;
+  payer: TransactionSigner<string>;
+  updateAuthority: TransactionSigner<string>;
+  maxSize: bigint;
+}) => {
+  const instructions = [
+    getUpdateTokenGroupMaxSizeInstruction({
+      group: input.group,
+      updateAuthority: input.updateAuthority,
+      maxSize: input.maxSize,
+    }),
+  ];
+  return prepareTransaction({
+    rpc: input.rpc,
+    feePayer: input.payer,
+    instructions,
+    summary: `Set the maximum size of group ${input.group} to ${input.maxSize}`,
+  });
+};
+
+const startsWith = (data: ReadonlyUint8Array, prefix: ReadonlyUint8Array) =>
+  data.length >= prefix.length && prefix.every((byte, i) => data[i] === byte);
+
+/**
+ * Lists the members of a group. Member data lives at a variable offset inside each
+ * member mint, so members are found from the InitializeMember instructions in the
+ * group's transaction history and then confirmed against their on-chain data.
+ * @param rpc RPC client for Solana network
+ * @param group Address of the group mint
+ * @returns Member mints ordered by member number
+ */
+export const listGroupMembers = async (
+  rpc: Rpc<SolanaRpcApi>,
+  group: Address,
+) => {
+  const signatures: Signature[] = [];
+  let before: Signature | undefined;
+  do {
+    const page = await rpc
+      .getSignaturesForAddress(group, { before, limit: SIGNATURE_PAGE_SIZE })
+      .send();
+    signatures.push(...page.filter((s) => !s.err).map((s) => s.signature));
+    before =
+      page.length === SIGNATURE_PAGE_SIZE
+        ? page[page.length - 1].signature
+        : undefined;
+  } while (before);
+
+  const candidates = new Set<Address>();
+  for (const signature of signatures) {
+    const tx = await rpc
+      .getTransaction(signature, {
+        encoding: "json",
+        maxSupportedTransactionVersion: 0,
+      })
+      .send();
+    if (!tx) {
+      continue;
+    }
+    const keys = [
+      ...tx.transaction.message.accountKeys,
+      ...(tx.meta?.loadedAddresses?.writable ?? []),
+      ...(tx.meta?.loadedAddresses?.readonly ?? []),
+    ];
+    const instructions = [
+      ...tx.transaction.message.instructions,
+      ...(tx.meta?.innerInstructions ?? []).flatMap((i) => i.instructions),
+    ];
+    for (const ix of instructions) {
+      if (keys[ix.programIdIndex] !== TOKEN_2022_PROGRAM_ADDRESS) {
+        continue;
+      }
+      const data = getBase58Encoder().encode(ix.data);
+      if (startsWith(data, INITIALIZE_TOKEN_GROUP_MEMBER_DISCRIMINATOR)) {
+        // Account order: member, member mint, member mint authority, group, ...
+        candidates.add(keys[ix.accounts[1]]);
+      }
+    }
+  }
+
+  const addresses = [...candidates];
+  const members: { mint: Address; memberNumber: bigint }[] = [];
+  for (let i = 0; i < addresses.length; i += MULTIPLE_ACCOUNTS_LIMIT) {
+    const mints = await fetchAllMint(
+      rpc,
+      addresses.slice(i, i + MULTIPLE_ACCOUNTS_LIMIT),
+    );
+    for (const mint of mints) {
+      if (mint.data.extensions.__option === "None") {
+        continue;
+      }
+      for (const ext of mint.data.extensions.value) {
+        if (ext.__kind === "TokenGroupMember" && ext.group === group) {
+          members.push({ mint: mint.address, memberNumber: ext.memberNumber });
+        }
+      }
+    }
+  }
+  return members.sort((a, b) => (a.memberNumber < b.memberNumber ? -1 : 1));
+};
@@ -0,0 +1,240 @@
+import { describe, expect, it } from "@jest/globals";
+import { none, some } from "@solana/kit";
+import { SYSTEM_PROGRAM_ADDRESS } from "@solana-program/system";
+import {
+  Extension,
+  TOKEN_2022_PROGRAM_ADDRESS,
+} from "@solana-program/token-2022";
+import { decodeMintReport, formatMintReport, inspectMint } from "./inspect";
+import { accountHandlers, createTestRpc, testAddress } from "../testing/rpc";
+import { mintAccount } from "../testing/token";
+
+const MINT = testAddress(1);
+const AUTHORITY = testAddress(2);
+const FEE_AUTHORITY = testAddress(3);
+const NOW = 1_700_000_000n;
+
+// Decodes a mint fixture the way inspectMint decodes a fetched account
+const report = (fields: Parameters<typeof mintAccount>[0]) => {
+  const account = mintAccount(fields);
+  return decodeMintReport(
+    MINT,
+    {
+      programAddress: account.owner,
+      data: Buffer.from(account.data[0], "base64"),
+    },
+    NOW,
+  );
+};
+
+const scaledUi = (effectiveAt: bigint): Extension => ({
+  __kind: "ScaledUiAmountConfig",
+  authority: AUTHORITY,
+  multiplier: 1.5,
+  newMultiplier: 2,
+  newMultiplierEffectiveTimestamp: effectiveAt,
+});
+
+describe("decodeMintReport", () => {
+  it("reports the base mint fields", () => {
+    expect(
+      report({
+        mintAuthority: AUTHORITY,
+        freezeAuthority: null,
+        supply: 2n ** 60n,
+        decimals: 9,
+      }),
+    ).toEqual({
+      address: MINT,
+      programAddress: TOKEN_2022_PROGRAM_ADDRESS,
+      supply: "1152921504606846976",
+      decimals: 9,
+      authorities: [
+        { role: "MintTokens", address: AUTHORITY },
+        { role: "FreezeAccount", address: null },
+      ],
+      paused: null,
+      scaledUiAmount: null,
+      transferHook: null,
+      confidentialTransfer: null,
+      metadata: null,
+      extensions: [],
+    });
+  });
+
+  it("decodes the transfer fee configuration", () => {
+    const { authorities, extensions } = report({
+      extensions: [
+        {
+          __kind: "TransferFeeConfig",
+          transferFeeConfigAuthority: FEE_AUTHORITY,
+          withdrawWithheldAuthority: AUTHORITY,
+          withheldAmount: 12n,
+          olderTransferFee: {
+            epoch: 500n,
+            maximumFee: 1_000n,
+            transferFeeBasisPoints: 50,
+          },
+          newerTransferFee: {
+            epoch: 600n,
+            maximumFee: 2n ** 64n - 1n,
+            transferFeeBasisPoints: 100,
+          },
+        },
+      ],
+    });
+
+    expect(authorities.slice(2)).toEqual([
+      { role: "TransferFeeConfig", address: FEE_AUTHORITY },
+      { role: "WithheldWithdraw", address: AUTHORITY },
+    ]);
+    expect(extensions).toEqual([
+      {
+        kind: "TransferFeeConfig",
+        fields: {
+          transferFeeConfigAuthority: FEE_AUTHORITY,
+          withdrawWithheldAuthority: AUTHORITY,
+          withheldAmount: "12",
+          olderTransferFee: {
+            epoch: "500",
+            maximumFee: "1000",
+            transferFeeBasisPoints: 50,
+          },
+          newerTransferFee: {
+            epoch: "600",
+            maximumFee: "18446744073709551615",
+            transferFeeBasisPoints: 100,
+          },
+        },
+      },
+    ]);
+  });
+
+  it("reports unset authorities stored as the zero address as null", () => {
+    const { authorities, transferHook } = report({
+      mintAuthority: null,
+      extensions: [
+        {
+          __kind: "TransferFeeConfig",
+          transferFeeConfigAuthority: SYSTEM_PROGRAM_ADDRESS,
+          withdrawWithheldAuthority: SYSTEM_PROGRAM_ADDRESS,
+          withheldAmount: 0n,
+          olderTransferFee: {
+            epoch: 0n,
+            maximumFee: 0n,
+            transferFeeBasisPoints: 0,
+          },
+          newerTransferFee: {
+            epoch: 0n,
+            maximumFee: 0n,
+            transferFeeBasisPoints: 0,
+          },
+        },
+        {
+          __kind: "MintCloseAuthority",
+          closeAuthority: SYSTEM_PROGRAM_ADDRESS,
+        },
+        { __kind: "PermanentDelegate", delegate: SYSTEM_PROGRAM_ADDRESS },
+        {
+          __kind: "TransferHook",
+          authority: SYSTEM_PROGRAM_ADDRESS,
+          programId: SYSTEM_PROGRAM_ADDRESS,
+        },
+      ],
+    });
+
+    expect(authorities).toEqual([
+      { role: "MintTokens", address: null },
+      { role: "FreezeAccount", address: null },
+      { role: "TransferFeeConfig", address: null },
+      { role: "WithheldWithdraw", address: null },
+      { role: "CloseMint", address: null },
+      { role: "PermanentDelegate", address: null },
+      { role: "TransferHookProgramId", address: null },
+    ]);
+    expect(transferHook).toEqual({ programId: null });
+  });
+
+  it("reports whether the mint is paused", () => {
+    const { paused, authorities } = report({
+      extensions: [
+        { __kind: "PausableConfig", authority: some(AUTHORITY), paused: true },
+      ],
+    });
+
+    expect(paused).toBe(true);
+    expect(authorities.at(-1)).toEqual({ role: "Pause", address: AUTHORITY });
+  });
+
+  it("tells a pending scaled UI multiplier from one in effect", () => {
+    expect(
+      report({ extensions: [scaledUi(NOW + 60n)] }).scaledUiAmount,
+    ).toEqual({
+      multiplier: 1.5,
+      newMultiplier: 2,
+      newMultiplierEffectiveTimestamp: "1700000060",
+      pending: true,
+    });
+    expect(report({ extensions: [scaledUi(NOW)] }).scaledUiAmount).toEqual({
+      multiplier: 1.5,
+      newMultiplier: 2,
+      newMultiplierEffectiveTimestamp: "1700000000",
+      pending: false,
+    });
+  });
+
+  it("decodes the token metadata", () => {
+    const { metadata, authorities } = report({
+      extensions: [
+        {
+          __kind: "MetadataPointer",
+          authority: some(AUTHORITY),
+          metadataAddress: some(MINT),
+        },
+        {
+          __kind: "TokenMetadata",
+          updateAuthority: none(),
+          mint: MINT,
+          name: "Example",
+          symbol: "EXM",
+          uri: "https://example.com/token.json",
+          additionalMetadata: new Map([["issuer", "Example Corp"]]),
+        },
+      ],
+    });
+
+    expect(metadata).toEqual({
+      name: "Example",
+      symbol: "EXM",
+      uri: "https://example.com/token.json",
+      additionalMetadata: { issuer: "Example Corp" },
+    });
+    expect(authorities.slice(2)).toEqual([
+      { role: "MetadataPointer", address: AUTHORITY },
+      { role: "Metadata", address: null },
+    ]);
+  });
+});
+
+describe("formatMintReport", () => {
+  it("marks a pending multiplier and unset authorities", () => {
+    const table = formatMintReport(
+      report({ freezeAuthority: null, extensions: [scaledUi(NOW + 60n)] }),
+    );
+
+    expect(table).toMatch(/FreezeAccount\s+\(none\)/);
+    expect(table).toContain(
+      "Effective at    1700000060 (2023-11-14T22:14:20.000Z, pending)",
+    );
+  });
+});
+
+describe("inspectMint", () => {
+  it("fails on a mint that does not exist", async () => {
+    const { rpc } = createTestRpc(accountHandlers({}));
+
+    await expect(inspectMint(rpc, MINT)).rejects.toThrow(
+      `Mint ${MINT} does not exist`,
+    );
+  });
+});
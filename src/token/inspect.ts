@@ -0,0 +1,390 @@
+/**
+ * This module decodes a mint account and every Token-2022 extension on it into a
+ * report, so the current state of a mint can be reviewed before changing it.
+ */
+
+import {
+  Address,
+  Rpc,
+  SolanaRpcApi,
+  ReadonlyUint8Array,
+  fetchEncodedAccount,
+  getBase64Decoder,
+  isOption,
+  isSome,
+  Option,
+} from "@solana/kit";
+import {
+  AccountState,
+  Extension,
+  getMintDecoder,
+  Mint,
+} from "@solana-program/token-2022";
+import { SYSTEM_PROGRAM_ADDRESS } from "@solana-program/system";
+
+/**
+ * JSON value of a decoded extension field. Integers that may exceed 2^53 are
+ * decimal strings and byte arrays (e.g. encrypted balances) are base64.
+ */
+export type ReportValue =
+  | string
+  | number
+  | boolean
+  | null
+  | ReportValue[]
+  | { [key: string]: ReportValue };
+
+/**
+ * Decoded state of a mint. Every field is JSON-serializable.
+ */
+export interface MintReport {
+  address: Address;
+  /** Program owning the mint account */
+  programAddress: Address;
+  supply: string;
+  decimals: number;
+  /** Holder of each authority role, named as in `tem set-authority` (null when unset) */
+  authorities: { role: string; address: Address | null }[];
+  /** Null when the mint has no PausableConfig extension */
+  paused: boolean | null;
+  scaledUiAmount: {
+    multiplier: number;
+    newMultiplier: number;
+    newMultiplierEffectiveTimestamp: string;
+    /** Whether the new multiplier has not taken effect yet */
+    pending: boolean;
+  } | null;
+  transferHook: { programId: Address | null } | null;
+  confidentialTransfer: {
+    autoApproveNewAccounts: boolean;
+    auditorElgamalPubkey: Address | null;
+  } | null;
+  metadata: {
+    name: string;
+    symbol: string;
+    uri: string;
+    additionalMetadata: Record<string, string>;
+  } | null;
+  /** Every extension on the mint with all of its fields, in account order */
+  extensions: { kind: string; fields: Record<string, ReportValue> }[];
+}
+
+/**
+ * Returns the address, or null for an unset authority. Authorities that are not
+ * optional in the account layout are stored as the zero address when unset.
+ * @param value Address or optional address
+ */
+const getAuthority = (value: Address | Option<Address>): Address | null => {
+  if (isOption(value)) {
+    return isSome(value) ? value.value : null;
+  }
+  return value === SYSTEM_PROGRAM_ADDRESS ? null : value;
+};
+
+/**
+ * Converts a decoded field to its JSON representation
+ * @param value Field decoded by the Token-2022 client
+ */
+const toReportValue = (value: unknown): ReportValue => {
+  if (typeof value === "bigint") {
+    return value.toString();
+  }
+  if (value instanceof Uint8Array) {
+    return getBase64Decoder().decode(value);
+  }
+  if (value instanceof Map) {
+    return Object.fromEntries(
+      [...value].map(([k, v]) => [String(k), toReportValue(v)]),
+    );
+  }
+  if (Array.isArray(value)) {
+    return value.map(toReportValue);
+  }
+  if (isOption(value)) {
+    return isSome(value) ? toReportValue(value.value) : null;
+  }
+  if (value !== null && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([k, v]) => [k, toReportValue(v)]),
+    );
+  }
+  return value as ReportValue;
+};
+
+/**
+ * Lists the authority roles of a mint and its extensions
+ * @param mint Decoded mint
+ * @param extensions Extensions of the mint
+ */
+const getAuthorities = (mint: Mint, extensions: Extension[]) => {
+  const authorities: MintReport["authorities"] = [
+    { role: "MintTokens", address: getAuthority(mint.mintAuthority) },
+    { role: "FreezeAccount", address: getAuthority(mint.freezeAuthority) },
+  ];
+  const add = (role: string, value: Address | Option<Address>) =>
+    authorities.push({ role, address: getAuthority(value) });
+
+  for (const extension of extensions) {
+    switch (extension.__kind) {
+      case "TransferFeeConfig":
+        add("TransferFeeConfig", extension.transferFeeConfigAuthority);
+        add("WithheldWithdraw", extension.withdrawWithheldAuthority);
+        break;
+      case "MintCloseAuthority":
+        add("CloseMint", extension.closeAuthority);
+        break;
+      case "ConfidentialTransferMint":
+        add("ConfidentialTransferMint", extension.authority);
+        break;
+      case "InterestBearingConfig":
+        add("InterestRate", extension.rateAuthority);
+        break;
+      case "PermanentDelegate":
+        add("PermanentDelegate", extension.delegate);
+        break;
+      case "TransferHook":
+        add("TransferHookProgramId", extension.authority);
+        break;
+      case "ConfidentialTransferFee":
+        add("ConfidentialTransferFeeConfig", extension.authority);
+        break;
+      case "MetadataPointer":
+        add("MetadataPointer", extension.authority);
+        break;
+      case "TokenMetadata":
+        add("Metadata", extension.updateAuthority);
+        break;
+      case "GroupPointer":
+        add("GroupPointer", extension.authority);
+        break;
+      case "TokenGroup":
+        add("Group", extension.updateAuthority);
+        break;
+      case "GroupMemberPointer":
+        add("GroupMemberPointer", extension.authority);
+        break;
+      case "ScaledUiAmountConfig":
+        add("ScaledUiAmount", extension.authority);
+        break;
+      case "PausableConfig":
+        add("Pause", extension.authority);
+        break;
+    }
+  }
+  return authorities;
+};
+
+/**
+ * Decodes a mint account into a report. Works on raw account bytes, so it can be
+ * run against fixtures as well as fetched accounts.
+ * @param address Address of the mint
+ * @param account Owner program and data of the mint account
+ * @param now Unix timestamp in seconds used to tell whether a new scaled UI multiplier is pending
+ * @returns Mint report
+ */
+export const decodeMintReport = (
+  address: Address,
+  account: { programAddress: Address; data: ReadonlyUint8Array },
+  now: bigint = BigInt(Math.floor(Date.now() / 1000)),
+): MintReport => {
+  const mint = getMintDecoder().decode(account.data);
+  const extensions = isSome(mint.extensions) ? mint.extensions.value : [];
+  const find = <K extends Extension["__kind"]>(kind: K) =>
+    extensions.find((e) => e.__kind === kind) as
+      Extract<Extension, { __kind: K }> | undefined;
+
+  const pausable = find("PausableConfig");
+  const scaledUi = find("ScaledUiAmountConfig");
+  const transferHook = find("TransferHook");
+  const confidential = find("ConfidentialTransferMint");
+  const metadata = find("TokenMetadata");
+
+  return {
+    address,
+    programAddress: account.programAddress,
+    supply: mint.supply.toString(),
+    decimals: mint.decimals,
+    authorities: getAuthorities(mint, extensions),
+    paused: pausable ? pausable.paused : null,
+    scaledUiAmount: scaledUi
+      ? {
+          multiplier: scaledUi.multiplier,
+          newMultiplier: scaledUi.newMultiplier,
+          newMultiplierEffectiveTimestamp:
+            scaledUi.newMultiplierEffectiveTimestamp.toString(),
+          pending: scaledUi.newMultiplierEffectiveTimestamp > now,
+        }
+      : null,
+    transferHook: transferHook
+      ? { programId: getAuthority(transferHook.programId) }
+      : null,
+    confidentialTransfer: confidential
+      ? {
+          autoApproveNewAccounts: confidential.autoApproveNewAccounts,
+          auditorElgamalPubkey: getAuthority(confidential.auditorElgamalPubkey),
+        }
+      : null,
+    metadata: metadata
+      ? {
+          name: metadata.name,
+          symbol: metadata.symbol,
+          uri: metadata.uri,
+          additionalMetadata: Object.fromEntries(metadata.additionalMetadata),
+        }
+      : null,
+    extensions: extensions.map(({ __kind, ...fields }) => ({
+      kind: __kind,
+      fields:
+        __kind === "DefaultAccountState"
+          ? { state: AccountState[(fields as { state: AccountState }).state] }
+          : (toReportValue(fields) as Record<string, ReportValue>),
+    })),
+  };
+};
+
+/**
+ * Fetches a mint account and decodes it into a report
+ * @param rpc RPC client
+ * @param mint Address of the mint
+ * @returns Mint report
+ */
+export const inspectMint = async (rpc: Rpc<SolanaRpcApi>, mint: Address) => {
+  const account = await fetchEncodedAccount(rpc, mint);
+  if (!account.exists) {
+    throw new Error(`Mint ${mint} does not exist`);
+  }
+  return decodeMintReport(mint, account);
+};
+
+/**
+ * Formats the rows of a section as aligned `label  value` lines
+ * @param title Section title
+ * @param rows Label and value of each row
+ */
+const formatSection = (title: string, rows: [string, string][]) => {
+  const width = Math.max(...rows.map(([label]) => label.length));
+  return [
+    title,
+    ...rows.map(([label, value]) => `  ${label.padEnd(width)}  ${value}`),
+  ].join("\n");
+};
+
+/**
+ * Flattens a decoded extension field into table rows, e.g. `olderTransferFee.epoch`
+ * @param label Field name
+ * @param value Field value
+ */
+const flattenValue = (
+  label: string,
+  value: ReportValue,
+): [string, string][] => {
+  if (value !== null && typeof value === "object" && !Array.isArray(value)) {
+    const entries = Object.entries(value);
+    return entries.length === 0
+      ? [[label, "(none)"]]
+      : entries.flatMap(([k, v]) => flattenValue(`${label}.${k}`, v));
+  }
+  return [[label, value === null ? "(none)" : String(value)]];
+};
+
+// Extensions shown in their own section of the table
+const SUMMARIZED_EXTENSIONS = [
+  "PausableConfig",
+  "ScaledUiAmountConfig",
+  "TransferHook",
+  "ConfidentialTransferMint",
+  "TokenMetadata",
+];
+
+/**
+ * Formats a mint report as a human-readable table
+ * @param report Mint report
+ * @returns Table text
+ */
+export const formatMintReport = (report: MintReport) => {
+  const sections = [
+    formatSection("Mint", [
+      ["Address", report.address],
+      ["Program", report.programAddress],
+      ["Supply", report.supply],
+      ["Decimals", String(report.decimals)],
+      [
+        "Extensions",
+        report.extensions.map((e) => e.kind).join(", ") || "(none)",
+      ],
+    ]),
+    formatSection(
+      "Authorities",
+      report.authorities.map(({ role, address }) => [
+        role,
+        address ?? "(none)",
+      ]),
+    ),
+  ];
+
+  if (report.paused !== null) {
+    sections.push(
+      formatSection("Pause", [["Paused", report.paused ? "yes" : "no"]]),
+    );
+  }
+  if (report.scaledUiAmount) {
+    const scaled = report.scaledUiAmount;
+    const effective = new Date(
+      Number(scaled.newMultiplierEffectiveTimestamp) * 1000,
+    ).toISOString();
+    sections.push(
+      formatSection("Scaled UI amount", [
+        ["Multiplier", String(scaled.multiplier)],
+        ["New multiplier", String(scaled.newMultiplier)],
+        [
+          "Effective at",
+          `${scaled.newMultiplierEffectiveTimestamp} (${effective}, ${scaled.pending ? "pending" : "in effect"})`,
+        ],
+      ]),
+    );
+  }
+  if (report.transferHook) {
+    sections.push(
+      formatSection("Transfer hook", [
+        ["Program", report.transferHook.programId ?? "(none)"],
+      ]),
+    );
+  }
+  if (report.confidentialTransfer) {
+    const confidential = report.confidentialTransfer;
+    sections.push(
+      formatSection("Confidential transfers", [
+        [
+          "Auto-approve new accounts",
+          confidential.autoApproveNewAccounts ? "yes" : "no",
+        ],
+        ["Auditor ElGamal key", confidential.auditorElgamalPubkey ?? "(none)"],
+      ]),
+    );
+  }
+  if (report.metadata) {
+    const metadata = report.metadata;
+    sections.push(
+      formatSection("Metadata", [
+        ["Name", metadata.name],
+        ["Symbol", metadata.symbol],
+        ["URI", metadata.uri],
+        ...Object.entries(metadata.additionalMetadata).map(
+          ([key, value]): [string, string] => [key, value],
+        ),
+      ]),
+    );
+  }
+  for (const extension of report.extensions) {
+    if (SUMMARIZED_EXTENSIONS.includes(extension.kind)) {
+      continue;
+    }
+    const rows = Object.entries(extension.fields).flatMap(([k, v]) =>
+      flattenValue(k, v),
+    );
+    sections.push(
+      rows.length > 0 ? formatSection(extension.kind, rows) : extension.kind,
+    );
+  }
+  return sections.join("\n\n");
+};
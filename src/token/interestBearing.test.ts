@@ -0,0 +1,171 @@
+import { describe, expect, it } from "@jest/globals";
+import { createNoopSigner } from "@solana/kit";
+import { parseUpdateRateInterestBearingMintInstruction } from "@solana-program/token-2022";
+import {
+  calculateInterestBearingUiAmount,
+  fetchInterestRateHistory,
+  getUpdateInterestRateInstructions,
+  InterestRateHistory,
+  projectInterestRateUpdate,
+} from "./interestBearing";
+import { accountHandlers, createTestRpc, testAddress } from "../testing/rpc";
+import { decodable, mintAccount } from "../testing/token";
+
+const MINT = testAddress(1);
+const authority = createNoopSigner(testAddress(2));
+
+// Seconds per year used by the Token-2022 program (365.24 days)
+const YEAR = 31_556_736n;
+
+const history = (
+  fields: Partial<InterestRateHistory>,
+): InterestRateHistory => ({
+  initializationTimestamp: 0n,
+  preUpdateAverageRate: 0,
+  lastUpdateTimestamp: 0n,
+  currentRate: 0,
+  ...fields,
+});
+
+describe("getUpdateInterestRateInstructions", () => {
+  it("sets the new rate signed by the rate authority", () => {
+    const [ix] = getUpdateInterestRateInstructions({
+      mint: MINT,
+      authority,
+      rate: -250,
+    });
+    const parsed = parseUpdateRateInterestBearingMintInstruction(decodable(ix));
+
+    expect(parsed.data.rate).toBe(-250);
+    expect(parsed.accounts.rateAuthority.address).toBe(authority.address);
+  });
+
+  it.each([32_768, -32_769, 1.5])("rejects a rate of %p", (rate) => {
+    expect(() =>
+      getUpdateInterestRateInstructions({ mint: MINT, authority, rate }),
+    ).toThrow(
+      `Interest rate must be an integer between -32768 and 32767 basis points, got ${rate}`,
+    );
+  });
+});
+
+describe("fetchInterestRateHistory", () => {
+  it("reads the rate history and decimals of the mint", async () => {
+    const { rpc } = createTestRpc(
+      accountHandlers({
+        [MINT]: mintAccount({
+          decimals: 4,
+          extensions: [
+            {
+              __kind: "InterestBearingConfig",
+              rateAuthority: authority.address,
+              initializationTimestamp: 100n,
+              preUpdateAverageRate: 300,
+              lastUpdateTimestamp: 200n,
+              currentRate: 400,
+            },
+          ],
+        }),
+      }),
+    );
+
+    await expect(fetchInterestRateHistory(rpc, MINT)).resolves.toEqual({
+      decimals: 4,
+      history: {
+        initializationTimestamp: 100n,
+        preUpdateAverageRate: 300,
+        lastUpdateTimestamp: 200n,
+        currentRate: 400,
+      },
+    });
+  });
+
+  it("rejects a mint without the extension", async () => {
+    const { rpc } = createTestRpc(accountHandlers({ [MINT]: mintAccount() }));
+
+    await expect(fetchInterestRateHistory(rpc, MINT)).rejects.toThrow(
+      `Mint ${MINT} has no InterestBearingConfig extension`,
+    );
+  });
+});
+
+describe("projectInterestRateUpdate", () => {
+  it("folds the current rate into a time-weighted average", () => {
+    expect(
+      projectInterestRateUpdate(
+        history({
+          preUpdateAverageRate: 500,
+          lastUpdateTimestamp: 100n,
+          currentRate: 1_000,
+        }),
+        0,
+        300n,
+      ),
+    ).toEqual(
+      history({
+        // (500 * 100 + 1000 * 200) / 300, truncated
+        preUpdateAverageRate: 833,
+        lastUpdateTimestamp: 300n,
+        currentRate: 0,
+      }),
+    );
+  });
+
+  it("truncates negative averages toward zero like the program", () => {
+    expect(
+      projectInterestRateUpdate(
+        history({
+          preUpdateAverageRate: -500,
+          lastUpdateTimestamp: 100n,
+          currentRate: -1_000,
+        }),
+        0,
+        300n,
+      ).preUpdateAverageRate,
+    ).toBe(-833);
+  });
+
+  it("takes the current rate when no time has passed since initialization", () => {
+    expect(
+      projectInterestRateUpdate(history({ currentRate: 700 }), 100, 0n),
+    ).toEqual(history({ preUpdateAverageRate: 700, currentRate: 100 }));
+  });
+
+  it("rejects an update before the last one", () => {
+    expect(() =>
+      projectInterestRateUpdate(history({ lastUpdateTimestamp: 50n }), 0, 49n),
+    ).toThrow("Update timestamp 49 is before the last rate update at 50");
+  });
+});
+
+describe("calculateInterestBearingUiAmount", () => {
+  it("compounds the rate continuously", () => {
+    // 1 token at 5% for one year grows by e^0.05
+    expect(
+      calculateInterestBearingUiAmount(
+        1_000_000n,
+        6,
+        history({ preUpdateAverageRate: 500, currentRate: 500 }),
+        YEAR,
+      ),
+    ).toBe("1.051271");
+  });
+
+  it("keeps the interest accrued before a projected rate change", () => {
+    const updated = projectInterestRateUpdate(
+      history({ currentRate: 500 }),
+      0,
+      YEAR,
+    );
+
+    expect(
+      calculateInterestBearingUiAmount(1_000_000n, 6, updated, 2n * YEAR),
+    ).toBe("1.051271");
+  });
+
+  it("shows the plain amount without interest", () => {
+    expect(
+      calculateInterestBearingUiAmount(1_234_567n, 6, history({}), YEAR),
+    ).toBe("1.234567");
+  });
+});
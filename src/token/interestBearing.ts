@@ -0,0 +1,175 @@
+/**
+ * This module provides functionality for the Token-2022 interest-bearing extension:
+ * updating the rate and projecting the UI amounts wallets will show.
+ */
+
+import {
+  Address,
+  Rpc,
+  SolanaRpcApi,
+  TransactionSigner,
+  IInstruction,
+} from "@solana/kit";
+import {
+  amountToUiAmountForInterestBearingMintWithoutSimulation,
+  fetchMint,
+  getUpdateRateInterestBearingMintInstruction,
+} from "@solana-program/token-2022";
+import { prepareTransaction } from "./transaction";
+
+/**
+ * Rate history stored in the InterestBearingConfig extension. Rates are in basis
+ * points per year and timestamps are Unix timestamps in seconds.
+ */
+export interface InterestRateHistory {
+  initializationTimestamp: bigint;
+  preUpdateAverageRate: number;
+  lastUpdateTimestamp: bigint;
+  currentRate: number;
+}
+
+/**
+ * Checks that a rate fits the signed 16-bit basis point field of the extension
+ * @param rate Interest rate in basis points
+ */
+const assertRate = (rate: number) => {
+  if (!Number.isInteger(rate) || rate < -32_768 || rate > 32_767) {
+    throw new Error(
+      `Interest rate must be an integer between -32768 and 32767 basis points, got ${rate}`,
+    );
+  }
+};
+
+/**
+ * Generates the instruction that changes the interest rate of a mint. Interest
+ * accrued so far is preserved by folding it into the average pre-update rate.
+ * @param input Mint, rate authority and new rate
+ * @returns Array containing the update rate instruction
+ */
+export const getUpdateInterestRateInstructions = (input: {
+  mint: Address;
+  authority: TransactionSigner<string>;
+  rate: number;
+}): IInstruction<string>[] => {
+  assertRate(input.rate);
+  return [
+    getUpdateRateInterestBearingMintInstruction({
+      mint: input.mint,
+      rateAuthority: input.authority,
+      rate: input.rate,
+    }),
+  ];
+};
+
+/**
+ * Changes the interest rate of a mint
+ * @param input Configuration including the rate authority and new rate
+ * @returns Prepared transaction
+ */
+export const updateInterestRate = async (input: {
+  rpc: Rpc<SolanaRpcApi>;
+  mint: Address;
+  payer: TransactionSigner<string>;
+  authority: TransactionSigner<string>;
+  rate: number;
+}) => {
+  const instructions = getUpdateInterestRateInstructions(input);
+  return prepareTransaction({
+    rpc: input.rpc,
+    feePayer: input.payer,
+    instructions,
+    summary: `Set the interest rate of ${input.mint} to ${input.rate} bps`,
+  });
+};
+
+/**
+ * Reads the decimals and rate history of an interest-bearing mint
+ * @param rpc RPC client for Solana network
+ * @param mint Address of the token mint
+ * @returns Decimals and rate history of the mint
+ */
+export const fetchInterestRateHistory = async (
+  rpc: Rpc<SolanaRpcApi>,
+  mint: Address,
+) => {
+  const account = await fetchMint(rpc, mint);
+  const extensions =
+    account.data.extensions.__option === "Some"
+      ? account.data.extensions.value
+      : [];
+  const config = extensions.find((e) => e.__kind === "InterestBearingConfig");
+  if (!config) {
+    throw new Error(`Mint ${mint} has no InterestBearingConfig extension`);
+  }
+  const history: InterestRateHistory = {
+    initializationTimestamp: config.initializationTimestamp,
+    preUpdateAverageRate: config.preUpdateAverageRate,
+    lastUpdateTimestamp: config.lastUpdateTimestamp,
+    currentRate: config.currentRate,
+  };
+  return { decimals: account.data.decimals, history };
+};
+
+/**
+ * Computes the rate history the program will store when the rate is updated. The
+ * new average pre-update rate is the time-weighted average of the previous average
+ * and the current rate, truncated to whole basis points like the on-chain program.
+ * @param history Rate history before the update
+ * @param rate New interest rate in basis points
+ * @param timestamp Unix timestamp at which the update executes
+ * @returns Rate history after the update
+ */
+export const projectInterestRateUpdate = (
+  history: InterestRateHistory,
+  rate: number,
+  timestamp: bigint,
+): InterestRateHistory => {
+  assertRate(rate);
+  if (timestamp < history.lastUpdateTimestamp) {
+    throw new Error(
+      `Update timestamp ${timestamp} is before the last rate update at ${history.lastUpdateTimestamp}`,
+    );
+  }
+  const preUpdateTimespan =
+    history.lastUpdateTimestamp - history.initializationTimestamp;
+  const postUpdateTimespan = timestamp - history.lastUpdateTimestamp;
+  const totalTimespan = preUpdateTimespan + postUpdateTimespan;
+  const preUpdateAverageRate =
+    totalTimespan === 0n
+      ? history.currentRate
+      : Number(
+          (BigInt(history.preUpdateAverageRate) * preUpdateTimespan +
+            BigInt(history.currentRate) * postUpdateTimespan) /
+            totalTimespan,
+        );
+  return {
+    initializationTimestamp: history.initializationTimestamp,
+    preUpdateAverageRate,
+    lastUpdateTimestamp: timestamp,
+    currentRate: rate,
+  };
+};
+
+/**
+ * Calculates the UI amount wallets show for a raw amount of an interest-bearing mint
+ * @param amount Raw token amount
+ * @param decimals Number of decimals of the mint
+ * @param history Rate history of the mint
+ * @param timestamp Unix timestamp at which to evaluate the amount
+ * @returns UI amount including accrued interest
+ */
+export const calculateInterestBearingUiAmount = (
+  amount: bigint,
+  decimals: number,
+  history: InterestRateHistory,
+  timestamp: bigint,
+) =>
+  amountToUiAmountForInterestBearingMintWithoutSimulation(
+    amount,
+    decimals,
+    Number(timestamp),
+    Number(history.lastUpdateTimestamp),
+    Number(history.initializationTimestamp),
+    history.preUpdateAverageRate,
+    history.currentRate,
+  );
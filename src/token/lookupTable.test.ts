@@ -0,0 +1,263 @@
+import { describe, expect, it } from "@jest/globals";
+import {
+  Address,
+  decompileTransactionMessage,
+  getAddressDecoder,
+  getCompiledTransactionMessageDecoder,
+  IInstruction,
+} from "@solana/kit";
+import { TOKEN_2022_PROGRAM_ADDRESS } from "@solana-program/token-2022";
+import {
+  ADDRESS_LOOKUP_TABLE_PROGRAM_ADDRESS,
+  findAddressLookupTablePda,
+  getAddressLookupTableEncoder,
+  parseCreateLookupTableInstruction,
+  parseDeactivateLookupTableInstruction,
+  parseExtendLookupTableInstruction,
+} from "gill/programs";
+import { getAssociatedTokenAccountAddress } from "gill/programs/token";
+import {
+  createLookupTable,
+  deactivateLookupTable,
+  extendLookupTable,
+  fetchLookupTableAddresses,
+  getCommonLookupTableAddresses,
+  LOOKUP_TABLE_EXTEND_CHUNK_SIZE,
+} from "./lookupTable";
+import { PreparedTransaction } from "./transaction";
+import {
+  accountHandlers,
+  createTestRpc,
+  encodedAccount,
+  testAddress,
+} from "../testing/rpc";
+import { decodable } from "../testing/token";
+
+const PAYER = testAddress(1);
+const VAULT = testAddress(2);
+const TABLE = testAddress(3);
+const RECENT_SLOT = 1_000n;
+
+// Distinct addresses that are not used as accounts elsewhere in the tests; testAddress
+// only yields 256 of them
+const addresses = (count: number, from = 0) =>
+  Array.from({ length: count }, (_, i) => {
+    const bytes = new Uint8Array(32).fill(0xff);
+    bytes.set([(from + i) >> 8, (from + i) & 0xff]);
+    return getAddressDecoder().decode(bytes);
+  });
+
+const tableAccount = (stored: Address[], deactivationSlot = 2n ** 64n - 1n) =>
+  encodedAccount(
+    getAddressLookupTableEncoder().encode({
+      deactivationSlot,
+      lastExtendedSlot: 0n,
+      lastExtendedSlotStartIndex: 0,
+      authority: VAULT,
+      addresses: stored,
+    }),
+    ADDRESS_LOOKUP_TABLE_PROGRAM_ADDRESS,
+  );
+
+const instructionsOf = (tx: PreparedTransaction) =>
+  decompileTransactionMessage(
+    getCompiledTransactionMessageDecoder().decode(tx.transaction.messageBytes),
+  ).instructions as IInstruction[];
+
+// Addresses added by the ExtendLookupTable instructions of each transaction
+const extendedBy = (txs: PreparedTransaction[]) =>
+  txs.map((tx) =>
+    instructionsOf(tx)
+      .filter((ix) => ix.data?.[0] === 2)
+      .flatMap(
+        (ix) => parseExtendLookupTableInstruction(decodable(ix)).data.addresses,
+      ),
+  );
+
+describe("getCommonLookupTableAddresses", () => {
+  it("lists the programs, mints, vaults and treasury accounts once", async () => {
+    const [mint, treasury] = addresses(2);
+    const listed = await getCommonLookupTableAddresses({
+      mints: [mint, mint],
+      vaults: [VAULT, treasury],
+      treasuries: [treasury],
+    });
+
+    expect(listed).toHaveLength(7);
+    expect(listed).toEqual(
+      expect.arrayContaining([
+        TOKEN_2022_PROGRAM_ADDRESS,
+        mint,
+        VAULT,
+        treasury,
+        await getAssociatedTokenAccountAddress(
+          mint,
+          treasury,
+          TOKEN_2022_PROGRAM_ADDRESS,
+        ),
+      ]),
+    );
+  });
+});
+
+describe("fetchLookupTableAddresses", () => {
+  it("returns the stored addresses by table", async () => {
+    const { rpc } = createTestRpc(
+      accountHandlers({ [TABLE]: tableAccount(addresses(3)) }),
+    );
+
+    await expect(fetchLookupTableAddresses(rpc, [TABLE])).resolves.toEqual({
+      [TABLE]: addresses(3),
+    });
+  });
+
+  it("rejects a deactivated table", async () => {
+    const { rpc } = createTestRpc(
+      accountHandlers({ [TABLE]: tableAccount(addresses(3), 50n) }),
+    );
+
+    await expect(fetchLookupTableAddresses(rpc, [TABLE])).rejects.toThrow(
+      `Lookup table ${TABLE} is deactivated`,
+    );
+  });
+});
+
+describe("createLookupTable", () => {
+  const rpcAtSlot = () => createTestRpc({ getSlot: () => RECENT_SLOT });
+
+  it("creates the table with the first chunk and extends it with the rest", async () => {
+    const { rpc, calls } = rpcAtSlot();
+    const stored = addresses(LOOKUP_TABLE_EXTEND_CHUNK_SIZE * 2 + 5);
+    const { lookupTable, transactions } = await createLookupTable({
+      rpc,
+      payer: PAYER,
+      authority: VAULT,
+      addresses: stored,
+    });
+
+    const [expected] = await findAddressLookupTablePda({
+      authority: VAULT,
+      recentSlot: RECENT_SLOT,
+    });
+    expect(lookupTable).toBe(expected);
+    expect(calls[0]).toEqual({
+      method: "getSlot",
+      params: [{ commitment: "finalized" }],
+    });
+    expect(
+      parseCreateLookupTableInstruction(
+        decodable(instructionsOf(transactions[0])[0]),
+      ).data.recentSlot,
+    ).toBe(RECENT_SLOT);
+    expect(extendedBy(transactions)).toEqual([
+      stored.slice(0, 20),
+      stored.slice(20, 40),
+      stored.slice(40),
+    ]);
+    expect(transactions.map((tx) => tx.summary)).toEqual([
+      `Create lookup table ${lookupTable} owned by ${VAULT} with 20 addresses`,
+      `Extend lookup table ${lookupTable} (part 2 of 3)`,
+      `Extend lookup table ${lookupTable} (part 3 of 3)`,
+    ]);
+  });
+
+  it("creates an empty table", async () => {
+    const { rpc } = rpcAtSlot();
+    const { lookupTable, transactions } = await createLookupTable({
+      rpc,
+      payer: PAYER,
+      authority: VAULT,
+      addresses: [],
+    });
+
+    expect(transactions.map((tx) => tx.summary)).toEqual([
+      `Create lookup table ${lookupTable} owned by ${VAULT}`,
+    ]);
+  });
+
+  it("rejects more addresses than a table holds", async () => {
+    const { rpc, calls } = rpcAtSlot();
+
+    await expect(
+      createLookupTable({
+        rpc,
+        payer: PAYER,
+        authority: VAULT,
+        addresses: Array.from({ length: 257 }, () => VAULT),
+      }),
+    ).rejects.toThrow("A lookup table holds at most 256 addresses, got 257");
+    expect(calls).toEqual([]);
+  });
+});
+
+describe("extendLookupTable", () => {
+  it("adds only the addresses the table does not hold", async () => {
+    const { rpc } = createTestRpc(
+      accountHandlers({ [TABLE]: tableAccount(addresses(2)) }),
+    );
+    const txs = await extendLookupTable({
+      rpc,
+      payer: PAYER,
+      authority: VAULT,
+      lookupTable: TABLE,
+      addresses: [...addresses(4), ...addresses(1, 3)],
+    });
+
+    expect(extendedBy(txs)).toEqual([addresses(2, 2)]);
+    expect(txs[0].summary).toBe(
+      `Extend lookup table ${TABLE} with 2 addresses`,
+    );
+  });
+
+  it("builds nothing when every address is stored", async () => {
+    const { rpc, calls } = createTestRpc(
+      accountHandlers({ [TABLE]: tableAccount(addresses(2)) }),
+    );
+
+    await expect(
+      extendLookupTable({
+        rpc,
+        payer: PAYER,
+        authority: VAULT,
+        lookupTable: TABLE,
+        addresses: addresses(2),
+      }),
+    ).resolves.toEqual([]);
+    expect(calls.map((c) => c.method)).toEqual(["getAccountInfo"]);
+  });
+
+  it("counts the stored addresses against the capacity", async () => {
+    const { rpc } = createTestRpc(
+      accountHandlers({ [TABLE]: tableAccount(addresses(250)) }),
+    );
+
+    await expect(
+      extendLookupTable({
+        rpc,
+        payer: PAYER,
+        authority: VAULT,
+        lookupTable: TABLE,
+        addresses: addresses(7, 250),
+      }),
+    ).rejects.toThrow("A lookup table holds at most 256 addresses, got 257");
+  });
+});
+
+describe("deactivateLookupTable", () => {
+  it("deactivates the table signed by its authority", async () => {
+    const { rpc } = createTestRpc();
+    const tx = await deactivateLookupTable({
+      rpc,
+      payer: PAYER,
+      authority: VAULT,
+      lookupTable: TABLE,
+    });
+
+    const parsed = parseDeactivateLookupTableInstruction(
+      decodable(instructionsOf(tx)[0]),
+    );
+    expect(parsed.accounts.address.address).toBe(TABLE);
+    expect(parsed.accounts.authority.address).toBe(VAULT);
+    expect(tx.summary).toBe(`Deactivate lookup table ${TABLE}`);
+  });
+});
@@ -0,0 +1,269 @@
+/**
+ * This module manages address lookup tables, which let version 0 transactions refer to
+ * accounts by a one-byte index instead of the full address. A table holding the
+ * accounts we use in most transactions keeps large transactions under the size limit.
+ */
+
+import {
+  Address,
+  AddressesByLookupTableAddress,
+  Rpc,
+  SolanaRpcApi,
+  IInstruction,
+  createNoopSigner,
+} from "@solana/kit";
+import {
+  ASSOCIATED_TOKEN_PROGRAM_ADDRESS,
+  TOKEN_2022_PROGRAM_ADDRESS,
+} from "@solana-program/token-2022";
+import {
+  fetchAddressLookupTable,
+  fetchAllAddressLookupTable,
+  findAddressLookupTablePda,
+  getCreateLookupTableInstruction,
+  getDeactivateLookupTableInstruction,
+  getExtendLookupTableInstruction,
+  SYSTEM_PROGRAM_ADDRESS,
+} from "gill/programs";
+import { getAssociatedTokenAccountAddress } from "gill/programs/token";
+import {
+  compilePreparedTransaction,
+  PreparedTransaction,
+  prepareTransaction,
+  TransactionOptions,
+} from "./transaction";
+
+/**
+ * Maximum number of addresses a lookup table can hold
+ */
+export const MAX_LOOKUP_TABLE_ADDRESSES = 256;
+
+/**
+ * Addresses added per ExtendLookupTable instruction, so that each transaction stays
+ * under the size limit even when it also creates the table
+ */
+export const LOOKUP_TABLE_EXTEND_CHUNK_SIZE = 20;
+
+/**
+ * Deactivation slot of a table that has not been deactivated
+ */
+const ACTIVE_DEACTIVATION_SLOT = 2n ** 64n - 1n;
+
+/**
+ * Lists the accounts most of our transactions use: the token programs, the mints, the
+ * Squads vaults and the treasury token accounts of every mint
+ * @param input Mints, Squads vault addresses and treasury owners
+ * @returns Distinct addresses to store in a lookup table
+ */
+export const getCommonLookupTableAddresses = async (input: {
+  mints: Address[];
+  vaults: Address[];
+  treasuries: Address[];
+}) => {
+  const addresses = new Set<Address>([
+    TOKEN_2022_PROGRAM_ADDRESS,
+    ASSOCIATED_TOKEN_PROGRAM_ADDRESS,
+    SYSTEM_PROGRAM_ADDRESS,
+    ...input.mints,
+    ...input.vaults,
+  ]);
+  for (const mint of input.mints) {
+    for (const treasury of input.treasuries) {
+      addresses.add(
+        await getAssociatedTokenAccountAddress(
+          mint,
+          treasury,
+          TOKEN_2022_PROGRAM_ADDRESS,
+        ),
+      );
+    }
+  }
+  return [...addresses];
+};
+
+/**
+ * Reads the addresses stored in lookup tables, in the form used to compress messages
+ * @param rpc RPC client
+ * @param lookupTables Addresses of the lookup tables
+ * @returns Stored addresses keyed by lookup table
+ */
+export const fetchLookupTableAddresses = async (
+  rpc: Rpc<SolanaRpcApi>,
+  lookupTables: Address[],
+): Promise<AddressesByLookupTableAddress> => {
+  const accounts = await fetchAllAddressLookupTable(rpc, lookupTables);
+  const addresses: AddressesByLookupTableAddress = {};
+  for (const account of accounts) {
+    if (account.data.deactivationSlot !== ACTIVE_DEACTIVATION_SLOT) {
+      throw new Error(`Lookup table ${account.address} is deactivated`);
+    }
+    addresses[account.address] = account.data.addresses;
+  }
+  return addresses;
+};
+
+/**
+ * Splits addresses into ExtendLookupTable instructions
+ * @param input Lookup table, payer, authority and addresses to add
+ * @returns One instruction per chunk of addresses
+ */
+const getExtendLookupTableInstructions = (input: {
+  lookupTable: Address;
+  payer: Address;
+  authority: Address;
+  addresses: Address[];
+}) => {
+  const instructions: IInstruction<string>[] = [];
+  for (
+    let i = 0;
+    i < input.addresses.length;
+    i += LOOKUP_TABLE_EXTEND_CHUNK_SIZE
+  ) {
+    instructions.push(
+      getExtendLookupTableInstruction({
+        address: input.lookupTable,
+        authority: createNoopSigner(input.authority),
+        payer: createNoopSigner(input.payer),
+        addresses: input.addresses.slice(i, i + LOOKUP_TABLE_EXTEND_CHUNK_SIZE),
+      }),
+    );
+  }
+  return instructions;
+};
+
+/**
+ * Rejects a table that would hold more addresses than allowed
+ */
+const checkCapacity = (count: number) => {
+  if (count > MAX_LOOKUP_TABLE_ADDRESSES) {
+    throw new Error(
+      `A lookup table holds at most ${MAX_LOOKUP_TABLE_ADDRESSES} addresses, got ${count}`,
+    );
+  }
+};
+
+/**
+ * Builds the transactions that create a lookup table and fill it. The table address is
+ * derived from the authority and a recent slot, so the first transaction must land
+ * within about 512 slots (a few minutes) of being built. The transactions share a
+ * blockhash and must execute in order.
+ * @param input Fee payer, table authority (e.g. a Squads vault) and addresses to store
+ * @returns Address of the new table and the prepared transactions
+ */
+export const createLookupTable = async (input: {
+  rpc: Rpc<SolanaRpcApi>;
+  payer: Address;
+  authority: Address;
+  addresses: Address[];
+}) => {
+  checkCapacity(input.addresses.length);
+  const recentSlot = await input.rpc
+    .getSlot({ commitment: "finalized" })
+    .send();
+  const [lookupTable, bump] = await findAddressLookupTablePda({
+    authority: input.authority,
+    recentSlot,
+  });
+  const { value: latestBlockhash } = await input.rpc
+    .getLatestBlockhash()
+    .send();
+
+  const [firstExtend, ...rest] = getExtendLookupTableInstructions({
+    ...input,
+    lookupTable,
+  });
+  const transactions: PreparedTransaction[] = [
+    compilePreparedTransaction({
+      feePayer: input.payer,
+      instructions: [
+        getCreateLookupTableInstruction({
+          address: [lookupTable, bump],
+          authority: createNoopSigner(input.authority),
+          payer: createNoopSigner(input.payer),
+          recentSlot,
+        }),
+        ...(firstExtend ? [firstExtend] : []),
+      ],
+      lifetime: latestBlockhash,
+      summary: `Create lookup table ${lookupTable} owned by ${input.authority}${firstExtend ? ` with ${Math.min(input.addresses.length, LOOKUP_TABLE_EXTEND_CHUNK_SIZE)} addresses` : ""}`,
+    }),
+  ];
+  rest.forEach((ix, i) =>
+    transactions.push(
+      compilePreparedTransaction({
+        feePayer: input.payer,
+        instructions: [ix],
+        lifetime: latestBlockhash,
+        summary: `Extend lookup table ${lookupTable} (part ${i + 2} of ${rest.length + 1})`,
+      }),
+    ),
+  );
+  return { lookupTable, transactions };
+};
+
+/**
+ * Builds the transactions that add addresses to an existing lookup table. Addresses
+ * already in the table are skipped.
+ * @param input Fee payer, table, table authority and addresses to add
+ * @returns Prepared transactions sharing a blockhash; empty when nothing is missing
+ */
+export const extendLookupTable = async (input: {
+  rpc: Rpc<SolanaRpcApi>;
+  payer: Address;
+  authority: Address;
+  lookupTable: Address;
+  addresses: Address[];
+}): Promise<PreparedTransaction[]> => {
+  const table = await fetchAddressLookupTable(input.rpc, input.lookupTable);
+  const stored = new Set(table.data.addresses);
+  const missing = [...new Set(input.addresses)].filter((a) => !stored.has(a));
+  if (missing.length === 0) {
+    return [];
+  }
+  checkCapacity(stored.size + missing.length);
+
+  const { value: latestBlockhash } = await input.rpc
+    .getLatestBlockhash()
+    .send();
+  const instructions = getExtendLookupTableInstructions({
+    ...input,
+    addresses: missing,
+  });
+  return instructions.map((ix, i) =>
+    compilePreparedTransaction({
+      feePayer: input.payer,
+      instructions: [ix],
+      lifetime: latestBlockhash,
+      summary: `Extend lookup table ${input.lookupTable} with ${missing.length} addresses${instructions.length > 1 ? ` (part ${i + 1} of ${instructions.length})` : ""}`,
+    }),
+  );
+};
+
+/**
+ * Builds the transaction that deactivates a lookup table. Once the deactivation slot
+ * leaves the slot history the table can be closed to reclaim its rent.
+ * @param input Fee payer, table, table authority and transaction options
+ * @returns Prepared transaction
+ */
+export const deactivateLookupTable = async (
+  input: {
+    rpc: Rpc<SolanaRpcApi>;
+    payer: Address;
+    authority: Address;
+    lookupTable: Address;
+  } & TransactionOptions,
+) =>
+  prepareTransaction({
+    rpc: input.rpc,
+    feePayer: input.payer,
+    instructions: [
+      getDeactivateLookupTableInstruction({
+        address: input.lookupTable,
+        authority: createNoopSigner(input.authority),
+      }),
+    ],
+    summary: `Deactivate lookup table ${input.lookupTable}`,
+    durableNonce: input.durableNonce,
+    version: input.version,
+    addressLookupTables: input.addressLookupTables,
+  });
@@ -0,0 +1,286 @@
+import { describe, expect, it } from "@jest/globals";
+import { Address, createNoopSigner, none, Option, some } from "@solana/kit";
+import { getTransferSolInstruction } from "@solana-program/system";
+import {
+  Extension,
+  getRemoveTokenMetadataKeyInstruction,
+  getUpdateTokenMetadataFieldInstruction,
+  tokenMetadataField,
+} from "@solana-program/token-2022";
+import {
+  fetchTokenMetadata,
+  formatTokenMetadataDiff,
+  getUpdateTokenMetadataInstructions,
+  planTokenMetadataUpdate,
+  TokenMetadataChanges,
+  updateTokenMetadata,
+} from "./metadata";
+import {
+  accountHandlers,
+  createTestRpc,
+  encodedAccount,
+  testAddress,
+} from "../testing/rpc";
+import { mintAccount } from "../testing/token";
+
+const MINT = testAddress(1);
+const AUTHORITY = testAddress(2);
+const payer = createNoopSigner(testAddress(3));
+const updateAuthority = createNoopSigner(AUTHORITY);
+
+// Rent-exempt minimum per byte of the test RPC; the fixture mint holds exactly the
+// minimum for its size
+const RENT_PER_BYTE = 10_000n;
+
+const metadataExtension = (
+  updateAuthority: Option<Address> = some(AUTHORITY),
+): Extension => ({
+  __kind: "TokenMetadata",
+  updateAuthority,
+  mint: MINT,
+  name: "Fund",
+  symbol: "FND",
+  uri: "https://example.com/fund.json",
+  additionalMetadata: new Map([["isin", "US0000000001"]]),
+});
+
+const metadataRpc = (extensions: Extension[] = [metadataExtension()]) =>
+  createTestRpc({
+    ...accountHandlers({ [MINT]: mintAccount({ extensions }) }),
+    getMinimumBalanceForRentExemption: (size: bigint) => size * RENT_PER_BYTE,
+  });
+
+// Plans the changes against the fixture mint
+const plan = async (changes: TokenMetadataChanges) => {
+  const { rpc } = metadataRpc();
+  const state = await fetchTokenMetadata(rpc, MINT);
+  return planTokenMetadataUpdate(
+    rpc,
+    { ...state, lamports: BigInt(state.size) * RENT_PER_BYTE },
+    changes,
+  );
+};
+
+describe("fetchTokenMetadata", () => {
+  it("reads the metadata stored in the mint", async () => {
+    const { rpc } = metadataRpc();
+    const state = await fetchTokenMetadata(rpc, MINT);
+
+    expect(state).toMatchObject({
+      mint: MINT,
+      updateAuthority: AUTHORITY,
+      metadata: {
+        name: "Fund",
+        symbol: "FND",
+        uri: "https://example.com/fund.json",
+        additionalMetadata: { isin: "US0000000001" },
+      },
+      lamports: 1_000_000n,
+    });
+    expect(state.size).toBeGreaterThan(165);
+  });
+
+  it("reports metadata that can no longer be updated", async () => {
+    const { rpc } = metadataRpc([metadataExtension(none())]);
+
+    await expect(fetchTokenMetadata(rpc, MINT)).resolves.toMatchObject({
+      updateAuthority: null,
+    });
+  });
+
+  it("rejects metadata kept in another account", async () => {
+    const { rpc } = metadataRpc([
+      {
+        __kind: "MetadataPointer",
+        authority: some(AUTHORITY),
+        metadataAddress: some(testAddress(9)),
+      },
+    ]);
+
+    await expect(fetchTokenMetadata(rpc, MINT)).rejects.toThrow(
+      `Mint ${MINT} keeps its metadata in ${testAddress(9)}, not in the mint`,
+    );
+  });
+
+  it("rejects a mint without metadata", async () => {
+    const { rpc } = metadataRpc([]);
+
+    await expect(fetchTokenMetadata(rpc, MINT)).rejects.toThrow(
+      `Mint ${MINT} has no TokenMetadata extension`,
+    );
+  });
+
+  it("rejects a missing mint and an account of another program", async () => {
+    const { rpc } = createTestRpc(
+      accountHandlers({
+        [MINT]: encodedAccount(new Uint8Array(82), AUTHORITY),
+      }),
+    );
+
+    await expect(fetchTokenMetadata(rpc, MINT)).rejects.toThrow(
+      `Mint ${MINT} is not owned by the Token-2022 program`,
+    );
+    await expect(fetchTokenMetadata(rpc, testAddress(9))).rejects.toThrow(
+      `Mint ${testAddress(9)} does not exist`,
+    );
+  });
+});
+
+describe("planTokenMetadataUpdate", () => {
+  it("tops up the rent by the growth of the metadata entry", async () => {
+    const planned = await plan({
+      name: "Fund II",
+      symbol: "FND",
+      set: { lei: "5493001KJTIIGC8Y1R12" },
+    });
+
+    expect(planned.updates).toEqual([
+      { field: "name", value: "Fund II" },
+      { field: { key: "lei" }, value: "5493001KJTIIGC8Y1R12" },
+    ]);
+    expect(planned.next).toEqual({
+      name: "Fund II",
+      symbol: "FND",
+      uri: "https://example.com/fund.json",
+      additionalMetadata: { isin: "US0000000001", lei: "5493001KJTIIGC8Y1R12" },
+    });
+    // 3 more name bytes, and a key and value of 3 and 20 bytes with their u32 lengths
+    expect(planned.sizeAfter - planned.sizeBefore).toBe(3 + 4 + 3 + 4 + 20);
+    expect(planned.rentTopUp).toBe(34n * RENT_PER_BYTE);
+  });
+
+  it("needs no top-up when the metadata shrinks", async () => {
+    const planned = await plan({ remove: ["isin", "isin"] });
+
+    expect(planned.removals).toEqual(["isin"]);
+    expect(planned.updates).toEqual([]);
+    expect(planned.sizeAfter - planned.sizeBefore).toBe(-(4 + 4 + 4 + 12));
+    expect(planned.rentTopUp).toBe(0n);
+  });
+
+  it("lists every invalid change", async () => {
+    await expect(
+      plan({
+        set: { "": "x", name: "x", cusip: "1" },
+        remove: ["cusip", "lei"],
+      }),
+    ).rejects.toThrow(
+      [
+        "Invalid metadata changes:",
+        "  - Additional metadata keys must not be empty",
+        '  - "name" is a base field, not an additional metadata key',
+        '  - "cusip" is both set and removed',
+        `  - "lei" is not in the metadata of ${MINT}`,
+      ].join("\n"),
+    );
+  });
+
+  it("treats names inherited from Object as ordinary keys", async () => {
+    const planned = await plan({ set: { constructor: "x" } });
+
+    expect(planned.updates).toEqual([
+      { field: { key: "constructor" }, value: "x" },
+    ]);
+    expect(formatTokenMetadataDiff(planned)).toContain(
+      "* constructor  (none)                         x",
+    );
+    await expect(plan({ remove: ["toString"] })).rejects.toThrow(
+      `"toString" is not in the metadata of ${MINT}`,
+    );
+  });
+
+  it("rejects changes that leave the metadata as it is", async () => {
+    await expect(
+      plan({ name: "Fund", set: { isin: "US0000000001" } }),
+    ).rejects.toThrow(
+      `The metadata of ${MINT} already matches; nothing to update`,
+    );
+  });
+});
+
+describe("getUpdateTokenMetadataInstructions", () => {
+  it("tops up the rent, then removes keys, then writes fields", async () => {
+    const planned = await plan({
+      uri: "https://example.com/v2.json",
+      set: { lei: "5493001KJTIIGC8Y1R12" },
+      remove: ["isin"],
+    });
+
+    expect(
+      getUpdateTokenMetadataInstructions({
+        mint: MINT,
+        payer,
+        updateAuthority,
+        plan: planned,
+      }),
+    ).toEqual([
+      getTransferSolInstruction({
+        source: payer,
+        destination: MINT,
+        amount: planned.rentTopUp,
+      }),
+      getRemoveTokenMetadataKeyInstruction({
+        metadata: MINT,
+        updateAuthority,
+        idempotent: false,
+        key: "isin",
+      }),
+      getUpdateTokenMetadataFieldInstruction({
+        metadata: MINT,
+        updateAuthority,
+        field: tokenMetadataField("Uri"),
+        value: "https://example.com/v2.json",
+      }),
+      getUpdateTokenMetadataFieldInstruction({
+        metadata: MINT,
+        updateAuthority,
+        field: tokenMetadataField("Key", ["lei"]),
+        value: "5493001KJTIIGC8Y1R12",
+      }),
+    ]);
+  });
+});
+
+describe("updateTokenMetadata", () => {
+  const summaryOf = async (changes: TokenMetadataChanges) => {
+    const { rpc } = createTestRpc();
+    const tx = await updateTokenMetadata({
+      rpc,
+      mint: MINT,
+      payer,
+      updateAuthority,
+      plan: await plan(changes),
+    });
+    return tx.summary;
+  };
+
+  it("summarizes the changes and the rent top-up", async () => {
+    await expect(summaryOf({ symbol: "FUND", remove: ["isin"] })).resolves.toBe(
+      `Update the metadata of ${MINT}: symbol, removed key "isin"`,
+    );
+    await expect(
+      summaryOf({ set: { lei: "5493001KJTIIGC8Y1R12" } }),
+    ).resolves.toBe(
+      `Update the metadata of ${MINT}: key "lei" (rent top-up 310000 lamports)`,
+    );
+  });
+});
+
+describe("formatTokenMetadataDiff", () => {
+  it("marks the changed fields and keys", async () => {
+    const planned = await plan({
+      uri: "https://example.com/v2.json",
+      set: { lei: "5493001KJTIIGC8Y1R12" },
+      remove: ["isin"],
+    });
+
+    expect(formatTokenMetadataDiff(planned).split("\n")).toEqual([
+      "  Field   Current                        New",
+      "  name    Fund                           Fund",
+      "  symbol  FND                            FND",
+      "* uri     https://example.com/fund.json  https://example.com/v2.json",
+      "* isin    US0000000001                   (removed)",
+      "* lei     (none)                         5493001KJTIIGC8Y1R12",
+    ]);
+  });
+});
@@ -0,0 +1,350 @@
+/**
+ * This module updates the TokenMetadata extension stored in a mint after creation:
+ * the name, symbol and uri, and additional metadata keys such as an ISIN or the hash
+ * of a legal document. When the metadata grows, the mint account is topped up so that
+ * it stays rent-exempt after the program reallocates it.
+ */
+
+import {
+  Address,
+  fetchEncodedAccount,
+  IInstruction,
+  isSome,
+  Rpc,
+  SolanaRpcApi,
+  TransactionSigner,
+} from "@solana/kit";
+import { getTransferSolInstruction } from "@solana-program/system";
+import {
+  Extension,
+  getMintDecoder,
+  getMintSize,
+  getRemoveTokenMetadataKeyInstruction,
+  getUpdateTokenMetadataFieldInstruction,
+  TOKEN_2022_PROGRAM_ADDRESS,
+  tokenMetadataField,
+} from "@solana-program/token-2022";
+import { prepareTransaction, TransactionOptions } from "./transaction";
+
+/**
+ * Metadata fields stored in the TokenMetadata extension
+ */
+export interface TokenMetadataFields {
+  name: string;
+  symbol: string;
+  uri: string;
+  additionalMetadata: Record<string, string>;
+}
+
+/**
+ * Requested metadata changes. Fields that are not given are left unchanged.
+ */
+export interface TokenMetadataChanges {
+  name?: string;
+  symbol?: string;
+  uri?: string;
+  /** Additional metadata keys to add or overwrite */
+  set?: Record<string, string>;
+  /** Additional metadata keys to remove */
+  remove?: string[];
+}
+
+/**
+ * Metadata of a mint as read from the chain, with what its account holds
+ */
+export interface TokenMetadataState {
+  mint: Address;
+  /** Null when the metadata can no longer be updated */
+  updateAuthority: Address | null;
+  metadata: TokenMetadataFields;
+  /** Size of the mint account in bytes */
+  size: number;
+  lamports: bigint;
+  // Decoded TokenMetadata extension, used to size the account after an update
+  extension: Extract<Extension, { __kind: "TokenMetadata" }>;
+}
+
+export interface TokenMetadataUpdatePlan {
+  current: TokenMetadataFields;
+  next: TokenMetadataFields;
+  /** Fields and keys written, in instruction order */
+  updates: {
+    field: "name" | "symbol" | "uri" | { key: string };
+    value: string;
+  }[];
+  removals: string[];
+  sizeBefore: number;
+  sizeAfter: number;
+  /** Lamports transferred to the mint so that it stays rent-exempt */
+  rentTopUp: bigint;
+}
+
+// Fields of the base metadata, which cannot be used as additional metadata keys
+const BASE_FIELDS = ["name", "symbol", "uri"] as const;
+
+// Value of an additional metadata key, ignoring names inherited from Object such as
+// "constructor"
+const metadataValue = (metadata: TokenMetadataFields, key: string) =>
+  Object.hasOwn(metadata.additionalMetadata, key)
+    ? metadata.additionalMetadata[key]
+    : undefined;
+
+/**
+ * Reads the TokenMetadata extension of a mint. Only metadata stored in the mint
+ * itself can be read; metadata in a separate account is rejected.
+ * @param rpc RPC client for Solana network
+ * @param mint Address of the token mint
+ * @returns Metadata, update authority, size and balance of the mint account
+ */
+export const fetchTokenMetadata = async (
+  rpc: Rpc<SolanaRpcApi>,
+  mint: Address,
+): Promise<TokenMetadataState> => {
+  const account = await fetchEncodedAccount(rpc, mint);
+  if (!account.exists) {
+    throw new Error(`Mint ${mint} does not exist`);
+  }
+  if (account.programAddress !== TOKEN_2022_PROGRAM_ADDRESS) {
+    throw new Error(`Mint ${mint} is not owned by the Token-2022 program`);
+  }
+  const { extensions } = getMintDecoder().decode(account.data);
+  const list = extensions.__option === "Some" ? extensions.value : [];
+  const extension = list.find((e) => e.__kind === "TokenMetadata");
+  if (!extension) {
+    const pointer = list.find((e) => e.__kind === "MetadataPointer");
+    throw new Error(
+      pointer && isSome(pointer.metadataAddress)
+        ? `Mint ${mint} keeps its metadata in ${pointer.metadataAddress.value}, not in the mint`
+        : `Mint ${mint} has no TokenMetadata extension`,
+    );
+  }
+  return {
+    mint,
+    updateAuthority: isSome(extension.updateAuthority)
+      ? extension.updateAuthority.value
+      : null,
+    metadata: {
+      name: extension.name,
+      symbol: extension.symbol,
+      uri: extension.uri,
+      additionalMetadata: Object.fromEntries(extension.additionalMetadata),
+    },
+    size: account.data.length,
+    lamports: account.lamports,
+    extension,
+  };
+};
+
+/**
+ * Works out the instructions and rent needed to apply metadata changes. Unchanged
+ * values are skipped; removing a missing key, or setting and removing the same key,
+ * is rejected.
+ * @param rpc RPC client for Solana network, used for the rent-exempt minimum
+ * @param state Metadata read with fetchTokenMetadata
+ * @param changes Requested changes
+ * @returns Metadata before and after, the writes and removals, and the rent top-up
+ */
+export const planTokenMetadataUpdate = async (
+  rpc: Rpc<SolanaRpcApi>,
+  state: TokenMetadataState,
+  changes: TokenMetadataChanges,
+): Promise<TokenMetadataUpdatePlan> => {
+  const current = state.metadata;
+  const set = changes.set ?? {};
+  const remove = [...new Set(changes.remove ?? [])];
+  const issues: string[] = [];
+  for (const key of [...Object.keys(set), ...remove]) {
+    if (key === "") {
+      issues.push("Additional metadata keys must not be empty");
+    } else if ((BASE_FIELDS as readonly string[]).includes(key)) {
+      issues.push(`"${key}" is a base field, not an additional metadata key`);
+    }
+  }
+  for (const key of remove) {
+    if (Object.hasOwn(set, key)) {
+      issues.push(`"${key}" is both set and removed`);
+    } else if (!Object.hasOwn(current.additionalMetadata, key)) {
+      issues.push(`"${key}" is not in the metadata of ${state.mint}`);
+    }
+  }
+  if (issues.length > 0) {
+    throw new Error(
+      `Invalid metadata changes:\n  - ${[...new Set(issues)].join("\n  - ")}`,
+    );
+  }
+
+  const updates: TokenMetadataUpdatePlan["updates"] = [];
+  for (const field of BASE_FIELDS) {
+    const value = changes[field];
+    if (value !== undefined && value !== current[field]) {
+      updates.push({ field, value });
+    }
+  }
+  for (const [key, value] of Object.entries(set)) {
+    if (metadataValue(current, key) !== value) {
+      updates.push({ field: { key }, value });
+    }
+  }
+  if (updates.length === 0 && remove.length === 0) {
+    throw new Error(
+      `The metadata of ${state.mint} already matches; nothing to update`,
+    );
+  }
+
+  const additionalMetadata = { ...current.additionalMetadata, ...set };
+  for (const key of remove) {
+    delete additionalMetadata[key];
+  }
+  const next: TokenMetadataFields = {
+    name: changes.name ?? current.name,
+    symbol: changes.symbol ?? current.symbol,
+    uri: changes.uri ?? current.uri,
+    additionalMetadata,
+  };
+
+  // The program resizes the metadata entry in place, so the account changes by the
+  // difference between the old and the new entry
+  const sizeAfter =
+    state.size +
+    getMintSize([
+      {
+        ...state.extension,
+        ...next,
+        additionalMetadata: new Map(Object.entries(next.additionalMetadata)),
+      },
+    ]) -
+    getMintSize([state.extension]);
+  const rentExempt = await rpc
+    .getMinimumBalanceForRentExemption(BigInt(sizeAfter))
+    .send();
+
+  return {
+    current,
+    next,
+    updates,
+    removals: remove,
+    sizeBefore: state.size,
+    sizeAfter,
+    rentTopUp: rentExempt > state.lamports ? rentExempt - state.lamports : 0n,
+  };
+};
+
+/**
+ * Generates the instructions of a metadata update: the rent top-up, then the key
+ * removals, then the field writes, so the account never grows past its final size
+ * @param input Mint, payer, update authority and plan
+ * @returns Instructions in execution order
+ */
+export const getUpdateTokenMetadataInstructions = (input: {
+  mint: Address;
+  payer: TransactionSigner<string>;
+  updateAuthority: TransactionSigner<string>;
+  plan: TokenMetadataUpdatePlan;
+}): IInstruction<string>[] => {
+  const instructions: IInstruction<string>[] = [];
+  if (input.plan.rentTopUp > 0n) {
+    instructions.push(
+      getTransferSolInstruction({
+        source: input.payer,
+        destination: input.mint,
+        amount: input.plan.rentTopUp,
+      }),
+    );
+  }
+  for (const key of input.plan.removals) {
+    instructions.push(
+      getRemoveTokenMetadataKeyInstruction({
+        metadata: input.mint,
+        updateAuthority: input.updateAuthority,
+        idempotent: false,
+        key,
+      }),
+    );
+  }
+  for (const { field, value } of input.plan.updates) {
+    instructions.push(
+      getUpdateTokenMetadataFieldInstruction({
+        metadata: input.mint,
+        updateAuthority: input.updateAuthority,
+        field:
+          field === "name"
+            ? tokenMetadataField("Name")
+            : field === "symbol"
+              ? tokenMetadataField("Symbol")
+              : field === "uri"
+                ? tokenMetadataField("Uri")
+                : tokenMetadataField("Key", [field.key]),
+        value,
+      }),
+    );
+  }
+  return instructions;
+};
+
+/**
+ * Updates the metadata of a mint
+ * @param input Configuration including the update authority and the plan
+ * @param options Durable nonce, message version and lookup tables
+ * @returns Prepared transaction
+ */
+export const updateTokenMetadata = async (
+  input: {
+    rpc: Rpc<SolanaRpcApi>;
+    mint: Address;
+    payer: TransactionSigner<string>;
+    updateAuthority: TransactionSigner<string>;
+    plan: TokenMetadataUpdatePlan;
+  },
+  options: TransactionOptions = {},
+) => {
+  const { plan } = input;
+  const changes = [
+    ...plan.updates.map(({ field }) =>
+      typeof field === "string" ? field : `key "${field.key}"`,
+    ),
+    ...plan.removals.map((key) => `removed key "${key}"`),
+  ];
+  return prepareTransaction({
+    rpc: input.rpc,
+    feePayer: input.payer,
+    instructions: getUpdateTokenMetadataInstructions(input),
+    summary: `Update the metadata of ${input.mint}: ${changes.join(", ")}${plan.rentTopUp > 0n ? ` (rent top-up ${plan.rentTopUp} lamports)` : ""}`,
+    ...options,
+  });
+};
+
+/**
+ * Formats the current and new metadata side by side, marking changed rows
+ * @param plan Planned update
+ * @returns Table text
+ */
+export const formatTokenMetadataDiff = (plan: TokenMetadataUpdatePlan) => {
+  const keys = [
+    ...new Set([
+      ...Object.keys(plan.current.additionalMetadata),
+      ...Object.keys(plan.next.additionalMetadata),
+    ]),
+  ];
+  const rows: [string, string, string][] = [
+    ["Field", "Current", "New"],
+    ...BASE_FIELDS.map((field): [string, string, string] => [
+      field,
+      plan.current[field],
+      plan.next[field],
+    ]),
+    ...keys.map((key): [string, string, string] => [
+      key,
+      metadataValue(plan.current, key) ?? "(none)",
+      metadataValue(plan.next, key) ?? "(removed)",
+    ]),
+  ];
+  const widths = [0, 1].map((i) =>
+    Math.max(...rows.map((row) => row[i].length)),
+  );
+  return rows
+    .map(([field, current, next], i) => {
+      const marker = i > 0 && current !== next ? "*" : " ";
+      return `${marker} ${field.padEnd(widths[0])}  ${current.padEnd(widths[1])}  ${next}`;
+    })
+    .join("\n");
+};
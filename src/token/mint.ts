@@ -7,115 +7,98 @@ import {
   Address,
   Rpc,
   SolanaRpcApi,
-  getBase58Decoder,
+  TransactionSigner,
+  IInstruction,
   createNoopSigner,
-  compileTransaction,
 } from "@solana/kit";
 import {
   getMintToInstruction,
   TOKEN_2022_PROGRAM_ADDRESS,
   getCreateAssociatedTokenIdempotentInstruction,
 } from "@solana-program/token-2022";
-import { createSolanaClient, createTransaction } from "gill";
 import { getAssociatedTokenAccountAddress } from "gill/programs/token";
-
-// Initialize Solana client for devnet
-const { rpc } = createSolanaClient({
-  urlOrMoniker: "devnet",
-});
+import { prepareTransaction, TransactionOptions } from "./transaction";
 
 /**
- * Mints tokens to a destination address's associated token account
- * @param rpc RPC client for Solana network
- * @param mint Address of the token mint
- * @param payer Address that will pay for the transaction
- * @param authority Address with minting authority
- * @param destination Address to receive the minted tokens
- * @param amount Amount of tokens to mint
- * @returns Compiled transaction message bytes
+ * Generates instructions that create the destination's associated token account if
+ * needed and mint tokens to it
+ * @param input Mint, fee payer, mint authority, destination wallet and raw amount
+ * @returns Array of instructions creating the token account and minting
  */
-async function mintTo(
-  rpc: Rpc<SolanaRpcApi>,
-  mint: Address,
-  payer: Address,
-  authority: Address,
-  destination: Address,
-  amount: bigint,
-) {
+export const getMintToInstructions = async (input: {
+  mint: Address;
+  payer: TransactionSigner<string>;
+  authority: TransactionSigner<string>;
+  destination: Address;
+  amount: bigint;
+}): Promise<IInstruction<string>[]> => {
   // Get the associated token account address for the destination
   const token = await getAssociatedTokenAccountAddress(
-    mint,
-    destination,
+    input.mint,
+    input.destination,
     TOKEN_2022_PROGRAM_ADDRESS,
   );
 
-  // Create a no-op signer for the payer
-  const payerSigner = createNoopSigner(payer);
-
   // Create instruction to ensure the associated token account exists
-  // This is only needed if the token account hasn't been created yet
+  // This is a no-op if the token account has already been created
   const createIdempotentIx = getCreateAssociatedTokenIdempotentInstruction({
-    payer: payerSigner,
+    payer: input.payer,
     ata: token,
-    mint,
-    owner: destination,
+    mint: input.mint,
+    owner: input.destination,
     tokenProgram: TOKEN_2022_PROGRAM_ADDRESS,
   });
 
-  // Create a no-op signer for the mint authority
-  const authoritySigner = createNoopSigner(authority);
-
   // Create instruction to mint tokens to the associated token account
   const mintToIx = getMintToInstruction(
     {
-      mint,
+      mint: input.mint,
       token,
-      mintAuthority: authoritySigner,
-      amount,
+      mintAuthority: input.authority,
+      amount: input.amount,
     },
     {
       programAddress: TOKEN_2022_PROGRAM_ADDRESS,
     },
   );
 
-  // Get latest blockhash for transaction
-  const { value: latestBlockhash } = await rpc.getLatestBlockhash().send();
+  return [createIdempotentIx, mintToIx];
+};
 
-  // Create and compile transaction
-  const tx = createTransaction({
-    feePayer: payer,
-    version: "legacy",
-    latestBlockhash,
-    instructions: [mintToIx],
+/**
+ * Mints tokens to a destination address's associated token account, creating the
+ * account if it does not exist yet
+ * @param rpc RPC client for Solana network
+ * @param mint Address of the token mint
+ * @param payer Address that will pay for the transaction
+ * @param authority Address with minting authority
+ * @param destination Address to receive the minted tokens
+ * @param amount Amount of tokens to mint
+ * @param options Durable nonce, message version and address lookup tables
+ * @returns Prepared transaction
+ */
+export async function mintTo(
+  rpc: Rpc<SolanaRpcApi>,
+  mint: Address,
+  payer: Address,
+  authority: Address,
+  destination: Address,
+  amount: bigint,
+  options: TransactionOptions = {},
+) {
+  const instructions = await getMintToInstructions({
+    mint,
+    payer: createNoopSigner(payer),
+    authority: createNoopSigner(authority),
+    destination,
+    amount,
   });
 
-  const compiledTx = compileTransaction(tx);
-  return getBase58Decoder().decode(compiledTx.messageBytes);
-}
-
-// Example usage
-(async () => {
-  // For quick testing you can uncomment this line to use a keypair
-  // for the payer and authority created by the solana-keygen tool
-  // loadKeypairSignerFromFile is available in the gill/node package
-  // const payer = await loadKeypairSignerFromFile();
-
-  // Test parameters
-  const payer = "DmatrEXUzjvGRQeQAUwefktx78f5a8ZU2gTUvDv6Zmca";
-  const mint = "5cxLoRgCAcPUCwwnfqmbTKVEDeq2TCaDUN3Cej39QanB";
-  const authority = "8VGGybCZ4PRpJyJKD9NWTPcuprzJR4fkziWWWAhwg5fc";
-  const destination = "8VGGybCZ4PRpJyJKD9NWTPcuprzJR4fkziWWWAhwg5fc";
-  const amount = 100_000_000n;
-
-  // Execute mint operation
-  const tx = await mintTo(
+  return prepareTransaction({
     rpc,
-    mint as Address,
-    payer as Address,
-    authority as Address,
-    destination as Address,
-    amount,
-  );
-
-  console.log(tx);
-})();
+    feePayer: payer,
+    instructions,
+    summary: `Mint ${amount} raw tokens of ${mint} to ${destination}`,
+    ...options,
+  });
+}
@@ -0,0 +1,235 @@
+import { describe, expect, it } from "@jest/globals";
+import { Address } from "@solana/kit";
+import {
+  getBackedMintSpec,
+  loadMintSpec,
+  MINT_SPEC_ROLES,
+  MintSpecError,
+  parseMintSpec,
+} from "./mintSpec";
+
+const AUTHORITY = "8VGGybCZ4PRpJyJKD9NWTPcuprzJR4fkziWWWAhwg5fc" as Address;
+const OTHER = "DmatrEXUzjvGRQeQAUwefktx78f5a8ZU2gTUvDv6Zmca" as Address;
+
+// Runs parseMintSpec and returns the issues it reports
+const issuesOf = (input: unknown) => {
+  try {
+    parseMintSpec(input);
+  } catch (error) {
+    if (error instanceof MintSpecError) {
+      return error.issues;
+    }
+    throw error;
+  }
+  throw new Error("Expected the spec to be rejected");
+};
+
+describe("parseMintSpec", () => {
+  it("resolves a minimal spec", () => {
+    const spec = parseMintSpec({ defaultAuthority: AUTHORITY });
+
+    expect(spec.decimals).toBe(0);
+    expect(spec.metadata).toBeUndefined();
+    expect(spec.extensions).toEqual({});
+    expect(spec.authorities).toEqual({
+      MintTokens: AUTHORITY,
+      FreezeAccount: AUTHORITY,
+    });
+  });
+
+  it("leaves the mint without a freeze authority when there is no default", () => {
+    const spec = parseMintSpec({ authorities: { MintTokens: AUTHORITY } });
+
+    expect(spec.authorities.FreezeAccount).toBeNull();
+  });
+
+  it("accepts an explicit null freeze authority", () => {
+    const spec = parseMintSpec({
+      defaultAuthority: AUTHORITY,
+      authorities: { FreezeAccount: null },
+    });
+
+    expect(spec.authorities.FreezeAccount).toBeNull();
+  });
+
+  it("fills the roles of enabled extensions from the default authority", () => {
+    const spec = parseMintSpec({
+      decimals: 6,
+      defaultAuthority: AUTHORITY,
+      authorities: { WithheldWithdraw: OTHER },
+      extensions: {
+        TransferFeeConfig: {
+          transferFeeBasisPoints: 50,
+          maximumFee: "5000000",
+        },
+      },
+    });
+
+    expect(spec.extensions.TransferFeeConfig).toEqual({
+      transferFeeBasisPoints: 50,
+      maximumFee: 5_000_000n,
+    });
+    expect(spec.authorities.TransferFeeConfig).toBe(AUTHORITY);
+    expect(spec.authorities.WithheldWithdraw).toBe(OTHER);
+  });
+
+  it("requires the metadata roles when metadata is set", () => {
+    expect(
+      issuesOf({
+        authorities: { MintTokens: AUTHORITY },
+        metadata: { name: "Fund A", symbol: "FUNDA", uri: "https://x/a.json" },
+      }),
+    ).toEqual([
+      "authorities.Metadata is required (or set defaultAuthority)",
+      "authorities.MetadataPointer is required (or set defaultAuthority)",
+    ]);
+  });
+
+  it.each([
+    ["NonTransferable", "TransferFeeConfig"],
+    ["NonTransferable", "TransferHook"],
+    ["ScaledUiAmountConfig", "InterestBearingConfig"],
+    ["ConfidentialTransferMint", "TransferFeeConfig"],
+  ])("rejects %s combined with %s", (first, second) => {
+    const issues = issuesOf({
+      defaultAuthority: AUTHORITY,
+      extensions: {
+        NonTransferable: first === "NonTransferable" ? {} : undefined,
+        ScaledUiAmountConfig: first === "ScaledUiAmountConfig" ? {} : undefined,
+        ConfidentialTransferMint:
+          first === "ConfidentialTransferMint" ? {} : undefined,
+        TransferFeeConfig:
+          second === "TransferFeeConfig"
+            ? { transferFeeBasisPoints: 10, maximumFee: 1 }
+            : undefined,
+        TransferHook: second === "TransferHook" ? {} : undefined,
+        InterestBearingConfig:
+          second === "InterestBearingConfig" ? { rate: 100 } : undefined,
+      },
+    });
+
+    expect(issues).toHaveLength(1);
+    expect(issues[0]).toMatch(
+      new RegExp(
+        `^extensions\\.${first} cannot be combined with extensions\\.${second}: `,
+      ),
+    );
+  });
+
+  it("rejects unknown roles and roles no extension uses", () => {
+    expect(
+      issuesOf({
+        defaultAuthority: AUTHORITY,
+        authorities: { Owner: AUTHORITY, Pause: OTHER },
+      }),
+    ).toEqual([
+      "authorities.Owner is not a recognized field",
+      "authorities.Pause is set but no enabled extension uses that role",
+    ]);
+  });
+
+  it("reports every issue together", () => {
+    expect(
+      issuesOf({
+        decimals: 300,
+        colour: "blue",
+        authorities: { MintTokens: "not-an-address" },
+        extensions: {
+          Confidential: {},
+          TransferFeeConfig: { transferFeeBasisPoints: 10_001, maximumFee: -1 },
+        },
+      }),
+    ).toEqual([
+      "spec.colour is not a recognized field",
+      "decimals must be between 0 and 255",
+      "extensions.Confidential is not a recognized field",
+      "extensions.TransferFeeConfig.transferFeeBasisPoints must be between 0 and 10000",
+      "extensions.TransferFeeConfig.maximumFee must be between 0 and 18446744073709551615",
+      "authorities.MintTokens must be a base58 address",
+      "authorities.TransferFeeConfig is required (or set defaultAuthority)",
+      "authorities.WithheldWithdraw is required (or set defaultAuthority)",
+    ]);
+  });
+
+  it("rejects frozen default account state without a freeze authority", () => {
+    expect(
+      issuesOf({
+        authorities: { MintTokens: AUTHORITY },
+        extensions: { DefaultAccountState: { state: "frozen" } },
+      }),
+    ).toEqual([
+      "extensions.DefaultAccountState.state is frozen but the mint has no FreezeAccount authority to thaw accounts",
+    ]);
+  });
+
+  it("keeps large maximum fees given as strings exact", () => {
+    const spec = parseMintSpec({
+      defaultAuthority: AUTHORITY,
+      extensions: {
+        TransferFeeConfig: {
+          transferFeeBasisPoints: 0,
+          maximumFee: "18446744073709551615",
+        },
+      },
+    });
+
+    expect(spec.extensions.TransferFeeConfig?.maximumFee).toBe(2n ** 64n - 1n);
+  });
+});
+
+describe("getBackedMintSpec", () => {
+  it("enables the backed extensions with one authority for every role", () => {
+    const spec = getBackedMintSpec(AUTHORITY, 6, {
+      name: "Fund A",
+      symbol: "FUNDA",
+      uri: "https://x/a.json",
+    });
+
+    expect(spec.decimals).toBe(6);
+    expect(spec.metadata).toEqual({
+      name: "Fund A",
+      symbol: "FUNDA",
+      uri: "https://x/a.json",
+      additionalMetadata: {},
+    });
+    expect(spec.extensions).toEqual({
+      PermanentDelegate: {},
+      DefaultAccountState: { state: "initialized" },
+      ScaledUiAmountConfig: { multiplier: 1 },
+      PausableConfig: {},
+      ConfidentialTransferMint: {
+        autoApproveNewAccounts: false,
+        auditorElgamalPubkey: null,
+      },
+      TransferHook: { programId: null },
+    });
+    expect(Object.keys(spec.authorities).sort()).toEqual(
+      [
+        "MintTokens",
+        "FreezeAccount",
+        "Metadata",
+        "MetadataPointer",
+        "PermanentDelegate",
+        "ScaledUiAmount",
+        "Pause",
+        "ConfidentialTransferMint",
+        "TransferHookProgramId",
+      ].sort(),
+    );
+    for (const role of MINT_SPEC_ROLES) {
+      if (role in spec.authorities) {
+        expect(spec.authorities[role]).toBe(AUTHORITY);
+      }
+    }
+  });
+});
+
+describe("loadMintSpec", () => {
+  it.each([
+    "examples/mint-spec.yaml",
+    "examples/transfer-fee-mint.yaml",
+    "examples/interest-bearing-mint.yaml",
+  ])("accepts %s", async (path) => {
+    await expect(loadMintSpec(path)).resolves.toHaveProperty("decimals", 6);
+  });
+});
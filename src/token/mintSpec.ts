@@ -0,0 +1,551 @@
+/**
+ * This module provides the declarative mint specification used to create Token-2022 mints.
+ * A spec lists the extensions to enable, the configuration of each one and the authority
+ * that holds every role. Specs are validated before any RPC call is made.
+ */
+
+import { readFile } from "node:fs/promises";
+import { Address, isAddress } from "@solana/kit";
+import { parse as parseYaml } from "yaml";
+
+/**
+ * Authority roles that can be assigned in a mint spec. Names match the roles accepted
+ * by `getUpdateAuthorityInstructions`.
+ */
+export const MINT_SPEC_ROLES = [
+  "MintTokens",
+  "FreezeAccount",
+  "Metadata",
+  "MetadataPointer",
+  "PermanentDelegate",
+  "ScaledUiAmount",
+  "Pause",
+  "ConfidentialTransferMint",
+  "TransferHookProgramId",
+  "TransferFeeConfig",
+  "WithheldWithdraw",
+  "InterestRate",
+  "CloseMint",
+  "GroupPointer",
+  "Group",
+  "GroupMemberPointer",
+] as const;
+
+export type MintSpecRole = (typeof MINT_SPEC_ROLES)[number];
+
+export interface MintSpecMetadata {
+  name: string;
+  symbol: string;
+  uri: string;
+  additionalMetadata: Record<string, string>;
+}
+
+export interface MintSpecExtensions {
+  PermanentDelegate?: Record<string, never>;
+  DefaultAccountState?: { state: "initialized" | "frozen" };
+  ScaledUiAmountConfig?: { multiplier: number };
+  PausableConfig?: Record<string, never>;
+  ConfidentialTransferMint?: {
+    autoApproveNewAccounts: boolean;
+    auditorElgamalPubkey: Address | null;
+  };
+  TransferHook?: { programId: Address | null };
+  TransferFeeConfig?: { transferFeeBasisPoints: number; maximumFee: bigint };
+  InterestBearingConfig?: { rate: number };
+  NonTransferable?: Record<string, never>;
+  MintCloseAuthority?: Record<string, never>;
+  TokenGroup?: { maxSize: bigint };
+  TokenGroupMember?: { group: Address };
+}
+
+export type MintSpecExtensionName = keyof MintSpecExtensions;
+
+/**
+ * A validated mint spec. Every role required by the enabled extensions has a resolved
+ * authority; `FreezeAccount` is `null` when the mint has no freeze authority.
+ */
+export interface MintSpec {
+  decimals: number;
+  metadata?: MintSpecMetadata;
+  extensions: MintSpecExtensions;
+  authorities: Partial<Record<MintSpecRole, Address>> & {
+    MintTokens: Address;
+    FreezeAccount: Address | null;
+  };
+}
+
+/**
+ * Error raised when a mint spec does not match the schema. Carries every issue found.
+ */
+export class MintSpecError extends Error {
+  constructor(readonly issues: string[]) {
+    super(`Invalid mint spec:\n${issues.map((i) => `  - ${i}`).join("\n")}`);
+    this.name = "MintSpecError";
+  }
+}
+
+// Roles that must be assigned when an extension is enabled
+const EXTENSION_ROLES: Record<MintSpecExtensionName, MintSpecRole[]> = {
+  PermanentDelegate: ["PermanentDelegate"],
+  DefaultAccountState: [],
+  ScaledUiAmountConfig: ["ScaledUiAmount"],
+  PausableConfig: ["Pause"],
+  ConfidentialTransferMint: ["ConfidentialTransferMint"],
+  TransferHook: ["TransferHookProgramId"],
+  TransferFeeConfig: ["TransferFeeConfig", "WithheldWithdraw"],
+  InterestBearingConfig: ["InterestRate"],
+  NonTransferable: [],
+  MintCloseAuthority: ["CloseMint"],
+  TokenGroup: ["GroupPointer", "Group"],
+  TokenGroupMember: ["GroupMemberPointer"],
+};
+
+// Extension pairs the Token-2022 program refuses to initialize together
+const INCOMPATIBLE_EXTENSIONS: [
+  MintSpecExtensionName,
+  MintSpecExtensionName,
+  string,
+][] = [
+  [
+    "NonTransferable",
+    "TransferFeeConfig",
+    "non-transferable tokens cannot charge transfer fees",
+  ],
+  [
+    "NonTransferable",
+    "TransferHook",
+    "non-transferable tokens never invoke a transfer hook",
+  ],
+  [
+    "ScaledUiAmountConfig",
+    "InterestBearingConfig",
+    "both extensions rescale the UI amount",
+  ],
+  [
+    "ConfidentialTransferMint",
+    "TransferFeeConfig",
+    "confidential transfers with fees require the ConfidentialTransferFee extension, which is not supported",
+  ],
+];
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/**
+ * Collects schema issues while reading fields out of an untyped document
+ */
+class SpecReader {
+  readonly issues: string[] = [];
+
+  object(path: string, value: unknown, keys: readonly string[]) {
+    if (!isObject(value)) {
+      this.issues.push(`${path} must be an object`);
+      return {};
+    }
+    for (const key of Object.keys(value)) {
+      if (!keys.includes(key)) {
+        this.issues.push(`${path}.${key} is not a recognized field`);
+      }
+    }
+    return value;
+  }
+
+  string(path: string, value: unknown) {
+    if (typeof value !== "string" || value.length === 0) {
+      this.issues.push(`${path} must be a non-empty string`);
+      return "";
+    }
+    return value;
+  }
+
+  address(path: string, value: unknown) {
+    if (typeof value !== "string" || !isAddress(value)) {
+      this.issues.push(`${path} must be a base58 address`);
+      return undefined;
+    }
+    return value;
+  }
+
+  boolean(path: string, value: unknown, fallback: boolean) {
+    if (value === undefined) {
+      return fallback;
+    }
+    if (typeof value !== "boolean") {
+      this.issues.push(`${path} must be true or false`);
+      return fallback;
+    }
+    return value;
+  }
+
+  integer(path: string, value: unknown, min: bigint, max: bigint) {
+    const text =
+      typeof value === "number" || typeof value === "bigint"
+        ? value.toString()
+        : value;
+    if (typeof text !== "string" || !/^-?\d+$/.test(text)) {
+      this.issues.push(`${path} must be an integer`);
+      return 0n;
+    }
+    const parsed = BigInt(text);
+    if (parsed < min || parsed > max) {
+      this.issues.push(`${path} must be between ${min} and ${max}`);
+    }
+    return parsed;
+  }
+
+  number(path: string, value: unknown) {
+    if (typeof value !== "number" || !Number.isFinite(value) || value <= 0) {
+      this.issues.push(`${path} must be a positive number`);
+      return 1;
+    }
+    return value;
+  }
+}
+
+const readExtensions = (reader: SpecReader, value: unknown) => {
+  const names = Object.keys(EXTENSION_ROLES);
+  const raw = reader.object("extensions", value ?? {}, names);
+  const extensions: MintSpecExtensions = {};
+  const empty = (name: string) => {
+    reader.object(`extensions.${name}`, raw[name] ?? {}, []);
+    return {};
+  };
+
+  if (raw.PermanentDelegate !== undefined) {
+    extensions.PermanentDelegate = empty("PermanentDelegate");
+  }
+  if (raw.DefaultAccountState !== undefined) {
+    const ext = reader.object(
+      "extensions.DefaultAccountState",
+      raw.DefaultAccountState,
+      ["state"],
+    );
+    const state = ext.state ?? "initialized";
+    if (state !== "initialized" && state !== "frozen") {
+      reader.issues.push(
+        `extensions.DefaultAccountState.state must be "initialized" or "frozen"`,
+      );
+    }
+    extensions.DefaultAccountState = {
+      state: state === "frozen" ? "frozen" : "initialized",
+    };
+  }
+  if (raw.ScaledUiAmountConfig !== undefined) {
+    const ext = reader.object(
+      "extensions.ScaledUiAmountConfig",
+      raw.ScaledUiAmountConfig,
+      ["multiplier"],
+    );
+    extensions.ScaledUiAmountConfig = {
+      multiplier: reader.number(
+        "extensions.ScaledUiAmountConfig.multiplier",
+        ext.multiplier ?? 1,
+      ),
+    };
+  }
+  if (raw.PausableConfig !== undefined) {
+    extensions.PausableConfig = empty("PausableConfig");
+  }
+  if (raw.ConfidentialTransferMint !== undefined) {
+    const ext = reader.object(
+      "extensions.ConfidentialTransferMint",
+      raw.ConfidentialTransferMint,
+      ["autoApproveNewAccounts", "auditorElgamalPubkey"],
+    );
+    extensions.ConfidentialTransferMint = {
+      autoApproveNewAccounts: reader.boolean(
+        "extensions.ConfidentialTransferMint.autoApproveNewAccounts",
+        ext.autoApproveNewAccounts,
+        false,
+      ),
+      auditorElgamalPubkey:
+        ext.auditorElgamalPubkey == null
+          ? null
+          : (reader.address(
+              "extensions.ConfidentialTransferMint.auditorElgamalPubkey",
+              ext.auditorElgamalPubkey,
+            ) ?? null),
+    };
+  }
+  if (raw.TransferHook !== undefined) {
+    const ext = reader.object("extensions.TransferHook", raw.TransferHook, [
+      "programId",
+    ]);
+    extensions.TransferHook = {
+      programId:
+        ext.programId == null
+          ? null
+          : (reader.address(
+              "extensions.TransferHook.programId",
+              ext.programId,
+            ) ?? null),
+    };
+  }
+  if (raw.TransferFeeConfig !== undefined) {
+    const ext = reader.object(
+      "extensions.TransferFeeConfig",
+      raw.TransferFeeConfig,
+      ["transferFeeBasisPoints", "maximumFee"],
+    );
+    extensions.TransferFeeConfig = {
+      transferFeeBasisPoints: Number(
+        reader.integer(
+          "extensions.TransferFeeConfig.transferFeeBasisPoints",
+          ext.transferFeeBasisPoints,
+          0n,
+          10_000n,
+        ),
+      ),
+      maximumFee: reader.integer(
+        "extensions.TransferFeeConfig.maximumFee",
+        ext.maximumFee,
+        0n,
+        2n ** 64n - 1n,
+      ),
+    };
+  }
+  if (raw.InterestBearingConfig !== undefined) {
+    const ext = reader.object(
+      "extensions.InterestBearingConfig",
+      raw.InterestBearingConfig,
+      ["rate"],
+    );
+    extensions.InterestBearingConfig = {
+      rate: Number(
+        reader.integer(
+          "extensions.InterestBearingConfig.rate",
+          ext.rate,
+          -32_768n,
+          32_767n,
+        ),
+      ),
+    };
+  }
+  if (raw.NonTransferable !== undefined) {
+    extensions.NonTransferable = empty("NonTransferable");
+  }
+  if (raw.MintCloseAuthority !== undefined) {
+    extensions.MintCloseAuthority = empty("MintCloseAuthority");
+  }
+  if (raw.TokenGroup !== undefined) {
+    const ext = reader.object("extensions.TokenGroup", raw.TokenGroup, [
+      "maxSize",
+    ]);
+    extensions.TokenGroup = {
+      maxSize: reader.integer(
+        "extensions.TokenGroup.maxSize",
+        ext.maxSize,
+        1n,
+        2n ** 64n - 1n,
+      ),
+    };
+  }
+  if (raw.TokenGroupMember !== undefined) {
+    const ext = reader.object(
+      "extensions.TokenGroupMember",
+      raw.TokenGroupMember,
+      ["group"],
+    );
+    const group = reader.address(
+      "extensions.TokenGroupMember.group",
+      ext.group,
+    );
+    if (group) {
+      extensions.TokenGroupMember = { group };
+    }
+  }
+  return extensions;
+};
+
+const readMetadata = (
+  reader: SpecReader,
+  value: unknown,
+): MintSpecMetadata | undefined => {
+  if (value === undefined) {
+    return undefined;
+  }
+  const raw = reader.object("metadata", value, [
+    "name",
+    "symbol",
+    "uri",
+    "additionalMetadata",
+  ]);
+  const additional = reader.object(
+    "metadata.additionalMetadata",
+    raw.additionalMetadata ?? {},
+    Object.keys(isObject(raw.additionalMetadata) ? raw.additionalMetadata : {}),
+  );
+  const additionalMetadata: Record<string, string> = {};
+  for (const [key, entry] of Object.entries(additional)) {
+    additionalMetadata[key] = reader.string(
+      `metadata.additionalMetadata.${key}`,
+      entry,
+    );
+  }
+  return {
+    name: reader.string("metadata.name", raw.name),
+    symbol: reader.string("metadata.symbol", raw.symbol),
+    uri: reader.string("metadata.uri", raw.uri),
+    additionalMetadata,
+  };
+};
+
+/**
+ * Lists the authority roles a spec must assign
+ * @param metadata Metadata section of the spec, if any
+ * @param extensions Enabled extensions
+ * @returns Required roles, without duplicates
+ */
+const getRequiredRoles = (
+  metadata: MintSpecMetadata | undefined,
+  extensions: MintSpecExtensions,
+) => {
+  const roles = new Set<MintSpecRole>(["MintTokens"]);
+  if (metadata) {
+    roles.add("Metadata");
+    roles.add("MetadataPointer");
+  }
+  for (const name of Object.keys(extensions) as MintSpecExtensionName[]) {
+    EXTENSION_ROLES[name].forEach((role) => roles.add(role));
+  }
+  return roles;
+};
+
+/**
+ * Validates an untyped document against the mint spec schema
+ * @param input Parsed JSON or YAML document
+ * @returns Validated mint spec with every required authority resolved
+ * @throws MintSpecError listing every issue found
+ */
+export const parseMintSpec = (input: unknown): MintSpec => {
+  const reader = new SpecReader();
+  const raw = reader.object("spec", input, [
+    "decimals",
+    "defaultAuthority",
+    "authorities",
+    "metadata",
+    "extensions",
+  ]);
+
+  const decimals = Number(
+    reader.integer("decimals", raw.decimals ?? 0, 0n, 255n),
+  );
+  const metadata = readMetadata(reader, raw.metadata);
+  const extensions = readExtensions(reader, raw.extensions);
+
+  const defaultAuthority =
+    raw.defaultAuthority === undefined
+      ? undefined
+      : reader.address("defaultAuthority", raw.defaultAuthority);
+
+  const rawAuthorities = reader.object(
+    "authorities",
+    raw.authorities ?? {},
+    MINT_SPEC_ROLES,
+  );
+  const requiredRoles = getRequiredRoles(metadata, extensions);
+  const authorities: Partial<Record<MintSpecRole, Address | null>> = {};
+
+  for (const role of MINT_SPEC_ROLES) {
+    const value = rawAuthorities[role];
+    if (value === null && role === "FreezeAccount") {
+      authorities.FreezeAccount = null;
+      continue;
+    }
+    if (value !== undefined) {
+      authorities[role] = reader.address(`authorities.${role}`, value);
+      if (role !== "FreezeAccount" && !requiredRoles.has(role)) {
+        reader.issues.push(
+          `authorities.${role} is set but no enabled extension uses that role`,
+        );
+      }
+      continue;
+    }
+    if (requiredRoles.has(role) || role === "FreezeAccount") {
+      authorities[role] = defaultAuthority ?? null;
+      if (!defaultAuthority && role !== "FreezeAccount") {
+        reader.issues.push(
+          `authorities.${role} is required (or set defaultAuthority)`,
+        );
+      }
+    }
+  }
+
+  for (const [first, second, reason] of INCOMPATIBLE_EXTENSIONS) {
+    if (extensions[first] && extensions[second]) {
+      reader.issues.push(
+        `extensions.${first} cannot be combined with extensions.${second}: ${reason}`,
+      );
+    }
+  }
+
+  if (
+    extensions.DefaultAccountState?.state === "frozen" &&
+    !authorities.FreezeAccount
+  ) {
+    reader.issues.push(
+      "extensions.DefaultAccountState.state is frozen but the mint has no FreezeAccount authority to thaw accounts",
+    );
+  }
+
+  if (reader.issues.length > 0) {
+    throw new MintSpecError(reader.issues);
+  }
+
+  return {
+    decimals,
+    metadata,
+    extensions,
+    authorities: authorities as MintSpec["authorities"],
+  };
+};
+
+/**
+ * Reads and validates a mint spec from a JSON or YAML file
+ * @param path Path to the spec file
+ * @returns Validated mint spec
+ */
+export const loadMintSpec = async (path: string): Promise<MintSpec> =>
+  parseMintSpec(await readMintSpecDocument(path));
+
+/**
+ * Reads a mint spec file without validating it, so callers can adjust the document
+ * (e.g. add an extension) before passing it to `parseMintSpec`
+ * @param path Path to the spec file
+ * @returns Parsed JSON or YAML document
+ */
+export const readMintSpecDocument = async (path: string): Promise<unknown> => {
+  const content = await readFile(path, "utf8");
+  return path.endsWith(".json") ? JSON.parse(content) : parseYaml(content);
+};
+
+/**
+ * Builds the spec for the default backed mint: metadata plus the permanent delegate,
+ * default account state, scaled UI amount, pausable, confidential transfer and
+ * transfer hook extensions, all held by a single authority
+ * @param authority Address that will hold every role
+ * @param decimals Number of decimal places for the token
+ * @param metadata Token metadata including name, symbol and URI
+ * @returns Mint spec
+ */
+export const getBackedMintSpec = (
+  authority: Address,
+  decimals: number,
+  metadata: { name: string; symbol: string; uri: string },
+): MintSpec =>
+  parseMintSpec({
+    decimals,
+    defaultAuthority: authority,
+    metadata,
+    extensions: {
+      PermanentDelegate: {},
+      DefaultAccountState: { state: "initialized" },
+      ScaledUiAmountConfig: { multiplier: 1 },
+      PausableConfig: {},
+      ConfidentialTransferMint: {
+        autoApproveNewAccounts: false,
+        auditorElgamalPubkey: null,
+      },
+      TransferHook: { programId: null },
+    },
+  });
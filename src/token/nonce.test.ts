@@ -0,0 +1,137 @@
+import { describe, expect, it } from "@jest/globals";
+import {
+  Address,
+  createNoopSigner,
+  getCompiledTransactionMessageDecoder,
+  Nonce,
+} from "@solana/kit";
+import {
+  getNonceEncoder,
+  getNonceSize,
+  NonceState,
+  NonceVersion,
+  parseCreateAccountInstruction,
+  parseInitializeNonceAccountInstruction,
+  SYSTEM_PROGRAM_ADDRESS,
+} from "@solana-program/system";
+import { getAddMemoInstruction } from "gill/programs";
+import { fetchDurableNonce, getCreateNonceAccountInstructions } from "./nonce";
+import { prepareTransaction } from "./transaction";
+import {
+  accountHandlers,
+  createTestRpc,
+  encodedAccount,
+  TEST_BLOCKHASH,
+  testAddress,
+} from "../testing/rpc";
+import { decodable } from "../testing/token";
+
+const NONCE_ACCOUNT = testAddress(1);
+const VAULT = testAddress(2);
+const payer = createNoopSigner(testAddress(3));
+
+const nonceAccount = (state: NonceState) =>
+  encodedAccount(
+    getNonceEncoder().encode({
+      version: NonceVersion.Current,
+      state,
+      authority: VAULT,
+      blockhash: TEST_BLOCKHASH as string as Address,
+      lamportsPerSignature: 5_000n,
+    }),
+    SYSTEM_PROGRAM_ADDRESS,
+  );
+
+const durableNonce = {
+  nonce: TEST_BLOCKHASH as string as Nonce,
+  nonceAccountAddress: NONCE_ACCOUNT,
+  nonceAuthorityAddress: VAULT,
+};
+
+describe("fetchDurableNonce", () => {
+  it("reads the nonce value and its authority", async () => {
+    const { rpc } = createTestRpc(
+      accountHandlers({
+        [NONCE_ACCOUNT]: nonceAccount(NonceState.Initialized),
+      }),
+    );
+
+    await expect(fetchDurableNonce(rpc, NONCE_ACCOUNT)).resolves.toEqual(
+      durableNonce,
+    );
+  });
+
+  it("rejects an uninitialized nonce account", async () => {
+    const { rpc } = createTestRpc(
+      accountHandlers({
+        [NONCE_ACCOUNT]: nonceAccount(NonceState.Uninitialized),
+      }),
+    );
+
+    await expect(fetchDurableNonce(rpc, NONCE_ACCOUNT)).rejects.toThrow(
+      `Nonce account ${NONCE_ACCOUNT} is not initialized`,
+    );
+  });
+});
+
+describe("getCreateNonceAccountInstructions", () => {
+  it("funds a rent-exempt nonce account and hands its authority over", async () => {
+    const { rpc, calls } = createTestRpc({
+      getMinimumBalanceForRentExemption: () => 1_447_680n,
+    });
+    const [create, initialize] = await getCreateNonceAccountInstructions({
+      rpc,
+      payer,
+      nonceAccount: createNoopSigner(NONCE_ACCOUNT),
+      authority: VAULT,
+    });
+
+    expect(calls[0].params).toEqual([BigInt(getNonceSize())]);
+    expect(parseCreateAccountInstruction(decodable(create)).data).toMatchObject(
+      {
+        lamports: 1_447_680n,
+        space: BigInt(getNonceSize()),
+        programAddress: SYSTEM_PROGRAM_ADDRESS,
+      },
+    );
+    const parsed = parseInitializeNonceAccountInstruction(
+      decodable(initialize),
+    );
+    expect(parsed.accounts.nonceAccount.address).toBe(NONCE_ACCOUNT);
+    expect(parsed.data.nonceAuthority).toBe(VAULT);
+  });
+});
+
+describe("prepareTransaction with a durable nonce", () => {
+  it("advances the nonce first and uses it instead of a blockhash", async () => {
+    const { rpc, calls } = createTestRpc();
+    const tx = await prepareTransaction({
+      rpc,
+      feePayer: payer,
+      instructions: [getAddMemoInstruction({ memo: "hello" })],
+      summary: "",
+      durableNonce,
+    });
+
+    expect(calls).toEqual([]);
+    expect(tx.lifetime).toEqual(durableNonce);
+    const message = getCompiledTransactionMessageDecoder().decode(
+      tx.transaction.messageBytes,
+    );
+    expect(message.lifetimeToken).toBe(TEST_BLOCKHASH);
+    const [advance] = message.instructions;
+    expect(message.staticAccounts[advance.programAddressIndex]).toBe(
+      SYSTEM_PROGRAM_ADDRESS,
+    );
+    // AdvanceNonceAccount: nonce account, recent blockhashes sysvar, authority
+    expect(advance.data).toEqual(new Uint8Array([4, 0, 0, 0]));
+    expect(
+      [0, 2].map((i) => message.staticAccounts[advance.accountIndices![i]]),
+    ).toEqual([NONCE_ACCOUNT, VAULT]);
+    // The nonce authority must sign
+    expect(Object.keys(tx.transaction.signatures)).toEqual([
+      payer.address,
+      VAULT,
+    ]);
+  });
+});
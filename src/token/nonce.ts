@@ -0,0 +1,115 @@
+/**
+ * This module provides durable nonce accounts, used as the lifetime of transactions
+ * that wait for multisig approval longer than a recent blockhash stays valid.
+ */
+
+import {
+  Address,
+  Nonce,
+  Rpc,
+  SolanaRpcApi,
+  TransactionSigner,
+  IInstruction,
+  generateKeyPairSigner,
+  signTransactionMessageWithSigners,
+} from "@solana/kit";
+import {
+  fetchNonce,
+  getCreateAccountInstruction,
+  getInitializeNonceAccountInstruction,
+  getNonceSize,
+  NonceState,
+  SYSTEM_PROGRAM_ADDRESS,
+} from "@solana-program/system";
+import {
+  createTransaction,
+  SendAndConfirmTransactionWithSignersFunction,
+} from "gill";
+import { DurableNonce } from "./transaction";
+
+/**
+ * Reads the current nonce value and authority of a nonce account
+ * @param rpc RPC client for Solana network
+ * @param nonceAccount Address of the nonce account
+ * @returns Durable nonce to use as a transaction lifetime
+ */
+export const fetchDurableNonce = async (
+  rpc: Rpc<SolanaRpcApi>,
+  nonceAccount: Address,
+): Promise<DurableNonce> => {
+  const account = await fetchNonce(rpc, nonceAccount);
+  if (account.data.state !== NonceState.Initialized) {
+    throw new Error(`Nonce account ${nonceAccount} is not initialized`);
+  }
+  return {
+    nonce: account.data.blockhash as string as Nonce,
+    nonceAccountAddress: nonceAccount,
+    nonceAuthorityAddress: account.data.authority,
+  };
+};
+
+/**
+ * Generates instructions that create and initialize a nonce account
+ * @param input Fee payer, new nonce account signer and the nonce authority
+ * @returns Array of instructions creating and initializing the nonce account
+ */
+export const getCreateNonceAccountInstructions = async (input: {
+  rpc: Rpc<SolanaRpcApi>;
+  payer: TransactionSigner<string>;
+  nonceAccount: TransactionSigner<string>;
+  authority: Address;
+}): Promise<IInstruction<string>[]> => {
+  const space = getNonceSize();
+  const rent = await input.rpc
+    .getMinimumBalanceForRentExemption(BigInt(space))
+    .send();
+
+  return [
+    getCreateAccountInstruction({
+      payer: input.payer,
+      newAccount: input.nonceAccount,
+      lamports: rent,
+      space,
+      programAddress: SYSTEM_PROGRAM_ADDRESS,
+    }),
+    getInitializeNonceAccountInstruction({
+      nonceAccount: input.nonceAccount.address,
+      nonceAuthority: input.authority,
+    }),
+  ];
+};
+
+/**
+ * Creates a nonce account whose nonce can only be advanced by the authority, e.g. the
+ * multisig vault that will approve the transactions using it
+ * @param rpc RPC client for Solana network
+ * @param payer Account that pays for the transaction and the rent
+ * @param authority Address that will hold the nonce authority
+ * @param sendAndConfirmTransaction Function used to send the signed transaction
+ * @returns Address of the new nonce account and the transaction signature
+ */
+export async function createNonceAccount(
+  rpc: Rpc<SolanaRpcApi>,
+  payer: TransactionSigner<string>,
+  authority: Address,
+  sendAndConfirmTransaction: SendAndConfirmTransactionWithSignersFunction,
+) {
+  const { value: latestBlockhash } = await rpc.getLatestBlockhash().send();
+  const nonceAccount = await generateKeyPairSigner();
+
+  const tx = createTransaction({
+    feePayer: payer,
+    version: "legacy",
+    latestBlockhash,
+    instructions: await getCreateNonceAccountInstructions({
+      rpc,
+      payer,
+      nonceAccount,
+      authority,
+    }),
+  });
+
+  const signedTransaction = await signTransactionMessageWithSigners(tx);
+  const signature = await sendAndConfirmTransaction(signedTransaction);
+  return { nonceAccount: nonceAccount.address, signature };
+}
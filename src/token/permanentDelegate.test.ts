@@ -0,0 +1,191 @@
+import { describe, expect, it } from "@jest/globals";
+import { createNoopSigner } from "@solana/kit";
+import {
+  parseBurnCheckedInstruction,
+  parseTransferCheckedInstruction,
+  TOKEN_2022_PROGRAM_ADDRESS,
+} from "@solana-program/token-2022";
+import { getAssociatedTokenAccountAddress } from "gill/programs/token";
+import {
+  clawback,
+  forceBurn,
+  getClawbackInstructions,
+  getForcedBurnInstructions,
+} from "./permanentDelegate";
+import { accountHandlers, createTestRpc, testAddress } from "../testing/rpc";
+import { decodable, mintAccount, tokenAccount } from "../testing/token";
+
+const MINT = testAddress(1);
+const payer = createNoopSigner(testAddress(2));
+const delegate = createNoopSigner(testAddress(3));
+const HOLDER = testAddress(4);
+const TREASURY = testAddress(5);
+
+const setup = async (
+  options: { delegate?: typeof delegate.address; balance?: bigint } = {},
+) => {
+  const source = await getAssociatedTokenAccountAddress(
+    MINT,
+    HOLDER,
+    TOKEN_2022_PROGRAM_ADDRESS,
+  );
+  return createTestRpc(
+    accountHandlers({
+      [MINT]: mintAccount({
+        decimals: 2,
+        extensions: [
+          {
+            __kind: "PermanentDelegate",
+            delegate: options.delegate ?? delegate.address,
+          },
+        ],
+      }),
+      [source]: tokenAccount({
+        mint: MINT,
+        owner: HOLDER,
+        amount: options.balance ?? 1_500n,
+      }),
+    }),
+  );
+};
+
+describe("clawback", () => {
+  it("states the full balance it moves when no amount is given", async () => {
+    const { rpc } = await setup();
+    const tx = await clawback({
+      rpc,
+      mint: MINT,
+      payer,
+      delegate,
+      holder: HOLDER,
+      treasury: TREASURY,
+    });
+
+    expect(tx.summary).toBe(
+      `Claw back 1500 raw (the full balance) ${MINT} tokens from ${HOLDER} to ${TREASURY}`,
+    );
+  });
+
+  it("moves the requested amount without reading the balance", async () => {
+    const { rpc, calls } = await setup();
+    const input = {
+      rpc,
+      mint: MINT,
+      payer,
+      delegate,
+      holder: HOLDER,
+      treasury: TREASURY,
+      amount: 20n,
+    };
+    const tx = await clawback(input);
+    const [, transfer] = await getClawbackInstructions(input);
+
+    expect(tx.summary).toBe(
+      `Claw back 20 raw ${MINT} tokens from ${HOLDER} to ${TREASURY}`,
+    );
+    expect(
+      parseTransferCheckedInstruction(decodable(transfer)).data,
+    ).toMatchObject({ amount: 20n, decimals: 2 });
+    expect(
+      calls
+        .filter((c) => c.method === "getAccountInfo")
+        .map((c) => c.params[0]),
+    ).toEqual([MINT, MINT]);
+  });
+
+  it("rejects a signer that is not the permanent delegate", async () => {
+    const { rpc } = await setup({ delegate: testAddress(9) });
+
+    await expect(
+      clawback({
+        rpc,
+        mint: MINT,
+        payer,
+        delegate,
+        holder: HOLDER,
+        treasury: TREASURY,
+      }),
+    ).rejects.toThrow(
+      `${delegate.address} is not the permanent delegate of ${MINT} (${testAddress(9)} is)`,
+    );
+  });
+
+  it("rejects a holder without tokens", async () => {
+    const { rpc } = await setup({ balance: 0n });
+
+    await expect(
+      clawback({
+        rpc,
+        mint: MINT,
+        payer,
+        delegate,
+        holder: HOLDER,
+        treasury: TREASURY,
+      }),
+    ).rejects.toThrow(`${HOLDER} holds no ${MINT} tokens`);
+  });
+
+  it("rejects an explicit amount of zero before reading the mint", async () => {
+    const { rpc, calls } = await setup();
+
+    await expect(
+      clawback({
+        rpc,
+        mint: MINT,
+        payer,
+        delegate,
+        holder: HOLDER,
+        treasury: TREASURY,
+        amount: 0n,
+      }),
+    ).rejects.toThrow("Amount must be a positive number of raw tokens, got 0");
+    expect(calls).toEqual([]);
+  });
+});
+
+describe("forceBurn", () => {
+  it("burns the full balance and states it in the summary", async () => {
+    const { rpc } = await setup({ balance: 42n });
+    const tx = await forceBurn({
+      rpc,
+      mint: MINT,
+      payer,
+      delegate,
+      holder: HOLDER,
+    });
+
+    expect(tx.summary).toBe(
+      `Burn 42 raw (the full balance) ${MINT} tokens held by ${HOLDER}`,
+    );
+  });
+
+  it("burns the requested amount with the mint decimals", async () => {
+    const { rpc } = await setup();
+    const tx = await forceBurn({
+      rpc,
+      mint: MINT,
+      payer,
+      delegate,
+      holder: HOLDER,
+      amount: 7n,
+    });
+
+    expect(tx.summary).toBe(`Burn 7 raw ${MINT} tokens held by ${HOLDER}`);
+  });
+});
+
+describe("getForcedBurnInstructions", () => {
+  it("decodes as a BurnChecked of the holder's account", async () => {
+    const { rpc } = await setup();
+    const [ix] = await getForcedBurnInstructions({
+      rpc,
+      mint: MINT,
+      delegate,
+      holder: HOLDER,
+    });
+    const parsed = parseBurnCheckedInstruction(decodable(ix));
+
+    expect(parsed.data).toMatchObject({ amount: 1_500n, decimals: 2 });
+    expect(parsed.accounts.authority.address).toBe(delegate.address);
+  });
+});
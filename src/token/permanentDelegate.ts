@@ -0,0 +1,255 @@
+/**
+ * This module provides the permanent delegate operations used for court orders and
+ * lost-key recovery: clawing tokens back to a treasury and burning them from any
+ * holder's account.
+ */
+
+import {
+  Address,
+  Rpc,
+  SolanaRpcApi,
+  TransactionSigner,
+  IInstruction,
+} from "@solana/kit";
+import {
+  fetchMint,
+  fetchToken,
+  getBurnCheckedInstruction,
+  getCreateAssociatedTokenIdempotentInstruction,
+  getTransferCheckedInstruction,
+  TOKEN_2022_PROGRAM_ADDRESS,
+} from "@solana-program/token-2022";
+import { getAssociatedTokenAccountAddress } from "gill/programs/token";
+import { prepareTransaction } from "./transaction";
+import { getTransferHookAccounts, isTransferHookSet } from "./transferHook";
+
+/**
+ * Reads the mint, checks that the signer is its permanent delegate and resolves the
+ * holder's associated token account and the amount to move
+ * @param input Mint, permanent delegate, holder wallet and optional raw amount
+ * @returns Mint decimals, transfer hook program, source account and amount
+ */
+const resolveDelegatedAmount = async (input: {
+  rpc: Rpc<SolanaRpcApi>;
+  mint: Address;
+  delegate: TransactionSigner<string>;
+  holder: Address;
+  amount?: bigint;
+}) => {
+  if (input.amount === 0n) {
+    throw new Error("Amount must be a positive number of raw tokens, got 0");
+  }
+  const mint = await fetchMint(input.rpc, input.mint);
+  const extensions =
+    mint.data.extensions.__option === "Some" ? mint.data.extensions.value : [];
+  const permanentDelegate = extensions.find(
+    (e) => e.__kind === "PermanentDelegate",
+  );
+  if (!permanentDelegate) {
+    throw new Error(`Mint ${input.mint} has no PermanentDelegate extension`);
+  }
+  if (permanentDelegate.delegate !== input.delegate.address) {
+    throw new Error(
+      `${input.delegate.address} is not the permanent delegate of ${input.mint} (${permanentDelegate.delegate} is)`,
+    );
+  }
+  const transferHook = extensions.find((e) => e.__kind === "TransferHook");
+
+  const source = await getAssociatedTokenAccountAddress(
+    input.mint,
+    input.holder,
+    TOKEN_2022_PROGRAM_ADDRESS,
+  );
+  let amount = input.amount;
+  if (amount === undefined) {
+    const token = await fetchToken(input.rpc, source);
+    amount = token.data.amount;
+    if (amount === 0n) {
+      throw new Error(`${input.holder} holds no ${input.mint} tokens`);
+    }
+  }
+
+  return {
+    decimals: mint.data.decimals,
+    hookProgramId:
+      transferHook && isTransferHookSet(transferHook.programId)
+        ? transferHook.programId
+        : undefined,
+    source,
+    amount,
+  };
+};
+
+type DelegatedAmount = Awaited<ReturnType<typeof resolveDelegatedAmount>>;
+
+/**
+ * Describes the amount a clawback or burn moves, noting when it is the full balance
+ * @param input Amount requested, if any
+ * @param resolved Amount the transaction moves
+ */
+const describeAmount = (
+  input: { amount?: bigint },
+  resolved: DelegatedAmount,
+) =>
+  `${resolved.amount} raw${input.amount === undefined ? " (the full balance)" : ""}`;
+
+/**
+ * Builds the clawback instructions for an already resolved source account and amount
+ * @param input Mint, fee payer, permanent delegate and treasury wallet
+ * @param resolved Mint decimals, transfer hook program, source account and amount
+ * @returns Array of instructions creating the treasury account if needed and transferring
+ */
+const buildClawbackInstructions = async (
+  input: {
+    rpc: Rpc<SolanaRpcApi>;
+    mint: Address;
+    payer: TransactionSigner<string>;
+    delegate: TransactionSigner<string>;
+    treasury: Address;
+  },
+  { decimals, hookProgramId, source, amount }: DelegatedAmount,
+): Promise<IInstruction<string>[]> => {
+  const destination = await getAssociatedTokenAccountAddress(
+    input.mint,
+    input.treasury,
+    TOKEN_2022_PROGRAM_ADDRESS,
+  );
+
+  const transferIx = getTransferCheckedInstruction(
+    {
+      source,
+      mint: input.mint,
+      destination,
+      authority: input.delegate,
+      amount,
+      decimals,
+    },
+    {
+      programAddress: TOKEN_2022_PROGRAM_ADDRESS,
+    },
+  );
+  const hookAccounts = hookProgramId
+    ? await getTransferHookAccounts({
+        rpc: input.rpc,
+        mint: input.mint,
+        programId: hookProgramId,
+        source,
+        destination,
+        authority: input.delegate.address,
+        amount,
+      })
+    : [];
+
+  return [
+    getCreateAssociatedTokenIdempotentInstruction({
+      payer: input.payer,
+      ata: destination,
+      mint: input.mint,
+      owner: input.treasury,
+      tokenProgram: TOKEN_2022_PROGRAM_ADDRESS,
+    }),
+    { ...transferIx, accounts: [...transferIx.accounts, ...hookAccounts] },
+  ];
+};
+
+/**
+ * Generates instructions that move tokens from a holder's account to the treasury's
+ * associated token account, signed by the permanent delegate
+ * @param input Mint, fee payer, permanent delegate, holder, treasury wallet and optional raw amount (defaults to the full balance)
+ * @returns Array of instructions creating the treasury account if needed and transferring
+ */
+export const getClawbackInstructions = async (input: {
+  rpc: Rpc<SolanaRpcApi>;
+  mint: Address;
+  payer: TransactionSigner<string>;
+  delegate: TransactionSigner<string>;
+  holder: Address;
+  treasury: Address;
+  amount?: bigint;
+}): Promise<IInstruction<string>[]> =>
+  buildClawbackInstructions(input, await resolveDelegatedAmount(input));
+
+/**
+ * Claws tokens back from a holder to the treasury using the permanent delegate
+ * @param input Configuration including the permanent delegate, holder and treasury
+ * @returns Prepared transaction
+ */
+export const clawback = async (input: {
+  rpc: Rpc<SolanaRpcApi>;
+  mint: Address;
+  payer: TransactionSigner<string>;
+  delegate: TransactionSigner<string>;
+  holder: Address;
+  treasury: Address;
+  amount?: bigint;
+}) => {
+  const resolved = await resolveDelegatedAmount(input);
+  const instructions = await buildClawbackInstructions(input, resolved);
+  return prepareTransaction({
+    rpc: input.rpc,
+    feePayer: input.payer,
+    instructions,
+    summary: `Claw back ${describeAmount(input, resolved)} ${input.mint} tokens from ${input.holder} to ${input.treasury}`,
+  });
+};
+
+/**
+ * Builds the burn instruction for an already resolved source account and amount
+ * @param input Mint and permanent delegate
+ * @param resolved Mint decimals, source account and amount
+ * @returns Array containing the burn instruction
+ */
+const buildForcedBurnInstructions = (
+  input: { mint: Address; delegate: TransactionSigner<string> },
+  { decimals, source, amount }: DelegatedAmount,
+): IInstruction<string>[] => [
+  getBurnCheckedInstruction(
+    {
+      account: source,
+      mint: input.mint,
+      authority: input.delegate,
+      amount,
+      decimals,
+    },
+    {
+      programAddress: TOKEN_2022_PROGRAM_ADDRESS,
+    },
+  ),
+];
+
+/**
+ * Generates the instruction that burns tokens from a holder's account, signed by the
+ * permanent delegate
+ * @param input Mint, permanent delegate, holder and optional raw amount (defaults to the full balance)
+ * @returns Array containing the burn instruction
+ */
+export const getForcedBurnInstructions = async (input: {
+  rpc: Rpc<SolanaRpcApi>;
+  mint: Address;
+  delegate: TransactionSigner<string>;
+  holder: Address;
+  amount?: bigint;
+}): Promise<IInstruction<string>[]> =>
+  buildForcedBurnInstructions(input, await resolveDelegatedAmount(input));
+
+/**
+ * Burns tokens from a holder's account using the permanent delegate
+ * @param input Configuration including the permanent delegate and holder
+ * @returns Prepared transaction
+ */
+export const forceBurn = async (input: {
+  rpc: Rpc<SolanaRpcApi>;
+  mint: Address;
+  payer: TransactionSigner<string>;
+  delegate: TransactionSigner<string>;
+  holder: Address;
+  amount?: bigint;
+}) => {
+  const resolved = await resolveDelegatedAmount(input);
+  return prepareTransaction({
+    rpc: input.rpc,
+    feePayer: input.payer,
+    instructions: buildForcedBurnInstructions(input, resolved),
+    summary: `Burn ${describeAmount(input, resolved)} ${input.mint} tokens held by ${input.holder}`,
+  });
+};
@@ -0,0 +1,302 @@
+import { describe, expect, it } from "@jest/globals";
+import { TOKEN_2022_PROGRAM_ADDRESS } from "@solana-program/token-2022";
+import { getAssociatedTokenAccountAddress } from "gill/programs/token";
+import {
+  CorporateAction,
+  describeCorporateAction,
+  fetchScaledUiAmountConfig,
+  getCorporateActionFactor,
+  getEffectiveMultiplier,
+  planScaledUiMultiplier,
+  previewScaledUiBalances,
+  ScaledUiAmountConfig,
+  ScaledUiMultiplierPlan,
+} from "./scaledUiAmount";
+import { accountHandlers, createTestRpc, testAddress } from "../testing/rpc";
+import { mintAccount, tokenAccount } from "../testing/token";
+
+const MINT = testAddress(1);
+const AUTHORITY = testAddress(2);
+const ALICE = testAddress(3);
+const BOB = testAddress(4);
+const NOW = 1_700_000_000n;
+
+const config = (
+  fields: Partial<ScaledUiAmountConfig> = {},
+): ScaledUiAmountConfig => ({
+  authority: AUTHORITY,
+  multiplier: 1,
+  newMultiplier: 1,
+  newMultiplierEffectiveTimestamp: 0n,
+  ...fields,
+});
+
+const plan = (
+  action: CorporateAction,
+  fields: Partial<ScaledUiAmountConfig> = {},
+  effectiveTimestamp = NOW + 60n,
+) =>
+  planScaledUiMultiplier({
+    mint: MINT,
+    decimals: 6,
+    config: config(fields),
+    action,
+    effectiveTimestamp,
+    now: NOW,
+  });
+
+describe("fetchScaledUiAmountConfig", () => {
+  it("reads the multipliers and decimals of the mint", async () => {
+    const { rpc } = createTestRpc(
+      accountHandlers({
+        [MINT]: mintAccount({
+          decimals: 2,
+          extensions: [
+            {
+              __kind: "ScaledUiAmountConfig",
+              authority: AUTHORITY,
+              multiplier: 1.5,
+              newMultiplier: 3,
+              newMultiplierEffectiveTimestamp: NOW,
+            },
+          ],
+        }),
+      }),
+    );
+
+    await expect(fetchScaledUiAmountConfig(rpc, MINT)).resolves.toEqual({
+      decimals: 2,
+      config: config({
+        multiplier: 1.5,
+        newMultiplier: 3,
+        newMultiplierEffectiveTimestamp: NOW,
+      }),
+    });
+  });
+
+  it("rejects a mint without the extension", async () => {
+    const { rpc } = createTestRpc(accountHandlers({ [MINT]: mintAccount() }));
+
+    await expect(fetchScaledUiAmountConfig(rpc, MINT)).rejects.toThrow(
+      `Mint ${MINT} has no ScaledUiAmountConfig extension`,
+    );
+  });
+});
+
+describe("getEffectiveMultiplier", () => {
+  it("switches to the new multiplier at its effective timestamp", () => {
+    const scheduled = config({
+      multiplier: 1.5,
+      newMultiplier: 3,
+      newMultiplierEffectiveTimestamp: NOW,
+    });
+
+    expect(getEffectiveMultiplier(scheduled, NOW - 1n)).toBe(1.5);
+    expect(getEffectiveMultiplier(scheduled, NOW)).toBe(3);
+  });
+});
+
+describe("getCorporateActionFactor", () => {
+  it.each<[CorporateAction, number]>([
+    [{ kind: "split", numerator: 2, denominator: 1 }, 2],
+    [{ kind: "split", numerator: 3, denominator: 2 }, 1.5],
+    [{ kind: "reverse-split", numerator: 1, denominator: 10 }, 0.1],
+    [{ kind: "dividend", percent: 5 }, 1.05],
+  ])("scales the multiplier for %j by %p", (action, factor) => {
+    expect(getCorporateActionFactor(action)).toBe(factor);
+  });
+
+  it.each<[CorporateAction, string]>([
+    [
+      { kind: "split", numerator: 1, denominator: 2 },
+      "A split gives holders more tokens, so 1:2 must be more than 1:1; use a reverse split",
+    ],
+    [
+      { kind: "reverse-split", numerator: 2, denominator: 2 },
+      "A reverse split gives holders fewer tokens, so 2:2 must be less than 1:1; use a split",
+    ],
+    [
+      { kind: "split", numerator: 1.5, denominator: 1 },
+      "A split ratio must be two positive integers, got 1.5:1",
+    ],
+    [
+      { kind: "reverse-split", numerator: 1, denominator: 0 },
+      "A reverse-split ratio must be two positive integers, got 1:0",
+    ],
+    [
+      { kind: "dividend", percent: 0 },
+      "Dividend must be a positive percentage, got 0",
+    ],
+    [
+      { kind: "dividend", percent: NaN },
+      "Dividend must be a positive percentage, got NaN",
+    ],
+  ])("rejects %j", (action, message) => {
+    expect(() => getCorporateActionFactor(action)).toThrow(message);
+  });
+});
+
+describe("describeCorporateAction", () => {
+  it("names the ratio or the dividend", () => {
+    expect(
+      describeCorporateAction({ kind: "split", numerator: 2, denominator: 1 }),
+    ).toBe("2:1 split");
+    expect(describeCorporateAction({ kind: "dividend", percent: 2.5 })).toBe(
+      "2.5% dividend reinvestment",
+    );
+  });
+});
+
+describe("planScaledUiMultiplier", () => {
+  it("scales the multiplier in effect without floating point noise", () => {
+    expect(
+      plan(
+        { kind: "split", numerator: 2, denominator: 1 },
+        { multiplier: 1.1, newMultiplier: 1.1 },
+      ),
+    ).toEqual({
+      mint: MINT,
+      decimals: 6,
+      action: { kind: "split", numerator: 2, denominator: 1 },
+      factor: 2,
+      currentMultiplier: 1.1,
+      newMultiplier: 2.2,
+      effectiveTimestamp: NOW + 60n,
+      overwrittenPending: undefined,
+    });
+  });
+
+  it("starts from a scheduled multiplier that has taken effect", () => {
+    const planned = plan(
+      { kind: "reverse-split", numerator: 1, denominator: 10 },
+      { multiplier: 1, newMultiplier: 3, newMultiplierEffectiveTimestamp: NOW },
+    );
+
+    expect(planned.currentMultiplier).toBe(3);
+    expect(planned.newMultiplier).toBe(0.3);
+    expect(planned.overwrittenPending).toBeUndefined();
+  });
+
+  it("reports a pending multiplier the update replaces", () => {
+    const planned = plan(
+      { kind: "dividend", percent: 10 },
+      {
+        multiplier: 2,
+        newMultiplier: 4,
+        newMultiplierEffectiveTimestamp: NOW + 10n,
+      },
+    );
+
+    expect(planned.currentMultiplier).toBe(2);
+    expect(planned.newMultiplier).toBe(2.2);
+    expect(planned.overwrittenPending).toEqual({
+      multiplier: 4,
+      effectiveTimestamp: NOW + 10n,
+    });
+  });
+
+  it("rejects an effective timestamp in the past", () => {
+    expect(() => plan({ kind: "dividend", percent: 1 }, {}, NOW - 1n)).toThrow(
+      "Effective timestamp 1699999999 (2023-11-14T22:13:19.000Z) is in the past",
+    );
+  });
+
+  it("rejects a multiplier that overflows", () => {
+    expect(() =>
+      plan(
+        { kind: "split", numerator: 10, denominator: 1 },
+        { multiplier: Number.MAX_VALUE, newMultiplier: Number.MAX_VALUE },
+      ),
+    ).toThrow(
+      `10:1 split turns the multiplier ${Number.MAX_VALUE} into Infinity`,
+    );
+  });
+});
+
+describe("previewScaledUiBalances", () => {
+  const planned: ScaledUiMultiplierPlan = plan(
+    { kind: "split", numerator: 2, denominator: 1 },
+    { multiplier: 1.5, newMultiplier: 1.5 },
+  );
+
+  it("previews the given holders, with zero for a missing account", async () => {
+    const [aliceAccount, bobAccount] = await Promise.all(
+      [ALICE, BOB].map((owner) =>
+        getAssociatedTokenAccountAddress(
+          MINT,
+          owner,
+          TOKEN_2022_PROGRAM_ADDRESS,
+        ),
+      ),
+    );
+    const { rpc } = createTestRpc(
+      accountHandlers({
+        [aliceAccount]: tokenAccount({
+          mint: MINT,
+          owner: ALICE,
+          amount: 1_000_000n,
+        }),
+      }),
+    );
+
+    await expect(
+      previewScaledUiBalances(rpc, planned, { holders: [ALICE, BOB] }),
+    ).resolves.toEqual([
+      {
+        owner: ALICE,
+        tokenAccount: aliceAccount,
+        amount: 1_000_000n,
+        before: "1.5",
+        after: "3",
+      },
+      {
+        owner: BOB,
+        tokenAccount: bobAccount,
+        amount: 0n,
+        before: "0",
+        after: "0",
+      },
+    ]);
+  });
+
+  it("samples the largest accounts holding tokens", async () => {
+    const [large, small, empty] = [
+      testAddress(5),
+      testAddress(6),
+      testAddress(7),
+    ];
+    const { rpc, calls } = createTestRpc({
+      ...accountHandlers({
+        [large]: tokenAccount({ mint: MINT, owner: ALICE, amount: 5_000_000n }),
+        [small]: tokenAccount({ mint: MINT, owner: BOB, amount: 10n }),
+      }),
+      getTokenLargestAccounts: () => ({
+        context: { slot: 1n },
+        value: [
+          { address: large, amount: "5000000" },
+          { address: small, amount: "10" },
+          { address: empty, amount: "0" },
+        ],
+      }),
+    });
+
+    const previews = await previewScaledUiBalances(rpc, planned, { sample: 1 });
+
+    expect(calls[0]).toEqual({
+      method: "getTokenLargestAccounts",
+      params: [MINT],
+    });
+    expect(previews).toEqual([
+      {
+        owner: ALICE,
+        tokenAccount: large,
+        amount: 5_000_000n,
+        before: "7.5",
+        after: "15",
+      },
+    ]);
+    await expect(previewScaledUiBalances(rpc, planned)).resolves.toHaveLength(
+      2,
+    );
+  });
+});
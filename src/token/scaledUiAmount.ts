@@ -0,0 +1,274 @@
+/**
+ * This module plans Scaled UI Amount multiplier updates from corporate actions. A
+ * split, reverse split or reinvested dividend scales the multiplier currently in
+ * effect, and the resulting UI balances of sample holders can be previewed before the
+ * update is proposed.
+ */
+
+import { Address, Rpc, SolanaRpcApi } from "@solana/kit";
+import {
+  amountToUiAmountForScaledUiAmountMintWithoutSimulation,
+  fetchAllMaybeToken,
+  fetchAllToken,
+  fetchMint,
+  TOKEN_2022_PROGRAM_ADDRESS,
+} from "@solana-program/token-2022";
+import { getAssociatedTokenAccountAddress } from "gill/programs/token";
+
+/**
+ * Multipliers stored in the ScaledUiAmountConfig extension. The new multiplier
+ * replaces the current one at its effective Unix timestamp, in seconds.
+ */
+export interface ScaledUiAmountConfig {
+  authority: Address;
+  multiplier: number;
+  newMultiplier: number;
+  newMultiplierEffectiveTimestamp: bigint;
+}
+
+/**
+ * Event that changes the number of tokens each holder should see. Ratios are new
+ * shares per old shares, e.g. 2:1 for a two-for-one split and 1:10 for a
+ * one-for-ten reverse split.
+ */
+export type CorporateAction =
+  | { kind: "split"; numerator: number; denominator: number }
+  | { kind: "reverse-split"; numerator: number; denominator: number }
+  /** Dividend paid in new tokens, as a percentage of holdings */
+  | { kind: "dividend"; percent: number };
+
+export interface ScaledUiMultiplierPlan {
+  mint: Address;
+  decimals: number;
+  action: CorporateAction;
+  /** Factor applied to the multiplier in effect */
+  factor: number;
+  currentMultiplier: number;
+  newMultiplier: number;
+  effectiveTimestamp: bigint;
+  /** Scheduled multiplier that has not taken effect and would be replaced */
+  overwrittenPending?: { multiplier: number; effectiveTimestamp: bigint };
+}
+
+/**
+ * UI balance of one holder before and after a planned multiplier
+ */
+export interface ScaledUiBalancePreview {
+  owner: Address;
+  tokenAccount: Address;
+  amount: bigint;
+  before: string;
+  after: string;
+}
+
+/**
+ * Significant digits kept in a planned multiplier, so that e.g. 1.1 x 2 is stored as
+ * 2.2 rather than 2.2000000000000002
+ */
+const MULTIPLIER_PRECISION = 12;
+
+/**
+ * Reads the decimals and Scaled UI Amount configuration of a mint
+ * @param rpc RPC client for Solana network
+ * @param mint Address of the token mint
+ * @returns Decimals and multiplier configuration of the mint
+ */
+export const fetchScaledUiAmountConfig = async (
+  rpc: Rpc<SolanaRpcApi>,
+  mint: Address,
+) => {
+  const account = await fetchMint(rpc, mint);
+  const extensions =
+    account.data.extensions.__option === "Some"
+      ? account.data.extensions.value
+      : [];
+  const config = extensions.find((e) => e.__kind === "ScaledUiAmountConfig");
+  if (!config) {
+    throw new Error(`Mint ${mint} has no ScaledUiAmountConfig extension`);
+  }
+  const scaledUiAmount: ScaledUiAmountConfig = {
+    authority: config.authority,
+    multiplier: config.multiplier,
+    newMultiplier: config.newMultiplier,
+    newMultiplierEffectiveTimestamp: config.newMultiplierEffectiveTimestamp,
+  };
+  return { decimals: account.data.decimals, config: scaledUiAmount };
+};
+
+/**
+ * Returns the multiplier the program applies at a point in time
+ * @param config Multiplier configuration of the mint
+ * @param timestamp Unix timestamp in seconds
+ * @returns Multiplier in effect
+ */
+export const getEffectiveMultiplier = (
+  config: ScaledUiAmountConfig,
+  timestamp: bigint,
+) =>
+  timestamp >= config.newMultiplierEffectiveTimestamp
+    ? config.newMultiplier
+    : config.multiplier;
+
+/**
+ * Validates a corporate action and returns the factor it applies to the multiplier
+ * @param action Split, reverse split or dividend reinvestment
+ * @returns Multiplier factor, e.g. 2 for a two-for-one split
+ */
+export const getCorporateActionFactor = (action: CorporateAction) => {
+  if (action.kind === "dividend") {
+    if (!Number.isFinite(action.percent) || action.percent <= 0) {
+      throw new Error(
+        `Dividend must be a positive percentage, got ${action.percent}`,
+      );
+    }
+    return 1 + action.percent / 100;
+  }
+
+  const { numerator, denominator } = action;
+  if (
+    !Number.isSafeInteger(numerator) ||
+    !Number.isSafeInteger(denominator) ||
+    numerator <= 0 ||
+    denominator <= 0
+  ) {
+    throw new Error(
+      `A ${action.kind} ratio must be two positive integers, got ${numerator}:${denominator}`,
+    );
+  }
+  if (action.kind === "split" && numerator <= denominator) {
+    throw new Error(
+      `A split gives holders more tokens, so ${numerator}:${denominator} must be more than 1:1; use a reverse split`,
+    );
+  }
+  if (action.kind === "reverse-split" && numerator >= denominator) {
+    throw new Error(
+      `A reverse split gives holders fewer tokens, so ${numerator}:${denominator} must be less than 1:1; use a split`,
+    );
+  }
+  return numerator / denominator;
+};
+
+/**
+ * Describes a corporate action for summaries and reports
+ */
+export const describeCorporateAction = (action: CorporateAction) =>
+  action.kind === "dividend"
+    ? `${action.percent}% dividend reinvestment`
+    : `${action.numerator}:${action.denominator} ${action.kind}`;
+
+/**
+ * Derives the multiplier that applies a corporate action to the multiplier in effect.
+ * A scheduled multiplier that has not taken effect yet is reported, since the update
+ * replaces it.
+ * @param input Mint, its configuration, the action, when it takes effect and the
+ * current time
+ * @returns Planned multiplier update
+ */
+export const planScaledUiMultiplier = (input: {
+  mint: Address;
+  decimals: number;
+  config: ScaledUiAmountConfig;
+  action: CorporateAction;
+  effectiveTimestamp: bigint;
+  now: bigint;
+}): ScaledUiMultiplierPlan => {
+  if (input.effectiveTimestamp < input.now) {
+    throw new Error(
+      `Effective timestamp ${input.effectiveTimestamp} (${new Date(Number(input.effectiveTimestamp) * 1000).toISOString()}) is in the past`,
+    );
+  }
+  const factor = getCorporateActionFactor(input.action);
+  const currentMultiplier = getEffectiveMultiplier(input.config, input.now);
+  const newMultiplier = Number(
+    (currentMultiplier * factor).toPrecision(MULTIPLIER_PRECISION),
+  );
+  if (!Number.isFinite(newMultiplier) || newMultiplier <= 0) {
+    throw new Error(
+      `${describeCorporateAction(input.action)} turns the multiplier ${currentMultiplier} into ${newMultiplier}`,
+    );
+  }
+
+  const pending =
+    input.config.newMultiplierEffectiveTimestamp > input.now &&
+    input.config.newMultiplier !== input.config.multiplier;
+  return {
+    mint: input.mint,
+    decimals: input.decimals,
+    action: input.action,
+    factor,
+    currentMultiplier,
+    newMultiplier,
+    effectiveTimestamp: input.effectiveTimestamp,
+    overwrittenPending: pending
+      ? {
+          multiplier: input.config.newMultiplier,
+          effectiveTimestamp: input.config.newMultiplierEffectiveTimestamp,
+        }
+      : undefined,
+  };
+};
+
+/**
+ * Computes the UI balances of holders under the current and the planned multiplier.
+ * Without explicit holders, the largest token accounts of the mint are sampled.
+ * @param rpc RPC client for Solana network
+ * @param plan Planned multiplier update
+ * @param options Wallets to preview, or the number of largest accounts to sample
+ * @returns One preview per token account holding tokens
+ */
+export const previewScaledUiBalances = async (
+  rpc: Rpc<SolanaRpcApi>,
+  plan: ScaledUiMultiplierPlan,
+  options: { holders?: Address[]; sample?: number } = {},
+): Promise<ScaledUiBalancePreview[]> => {
+  let accounts: { address: Address; owner: Address; amount: bigint }[];
+  if (options.holders && options.holders.length > 0) {
+    const tokenAccounts = await Promise.all(
+      options.holders.map((owner) =>
+        getAssociatedTokenAccountAddress(
+          plan.mint,
+          owner,
+          TOKEN_2022_PROGRAM_ADDRESS,
+        ),
+      ),
+    );
+    const fetched = await fetchAllMaybeToken(rpc, tokenAccounts);
+    accounts = fetched.map((account, i) => ({
+      address: account.address,
+      owner: options.holders![i],
+      amount: account.exists ? account.data.amount : 0n,
+    }));
+  } else {
+    const { value: largest } = await rpc
+      .getTokenLargestAccounts(plan.mint)
+      .send();
+    const sampled = largest
+      .filter((a) => BigInt(a.amount) > 0n)
+      .slice(0, options.sample ?? 5);
+    const fetched = await fetchAllToken(
+      rpc,
+      sampled.map((a) => a.address),
+    );
+    accounts = fetched.map((account) => ({
+      address: account.address,
+      owner: account.data.owner,
+      amount: account.data.amount,
+    }));
+  }
+
+  return accounts.map((account) => ({
+    owner: account.owner,
+    tokenAccount: account.address,
+    amount: account.amount,
+    before: amountToUiAmountForScaledUiAmountMintWithoutSimulation(
+      account.amount,
+      plan.decimals,
+      plan.currentMultiplier,
+    ),
+    after: amountToUiAmountForScaledUiAmountMintWithoutSimulation(
+      account.amount,
+      plan.decimals,
+      plan.newMultiplier,
+    ),
+  }));
+};
@@ -0,0 +1,266 @@
+import { describe, expect, it } from "@jest/globals";
+import {
+  Address,
+  airdropFactory,
+  generateKeyPairSigner,
+  lamports,
+  setTransactionMessageLifetimeUsingBlockhash,
+  signTransactionMessageWithSigners,
+} from "@solana/kit";
+import { AccountState, Extension } from "@solana-program/token-2022";
+import { createMintFromSpec } from "./create";
+import { getMintToInstructions } from "./mint";
+import { parseMintSpec } from "./mintSpec";
+import { formatHolderSnapshotCsv, takeHolderSnapshot } from "./snapshot";
+import { createVersionedTransaction } from "./transaction";
+import { createNetworkClient, getNetworkProfile } from "../network/profile";
+import { createTestRpc, testAddress } from "../testing/rpc";
+import { mintAccount, tokenAccount } from "../testing/token";
+
+const MINT = testAddress(1);
+const ALICE = testAddress(2);
+const BOB = testAddress(3);
+const CAROL = testAddress(4);
+const NOW = 1_700_000_000n;
+
+// A multiplier of 1.5 in effect, and 2 scheduled after NOW
+const scaledUi: Extension = {
+  __kind: "ScaledUiAmountConfig",
+  authority: testAddress(9),
+  multiplier: 1.5,
+  newMultiplier: 2,
+  newMultiplierEffectiveTimestamp: NOW + 60n,
+};
+
+const holder = (
+  tokenAddress: Address,
+  owner: Address,
+  amount: bigint,
+  state = AccountState.Initialized,
+) => ({
+  pubkey: tokenAddress,
+  account: tokenAccount({ mint: MINT, owner, amount, state }),
+});
+
+const holders = [
+  holder(testAddress(20), BOB, 500n, AccountState.Frozen),
+  holder(testAddress(21), CAROL, 0n),
+  holder(testAddress(22), ALICE, 1_000n),
+  // Accounts of another type that match the mint filter are left out
+  { pubkey: testAddress(23), account: mintAccount({ extensions: [scaledUi] }) },
+];
+
+/**
+ * Creates an RPC client serving the mint with each supply in turn, one per read, and
+ * the given token accounts
+ */
+const snapshotRpc = (supplies: bigint[], accounts = holders) => {
+  let reads = 0;
+  return createTestRpc({
+    getAccountInfo: () => ({
+      context: { slot: BigInt(10 + reads) },
+      value: mintAccount({
+        decimals: 2,
+        supply: supplies[Math.min(reads++, supplies.length - 1)],
+        extensions: [scaledUi],
+      }),
+    }),
+    getProgramAccounts: () => ({
+      context: { slot: BigInt(10 + reads) },
+      value: accounts,
+    }),
+  });
+};
+
+describe("takeHolderSnapshot", () => {
+  it("reports UI amounts with the multiplier in effect, largest holder first", async () => {
+    const { rpc } = snapshotRpc([1_500n]);
+    const snapshot = await takeHolderSnapshot(rpc, MINT, { now: NOW });
+
+    expect(snapshot).toEqual({
+      mint: MINT,
+      slot: "11",
+      decimals: 2,
+      supply: "1500",
+      uiSupply: "22.5",
+      multiplier: 1.5,
+      totalHeld: "1500",
+      holders: [
+        {
+          owner: ALICE,
+          tokenAccount: testAddress(22),
+          amount: "1000",
+          uiAmount: "15",
+          state: "initialized",
+        },
+        {
+          owner: BOB,
+          tokenAccount: testAddress(20),
+          amount: "500",
+          uiAmount: "7.5",
+          state: "frozen",
+        },
+        {
+          owner: CAROL,
+          tokenAccount: testAddress(21),
+          amount: "0",
+          uiAmount: "0",
+          state: "initialized",
+        },
+      ],
+    });
+  });
+
+  it("applies the new multiplier once it takes effect and skips empty accounts", async () => {
+    const { rpc } = snapshotRpc([1_500n]);
+    const snapshot = await takeHolderSnapshot(rpc, MINT, {
+      now: NOW + 60n,
+      skipEmpty: true,
+    });
+
+    expect(snapshot.multiplier).toBe(2);
+    expect(snapshot.uiSupply).toBe("30");
+    expect(snapshot.holders.map((h) => [h.owner, h.uiAmount])).toEqual([
+      [ALICE, "20"],
+      [BOB, "10"],
+    ]);
+  });
+
+  it("keeps every digit of amounts above 2^53", async () => {
+    const amount = 123_456_789_012_345_678n;
+    const { rpc } = snapshotRpc(
+      [amount],
+      [holder(testAddress(22), ALICE, amount)],
+    );
+    const snapshot = await takeHolderSnapshot(rpc, MINT, { now: NOW });
+
+    expect(snapshot.totalHeld).toBe("123456789012345678");
+    // 123456789012345678 * 1.5 = 185185183518518517 at 2 decimals
+    expect(snapshot.uiSupply).toBe("1851851835185185.17");
+    expect(snapshot.holders[0].uiAmount).toBe("1851851835185185.17");
+  });
+
+  it("reads the holders again when the supply changes between reads", async () => {
+    const { rpc, calls } = snapshotRpc([1_400n, 1_500n]);
+    const snapshot = await takeHolderSnapshot(rpc, MINT, { now: NOW });
+
+    expect(snapshot.supply).toBe("1500");
+    expect(calls.map((c) => c.method)).toEqual([
+      "getAccountInfo",
+      "getProgramAccounts",
+      "getAccountInfo",
+      "getProgramAccounts",
+      "getAccountInfo",
+    ]);
+    // Each read waits for the slot of the one before
+    expect(calls[3].params[1]).toMatchObject({ minContextSlot: 11n });
+  });
+
+  it("gives up when the supply keeps changing", async () => {
+    const { rpc } = snapshotRpc([1n, 2n, 3n, 4n]);
+
+    await expect(takeHolderSnapshot(rpc, MINT, { now: NOW })).rejects.toThrow(
+      `The supply of ${MINT} kept changing while its holders were read; try again later`,
+    );
+  });
+
+  it("rejects a mint that does not exist", async () => {
+    const { rpc } = createTestRpc({
+      getAccountInfo: () => ({ context: { slot: 1n }, value: null }),
+    });
+
+    await expect(takeHolderSnapshot(rpc, MINT)).rejects.toThrow(
+      `Mint ${MINT} does not exist`,
+    );
+  });
+});
+
+describe("formatHolderSnapshotCsv", () => {
+  it("writes the totals as comments before one row per account", async () => {
+    const { rpc } = snapshotRpc([1_500n], holders.slice(0, 1));
+    const csv = formatHolderSnapshotCsv(
+      await takeHolderSnapshot(rpc, MINT, { now: NOW }),
+    );
+
+    expect(csv.split("\n")).toEqual([
+      `# mint: ${MINT}`,
+      "# slot: 11",
+      "# decimals: 2",
+      "# supply: 1500 (22.5)",
+      "# multiplier: 1.5",
+      "# total held: 500",
+      "owner,tokenAccount,amount,uiAmount,state",
+      `${BOB},${testAddress(20)},500,7.5,frozen`,
+    ]);
+  });
+});
+
+// Runs against a local validator (e.g. `solana-test-validator`) when its RPC URL or
+// network profile name is set
+const VALIDATOR_URL = process.env.TEM_TEST_VALIDATOR_URL;
+
+(VALIDATOR_URL ? describe : describe.skip)(
+  "takeHolderSnapshot on a validator",
+  () => {
+    it("reconciles the holdings of a new mint with its supply", async () => {
+      const { rpc, rpcSubscriptions, sendAndConfirmTransaction } =
+        createNetworkClient(getNetworkProfile(VALIDATOR_URL!));
+      const payer = await generateKeyPairSigner();
+      await airdropFactory({ rpc, rpcSubscriptions })({
+        recipientAddress: payer.address,
+        lamports: lamports(1_000_000_000n),
+        commitment: "confirmed",
+      });
+
+      const { mint } = await createMintFromSpec(
+        rpc,
+        parseMintSpec({
+          decimals: 2,
+          defaultAuthority: payer.address,
+          extensions: { ScaledUiAmountConfig: { multiplier: 1.5 } },
+        }),
+        payer,
+        sendAndConfirmTransaction,
+      );
+      const instructions = [
+        ...(await getMintToInstructions({
+          mint,
+          payer,
+          authority: payer,
+          destination: ALICE,
+          amount: 1_000n,
+        })),
+        ...(await getMintToInstructions({
+          mint,
+          payer,
+          authority: payer,
+          destination: BOB,
+          amount: 500n,
+        })),
+      ];
+      const { value: blockhash } = await rpc.getLatestBlockhash().send();
+      await sendAndConfirmTransaction(
+        await signTransactionMessageWithSigners(
+          setTransactionMessageLifetimeUsingBlockhash(
+            blockhash,
+            createVersionedTransaction({ feePayer: payer, instructions }),
+          ),
+        ),
+        // The snapshot reads at the default (finalized) commitment
+        { commitment: "finalized" },
+      );
+
+      const snapshot = await takeHolderSnapshot(rpc, mint);
+      expect(snapshot).toMatchObject({
+        supply: "1500",
+        uiSupply: "22.5",
+        multiplier: 1.5,
+        totalHeld: "1500",
+      });
+      expect(snapshot.holders.map((h) => [h.owner, h.uiAmount])).toEqual([
+        [ALICE, "15"],
+        [BOB, "7.5"],
+      ]);
+    }, 120_000);
+  },
+);
@@ -0,0 +1,233 @@
+/**
+ * This module takes a snapshot of the holders of a mint: every Token-2022 account of
+ * the mint with its owner, raw and UI amount and state, read at one slot together
+ * with the supply so that the holdings can be reconciled against it.
+ */
+
+import {
+  Address,
+  Base58EncodedBytes,
+  Rpc,
+  SolanaRpcApi,
+  getBase64Encoder,
+} from "@solana/kit";
+import {
+  AccountState,
+  getMintDecoder,
+  getTokenDecoder,
+  Token,
+  TOKEN_2022_PROGRAM_ADDRESS,
+} from "@solana-program/token-2022";
+import { formatScaledUiAmount, TOKEN_ACCOUNT_BASE_SIZE } from "./amount";
+import { getEffectiveMultiplier } from "./scaledUiAmount";
+
+// Account type byte of token accounts
+const ACCOUNT_TYPE_TOKEN = 2;
+
+/**
+ * Number of times the holders are read again when the supply changes between reads
+ */
+const SNAPSHOT_ATTEMPTS = 3;
+
+/**
+ * One token account of a mint. Amounts are decimal strings, so that the snapshot is
+ * JSON-serializable without losing precision.
+ */
+export interface HolderRow {
+  owner: Address;
+  tokenAccount: Address;
+  amount: string;
+  /** Amount after decimals and the scaled UI multiplier */
+  uiAmount: string;
+  state: "initialized" | "frozen";
+}
+
+export interface HolderSnapshot {
+  mint: Address;
+  /** Slot the token accounts were read at */
+  slot: string;
+  decimals: number;
+  supply: string;
+  uiSupply: string;
+  /** Scaled UI multiplier in effect when the snapshot was taken (1 without the extension) */
+  multiplier: number;
+  /** Sum of the raw amounts of all token accounts, which should equal the supply */
+  totalHeld: string;
+  /** Token accounts, largest first */
+  holders: HolderRow[];
+}
+
+/**
+ * Reads and decodes a mint account, no earlier than a slot
+ * @param rpc RPC client for Solana network
+ * @param mint Address of the token mint
+ * @param minContextSlot Slot the node must have reached
+ * @returns Slot of the read and the decoded mint
+ */
+const fetchMintAtSlot = async (
+  rpc: Rpc<SolanaRpcApi>,
+  mint: Address,
+  minContextSlot?: bigint,
+) => {
+  const { context, value } = await rpc
+    .getAccountInfo(mint, { encoding: "base64", minContextSlot })
+    .send();
+  if (!value) {
+    throw new Error(`Mint ${mint} does not exist`);
+  }
+  if (value.owner !== TOKEN_2022_PROGRAM_ADDRESS) {
+    throw new Error(`Mint ${mint} is not owned by the Token-2022 program`);
+  }
+  return {
+    slot: context.slot,
+    mint: getMintDecoder().decode(getBase64Encoder().encode(value.data[0])),
+  };
+};
+
+/**
+ * Finds every token account of a mint, no earlier than a slot
+ * @param rpc RPC client for Solana network
+ * @param mint Address of the token mint
+ * @param minContextSlot Slot the node must have reached
+ * @returns Slot of the read and the decoded token accounts
+ */
+const fetchTokenAccountsAtSlot = async (
+  rpc: Rpc<SolanaRpcApi>,
+  mint: Address,
+  minContextSlot: bigint,
+) => {
+  const { context, value } = await rpc
+    .getProgramAccounts(TOKEN_2022_PROGRAM_ADDRESS, {
+      encoding: "base64",
+      withContext: true,
+      minContextSlot,
+      filters: [
+        {
+          memcmp: {
+            offset: 0n,
+            bytes: mint as string as Base58EncodedBytes,
+            encoding: "base58",
+          },
+        },
+      ],
+    })
+    .send();
+
+  const decoder = getTokenDecoder();
+  const accounts: { address: Address; token: Token }[] = [];
+  for (const { pubkey, account } of value) {
+    const data = getBase64Encoder().encode(account.data[0]);
+    // Token accounts are the base size, or longer with the token account type byte
+    if (
+      data.length < TOKEN_ACCOUNT_BASE_SIZE ||
+      (data.length > TOKEN_ACCOUNT_BASE_SIZE &&
+        data[TOKEN_ACCOUNT_BASE_SIZE] !== ACCOUNT_TYPE_TOKEN)
+    ) {
+      continue;
+    }
+    accounts.push({ address: pubkey, token: decoder.decode(data) });
+  }
+  return { slot: context.slot, accounts };
+};
+
+/**
+ * Reads every token account of a mint at one slot. The mint is read before and after
+ * the token accounts; when the supply changed in between, the accounts are read again
+ * so that the holdings add up to the supply reported with them.
+ * @param rpc RPC client for Solana network
+ * @param mint Address of the token mint
+ * @param options Whether accounts holding no tokens are left out, and the current
+ * Unix timestamp in seconds used to pick the scaled UI multiplier
+ * @returns Holder snapshot
+ */
+export const takeHolderSnapshot = async (
+  rpc: Rpc<SolanaRpcApi>,
+  mint: Address,
+  options: { skipEmpty?: boolean; now?: bigint } = {},
+): Promise<HolderSnapshot> => {
+  let before = await fetchMintAtSlot(rpc, mint);
+  for (let attempt = 1; ; attempt++) {
+    const { slot, accounts } = await fetchTokenAccountsAtSlot(
+      rpc,
+      mint,
+      before.slot,
+    );
+    const after = await fetchMintAtSlot(rpc, mint, slot);
+    if (after.mint.supply !== before.mint.supply) {
+      if (attempt === SNAPSHOT_ATTEMPTS) {
+        throw new Error(
+          `The supply of ${mint} kept changing while its holders were read; try again later`,
+        );
+      }
+      before = after;
+      continue;
+    }
+
+    const { decimals, supply, extensions } = after.mint;
+    const config =
+      extensions.__option === "Some"
+        ? extensions.value.find((e) => e.__kind === "ScaledUiAmountConfig")
+        : undefined;
+    const multiplier = config
+      ? getEffectiveMultiplier(
+          config,
+          options.now ?? BigInt(Math.floor(Date.now() / 1000)),
+        )
+      : 1;
+    const toUiAmount = (amount: bigint) =>
+      formatScaledUiAmount(amount, decimals, multiplier);
+
+    const holders: HolderRow[] = accounts
+      .filter(
+        ({ token }) =>
+          token.state !== AccountState.Uninitialized &&
+          (!options.skipEmpty || token.amount > 0n),
+      )
+      .sort((a, b) =>
+        a.token.amount === b.token.amount
+          ? a.address.localeCompare(b.address)
+          : a.token.amount > b.token.amount
+            ? -1
+            : 1,
+      )
+      .map(({ address, token }) => ({
+        owner: token.owner,
+        tokenAccount: address,
+        amount: token.amount.toString(),
+        uiAmount: toUiAmount(token.amount),
+        state: token.state === AccountState.Frozen ? "frozen" : "initialized",
+      }));
+    const totalHeld = accounts.reduce((sum, a) => sum + a.token.amount, 0n);
+
+    return {
+      mint,
+      slot: slot.toString(),
+      decimals,
+      supply: supply.toString(),
+      uiSupply: toUiAmount(supply),
+      multiplier,
+      totalHeld: totalHeld.toString(),
+      holders,
+    };
+  }
+};
+
+/**
+ * Formats a snapshot as CSV with one row per token account. The slot, supply and
+ * multiplier are written first as `#` comment lines.
+ * @param snapshot Holder snapshot
+ * @returns CSV text
+ */
+export const formatHolderSnapshotCsv = (snapshot: HolderSnapshot) =>
+  [
+    `# mint: ${snapshot.mint}`,
+    `# slot: ${snapshot.slot}`,
+    `# decimals: ${snapshot.decimals}`,
+    `# supply: ${snapshot.supply} (${snapshot.uiSupply})`,
+    `# multiplier: ${snapshot.multiplier}`,
+    `# total held: ${snapshot.totalHeld}`,
+    "owner,tokenAccount,amount,uiAmount,state",
+    ...snapshot.holders.map((h) =>
+      [h.owner, h.tokenAccount, h.amount, h.uiAmount, h.state].join(","),
+    ),
+  ].join("\n");
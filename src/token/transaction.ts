@@ -0,0 +1,194 @@
+/**
+ * This module provides the transaction assembly shared by every operation. Operations
+ * return a prepared transaction that the output encoders turn into the format the
+ * caller asked for.
+ */
+
+import {
+  Address,
+  AddressesByLookupTableAddress,
+  Blockhash,
+  Nonce,
+  Rpc,
+  SolanaRpcApi,
+  Transaction,
+  TransactionSigner,
+  IInstruction,
+  compileTransaction,
+  createNoopSigner,
+  compressTransactionMessageUsingAddressLookupTables,
+  getTransactionEncoder,
+  setTransactionMessageLifetimeUsingBlockhash,
+  setTransactionMessageLifetimeUsingDurableNonce,
+} from "@solana/kit";
+import { createTransaction } from "gill";
+
+/**
+ * Maximum size of a serialized transaction: the IPv6 minimum MTU minus the IP and
+ * UDP headers
+ */
+export const TRANSACTION_SIZE_LIMIT = 1232;
+
+/**
+ * Nonce account used as the lifetime of a transaction instead of a recent blockhash.
+ * The transaction stays valid until the nonce is advanced, however long approval takes.
+ */
+export interface DurableNonce {
+  /** Current nonce value stored in the account */
+  nonce: Nonce;
+  nonceAccountAddress: Address;
+  /** Signer of the AdvanceNonceAccount instruction */
+  nonceAuthorityAddress: Address;
+}
+
+/**
+ * Recent blockhash or durable nonce that a transaction is valid for
+ */
+export type TransactionLifetime =
+  { blockhash: Blockhash; lastValidBlockHeight: bigint } | DurableNonce;
+
+export const isDurableNonceLifetime = (
+  lifetime: TransactionLifetime,
+): lifetime is DurableNonce => "nonce" in lifetime;
+
+/**
+ * How the transaction message is compiled
+ */
+export interface MessageOptions {
+  /** Message version; address lookup tables require version 0 (default "legacy") */
+  version?: "legacy" | 0;
+  /** Lookup tables whose addresses replace the matching non-signer accounts */
+  addressLookupTables?: AddressesByLookupTableAddress;
+}
+
+/**
+ * Options accepted by every operation that prepares a transaction
+ */
+export interface TransactionOptions extends MessageOptions {
+  /** Nonce to use as the lifetime instead of the latest blockhash */
+  durableNonce?: DurableNonce;
+}
+
+/**
+ * Creates a transaction message in the requested version, compressing its accounts
+ * through the lookup tables when any are given
+ * @param input Fee payer, instructions and message options
+ * @returns Transaction message without a lifetime
+ */
+export const createVersionedTransaction = (
+  input: {
+    feePayer: TransactionSigner<string>;
+    instructions: IInstruction<string>[];
+  } & MessageOptions,
+) => {
+  const version = input.version ?? "legacy";
+  if (version === "legacy") {
+    if (Object.keys(input.addressLookupTables ?? {}).length > 0) {
+      throw new Error("Address lookup tables require a version 0 message");
+    }
+    return createTransaction({
+      feePayer: input.feePayer,
+      version,
+      instructions: input.instructions,
+    });
+  }
+  const message = createTransaction({
+    feePayer: input.feePayer,
+    version,
+    instructions: input.instructions,
+  });
+  return input.addressLookupTables
+    ? compressTransactionMessageUsingAddressLookupTables(
+        message,
+        input.addressLookupTables,
+      )
+    : message;
+};
+
+/**
+ * An unsigned transaction together with the context needed to review and sign it
+ */
+export interface PreparedTransaction {
+  /** Compiled message and an empty signature slot for every required signer */
+  transaction: Transaction;
+  /** Blockhash or durable nonce the transaction was built with */
+  lifetime: TransactionLifetime;
+  /** Human-readable description of what the transaction does */
+  summary: string;
+  /** Lookup tables the message was compressed with, needed to decompile it */
+  addressLookupTables?: AddressesByLookupTableAddress;
+}
+
+/**
+ * Compiles instructions into a prepared transaction using a known lifetime. With a
+ * durable nonce, an AdvanceNonceAccount instruction is placed first.
+ * @param input Fee payer, instructions, blockhash or durable nonce, summary and
+ * message options
+ * @returns Prepared transaction
+ */
+export const compilePreparedTransaction = (
+  input: {
+    feePayer: Address | TransactionSigner<string>;
+    instructions: IInstruction<string>[];
+    lifetime: TransactionLifetime;
+    summary: string;
+  } & MessageOptions,
+): PreparedTransaction => {
+  const lifetime = input.lifetime;
+  const message = createVersionedTransaction({
+    ...input,
+    feePayer:
+      typeof input.feePayer === "string"
+        ? createNoopSigner(input.feePayer)
+        : input.feePayer,
+  });
+  const transaction = isDurableNonceLifetime(lifetime)
+    ? compileTransaction(
+        setTransactionMessageLifetimeUsingDurableNonce(lifetime, message),
+      )
+    : compileTransaction(
+        setTransactionMessageLifetimeUsingBlockhash(lifetime, message),
+      );
+
+  return {
+    transaction,
+    lifetime,
+    summary: input.summary,
+    addressLookupTables: input.addressLookupTables,
+  };
+};
+
+/**
+ * Compiles instructions into a prepared transaction using the durable nonce when one
+ * is given, or the latest blockhash otherwise
+ * @param input Configuration including the fee payer, instructions, summary and
+ * transaction options
+ * @returns Prepared transaction
+ */
+export const prepareTransaction = async (
+  input: {
+    rpc: Rpc<SolanaRpcApi>;
+    feePayer: Address | TransactionSigner<string>;
+    instructions: IInstruction<string>[];
+    summary: string;
+  } & TransactionOptions,
+) => {
+  if (input.durableNonce) {
+    return compilePreparedTransaction({
+      ...input,
+      lifetime: input.durableNonce,
+    });
+  }
+  const { value: latestBlockhash } = await input.rpc
+    .getLatestBlockhash()
+    .send();
+  return compilePreparedTransaction({ ...input, lifetime: latestBlockhash });
+};
+
+/**
+ * Measures a transaction in its wire format, including a slot for every signature
+ * @param tx Compiled transaction
+ * @returns Size in bytes
+ */
+export const getTransactionSize = (tx: Transaction) =>
+  getTransactionEncoder().encode(tx).length;
@@ -0,0 +1,164 @@
+import { describe, expect, it } from "@jest/globals";
+import {
+  createNoopSigner,
+  getCompiledTransactionMessageDecoder,
+  none,
+  Nonce,
+  some,
+} from "@solana/kit";
+import {
+  AccountState,
+  getTokenEncoder,
+  identifyToken2022Instruction,
+  Token2022Instruction,
+  TOKEN_2022_PROGRAM_ADDRESS,
+} from "@solana-program/token-2022";
+import {
+  getHarvestWithheldFeesInstructions,
+  getSetTransferFeeInstructions,
+  harvestWithheldFees,
+  HARVEST_BATCH_SIZE,
+} from "./transferFee";
+import {
+  createTestRpc,
+  encodedAccount,
+  TEST_BLOCKHASH,
+  testAddress,
+} from "../testing/rpc";
+
+const MINT = testAddress(1);
+const payer = createNoopSigner(testAddress(2));
+const authority = createNoopSigner(testAddress(3));
+const DESTINATION = testAddress(4);
+
+// Token account of the mint withholding the given fee
+const tokenAccount = (withheldAmount: bigint) =>
+  getTokenEncoder().encode({
+    mint: MINT,
+    owner: testAddress(5),
+    amount: 1_000n,
+    delegate: none(),
+    state: AccountState.Initialized,
+    isNative: none(),
+    delegatedAmount: 0n,
+    closeAuthority: none(),
+    extensions: some([{ __kind: "TransferFeeAmount", withheldAmount }]),
+  });
+
+describe("getSetTransferFeeInstructions", () => {
+  it.each([-1, 10_001, 1.5])("rejects %s basis points", (bps) => {
+    expect(() =>
+      getSetTransferFeeInstructions({
+        mint: MINT,
+        authority,
+        transferFeeBasisPoints: bps,
+        maximumFee: 1n,
+      }),
+    ).toThrow(/between 0 and 10000 basis points/);
+  });
+
+  it("builds one SetTransferFee instruction", () => {
+    const [ix] = getSetTransferFeeInstructions({
+      mint: MINT,
+      authority,
+      transferFeeBasisPoints: 50,
+      maximumFee: 5_000_000n,
+    });
+
+    expect(identifyToken2022Instruction(ix.data!)).toBe(
+      Token2022Instruction.SetTransferFee,
+    );
+  });
+});
+
+describe("getHarvestWithheldFeesInstructions", () => {
+  const sources = Array.from({ length: 30 }, (_, i) => testAddress(10 + i));
+
+  it("splits the sources into batches", () => {
+    const instructions = getHarvestWithheldFeesInstructions(MINT, sources, 12);
+
+    expect(
+      // The mint comes first, followed by the source accounts
+      instructions.map((ix) => ix.accounts!.length - 1),
+    ).toEqual([12, 12, 6]);
+  });
+
+  it("uses the default batch size", () => {
+    expect(getHarvestWithheldFeesInstructions(MINT, sources)).toHaveLength(
+      Math.ceil(sources.length / HARVEST_BATCH_SIZE),
+    );
+  });
+
+  it("builds nothing without sources", () => {
+    expect(getHarvestWithheldFeesInstructions(MINT, [])).toEqual([]);
+  });
+
+  it.each([0, -1, 2.5, NaN])("rejects a batch size of %s", (batchSize) => {
+    expect(() =>
+      getHarvestWithheldFeesInstructions(MINT, sources, batchSize),
+    ).toThrow(/batch size must be a positive integer/);
+  });
+});
+
+describe("harvestWithheldFees", () => {
+  const { rpc } = createTestRpc({
+    getProgramAccounts: () => [
+      {
+        pubkey: testAddress(20),
+        account: encodedAccount(tokenAccount(7n), TOKEN_2022_PROGRAM_ADDRESS),
+      },
+      {
+        pubkey: testAddress(21),
+        account: encodedAccount(tokenAccount(0n), TOKEN_2022_PROGRAM_ADDRESS),
+      },
+      {
+        pubkey: testAddress(22),
+        account: encodedAccount(tokenAccount(3n), TOKEN_2022_PROGRAM_ADDRESS),
+      },
+    ],
+  });
+  const input = {
+    rpc,
+    mint: MINT,
+    payer,
+    authority,
+    destination: DESTINATION,
+    batchSize: 1,
+  };
+
+  it("harvests the accounts withholding fees, then withdraws", async () => {
+    const result = await harvestWithheldFees(input);
+
+    expect(result.accounts).toEqual([
+      { address: testAddress(20), withheldAmount: 7n },
+      { address: testAddress(22), withheldAmount: 3n },
+    ]);
+    expect(result.harvestTransactions.map((tx) => tx.summary)).toEqual([
+      `Harvest withheld fees of ${MINT} (batch 1 of 2)`,
+      `Harvest withheld fees of ${MINT} (batch 2 of 2)`,
+    ]);
+    expect(result.withdrawTransaction.lifetime).toEqual({
+      blockhash: TEST_BLOCKHASH,
+      lastValidBlockHeight: 100n,
+    });
+  });
+
+  it("uses a durable nonce for the withdraw transaction only", async () => {
+    const durableNonce = {
+      nonce: "11111111111111111111111111111111" as Nonce,
+      nonceAccountAddress: testAddress(30),
+      nonceAuthorityAddress: authority.address,
+    };
+    const result = await harvestWithheldFees(input, { durableNonce });
+
+    for (const tx of result.harvestTransactions) {
+      expect(tx.lifetime).toHaveProperty("blockhash", TEST_BLOCKHASH);
+    }
+    expect(result.withdrawTransaction.lifetime).toEqual(durableNonce);
+    const message = getCompiledTransactionMessageDecoder().decode(
+      result.withdrawTransaction.transaction.messageBytes,
+    );
+    expect(message.lifetimeToken).toBe(durableNonce.nonce);
+    expect(message.instructions).toHaveLength(3);
+  });
+});
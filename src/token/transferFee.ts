@@ -0,0 +1,262 @@
+/**
+ * This module provides functionality for the Token-2022 transfer fee extension:
+ * scheduling new fees and harvesting withheld fees back to the mint for withdrawal.
+ */
+
+import {
+  Address,
+  Base58EncodedBytes,
+  Rpc,
+  SolanaRpcApi,
+  TransactionSigner,
+  IInstruction,
+  getBase64Encoder,
+} from "@solana/kit";
+import {
+  getCreateAssociatedTokenIdempotentInstruction,
+  getHarvestWithheldTokensToMintInstruction,
+  getSetTransferFeeInstruction,
+  getTokenDecoder,
+  getWithdrawWithheldTokensFromMintInstruction,
+  TOKEN_2022_PROGRAM_ADDRESS,
+} from "@solana-program/token-2022";
+import { getAssociatedTokenAccountAddress } from "gill/programs/token";
+import { TOKEN_ACCOUNT_BASE_SIZE } from "./amount";
+import {
+  PreparedTransaction,
+  prepareTransaction,
+  TransactionOptions,
+} from "./transaction";
+
+// Base58 encoding of the single byte 2, the `Account` account type
+const ACCOUNT_TYPE_TOKEN = "3" as Base58EncodedBytes;
+
+/**
+ * Number of source accounts harvested per transaction. Each source adds 33 bytes
+ * to a legacy message, which keeps a batch well under the packet size limit.
+ */
+export const HARVEST_BATCH_SIZE = 26;
+
+/**
+ * Generates the instruction that schedules a new transfer fee. The fee takes effect
+ * two epochs after the instruction is executed.
+ * @param input Mint, fee authority and new fee parameters
+ * @returns Array containing the set transfer fee instruction
+ */
+export const getSetTransferFeeInstructions = (input: {
+  mint: Address;
+  authority: TransactionSigner<string>;
+  transferFeeBasisPoints: number;
+  maximumFee: bigint;
+}): IInstruction<string>[] => {
+  if (
+    !Number.isInteger(input.transferFeeBasisPoints) ||
+    input.transferFeeBasisPoints < 0 ||
+    input.transferFeeBasisPoints > 10_000
+  ) {
+    throw new Error(
+      `Transfer fee must be between 0 and 10000 basis points, got ${input.transferFeeBasisPoints}`,
+    );
+  }
+  return [
+    getSetTransferFeeInstruction({
+      mint: input.mint,
+      transferFeeConfigAuthority: input.authority,
+      transferFeeBasisPoints: input.transferFeeBasisPoints,
+      maximumFee: input.maximumFee,
+    }),
+  ];
+};
+
+/**
+ * Schedules a new transfer fee for a mint
+ * @param input Configuration including the fee authority and new fee parameters
+ * @param options Durable nonce and message options
+ * @returns Prepared transaction
+ */
+export const setTransferFee = async (
+  input: {
+    rpc: Rpc<SolanaRpcApi>;
+    mint: Address;
+    payer: TransactionSigner<string>;
+    authority: TransactionSigner<string>;
+    transferFeeBasisPoints: number;
+    maximumFee: bigint;
+  },
+  options: TransactionOptions = {},
+) => {
+  const instructions = getSetTransferFeeInstructions(input);
+  return prepareTransaction({
+    rpc: input.rpc,
+    feePayer: input.payer,
+    instructions,
+    summary: `Set the transfer fee of ${input.mint} to ${input.transferFeeBasisPoints} bps, capped at ${input.maximumFee} raw tokens`,
+    ...options,
+  });
+};
+
+/**
+ * Finds every token account of a mint that holds withheld transfer fees
+ * @param rpc RPC client for Solana network
+ * @param mint Address of the token mint
+ * @returns Token accounts with a non-zero withheld amount
+ */
+export const findWithheldFeeAccounts = async (
+  rpc: Rpc<SolanaRpcApi>,
+  mint: Address,
+) => {
+  const accounts = await rpc
+    .getProgramAccounts(TOKEN_2022_PROGRAM_ADDRESS, {
+      encoding: "base64",
+      filters: [
+        {
+          memcmp: {
+            offset: 0n,
+            bytes: mint as string as Base58EncodedBytes,
+            encoding: "base58",
+          },
+        },
+        {
+          memcmp: {
+            offset: BigInt(TOKEN_ACCOUNT_BASE_SIZE),
+            bytes: ACCOUNT_TYPE_TOKEN,
+            encoding: "base58",
+          },
+        },
+      ],
+    })
+    .send();
+
+  const decoder = getTokenDecoder();
+  const withheld: { address: Address; withheldAmount: bigint }[] = [];
+  for (const { pubkey, account } of accounts) {
+    const token = decoder.decode(getBase64Encoder().encode(account.data[0]));
+    if (token.extensions.__option === "None") {
+      continue;
+    }
+    for (const ext of token.extensions.value) {
+      if (ext.__kind === "TransferFeeAmount" && ext.withheldAmount > 0n) {
+        withheld.push({ address: pubkey, withheldAmount: ext.withheldAmount });
+      }
+    }
+  }
+  return withheld;
+};
+
+/**
+ * Generates harvest instructions that move withheld fees from token accounts to the mint
+ * @param mint Address of the token mint
+ * @param sources Token accounts holding withheld fees
+ * @param batchSize Number of source accounts per instruction
+ * @returns One harvest instruction per batch of source accounts
+ */
+export const getHarvestWithheldFeesInstructions = (
+  mint: Address,
+  sources: Address[],
+  batchSize = HARVEST_BATCH_SIZE,
+): IInstruction<string>[] => {
+  if (!Number.isInteger(batchSize) || batchSize < 1) {
+    throw new Error(
+      `Harvest batch size must be a positive integer, got ${batchSize}`,
+    );
+  }
+  const instructions: IInstruction<string>[] = [];
+  for (let i = 0; i < sources.length; i += batchSize) {
+    instructions.push(
+      getHarvestWithheldTokensToMintInstruction({
+        mint,
+        sources: sources.slice(i, i + batchSize),
+      }),
+    );
+  }
+  return instructions;
+};
+
+/**
+ * Generates instructions that withdraw the fees withheld in the mint to the
+ * associated token account of a destination wallet
+ * @param input Mint, withdraw authority, destination wallet and fee payer
+ * @returns Array of instructions creating the destination account if needed and withdrawing
+ */
+export const getWithdrawWithheldFeesInstructions = async (input: {
+  mint: Address;
+  payer: TransactionSigner<string>;
+  authority: TransactionSigner<string>;
+  destination: Address;
+}): Promise<IInstruction<string>[]> => {
+  const feeReceiver = await getAssociatedTokenAccountAddress(
+    input.mint,
+    input.destination,
+    TOKEN_2022_PROGRAM_ADDRESS,
+  );
+  return [
+    getCreateAssociatedTokenIdempotentInstruction({
+      payer: input.payer,
+      ata: feeReceiver,
+      mint: input.mint,
+      owner: input.destination,
+      tokenProgram: TOKEN_2022_PROGRAM_ADDRESS,
+    }),
+    getWithdrawWithheldTokensFromMintInstruction({
+      mint: input.mint,
+      feeReceiver,
+      withdrawWithheldAuthority: input.authority,
+    }),
+  ];
+};
+
+/**
+ * Builds the transactions that harvest all withheld fees of a mint and withdraw them.
+ * Harvest transactions only need the fee payer; the withdraw transaction must also be
+ * signed by the withdraw withheld authority and should run after every harvest landed.
+ * A durable nonce is only used by the withdraw transaction: the harvests are sent by
+ * the payer right away, and a nonce value can only be used once.
+ * @param input Configuration including the withdraw authority and destination wallet
+ * @param options Durable nonce and message options
+ * @returns Accounts found and a prepared transaction for each step
+ */
+export const harvestWithheldFees = async (
+  input: {
+    rpc: Rpc<SolanaRpcApi>;
+    mint: Address;
+    payer: TransactionSigner<string>;
+    authority: TransactionSigner<string>;
+    destination: Address;
+    batchSize?: number;
+  },
+  options: TransactionOptions = {},
+) => {
+  const accounts = await findWithheldFeeAccounts(input.rpc, input.mint);
+  const harvestInstructions = getHarvestWithheldFeesInstructions(
+    input.mint,
+    accounts.map((a) => a.address),
+    input.batchSize,
+  );
+  const withdrawInstructions = await getWithdrawWithheldFeesInstructions(input);
+
+  const { durableNonce, ...messageOptions } = options;
+  const harvestTransactions: PreparedTransaction[] = [];
+  for (const [i, ix] of harvestInstructions.entries()) {
+    harvestTransactions.push(
+      await prepareTransaction({
+        rpc: input.rpc,
+        feePayer: input.payer,
+        instructions: [ix],
+        summary: `Harvest withheld fees of ${input.mint} (batch ${i + 1} of ${harvestInstructions.length})`,
+        ...messageOptions,
+      }),
+    );
+  }
+  return {
+    accounts,
+    harvestTransactions,
+    withdrawTransaction: await prepareTransaction({
+      rpc: input.rpc,
+      feePayer: input.payer,
+      instructions: withdrawInstructions,
+      summary: `Withdraw withheld fees of ${input.mint} to ${input.destination}`,
+      durableNonce,
+      ...messageOptions,
+    }),
+  };
+};
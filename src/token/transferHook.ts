@@ -0,0 +1,277 @@
+/**
+ * This module resolves the extra accounts a transfer hook program requires, so
+ * transfers of mints with the TransferHook extension can be built without the hook's
+ * own client. It follows the spl-transfer-hook-interface `ExtraAccountMetaList` format.
+ */
+
+import {
+  Address,
+  AccountRole,
+  IAccountMeta,
+  ReadonlyUint8Array,
+  Rpc,
+  SolanaRpcApi,
+  fetchEncodedAccount,
+  getAddressDecoder,
+  getAddressEncoder,
+  getProgramDerivedAddress,
+  getU32Decoder,
+  getU64Encoder,
+} from "@solana/kit";
+import { SYSTEM_PROGRAM_ADDRESS } from "@solana-program/system";
+
+// First 8 bytes of sha256("spl-transfer-hook-interface:execute")
+const EXECUTE_DISCRIMINATOR = new Uint8Array([
+  105, 37, 101, 197, 75, 251, 102, 26,
+]);
+
+// Size of one ExtraAccountMeta: discriminator, 32-byte address config, two flags
+const EXTRA_ACCOUNT_META_SIZE = 35;
+
+// TLV header (8-byte discriminator, 4-byte length) followed by the u32 item count
+const EXTRA_ACCOUNT_META_LIST_HEADER_SIZE = 16;
+
+/**
+ * Derives the account holding the extra account metas of a mint
+ * @param mint Address of the token mint
+ * @param programId Address of the transfer hook program
+ * @returns Validation account address
+ */
+export const getExtraAccountMetasAddress = async (
+  mint: Address,
+  programId: Address,
+) => {
+  const [address] = await getProgramDerivedAddress({
+    programAddress: programId,
+    seeds: ["extra-account-metas", getAddressEncoder().encode(mint)],
+  });
+  return address;
+};
+
+/**
+ * Returns whether a TransferHook extension points at a program. A hook without a
+ * program is stored as the zero address.
+ * @param programId Program address stored in the extension
+ */
+export const isTransferHookSet = (programId: Address) =>
+  programId !== SYSTEM_PROGRAM_ADDRESS;
+
+const startsWith = (data: ReadonlyUint8Array, prefix: ReadonlyUint8Array) =>
+  data.length >= prefix.length && prefix.every((byte, i) => data[i] === byte);
+
+/**
+ * Resolves the seeds packed into an address config
+ * @param config 32-byte address config
+ * @param context Instruction data and accounts the seeds may refer to
+ * @returns Seed bytes
+ */
+const resolveSeeds = async (
+  config: ReadonlyUint8Array,
+  context: {
+    rpc: Rpc<SolanaRpcApi>;
+    data: ReadonlyUint8Array;
+    accounts: IAccountMeta[];
+  },
+) => {
+  const seeds: ReadonlyUint8Array[] = [];
+  let i = 0;
+  while (i < config.length && config[i] !== 0) {
+    switch (config[i]) {
+      case 1: {
+        // Literal: length, bytes
+        const length = config[i + 1];
+        seeds.push(config.slice(i + 2, i + 2 + length));
+        i += 2 + length;
+        break;
+      }
+      case 2: {
+        // Instruction data: index, length
+        const [index, length] = [config[i + 1], config[i + 2]];
+        if (index + length > context.data.length) {
+          throw new Error("Transfer hook seed reads past the instruction data");
+        }
+        seeds.push(context.data.slice(index, index + length));
+        i += 3;
+        break;
+      }
+      case 3: {
+        // Account key: account index
+        const account = context.accounts[config[i + 1]];
+        if (!account) {
+          throw new Error(
+            `Transfer hook seed refers to missing account ${config[i + 1]}`,
+          );
+        }
+        seeds.push(getAddressEncoder().encode(account.address));
+        i += 2;
+        break;
+      }
+      case 4: {
+        // Account data: account index, data index, length
+        const [accountIndex, dataIndex, length] = [
+          config[i + 1],
+          config[i + 2],
+          config[i + 3],
+        ];
+        seeds.push(
+          await readAccountData(context, accountIndex, dataIndex, length),
+        );
+        i += 4;
+        break;
+      }
+      default:
+        throw new Error(`Unsupported transfer hook seed type ${config[i]}`);
+    }
+  }
+  return seeds;
+};
+
+/**
+ * Reads a slice of the data of one of the accounts already resolved
+ */
+const readAccountData = async (
+  context: { rpc: Rpc<SolanaRpcApi>; accounts: IAccountMeta[] },
+  accountIndex: number,
+  dataIndex: number,
+  length: number,
+) => {
+  const meta = context.accounts[accountIndex];
+  if (!meta) {
+    throw new Error(
+      `Transfer hook seed refers to missing account ${accountIndex}`,
+    );
+  }
+  const account = await fetchEncodedAccount(context.rpc, meta.address);
+  if (!account.exists || dataIndex + length > account.data.length) {
+    throw new Error(
+      `Transfer hook seed reads past the data of account ${meta.address}`,
+    );
+  }
+  return account.data.slice(dataIndex, dataIndex + length);
+};
+
+/**
+ * Resolves one ExtraAccountMeta to an address
+ * @param discriminator How the address config is interpreted
+ * @param config 32-byte address config
+ * @param programId Address of the transfer hook program
+ * @param context Instruction data and accounts resolved so far
+ * @returns Resolved address
+ */
+const resolveExtraAccountAddress = async (
+  discriminator: number,
+  config: ReadonlyUint8Array,
+  programId: Address,
+  context: {
+    rpc: Rpc<SolanaRpcApi>;
+    data: ReadonlyUint8Array;
+    accounts: IAccountMeta[];
+  },
+): Promise<Address> => {
+  if (discriminator === 0) {
+    return getAddressDecoder().decode(config);
+  }
+  if (discriminator === 1 || discriminator >= 128) {
+    let programAddress = programId;
+    if (discriminator >= 128) {
+      const program = context.accounts[discriminator - 128];
+      if (!program) {
+        throw new Error(
+          `Transfer hook account refers to missing program account ${discriminator - 128}`,
+        );
+      }
+      programAddress = program.address;
+    }
+    const [address] = await getProgramDerivedAddress({
+      programAddress,
+      seeds: await resolveSeeds(config, context),
+    });
+    return address;
+  }
+  if (discriminator === 2) {
+    // Public key stored in instruction data (1) or account data (2)
+    if (config[0] === 1) {
+      return getAddressDecoder().decode(
+        context.data.slice(config[1], config[1] + 32),
+      );
+    }
+    if (config[0] === 2) {
+      return getAddressDecoder().decode(
+        await readAccountData(context, config[1], config[2], 32),
+      );
+    }
+  }
+  throw new Error(`Unsupported transfer hook account type ${discriminator}`);
+};
+
+/**
+ * Resolves the accounts to append to a TransferChecked instruction for a mint with a
+ * transfer hook: the extra accounts from the validation account, then the hook
+ * program and the validation account itself
+ * @param input Mint, hook program and the transfer being made
+ * @returns Account metas to append to the transfer instruction
+ */
+export const getTransferHookAccounts = async (input: {
+  rpc: Rpc<SolanaRpcApi>;
+  mint: Address;
+  programId: Address;
+  source: Address;
+  destination: Address;
+  authority: Address;
+  amount: bigint;
+}): Promise<IAccountMeta[]> => {
+  const validation = await getExtraAccountMetasAddress(
+    input.mint,
+    input.programId,
+  );
+  const account = await fetchEncodedAccount(input.rpc, validation);
+
+  // Accounts as the hook's Execute instruction sees them; seeds index into this list
+  const accounts: IAccountMeta[] = [
+    { address: input.source, role: AccountRole.READONLY },
+    { address: input.mint, role: AccountRole.READONLY },
+    { address: input.destination, role: AccountRole.READONLY },
+    { address: input.authority, role: AccountRole.READONLY },
+    { address: validation, role: AccountRole.READONLY },
+  ];
+  const extras: IAccountMeta[] = [];
+
+  if (account.exists) {
+    if (!startsWith(account.data, EXECUTE_DISCRIMINATOR)) {
+      throw new Error(
+        `${validation} is not a transfer hook extra account metas list`,
+      );
+    }
+    const data = new Uint8Array([
+      ...EXECUTE_DISCRIMINATOR,
+      ...getU64Encoder().encode(input.amount),
+    ]);
+    const count = getU32Decoder().decode(account.data, 12);
+    for (let i = 0; i < count; i++) {
+      const offset =
+        EXTRA_ACCOUNT_META_LIST_HEADER_SIZE + i * EXTRA_ACCOUNT_META_SIZE;
+      const meta = account.data.slice(offset, offset + EXTRA_ACCOUNT_META_SIZE);
+      const address = await resolveExtraAccountAddress(
+        meta[0],
+        meta.slice(1, 33),
+        input.programId,
+        { rpc: input.rpc, data, accounts },
+      );
+      const role = meta[33]
+        ? meta[34]
+          ? AccountRole.WRITABLE_SIGNER
+          : AccountRole.READONLY_SIGNER
+        : meta[34]
+          ? AccountRole.WRITABLE
+          : AccountRole.READONLY;
+      accounts.push({ address, role });
+      extras.push({ address, role });
+    }
+  }
+
+  return [
+    ...extras,
+    { address: input.programId, role: AccountRole.READONLY },
+    { address: validation, role: AccountRole.READONLY },
+  ];
+};
@@ -1,30 +1,24 @@
 import {
   AuthorityType,
   getSetAuthorityInstruction,
+  getUpdateTokenGroupUpdateAuthorityInstruction,
   getUpdateTokenMetadataUpdateAuthorityInstruction,
   TOKEN_2022_PROGRAM_ADDRESS,
 } from "@solana-program/token-2022";
 import {
   Address,
-  compileTransaction,
-  createNoopSigner,
-  getBase58Decoder,
   IInstruction,
   Rpc,
   SolanaRpcApi,
   TransactionSigner,
 } from "@solana/kit";
-import { createSolanaClient, createTransaction } from "gill";
+import { prepareTransaction, TransactionOptions } from "./transaction";
 
-const { rpc } = createSolanaClient({
-  urlOrMoniker: "devnet",
-});
-
-const getUpdateAuthorityInstructions = (input: {
+export const getUpdateAuthorityInstructions = (input: {
   mint: Address;
   role: string;
   currentAuthority: TransactionSigner<string>;
-  newAuthority: Address;
+  newAuthority: Address | null;
 }) => {
   let instructions: IInstruction<string>[] = [];
   let authorityType: AuthorityType;
@@ -42,6 +36,20 @@ const getUpdateAuthorityInstructions = (input: {
       ),
     ];
   }
+  if (input.role === "Group") {
+    return [
+      getUpdateTokenGroupUpdateAuthorityInstruction(
+        {
+          group: input.mint,
+          updateAuthority: input.currentAuthority,
+          newUpdateAuthority: input.newAuthority,
+        },
+        {
+          programAddress: TOKEN_2022_PROGRAM_ADDRESS,
+        }
+      ),
+    ];
+  }
   switch (input.role) {
     case "MintTokens":
       authorityType = AuthorityType.MintTokens;
@@ -103,7 +111,7 @@ const getUpdateAuthorityInstructions = (input: {
   instructions = [
     getSetAuthorityInstruction({
       owned: input.mint,
-      owner: input.currentAuthority.address,
+      owner: input.currentAuthority,
       newAuthority: input.newAuthority,
       authorityType,
     }),
@@ -111,50 +119,29 @@ const getUpdateAuthorityInstructions = (input: {
   return instructions;
 };
 
-const updateAuthority = async (input: {
-  rpc: Rpc<SolanaRpcApi>;
-  mint: Address;
-  role: string;
-  payer: TransactionSigner<string>;
-  currentAuthority: TransactionSigner<string>;
-  newAuthority: Address;
-}) => {
+export const updateAuthority = async (
+  input: {
+    rpc: Rpc<SolanaRpcApi>;
+    mint: Address;
+    role: string;
+    payer: TransactionSigner<string>;
+    currentAuthority: TransactionSigner<string>;
+    newAuthority: Address;
+  } & TransactionOptions
+) => {
   const instructions = getUpdateAuthorityInstructions({
     mint: input.mint,
     role: input.role,
     currentAuthority: input.currentAuthority,
     newAuthority: input.newAuthority,
   });
-  const { value: latestBlockhash } = await input.rpc
-    .getLatestBlockhash()
-    .send();
-  const tx = createTransaction({
+  return prepareTransaction({
+    rpc: input.rpc,
     feePayer: input.payer,
-    version: "legacy",
-    latestBlockhash,
     instructions,
+    summary: `Transfer the ${input.role} authority of ${input.mint} from ${input.currentAuthority.address} to ${input.newAuthority}`,
+    durableNonce: input.durableNonce,
+    version: input.version,
+    addressLookupTables: input.addressLookupTables
   });
-
-  const compiledTx = compileTransaction(tx);
-  return getBase58Decoder().decode(compiledTx.messageBytes);
 };
-
-(async () => {
-
-  const payer = "DmatrEXUzjvGRQeQAUwefktx78f5a8ZU2gTUvDv6Zmca";
-  const mint = "5cxLoRgCAcPUCwwnfqmbTKVEDeq2TCaDUN3Cej39QanB";
-  const currentAuthority = "8VGGybCZ4PRpJyJKD9NWTPcuprzJR4fkziWWWAhwg5fc";
-  const newAuthority = "8VGGybCZ4PRpJyJKD9NWTPcuprzJR4fkziWWWAhwg5fc";
-  const role = "ScaledUiAmount";
-
-  const tx = await updateAuthority({
-    rpc,
-    mint: mint as Address,
-    role,
-    payer: createNoopSigner(payer as Address),
-    currentAuthority: createNoopSigner(currentAuthority as Address),
-    newAuthority: newAuthority as Address,
-  });
-
-  console.log(tx);
-})();